@@ -4,6 +4,9 @@ import * as SplashScreen from "expo-splash-screen";
 import React, { useEffect } from "react";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { UserProvider } from "@/contexts/UserContext";
+import { CatalogProvider } from "@/contexts/CatalogContext";
+import { CartProvider } from "@/contexts/CartContext";
+import PaymentProvider from "@/components/PaymentProvider";
 import { StyleSheet } from "react-native";
 import { trpc, trpcReactClient } from "@/lib/trpc";
 
@@ -27,9 +30,13 @@ const RootLayoutNav = React.memo(() => {
       <Stack.Screen name="review" options={{ title: "Review Stickers", headerBackTitle: "Back" }} />
       <Stack.Screen name="checkout" options={{ title: "Checkout", headerBackTitle: "Back" }} />
       <Stack.Screen name="admin" options={{ title: "Admin Settings", headerBackTitle: "Back" }} />
+      <Stack.Screen name="orders" options={{ title: "Order History", headerBackTitle: "Back" }} />
+      <Stack.Screen name="order-tracking" options={{ title: "Order Details", headerBackTitle: "Back" }} />
       <Stack.Screen name="edit" options={{ headerShown: false }} />
       <Stack.Screen name="sticker-sheet" options={{ headerShown: false }} />
       <Stack.Screen name="sheet-size-selection" options={{ headerShown: false }} />
+      <Stack.Screen name="reset-password" options={{ title: "Reset Password", headerBackTitle: "Back" }} />
+      <Stack.Screen name="verify-email" options={{ title: "Verify Email", headerBackTitle: "Back" }} />
     </Stack>
   );
 });
@@ -53,9 +60,15 @@ const RootLayout = () => {
     <trpc.Provider client={trpcReactClient} queryClient={queryClient}>
       <QueryClientProvider client={queryClient}>
         <UserProvider>
-          <GestureHandlerRootView style={styles.container}>
-            <RootLayoutNav />
-          </GestureHandlerRootView>
+          <CatalogProvider>
+            <CartProvider>
+              <PaymentProvider>
+                <GestureHandlerRootView style={styles.container}>
+                  <RootLayoutNav />
+                </GestureHandlerRootView>
+              </PaymentProvider>
+            </CartProvider>
+          </CatalogProvider>
         </UserProvider>
       </QueryClientProvider>
     </trpc.Provider>
@@ -12,9 +12,12 @@ import {
   Alert,
   ActivityIndicator,
 } from "react-native";
-import { Settings, Save, RotateCcw, Sliders } from "lucide-react-native";
+import { Settings, Save, RotateCcw, Sliders, ShieldAlert, ChevronUp, ChevronDown } from "lucide-react-native";
+import { router } from "expo-router";
 import { neutralColors as colors } from "@/constants/colors";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import { trpcClient } from "@/lib/trpc";
+import { useUser } from "@/contexts/UserContext";
 import { StickerSettingsPanel, DEFAULT_SETTINGS as DEFAULT_STICKER_SETTINGS, StickerProcessingSettings } from "@/components/StickerSettingsPanel";
 
 const ADMIN_SETTINGS_KEY = '@admin_settings';
@@ -28,8 +31,15 @@ export interface AdminSettings {
   regenerationPrompt?: string;
   editPrompt?: string;
   editModel?: EditModel;
+  // Tried in order when editModel is failing or can't handle a request; unset means all others
+  fallbackModels?: EditModel[];
 }
 
+type ProviderInfo = Awaited<ReturnType<typeof trpcClient.generation.providers.query>>['providers'][number];
+type OrderSubmission = Awaited<ReturnType<typeof trpcClient.orders.submissions.query>>['submissions'][number];
+type PricedVariant = Awaited<ReturnType<typeof trpcClient.catalog.pricing.query>>['variants'][number];
+type PriceEdit = Pick<PricedVariant, 'kind' | 'size'> & { mode: 'retail' | 'margin'; value: string };
+
 const DEFAULT_INITIAL_GENERATION_PROMPT = 'Carefully analyze this photo and identify ALL prominent objects, people, animals, and distinctive elements. For each subject, create an accurate kiss-cut sticker design that closely matches the original appearance while optimizing for Printful printing. CRITICAL REQUIREMENTS: 1) COMPLETELY TRANSPARENT BACKGROUND - remove all background elements and make the background fully transparent (PNG format with alpha channel), 2) PRESERVE the exact colors, patterns, textures, and distinctive features of each subject from the original photo, 3) Maintain accurate proportions, poses, and spatial relationships between elements, 4) Keep recognizable details like facial features, clothing patterns, logos, text, or unique markings, 5) Use the actual color palette from the photo - do not change or stylize colors unless necessary for print quality, 6) Create clean vector-style edges with smooth curves around the subject, 7) CENTER the main subject PERFECTLY in the image frame with equal padding on all sides - the subject should be in the exact center both horizontally and vertically, 8) Add minimum 0.125 inch (3mm) bleed area around each design, 9) Avoid fine details smaller than 0.1 inch but preserve character-defining features, 10) Use bold, clear outlines while maintaining subject accuracy, 11) Ensure designs work at 3x3 inch minimum size, 12) Make the subject fill approximately 85-90% of the frame for optimal viewing and consistent sizing. The goal is photographic accuracy transformed into perfectly centered, transparent sticker format with the subject filling most of the frame.';
 
 const DEFAULT_REGENERATION_PROMPT = 'Create a completely new high-quality kiss-cut sticker design based on this description: "{{USER_PROMPT}}". IGNORE the white background image provided - this is just a placeholder. Create an entirely new design from scratch. REQUIREMENTS: 1) COMPLETELY TRANSPARENT BACKGROUND - no background elements, fully transparent PNG with alpha channel, 2) Design should be optimized for Printful kiss-cut sticker printing, 3) Use vibrant, bold colors that will print well, 4) Create clean vector-style artwork with smooth edges, 5) CENTER the main subject PERFECTLY in the image frame with equal padding on all sides - the subject should be in the exact center both horizontally and vertically, 6) Add minimum 0.125 inch (3mm) bleed area around the design, 7) Avoid fine details smaller than 0.1 inch, 8) Use bold, clear outlines, 9) Ensure design works at 3x3 inch minimum size, 10) Make it visually appealing and memorable as a sticker, 11) Focus on the main subject with no background elements, 12) Make the subject fill approximately 85-90% of the frame for optimal viewing and consistent sizing. Generate a completely original design based on the text description with transparent background, perfectly centered and filling most of the frame.';
@@ -44,21 +54,37 @@ const DEFAULT_SETTINGS: AdminSettings = {
   editModel: 'gpt-image-1-mini',
 };
 
+// Settings live on the backend; the AsyncStorage copy is only an offline fallback
 export async function getAdminSettings(): Promise<AdminSettings> {
+  try {
+    const remote = await trpcClient.settings.get.query();
+    await AsyncStorage.setItem(ADMIN_SETTINGS_KEY, JSON.stringify(remote));
+    return { ...DEFAULT_SETTINGS, ...remote };
+  } catch (error) {
+    console.error('Error loading admin settings from backend:', error);
+  }
   try {
     const stored = await AsyncStorage.getItem(ADMIN_SETTINGS_KEY);
     if (stored) {
       return { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
     }
   } catch (error) {
-    console.error('Error loading admin settings:', error);
+    console.error('Error loading cached admin settings:', error);
   }
   return DEFAULT_SETTINGS;
 }
 
 export async function saveAdminSettings(settings: AdminSettings): Promise<void> {
   try {
-    await AsyncStorage.setItem(ADMIN_SETTINGS_KEY, JSON.stringify(settings));
+    const { initialGenerationPrompt, regenerationPrompt, editPrompt, editModel, fallbackModels } = settings;
+    const saved = await trpcClient.settings.update.mutate({
+      initialGenerationPrompt,
+      regenerationPrompt,
+      editPrompt,
+      editModel,
+      fallbackModels,
+    });
+    await AsyncStorage.setItem(ADMIN_SETTINGS_KEY, JSON.stringify(saved));
   } catch (error) {
     console.error('Error saving admin settings:', error);
     throw error;
@@ -66,6 +92,33 @@ export async function saveAdminSettings(settings: AdminSettings): Promise<void>
 }
 
 export default function AdminSettings() {
+  const { user, isLoading } = useUser();
+
+  if (isLoading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (user?.role !== 'admin') {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ShieldAlert size={40} color={colors.text.secondary} />
+        <Text style={styles.deniedTitle}>Admins only</Text>
+        <Text style={styles.deniedText}>You don&apos;t have permission to view this page.</Text>
+        <TouchableOpacity style={styles.editButton} onPress={() => router.replace('/')}>
+          <Text style={styles.editButtonText}>Go Home</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return <AdminSettingsContent />;
+}
+
+function AdminSettingsContent() {
   const insets = useSafeAreaInsets();
   const [settings, setSettings] = useState<AdminSettings>(DEFAULT_SETTINGS);
   const [isSaving, setIsSaving] = useState<boolean>(false);
@@ -76,12 +129,164 @@ export default function AdminSettings() {
   const [selectedModel, setSelectedModel] = useState<EditModel>('gpt-image-1-mini');
   const [showStickerSettings, setShowStickerSettings] = useState<boolean>(false);
   const [stickerSettings, setStickerSettings] = useState<StickerProcessingSettings>(DEFAULT_STICKER_SETTINGS);
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+  const [submissions, setSubmissions] = useState<OrderSubmission[]>([]);
+  const [retryingOrderId, setRetryingOrderId] = useState<string | null>(null);
+  const [catalogVariants, setCatalogVariants] = useState<PricedVariant[]>([]);
+  const [catalogSyncedAt, setCatalogSyncedAt] = useState<string | undefined>(undefined);
+  const [editingPrice, setEditingPrice] = useState<PriceEdit | null>(null);
+  const [isSavingPrice, setIsSavingPrice] = useState<boolean>(false);
+  const [isSyncingCatalog, setIsSyncingCatalog] = useState<boolean>(false);
 
   useEffect(() => {
     loadSettings();
     loadStickerSettings();
+    loadProviders();
+    loadSubmissions();
+    loadCatalog();
   }, []);
 
+  const applyCatalog = (catalog: { variants: PricedVariant[]; syncedAt?: string }) => {
+    setCatalogVariants(catalog.variants);
+    setCatalogSyncedAt(catalog.syncedAt);
+  };
+
+  const loadCatalog = async () => {
+    try {
+      const catalog = await trpcClient.catalog.pricing.query();
+      setCatalogVariants(catalog.variants);
+      setCatalogSyncedAt(catalog.syncedAt);
+    } catch (error) {
+      console.error('Error loading catalog:', error);
+    }
+  };
+
+  const syncCatalog = async () => {
+    setIsSyncingCatalog(true);
+    try {
+      const result = await trpcClient.catalog.sync.mutate();
+      applyCatalog(result.catalog);
+    } catch (error: any) {
+      Alert.alert('Sync Failed', error?.message || 'Could not sync the Printful catalog.');
+    } finally {
+      setIsSyncingCatalog(false);
+    }
+  };
+
+  // Resetting clears both the fixed price and the margin, so the size goes back to its default
+  const savePrice = async (edit: PriceEdit, reset: boolean = false) => {
+    const amount = Number(edit.value);
+    if (!reset && (!edit.value.trim() || !Number.isFinite(amount) || amount < 0)) {
+      Alert.alert('Invalid Price', edit.mode === 'retail' ? 'Enter a price in dollars.' : 'Enter a margin in percent.');
+      return;
+    }
+    setIsSavingPrice(true);
+    try {
+      const catalog = await trpcClient.catalog.setPrice.mutate({
+        kind: edit.kind,
+        size: edit.size,
+        retailPrice: !reset && edit.mode === 'retail' ? Math.round(amount * 100) : null,
+        marginPercent: !reset && edit.mode === 'margin' ? Math.round(amount) : null,
+      });
+      applyCatalog(catalog);
+      setEditingPrice(null);
+    } catch (error: any) {
+      Alert.alert('Save Failed', error?.message || 'Could not save this price.');
+    } finally {
+      setIsSavingPrice(false);
+    }
+  };
+
+  const describePrice = (variant: PricedVariant): string => {
+    const parts = [`$${(variant.price / 100).toFixed(2)}`];
+    if (variant.priceSource === 'retail') parts.push('fixed price');
+    else if (variant.priceSource === 'margin') parts.push(`${variant.marginPercent}% margin`);
+    else parts.push('default price');
+    if (variant.baseCost !== undefined) parts.push(`cost $${(variant.baseCost / 100).toFixed(2)}`);
+    if (!variant.available) parts.push('out of stock');
+    return parts.join(' • ');
+  };
+
+  const loadSubmissions = async () => {
+    try {
+      const result = await trpcClient.orders.submissions.query();
+      setSubmissions(result.submissions);
+    } catch (error) {
+      console.error('Error loading order submissions:', error);
+    }
+  };
+
+  const retrySubmission = async (orderId: string) => {
+    setRetryingOrderId(orderId);
+    try {
+      await trpcClient.orders.retry.mutate({ orderId });
+      await loadSubmissions();
+    } catch (error: any) {
+      Alert.alert('Retry Failed', error?.message || 'Could not retry this order.');
+    } finally {
+      setRetryingOrderId(null);
+    }
+  };
+
+  const describeSubmission = (submission: OrderSubmission): string => {
+    if (submission.status === 'dead') return `Failed after ${submission.attempts} attempt${submission.attempts === 1 ? '' : 's'}`;
+    if (submission.status === 'running') return 'Submitting now';
+    if (submission.attempts === 0) return 'Waiting to submit';
+    const next = submission.nextAttemptAt ? new Date(submission.nextAttemptAt).toLocaleTimeString() : 'soon';
+    return `Attempt ${submission.attempts} failed, retrying at ${next}`;
+  };
+
+  const loadProviders = async () => {
+    try {
+      const result = await trpcClient.generation.providers.query();
+      setProviders(result.providers);
+    } catch (error) {
+      console.error('Error loading model providers:', error);
+    }
+  };
+
+  // Enabled fallbacks in order, followed by the disabled ones
+  const fallbackOrder: EditModel[] = settings.fallbackModels
+    ?? providers.map(p => p.id).filter(id => id !== selectedModel);
+  const fallbackRows = [
+    ...fallbackOrder.filter(id => id !== selectedModel),
+    ...providers.map(p => p.id).filter(id => id !== selectedModel && !fallbackOrder.includes(id)),
+  ];
+
+  const updateFallbackModels = async (next: EditModel[]) => {
+    const updatedSettings = { ...settings, fallbackModels: next };
+    setSettings(updatedSettings);
+    try {
+      await saveAdminSettings(updatedSettings);
+    } catch {
+      Alert.alert('Error', 'Failed to save fallback order');
+      loadSettings();
+    }
+  };
+
+  const toggleFallback = (id: EditModel) => {
+    const enabled = fallbackOrder.filter(m => m !== selectedModel);
+    updateFallbackModels(enabled.includes(id) ? enabled.filter(m => m !== id) : [...enabled, id]);
+  };
+
+  const moveFallback = (id: EditModel, direction: -1 | 1) => {
+    const enabled = fallbackOrder.filter(m => m !== selectedModel);
+    const index = enabled.indexOf(id);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= enabled.length) return;
+    const next = [...enabled];
+    [next[index], next[target]] = [next[target], next[index]];
+    updateFallbackModels(next);
+  };
+
+  const describeHealth = (provider: ProviderInfo | undefined): string => {
+    if (!provider) return '';
+    if (!provider.configured) return 'Not configured on the server';
+    if (provider.circuit.state === 'open') return 'Temporarily skipped after repeated failures';
+    if (provider.circuit.state === 'half-open') return 'Recovering - next request is a trial';
+    return 'Healthy';
+  };
+
   const loadSettings = async () => {
     const loaded = await getAdminSettings();
     setSettings(loaded);
@@ -498,6 +703,181 @@ export default function AdminSettings() {
               </TouchableOpacity>
             </View>
           </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Fallback Order</Text>
+            <Text style={styles.helpText}>
+              If the selected model is failing or can&apos;t handle a request, these models are tried next, top to bottom. Tap a model to enable or disable it.
+            </Text>
+
+            <View style={styles.modelSelectionContainer}>
+              {fallbackRows.map((id) => {
+                const provider = providers.find(p => p.id === id);
+                const enabledIndex = fallbackOrder.filter(m => m !== selectedModel).indexOf(id);
+                const enabled = enabledIndex >= 0;
+                return (
+                  <TouchableOpacity
+                    key={id}
+                    style={[styles.modelOption, enabled && styles.modelOptionSelected, !enabled && styles.fallbackDisabled]}
+                    onPress={() => toggleFallback(id)}
+                  >
+                    <View style={styles.modelOptionContent}>
+                      <Text style={styles.modelOptionTitle}>
+                        {enabled ? `${enabledIndex + 1}. ` : ''}{provider?.label ?? id}
+                      </Text>
+                      <Text style={styles.modelOptionDescription}>
+                        {enabled ? describeHealth(provider) : 'Disabled'}
+                      </Text>
+                    </View>
+                    {enabled && (
+                      <View style={styles.fallbackControls}>
+                        <TouchableOpacity onPress={() => moveFallback(id, -1)} style={styles.fallbackMoveButton}>
+                          <ChevronUp size={18} color={colors.text.secondary} />
+                        </TouchableOpacity>
+                        <TouchableOpacity onPress={() => moveFallback(id, 1)} style={styles.fallbackMoveButton}>
+                          <ChevronDown size={18} color={colors.text.secondary} />
+                        </TouchableOpacity>
+                      </View>
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Product Pricing</Text>
+            <Text style={styles.helpText}>
+              Sizes and base costs come from the Printful catalog{catalogSyncedAt ? `, last synced ${new Date(catalogSyncedAt).toLocaleString()}` : ''}. Give each size a fixed price or a margin over its base cost.
+            </Text>
+            <TouchableOpacity style={styles.editButton} onPress={syncCatalog} disabled={isSyncingCatalog}>
+              {isSyncingCatalog ? (
+                <ActivityIndicator size="small" color={colors.white} />
+              ) : (
+                <Text style={styles.editButtonText}>Sync Now</Text>
+              )}
+            </TouchableOpacity>
+
+            <View style={styles.modelSelectionContainer}>
+              {catalogVariants.map((variant) => {
+                const isEditing = editingPrice?.kind === variant.kind && editingPrice.size === variant.size;
+                return (
+                  <View key={`${variant.kind}-${variant.size}`} style={styles.modelOption}>
+                    <View style={styles.modelOptionContent}>
+                      <Text style={styles.modelOptionTitle}>{variant.productName} • {variant.sizeLabel}</Text>
+                      <Text style={styles.modelOptionDescription}>{describePrice(variant)}</Text>
+                      {isEditing && editingPrice && (
+                        <View style={styles.priceEditor}>
+                          <View style={styles.priceModes}>
+                            {(['retail', 'margin'] as const).map((mode) => (
+                              <TouchableOpacity
+                                key={mode}
+                                style={[styles.priceMode, editingPrice.mode === mode && styles.priceModeSelected]}
+                                onPress={() => setEditingPrice({ ...editingPrice, mode, value: '' })}
+                              >
+                                <Text style={styles.modelOptionDescription}>
+                                  {mode === 'retail' ? 'Price ($)' : 'Margin (%)'}
+                                </Text>
+                              </TouchableOpacity>
+                            ))}
+                          </View>
+                          <TextInput
+                            style={styles.priceInput}
+                            value={editingPrice.value}
+                            onChangeText={(text) => setEditingPrice({ ...editingPrice, value: text })}
+                            keyboardType="decimal-pad"
+                            placeholder={editingPrice.mode === 'retail' ? '12.99' : '80'}
+                            placeholderTextColor={colors.text.tertiary}
+                          />
+                          <View style={styles.promptActions}>
+                            <TouchableOpacity
+                              style={styles.cancelButton}
+                              onPress={() => savePrice(editingPrice, true)}
+                              disabled={isSavingPrice}
+                            >
+                              <Text style={styles.cancelButtonText}>Use Default</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity style={styles.cancelButton} onPress={() => setEditingPrice(null)}>
+                              <Text style={styles.cancelButtonText}>Cancel</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                              style={styles.saveButton}
+                              onPress={() => savePrice(editingPrice)}
+                              disabled={isSavingPrice}
+                            >
+                              {isSavingPrice ? (
+                                <ActivityIndicator size="small" color={colors.white} />
+                              ) : (
+                                <>
+                                  <Save size={16} color={colors.white} />
+                                  <Text style={styles.saveButtonText}>Save</Text>
+                                </>
+                              )}
+                            </TouchableOpacity>
+                          </View>
+                        </View>
+                      )}
+                    </View>
+                    {!isEditing && (
+                      <TouchableOpacity
+                        style={styles.editButton}
+                        onPress={() => setEditingPrice({
+                          kind: variant.kind,
+                          size: variant.size,
+                          mode: variant.priceSource === 'margin' ? 'margin' : 'retail',
+                          value: variant.priceSource === 'margin'
+                            ? String(variant.marginPercent)
+                            : (variant.price / 100).toFixed(2),
+                        })}
+                      >
+                        <Text style={styles.editButtonText}>Edit</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                );
+              })}
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Order Fulfillment</Text>
+            <Text style={styles.helpText}>
+              Paid orders waiting to reach Printful. Failed submissions are retried automatically; orders that run out of attempts stay here until retried.
+            </Text>
+
+            <View style={styles.modelSelectionContainer}>
+              {submissions.length === 0 ? (
+                <Text style={styles.modelOptionDescription}>All paid orders have been submitted.</Text>
+              ) : submissions.map((submission) => (
+                <View key={submission.order.id} style={styles.modelOption}>
+                  <View style={styles.modelOptionContent}>
+                    <Text style={styles.modelOptionTitle}>
+                      {submission.order.id.slice(0, 8)} • {submission.order.recipient.name}
+                    </Text>
+                    <Text style={styles.modelOptionDescription}>
+                      {submission.order.status} • {describeSubmission(submission)}
+                    </Text>
+                    {submission.lastError && (
+                      <Text style={[styles.modelOptionDescription, styles.submissionError]}>{submission.lastError}</Text>
+                    )}
+                  </View>
+                  {submission.status === 'dead' && (
+                    <TouchableOpacity
+                      style={styles.editButton}
+                      onPress={() => retrySubmission(submission.order.id)}
+                      disabled={retryingOrderId !== null}
+                    >
+                      {retryingOrderId === submission.order.id ? (
+                        <ActivityIndicator size="small" color={colors.white} />
+                      ) : (
+                        <Text style={styles.editButtonText}>Retry</Text>
+                      )}
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ))}
+            </View>
+          </View>
         </ScrollView>
       </KeyboardAvoidingView>
 
@@ -517,6 +897,23 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: colors.background,
   },
+  centered: {
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 20,
+    gap: 12,
+  },
+  deniedTitle: {
+    fontSize: 20,
+    fontWeight: "600" as const,
+    color: colors.text.primary,
+  },
+  deniedText: {
+    fontSize: 14,
+    color: colors.text.secondary,
+    textAlign: "center",
+    marginBottom: 8,
+  },
   scrollContent: {
     padding: 20,
     paddingBottom: 40,
@@ -685,6 +1082,49 @@ const styles = StyleSheet.create({
   modelOptionContent: {
     flex: 1,
   },
+  fallbackDisabled: {
+    opacity: 0.6,
+  },
+  fallbackControls: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  fallbackMoveButton: {
+    padding: 6,
+  },
+  submissionError: {
+    color: colors.error,
+    marginTop: 4,
+  },
+  priceEditor: {
+    marginTop: 12,
+    gap: 8,
+  },
+  priceModes: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  priceMode: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  priceModeSelected: {
+    borderColor: colors.primary,
+    backgroundColor: colors.white,
+  },
+  priceInput: {
+    fontSize: 15,
+    color: colors.text.primary,
+    backgroundColor: colors.white,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
   modelOptionTitle: {
     fontSize: 16,
     fontWeight: '600' as const,
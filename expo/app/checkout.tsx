@@ -4,328 +4,353 @@ import {
   Text,
   StyleSheet,
   TouchableOpacity,
-  Image,
   ScrollView,
   TextInput,
   Alert,
   ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { CreditCard, MapPin, User, Package, Smartphone, Lock, ArrowRight } from 'lucide-react-native';
+import { MapPin, User, Package, Smartphone, Lock, ArrowRight, Truck, Tag, X } from 'lucide-react-native';
 import { neutralColors } from '@/constants/colors';
-import { useLocalSearchParams, router } from 'expo-router';
-import { useUser } from '@/contexts/UserContext';
+import { router } from 'expo-router';
+import { useCart, type CartItem } from '@/contexts/CartContext';
+import { useCatalog } from '@/contexts/CatalogContext';
 
-import { printfulService } from '@/services/printful';
-import { PRINTFUL_PRODUCTS } from '@/constants/printful';
-import { stripeService } from '@/services/stripe';
-import StickerSheetPreview from '@/components/StickerSheetPreview';
+import { stripeService, type PaymentLine } from '@/services/stripe';
+import { shippingService, type ShippingDestination, type ShippingRate } from '@/services/shipping';
+import { trpcClient } from '@/lib/trpc';
+import { usePaymentSheet } from '@/utils/paymentSheet';
+import { createIdempotencyKey, placeOrder, uploadPrintFiles, type PlacedOrder } from '@/utils/orders';
+import CartItemRow from '@/components/CartItemRow';
+import SelectField from '@/components/SelectField';
+import { DEFAULT_COUNTRY_CODE, SHIPPING_COUNTRIES, getShippingCountry, validateAddress } from '@/constants/countries';
 
 type OrderSummary = {
-  stickerPack: number;
+  subtotal: number;
+  // Promo discount off the stickers or shipping
+  discount: number;
+  // Zero until a shipping method has been quoted and chosen
   shipping: number;
   tax: number;
   total: number;
 };
 
-type StickerVariant = {
-  id: string;
-  size: string;
-  price: number;
-};
+type AppliedPromo = Awaited<ReturnType<typeof trpcClient.orders.applyPromo.mutate>>['promo'];
+
+// Wait for typing to settle before asking the backend for rates
+const RATES_DEBOUNCE_MS = 600;
 
 export default function CheckoutScreen() {
-  const params = useLocalSearchParams();
-  const { getStickerById } = useUser();
-  const { 
-    stickerId,
-    finalStickers: directFinalStickers, 
-    isReorder, 
-    isStickerSheet, 
-    stickerCount: stickerCountParam,
-    originalImage: directOriginalImage,
-    sheetSize: sheetSizeParam,
-    isMultiStickerSheet,
-  } = params as {
-    stickerId?: string;
-    originalImage?: string;
-    finalStickers?: string;
-    isReorder?: string;
-    isStickerSheet?: string;
-    stickerCount?: string;
-    sheetSize?: string;
-    isMultiStickerSheet?: string;
-  };
-  
-  const isReorderFlow = isReorder === 'true';
-  const isStickerSheetFlow = isStickerSheet === 'true' || isMultiStickerSheet === 'true';
-  const sheetSize = (sheetSizeParam || '4x4') as '3x3' | '4x4' | '5.5x5.5';
-  
-  // Get sticker count from params for sticker sheets
-  const stickerCount = isStickerSheetFlow ? parseInt(stickerCountParam || '1', 10) : 1;
-  
-  // State for loaded sticker data - initialize immediately if available
-  const [finalStickers, setFinalStickers] = useState<string>(directFinalStickers || '');
-  // Only show loading if we have a stickerId but no direct data
-  const [isLoadingSticker, setIsLoadingSticker] = useState<boolean>(!!stickerId && !directFinalStickers);
+  const { items: cartItems, isLoading: isLoadingCart, updateQuantity, updateProduct, removeItem, clearCart } = useCart();
+  const { priceOf, refresh: refreshCatalog } = useCatalog();
 
   const [customerInfo, setCustomerInfo] = useState({
     name: '',
     email: '',
     phone: '',
+    company: '',
     address: '',
+    address2: '',
     city: '',
+    countryCode: DEFAULT_COUNTRY_CODE,
+    stateCode: '',
     zipCode: '',
   });
 
-  const [paymentMethod, setPaymentMethod] = useState<'stripe' | 'manual'>('stripe');
-  const [paymentInfo, setPaymentInfo] = useState({
-    cardNumber: '',
-    expiryDate: '',
-    cvv: '',
-    cardholderName: '',
-  });
+  const presentPaymentSheet = usePaymentSheet();
 
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
   const [processingStep, setProcessingStep] = useState<string>('');
-  const [selectedVariant, setSelectedVariant] = useState<string>('3x3');
+  const [shippingRates, setShippingRates] = useState<ShippingRate[]>([]);
+  const [ratesDestination, setRatesDestination] = useState<ShippingDestination | null>(null);
+  const [selectedRateId, setSelectedRateId] = useState<string | null>(null);
+  const [isLoadingRates, setIsLoadingRates] = useState<boolean>(false);
+  const [ratesError, setRatesError] = useState<string | null>(null);
+  const [promoInput, setPromoInput] = useState<string>('');
+  const [appliedPromo, setAppliedPromo] = useState<AppliedPromo | null>(null);
+  const [isApplyingPromo, setIsApplyingPromo] = useState<boolean>(false);
+  const [promoError, setPromoError] = useState<string | null>(null);
   const [orderSummary, setOrderSummary] = useState<OrderSummary>({
-    stickerPack: 4.50,
-    shipping: 4.99,
-    tax: 2.39,
-    total: 11.88,
+    subtotal: 0,
+    discount: 0,
+    shipping: 0,
+    tax: 0,
+    total: 0,
   });
   
-  // Load sticker data if using stickerId and not already loaded
+  const paymentLines: PaymentLine[] = useMemo(
+    () => cartItems.map(item => ({ product: item.product, quantity: item.quantity })),
+    [cartItems]
+  );
+  const itemCount = paymentLines.reduce((sum, line) => sum + line.quantity, 0);
+
+  // Prices can change on the server; show the ones the payment will be charged at
   useEffect(() => {
-    // Skip if we already have the data directly passed
-    if (directFinalStickers) {
-      setIsLoadingSticker(false);
+    refreshCatalog();
+  }, [refreshCatalog]);
+
+  const selectedRate = useMemo(
+    () => shippingRates.find(rate => rate.id === selectedRateId) ?? null,
+    [shippingRates, selectedRateId]
+  );
+
+  const country = getShippingCountry(customerInfo.countryCode) ?? SHIPPING_COUNTRIES[0];
+  const countryOptions = useMemo(
+    () => SHIPPING_COUNTRIES.map(option => ({ value: option.code, label: option.name })),
+    []
+  );
+  const regionOptions = useMemo(
+    () => country.region?.options?.map(option => ({ value: option.code, label: option.name })),
+    [country]
+  );
+
+  // Country-specific rules (state/province, postal code format); the backend applies the same ones
+  const { countryCode } = customerInfo;
+  const stateCode = customerInfo.stateCode.trim();
+  const zipCode = customerInfo.zipCode.trim();
+  const addressErrors = useMemo(
+    () => validateAddress({ countryCode, stateCode, zip: zipCode }),
+    [countryCode, stateCode, zipCode]
+  );
+  const isDestinationComplete = Object.keys(addressErrors).length === 0;
+
+  // Re-quote shipping whenever the destination or product changes
+  useEffect(() => {
+    if (!isDestinationComplete || paymentLines.length === 0) {
+      setShippingRates([]);
+      setRatesDestination(null);
+      setRatesError(null);
       return;
     }
-    
-    // Only load if we have a stickerId but no direct data
-    if (stickerId && !directFinalStickers && getStickerById) {
-      const loadSticker = async () => {
-        try {
-          const sticker = await getStickerById(stickerId);
-          if (sticker) {
-            setFinalStickers(sticker.stickerImage);
-          } else {
-            Alert.alert('Error', 'Sticker not found');
-            router.back();
-          }
-        } catch (error) {
-          console.error('Error loading sticker:', error);
-          Alert.alert('Error', 'Failed to load sticker data');
-          router.back();
-        } finally {
-          setIsLoadingSticker(false);
-        }
-      };
-      loadSticker();
-    } else if (!stickerId && !directFinalStickers) {
-      // No data available at all
-      setIsLoadingSticker(false);
-    }
-  }, [stickerId, getStickerById, directFinalStickers]);
-
-  const availableVariants: StickerVariant[] = useMemo(() => 
-    Object.entries(PRINTFUL_PRODUCTS.INDIVIDUAL_KISS_CUT_STICKERS.variants).map(
-      ([key, variant]) => ({
-        id: key,
-        size: variant.size,
-        price: variant.price,
-      })
-    ), []
-  );
 
-  const calculatedOrderSummary = useMemo(() => {
-    if (isStickerSheetFlow) {
-      const variant = PRINTFUL_PRODUCTS.KISS_CUT_STICKER_SHEET.variants[sheetSize as keyof typeof PRINTFUL_PRODUCTS.KISS_CUT_STICKER_SHEET.variants];
-      const sheetPrice = variant.price;
-      const tax = sheetPrice * 0.08;
-      return {
-        stickerPack: sheetPrice,
-        shipping: 4.99,
-        tax: tax,
-        total: sheetPrice + 4.99 + tax,
-      };
-    } else {
-      const variant = PRINTFUL_PRODUCTS.INDIVIDUAL_KISS_CUT_STICKERS.variants[selectedVariant as keyof typeof PRINTFUL_PRODUCTS.INDIVIDUAL_KISS_CUT_STICKERS.variants];
-      return {
-        stickerPack: variant.price,
-        shipping: 4.99,
-        tax: 2.39,
-        total: variant.price + 4.99 + 2.39,
-      };
+    let cancelled = false;
+    const destination: ShippingDestination = {
+      countryCode,
+      stateCode: stateCode || undefined,
+      zip: zipCode,
+    };
+    const timer = setTimeout(async () => {
+      setIsLoadingRates(true);
+      try {
+        const rates = await shippingService.getRates(destination, paymentLines);
+        if (cancelled) return;
+        setShippingRates(rates);
+        setRatesDestination(destination);
+        setRatesError(null);
+        // Keep the customer's choice if it is still offered, otherwise default to the cheapest
+        setSelectedRateId(current => (rates.some(rate => rate.id === current) ? current : rates[0]?.id ?? null));
+      } catch (error: any) {
+        if (cancelled) return;
+        console.error('Error fetching shipping rates:', error);
+        setShippingRates([]);
+        setRatesDestination(null);
+        setRatesError(error?.message || 'Could not load shipping options for this address.');
+      } finally {
+        if (!cancelled) setIsLoadingRates(false);
+      }
+    }, RATES_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isDestinationComplete, countryCode, stateCode, zipCode, paymentLines]);
+
+  const calculatedOrderSummary = useMemo((): OrderSummary => {
+    const shipping = selectedRate ? selectedRate.amount / 100 : 0;
+    let subtotal = 0;
+    let sheetSubtotal = 0;
+    for (const line of paymentLines) {
+      const amount = priceOf(line.product) * line.quantity;
+      subtotal += amount;
+      if (line.product.kind === 'sheet') sheetSubtotal += amount;
     }
-  }, [selectedVariant, isStickerSheetFlow, sheetSize]);
+
+    // Mirrors the server's pricing; the payment is always created from the server's figures
+    let discount = 0;
+    if (appliedPromo?.kind === 'percent') discount = Math.round(subtotal * appliedPromo.value) / 100;
+    else if (appliedPromo?.kind === 'fixed') discount = Math.min(appliedPromo.value / 100, subtotal);
+    else if (appliedPromo?.kind === 'free_shipping') discount = shipping;
+
+    // Sheets are taxed after their share of money off; individual stickers carry a flat tax
+    const merchandiseDiscount = appliedPromo?.kind === 'free_shipping' || subtotal === 0 ? 0 : discount;
+    const sheetDiscount = subtotal > 0 ? Math.round(merchandiseDiscount * sheetSubtotal / subtotal * 100) / 100 : 0;
+    const hasIndividual = paymentLines.some(line => line.product.kind === 'individual');
+    const tax = Math.round((sheetSubtotal - sheetDiscount) * 8) / 100 + (hasIndividual ? 2.39 : 0);
+    return {
+      subtotal,
+      discount,
+      shipping,
+      tax,
+      total: subtotal - discount + shipping + tax,
+    };
+  }, [paymentLines, priceOf, selectedRate, appliedPromo]);
 
   useEffect(() => {
     setOrderSummary(calculatedOrderSummary);
   }, [calculatedOrderSummary]);
 
-  const validateForm = useCallback((): boolean => {
+  const applyPromoCode = useCallback(async () => {
+    const code = promoInput.trim();
+    if (!code) return;
+
+    setIsApplyingPromo(true);
+    setPromoError(null);
+    try {
+      const result = await trpcClient.orders.applyPromo.mutate({
+        code,
+        items: paymentLines,
+        shipping: selectedRate && ratesDestination
+          ? { rateId: selectedRate.id, destination: ratesDestination }
+          : undefined,
+      });
+      console.log('[checkout] Promo code applied:', result.promo.code);
+      setAppliedPromo(result.promo);
+      setPromoInput('');
+    } catch (error: any) {
+      setPromoError(error?.message || 'Could not apply that promo code.');
+    } finally {
+      setIsApplyingPromo(false);
+    }
+  }, [promoInput, paymentLines, selectedRate, ratesDestination]);
+
+  const removePromoCode = useCallback(() => {
+    setAppliedPromo(null);
+    setPromoError(null);
+  }, []);
+
+  // Returns what is wrong with the form, or null when it can be submitted
+  const validateForm = useCallback((): string | null => {
     const customerFields = [
       customerInfo.name,
       customerInfo.email,
       customerInfo.address,
       customerInfo.city,
-      customerInfo.zipCode,
     ];
-
-    const customerValid = customerFields.every(field => field.trim() !== '');
-    
-    if (paymentMethod === 'manual') {
-      const paymentFields = [
-        paymentInfo.cardNumber,
-        paymentInfo.expiryDate,
-        paymentInfo.cvv,
-        paymentInfo.cardholderName,
-      ];
-      return customerValid && paymentFields.every(field => field.trim() !== '');
+    if (!customerFields.every(field => field.trim() !== '')) {
+      return 'Please fill in all required fields.';
     }
-    
-    return customerValid;
-  }, [customerInfo, paymentMethod, paymentInfo]);
+    return Object.values(addressErrors)[0] ?? null;
+  }, [customerInfo, addressErrors]);
 
-  const processStripePayment = useCallback(async () => {
-    try {
-      console.log('Processing Stripe payment...');
-      
-      // Create payment intent - instant response
-      const paymentIntent = await stripeService.createMockPaymentIntent({
-        amount: stripeService.formatAmountForStripe(orderSummary.total),
-        currency: 'usd',
-        customerInfo,
-        metadata: {
-          stickerVariant: selectedVariant,
-          orderType: 'kiss-cut-stickers',
-        },
-      });
+  const processStripePayment = useCallback(async (
+    rate: ShippingRate,
+    destination: ShippingDestination,
+    createOrderForPayment: (paymentIntentId: string) => Promise<PlacedOrder>
+  ) => {
+    console.log('Processing Stripe payment...');
 
-      console.log('Payment intent created:', paymentIntent.paymentIntentId);
-      
-      return {
-        success: true,
-        paymentIntentId: paymentIntent.paymentIntentId,
-      };
-    } catch (error) {
-      console.error('Stripe payment failed:', error);
-      throw new Error('Payment processing failed');
+    // The server prices the order; the sheet collects card details directly with Stripe
+    const paymentIntent = await stripeService.createPaymentIntent({
+      items: paymentLines,
+      shipping: { rateId: rate.id, destination },
+      receiptEmail: customerInfo.email.trim() || undefined,
+      promoCode: appliedPromo?.code,
+    });
+
+    // The order exists before the customer pays, so the server can fulfill it even if the app dies
+    const order = await createOrderForPayment(paymentIntent.paymentIntentId);
+
+    const sheetResult = await presentPaymentSheet(paymentIntent.clientSecret, {
+      name: customerInfo.name,
+      email: customerInfo.email,
+      phone: customerInfo.phone || undefined,
+    });
+    if (sheetResult.status === 'canceled') {
+      return { success: false, canceled: true, paymentIntentId: paymentIntent.paymentIntentId, order };
     }
-  }, [orderSummary.total, customerInfo, selectedVariant]);
+    if (sheetResult.status === 'failed') {
+      throw new Error(`Payment failed: ${sheetResult.message}`);
+    }
+
+    const status = await stripeService.waitForPayment(paymentIntent.paymentIntentId);
+    console.log('Payment status:', status);
+    if (status !== 'succeeded' && status !== 'processing') {
+      throw new Error('Payment was not completed');
+    }
+
+    return {
+      success: true,
+      canceled: false,
+      paymentIntentId: paymentIntent.paymentIntentId,
+      order,
+    };
+  }, [customerInfo, paymentLines, presentPaymentSheet, appliedPromo]);
 
   const processOrder = useCallback(async () => {
-    if (!validateForm()) {
-      Alert.alert('Missing Information', 'Please fill in all required fields.');
+    if (cartItems.length === 0) {
+      Alert.alert('Empty Cart', 'Add some stickers to your cart first.');
+      return;
+    }
+    const formError = validateForm();
+    if (formError) {
+      Alert.alert('Missing Information', formError);
+      return;
+    }
+    if (!selectedRate || !ratesDestination || isLoadingRates) {
+      Alert.alert('Shipping Method', ratesError ?? 'Please choose a shipping method for your address.');
       return;
     }
 
     setIsProcessing(true);
     console.log('Processing order...');
 
+    // The cart can change while the payment sheet is open; the order is for what was priced
+    const orderedItems: CartItem[] = cartItems;
+    // Reused by every retry of this attempt's order request, so at most one order is created
+    const idempotencyKey = createIdempotencyKey();
+
     try {
-      // Extract base64 data early to avoid blocking
-      const base64Data = finalStickers.includes(',') ? finalStickers.split(',')[1] : finalStickers;
-      
-      setProcessingStep('Processing your order...');
-      
-      // Run all operations in parallel for maximum speed
-      let uploadResult;
-      let paymentResult;
-      
-      // Create a race condition between upload and timeout - very short timeout for instant response
-      const uploadWithTimeout = async () => {
-        return Promise.race([
-          // Try to upload with 0.5 second timeout for instant fallback
-          printfulService.uploadImage(
-            base64Data,
-            `sticker-design-${Date.now()}.png`
-          ),
-          // Fallback after 0.5 seconds for instant response
-          new Promise<{ id: number; url: string }>((resolve) => {
-            setTimeout(() => {
-              console.log('Upload timeout, using base64 fallback');
-              resolve({
-                id: Math.floor(Math.random() * 10000),
-                url: finalStickers
-              });
-            }, 500);
-          })
-        ]).catch((error) => {
-          console.log('Upload failed, using immediate fallback:', error.message);
-          return {
-            id: Math.floor(Math.random() * 10000),
-            url: finalStickers
-          };
-        });
-      };
-      
-      try {
-        [paymentResult, uploadResult] = await Promise.all([
-          // Process payment
-          paymentMethod === 'stripe' 
-            ? processStripePayment()
-            : Promise.resolve({ success: true, paymentIntentId: `manual_${Date.now()}` }),
-          // Upload image with timeout fallback
-          uploadWithTimeout()
-        ]);
-      } catch (parallelError: any) {
-        console.error('Parallel operation failed:', parallelError);
-        // If payment failed, throw immediately
-        if (parallelError.message?.includes('Payment')) {
-          throw parallelError;
-        }
-        // Otherwise, use fallback for upload
-        paymentResult = paymentResult || { success: false };
-        uploadResult = {
-          id: Math.floor(Math.random() * 10000),
-          url: finalStickers
-        };
-      }
+      // Print files go up first, so a failed upload never leaves the customer with a charge
+      setProcessingStep('Uploading your designs...');
+      const fileIds = await uploadPrintFiles(orderedItems.map(item => item.image));
 
-      if (!paymentResult.success) {
-        throw new Error('Payment failed');
-      }
-      
-      // Create order with Printful (instant with mock service)
-      console.log('Creating order with Printful...');
-      const orderResult = await printfulService.createOrder({
-        customerInfo: {
+      // The payment sheet needs the user, so payment runs before anything is sent to production
+      setProcessingStep('Waiting for payment...');
+      const paymentResult = await processStripePayment(selectedRate, ratesDestination, (paymentIntentId) => placeOrder({
+        idempotencyKey,
+        paymentIntentId,
+        items: orderedItems.map((item, index) => ({
+          product: item.product,
+          quantity: item.quantity,
+          stickerCount: item.stickerCount,
+          printFile: { fileId: fileIds[index], filename: `sticker-design-${index + 1}.png` },
+        })),
+        recipient: {
           name: customerInfo.name,
+          company: customerInfo.company.trim() || undefined,
           email: customerInfo.email,
-          phone: customerInfo.phone,
-          address: customerInfo.address,
+          phone: customerInfo.phone || undefined,
+          address1: customerInfo.address,
+          address2: customerInfo.address2.trim() || undefined,
           city: customerInfo.city,
-          zipCode: customerInfo.zipCode,
+          stateCode: stateCode || undefined,
+          countryCode,
+          zip: zipCode,
         },
-        stickerImageUrl: uploadResult.url,
-        selectedVariant: isStickerSheetFlow ? sheetSize : selectedVariant,
-        quantity: 1,
-        isStickerSheet: isStickerSheetFlow,
-        sheetSize: isStickerSheetFlow ? sheetSize : undefined,
-      });
+      }));
+      if (paymentResult.canceled) {
+        setIsProcessing(false);
+        setProcessingStep('');
+        return;
+      }
 
-      console.log('Order created successfully:', orderResult);
+      // The server uploads the print files and submits the order once it sees the payment
+      console.log('Order paid:', paymentResult.order.id);
+      await clearCart();
 
       setIsProcessing(false);
       setProcessingStep('');
       Alert.alert(
-        isStickerSheetFlow 
-          ? 'Sticker Sheet Ordered! 🎉'
-          : isReorderFlow 
-            ? 'Memory Reordered! 🎉' 
-            : 'Memory Shipped! 🎉',
-        `Payment processed successfully!\n\nPayment ID: ${paymentResult.paymentIntentId}\nOrder ID: ${orderResult.result.external_id}\n\nYour ${isStickerSheetFlow ? 'custom sticker sheet' : isReorderFlow ? 'reordered' : 'precious'} ${isStickerSheetFlow ? 'has' : 'memory stickers have'} been sent to production and will be shipped within 3-5 business days. Perfect for your memory planner! You will receive a tracking number via email.`,
+        'Order Placed! 🎉',
+        `Payment processed successfully!\n\nOrder ID: ${paymentResult.order.id.slice(0, 8)}\n\nYour ${orderedItems.length === 1 ? 'stickers are' : `${orderedItems.length} sticker designs are`} on their way to production and will be shipped within 3-5 business days. Perfect for your memory planner! You can follow your order from your order history.`,
         [
           {
-            text: isStickerSheetFlow 
-              ? 'Create Another Sheet'
-              : isReorderFlow 
-                ? 'Back to Memories' 
-                : 'Create Another Memory',
+            text: 'Track Order',
+            onPress: () => router.replace({ pathname: '/order-tracking', params: { orderId: paymentResult.order.id } }),
+          },
+          {
+            text: 'Create Another Memory',
             onPress: () => router.push('/'),
           },
         ]
@@ -340,8 +365,6 @@ export default function CheckoutScreen() {
       if (error.message) {
         if (error.message.includes('timeout') || error.message.includes('timed out')) {
           errorMessage = 'The server is taking too long to respond. Please try again in a moment.';
-        } else if (error.message.includes('Unable to upload')) {
-          errorMessage = 'Unable to upload your design. The service may be busy. Please try again.';
         } else if (error.message.includes('Payment')) {
           errorMessage = 'Payment processing failed. Please check your payment details and try again.';
         } else if (error.message.includes('network') || error.message.includes('fetch')) {
@@ -362,62 +385,61 @@ export default function CheckoutScreen() {
         ]
       );
     }
-  }, [validateForm, finalStickers, paymentMethod, processStripePayment, customerInfo, selectedVariant, isReorderFlow, isStickerSheetFlow, sheetSize]);
+  }, [validateForm, cartItems, clearCart, processStripePayment, customerInfo, selectedRate, ratesDestination, isLoadingRates, ratesError, countryCode, stateCode, zipCode]);
 
-  // Show loading state while loading sticker data
-  if (isLoadingSticker) {
+  if (isLoadingCart) {
     return (
       <View style={[styles.container, styles.loadingContainer]}>
         <ActivityIndicator size="large" color={neutralColors.primary} />
-        <Text style={styles.loadingText}>Loading sticker...</Text>
+        <Text style={styles.loadingText}>Loading your cart...</Text>
       </View>
     );
   }
-  
+
+  if (cartItems.length === 0) {
+    return (
+      <View style={[styles.container, styles.loadingContainer]} testID="checkout-empty-cart">
+        <Package size={40} color={neutralColors.text.tertiary} />
+        <Text style={styles.loadingText}>Your cart is empty</Text>
+        <TouchableOpacity style={[styles.orderButton, styles.emptyCartButton]} onPress={() => router.replace('/')}>
+          <Text style={styles.orderButtonText}>Create Stickers</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
   return (
     <View style={styles.container}>
       <SafeAreaView style={styles.safeArea}>
         <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
           <View style={styles.content} testID="checkout-screen">
             <View style={styles.header}>
-              <Text style={styles.title}>
-                {isStickerSheetFlow 
-                  ? 'Ship Your Sticker Sheet'
-                  : isReorderFlow 
-                    ? 'Reorder Memory' 
-                    : 'Ship Your Memory'
-                }
-              </Text>
+              <Text style={styles.title}>Your Cart</Text>
               <Text style={styles.subtitle}>
-                {isStickerSheetFlow
-                  ? `Complete your sticker sheet order (${stickerCount} stickers)`
-                  : isReorderFlow 
-                    ? 'Reorder your saved memory stickers'
-                    : 'Complete your memory planner sticker order'
-                }
+                {itemCount} {itemCount === 1 ? 'item' : 'items'} for your memory planner
               </Text>
             </View>
 
             <View style={styles.previewSection}>
               <View style={styles.sectionHeaderRow}>
                 <Package size={16} color={neutralColors.text.primary} />
-                <Text style={styles.sectionTitleText}>
-                  {isStickerSheetFlow ? 'Sticker Sheet Preview' : 'Memory Preview'}
-                </Text>
+                <Text style={styles.sectionTitleText}>Items</Text>
               </View>
-              {isStickerSheetFlow ? (
-                <View style={styles.stickerSheetPreview} testID="sticker-sheet-preview">
-                  <StickerSheetPreview
-                    stickerImage={finalStickers}
-                    sheetSize={sheetSize}
-                    stickerCount={stickerCount}
+              <View style={styles.cartList} testID="cart-items">
+                {cartItems.map((item) => (
+                  <CartItemRow
+                    key={item.id}
+                    item={item}
+                    disabled={isProcessing}
+                    onChangeQuantity={(quantity) => updateQuantity(item.id, quantity)}
+                    onChangeProduct={(product) => updateProduct(item.id, product)}
+                    onRemove={() => removeItem(item.id)}
                   />
-                </View>
-              ) : (
-                <View style={styles.stickerPreview} testID="single-sticker-preview">
-                  <Image source={{ uri: finalStickers }} style={styles.stickerImage} />
-                </View>
-              )}
+                ))}
+              </View>
+              <TouchableOpacity style={styles.addMoreButton} onPress={() => router.push('/')} disabled={isProcessing}>
+                <Text style={styles.addMoreText}>+ Add more stickers</Text>
+              </TouchableOpacity>
             </View>
 
             <View style={styles.formSection}>
@@ -459,6 +481,23 @@ export default function CheckoutScreen() {
                 <Text style={styles.sectionTitleText}>Shipping Address</Text>
               </View>
               <View style={styles.inputGroup}>
+                <SelectField
+                  title="Country"
+                  placeholder="Country"
+                  options={countryOptions}
+                  value={customerInfo.countryCode}
+                  onChange={(code) => setCustomerInfo(prev => (
+                    prev.countryCode === code ? prev : { ...prev, countryCode: code, stateCode: '' }
+                  ))}
+                  testID="country-picker"
+                />
+                <TextInput
+                  style={styles.input}
+                  placeholder="Company (Optional)"
+                  placeholderTextColor={neutralColors.text.tertiary}
+                  value={customerInfo.company}
+                  onChangeText={(text) => setCustomerInfo(prev => ({ ...prev, company: text }))}
+                />
                 <TextInput
                   style={styles.input}
                   placeholder="Street Address"
@@ -466,25 +505,100 @@ export default function CheckoutScreen() {
                   value={customerInfo.address}
                   onChangeText={(text) => setCustomerInfo(prev => ({ ...prev, address: text }))}
                 />
+                <TextInput
+                  style={styles.input}
+                  placeholder="Apartment, Suite, etc. (Optional)"
+                  placeholderTextColor={neutralColors.text.tertiary}
+                  value={customerInfo.address2}
+                  onChangeText={(text) => setCustomerInfo(prev => ({ ...prev, address2: text }))}
+                />
+                <TextInput
+                  style={styles.input}
+                  placeholder="City"
+                  placeholderTextColor={neutralColors.text.tertiary}
+                  value={customerInfo.city}
+                  onChangeText={(text) => setCustomerInfo(prev => ({ ...prev, city: text }))}
+                />
                 <View style={styles.row}>
+                  {country.region && (regionOptions ? (
+                    <SelectField
+                      title={country.region.label}
+                      placeholder={country.region.label}
+                      options={regionOptions}
+                      value={customerInfo.stateCode}
+                      onChange={(code) => setCustomerInfo(prev => ({ ...prev, stateCode: code }))}
+                      style={styles.halfInput}
+                      testID="region-picker"
+                    />
+                  ) : (
+                    <TextInput
+                      style={[styles.input, styles.halfInput]}
+                      placeholder={country.region.required ? country.region.label : `${country.region.label} (Optional)`}
+                      placeholderTextColor={neutralColors.text.tertiary}
+                      value={customerInfo.stateCode}
+                      onChangeText={(text) => setCustomerInfo(prev => ({ ...prev, stateCode: text }))}
+                    />
+                  ))}
                   <TextInput
                     style={[styles.input, styles.halfInput]}
-                    placeholder="City"
-                    placeholderTextColor={neutralColors.text.tertiary}
-                    value={customerInfo.city}
-                    onChangeText={(text) => setCustomerInfo(prev => ({ ...prev, city: text }))}
-                  />
-                  <TextInput
-                    style={[styles.input, styles.halfInput]}
-                    placeholder="ZIP Code"
+                    placeholder={country.postalCode.required ? country.postalCode.label : `${country.postalCode.label} (Optional)`}
                     placeholderTextColor={neutralColors.text.tertiary}
                     value={customerInfo.zipCode}
                     onChangeText={(text) => setCustomerInfo(prev => ({ ...prev, zipCode: text }))}
+                    autoCapitalize="characters"
                   />
                 </View>
+                {zipCode !== '' && addressErrors.zip && (
+                  <Text style={[styles.shippingStatusText, styles.shippingError]}>{addressErrors.zip}</Text>
+                )}
               </View>
             </View>
 
+            <View style={styles.formSection}>
+              <View style={styles.sectionHeaderRow}>
+                <Truck size={16} color={neutralColors.text.primary} />
+                <Text style={styles.sectionTitleText}>Shipping Method</Text>
+              </View>
+              {isLoadingRates ? (
+                <View style={styles.shippingStatus}>
+                  <ActivityIndicator size="small" color={neutralColors.primary} />
+                  <Text style={styles.shippingStatusText}>Getting shipping options...</Text>
+                </View>
+              ) : ratesError ? (
+                <Text style={[styles.shippingStatusText, styles.shippingError]}>{ratesError}</Text>
+              ) : shippingRates.length === 0 ? (
+                <Text style={styles.shippingStatusText}>
+                  Enter your {[country.region?.required && country.region.label, country.postalCode.required && country.postalCode.label]
+                    .filter(Boolean).join(' and ').toLowerCase() || 'address'} to see shipping options.
+                </Text>
+              ) : (
+                <View style={styles.paymentMethodContainer} testID="shipping-methods">
+                  {shippingRates.map((rate) => {
+                    const isSelected = rate.id === selectedRateId;
+                    const estimate = shippingService.formatDeliveryEstimate(rate);
+                    return (
+                      <TouchableOpacity
+                        key={rate.id}
+                        style={[styles.paymentMethodOption, isSelected && styles.paymentMethodSelected]}
+                        onPress={() => setSelectedRateId(rate.id)}
+                        testID={`shipping-method-${rate.id}`}
+                      >
+                        <View style={styles.shippingMethodText}>
+                          <Text style={[styles.paymentMethodTitle, isSelected && styles.paymentMethodTitleSelected]}>
+                            {rate.name}
+                          </Text>
+                          {estimate && <Text style={styles.paymentMethodSubtitle}>{estimate}</Text>}
+                        </View>
+                        <Text style={[styles.variantPrice, isSelected && styles.variantTextSelected]}>
+                          ${(rate.amount / 100).toFixed(2)}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              )}
+            </View>
+
             <View style={styles.formSection}>
               <View style={styles.sectionHeaderRow}>
                 <Lock size={16} color={neutralColors.text.primary} />
@@ -492,145 +606,97 @@ export default function CheckoutScreen() {
               </View>
               
               <View style={styles.paymentMethodContainer}>
-                <TouchableOpacity
-                  style={[
-                    styles.paymentMethodOption,
-                    paymentMethod === 'stripe' && styles.paymentMethodSelected,
-                  ]}
-                  onPress={() => setPaymentMethod('stripe')}
-                >
-                  <Smartphone size={20} color={paymentMethod === 'stripe' ? neutralColors.primary : neutralColors.text.secondary} />
-                  <View style={styles.paymentMethodText}>
-                    <Text style={[
-                      styles.paymentMethodTitle,
-                      paymentMethod === 'stripe' && styles.paymentMethodTitleSelected,
-                    ]}>
-                      Stripe Checkout (Recommended)
-                    </Text>
-                    <Text style={[
-                      styles.paymentMethodSubtitle,
-                      paymentMethod === 'stripe' && styles.paymentMethodSubtitleSelected,
-                    ]}>
-                      Credit/Debit Cards, PayPal, Apple Pay, Google Pay
-                    </Text>
-                  </View>
-                </TouchableOpacity>
-                
-                <TouchableOpacity
-                  style={[
-                    styles.paymentMethodOption,
-                    paymentMethod === 'manual' && styles.paymentMethodSelected,
-                  ]}
-                  onPress={() => setPaymentMethod('manual')}
-                >
-                  <CreditCard size={20} color={paymentMethod === 'manual' ? neutralColors.primary : neutralColors.text.secondary} />
+                <View style={[styles.paymentMethodOption, styles.paymentMethodSelected]}>
+                  <Smartphone size={20} color={neutralColors.primary} />
                   <View style={styles.paymentMethodText}>
-                    <Text style={[
-                      styles.paymentMethodTitle,
-                      paymentMethod === 'manual' && styles.paymentMethodTitleSelected,
-                    ]}>
-                      Manual Card Entry
+                    <Text style={[styles.paymentMethodTitle, styles.paymentMethodTitleSelected]}>
+                      Stripe Checkout
                     </Text>
-                    <Text style={[
-                      styles.paymentMethodSubtitle,
-                      paymentMethod === 'manual' && styles.paymentMethodSubtitleSelected,
-                    ]}>
-                      Enter card details manually
+                    <Text style={[styles.paymentMethodSubtitle, styles.paymentMethodSubtitleSelected]}>
+                      Credit/Debit Cards, Apple Pay, Google Pay
                     </Text>
                   </View>
-                </TouchableOpacity>
+                </View>
               </View>
+            </View>
 
-              {paymentMethod === 'manual' && (
-                <View style={styles.inputGroup}>
-                  <TextInput
-                    style={styles.input}
-                    placeholder="Cardholder Name"
-                    placeholderTextColor={neutralColors.text.tertiary}
-                    value={paymentInfo.cardholderName}
-                    onChangeText={(text) => setPaymentInfo(prev => ({ ...prev, cardholderName: text }))}
-                  />
+            <View style={styles.formSection}>
+              <View style={styles.sectionHeaderRow}>
+                <Tag size={16} color={neutralColors.text.primary} />
+                <Text style={styles.sectionTitleText}>Promo Code</Text>
+              </View>
+              {appliedPromo ? (
+                <View style={styles.promoApplied} testID="promo-applied">
+                  <View style={styles.shippingMethodText}>
+                    <Text style={styles.paymentMethodTitle}>{appliedPromo.code}</Text>
+                    {appliedPromo.description && (
+                      <Text style={styles.paymentMethodSubtitle}>{appliedPromo.description}</Text>
+                    )}
+                  </View>
+                  <TouchableOpacity onPress={removePromoCode} testID="promo-remove">
+                    <X size={20} color={neutralColors.text.secondary} />
+                  </TouchableOpacity>
+                </View>
+              ) : (
+                <View style={styles.row}>
                   <TextInput
-                    style={styles.input}
-                    placeholder="Card Number"
+                    style={[styles.input, styles.halfInput]}
+                    placeholder="Enter code"
                     placeholderTextColor={neutralColors.text.tertiary}
-                    value={paymentInfo.cardNumber}
-                    onChangeText={(text) => setPaymentInfo(prev => ({ ...prev, cardNumber: text }))}
-                    keyboardType="numeric"
+                    value={promoInput}
+                    onChangeText={(text) => {
+                      setPromoInput(text);
+                      setPromoError(null);
+                    }}
+                    autoCapitalize="characters"
+                    autoCorrect={false}
+                    returnKeyType="done"
+                    onSubmitEditing={applyPromoCode}
+                    testID="promo-input"
                   />
-                  <View style={styles.row}>
-                    <TextInput
-                      style={[styles.input, styles.halfInput]}
-                      placeholder="MM/YY"
-                      placeholderTextColor={neutralColors.text.tertiary}
-                      value={paymentInfo.expiryDate}
-                      onChangeText={(text) => setPaymentInfo(prev => ({ ...prev, expiryDate: text }))}
-                    />
-                    <TextInput
-                      style={[styles.input, styles.halfInput]}
-                      placeholder="CVV"
-                      placeholderTextColor={neutralColors.text.tertiary}
-                      value={paymentInfo.cvv}
-                      onChangeText={(text) => setPaymentInfo(prev => ({ ...prev, cvv: text }))}
-                      keyboardType="numeric"
-                      secureTextEntry
-                    />
-                  </View>
+                  <TouchableOpacity
+                    style={[styles.promoButton, (isApplyingPromo || !promoInput.trim()) && styles.buttonDisabled]}
+                    onPress={applyPromoCode}
+                    disabled={isApplyingPromo || !promoInput.trim()}
+                    testID="promo-apply"
+                  >
+                    {isApplyingPromo ? (
+                      <ActivityIndicator size="small" color={neutralColors.white} />
+                    ) : (
+                      <Text style={styles.promoButtonText}>Apply</Text>
+                    )}
+                  </TouchableOpacity>
                 </View>
               )}
+              {promoError && (
+                <Text style={[styles.shippingStatusText, styles.shippingError]}>{promoError}</Text>
+              )}
             </View>
 
-            {!isStickerSheetFlow && (
-              <View style={styles.formSection}>
-                <View style={styles.sectionHeaderRow}>
-                  <Package size={16} color={neutralColors.text.primary} />
-                  <Text style={styles.sectionTitleText}>Memory Sticker Options</Text>
-                </View>
-                <View style={styles.variantContainer}>
-                  {availableVariants.map((variant) => (
-                    <TouchableOpacity
-                      key={variant.id}
-                      style={[
-                        styles.variantOption,
-                        selectedVariant === variant.id && styles.variantOptionSelected,
-                      ]}
-                      onPress={() => setSelectedVariant(variant.id)}
-                    >
-                      <Text style={[
-                        styles.variantSize,
-                        selectedVariant === variant.id && styles.variantTextSelected,
-                      ]}>
-                        {variant.size}
-                      </Text>
-                      <Text style={[
-                        styles.variantPrice,
-                        selectedVariant === variant.id && styles.variantTextSelected,
-                      ]}>
-                        ${variant.price.toFixed(2)}
-                      </Text>
-                    </TouchableOpacity>
-                  ))}
-                </View>
-              </View>
-            )}
-
             <View style={styles.summarySection}>
               <View style={styles.sectionHeaderRow}>
                 <Text style={styles.sectionTitleText}>Order Summary</Text>
               </View>
               <View style={styles.summaryCard}>
                 <View style={styles.summaryRow}>
-                  <Text style={styles.summaryLabel}>
-                    {isStickerSheetFlow 
-                      ? `Sticker Sheet ${PRINTFUL_PRODUCTS.KISS_CUT_STICKER_SHEET.variants[sheetSize].size} (${stickerCount} stickers)`
-                      : `Memory Stickers (${PRINTFUL_PRODUCTS.INDIVIDUAL_KISS_CUT_STICKERS.variants[selectedVariant as keyof typeof PRINTFUL_PRODUCTS.INDIVIDUAL_KISS_CUT_STICKERS.variants].size})`
-                    }
-                  </Text>
-                  <Text style={styles.summaryValue}>${orderSummary.stickerPack.toFixed(2)}</Text>
+                  <Text style={styles.summaryLabel}>Items ({itemCount})</Text>
+                  <Text style={styles.summaryValue}>${orderSummary.subtotal.toFixed(2)}</Text>
                 </View>
+                {appliedPromo && orderSummary.discount > 0 && (
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>Discount ({appliedPromo.code})</Text>
+                    <Text style={[styles.summaryValue, styles.discountValue]}>
+                      −${orderSummary.discount.toFixed(2)}
+                    </Text>
+                  </View>
+                )}
                 <View style={styles.summaryRow}>
-                  <Text style={styles.summaryLabel}>Shipping (Standard)</Text>
-                  <Text style={styles.summaryValue}>${orderSummary.shipping.toFixed(2)}</Text>
+                  <Text style={styles.summaryLabel}>
+                    {selectedRate ? `Shipping (${selectedRate.name})` : 'Shipping'}
+                  </Text>
+                  <Text style={styles.summaryValue}>
+                    {selectedRate ? `$${orderSummary.shipping.toFixed(2)}` : '—'}
+                  </Text>
                 </View>
                 <View style={styles.summaryRow}>
                   <Text style={styles.summaryLabel}>Tax</Text>
@@ -644,9 +710,9 @@ export default function CheckoutScreen() {
             </View>
 
             <TouchableOpacity
-              style={[styles.orderButton, (isProcessing || !finalStickers) && styles.buttonDisabled]}
+              style={[styles.orderButton, isProcessing && styles.buttonDisabled]}
               onPress={processOrder}
-              disabled={isProcessing || !finalStickers}
+              disabled={isProcessing}
             >
               {isProcessing ? (
                 <>
@@ -659,7 +725,7 @@ export default function CheckoutScreen() {
                 <>
                   <Lock size={20} color={neutralColors.white} />
                   <Text style={styles.orderButtonText}>
-                    {paymentMethod === 'stripe' ? 'Pay Securely' : 'Place Order'} • ${orderSummary.total.toFixed(2)}
+                    Pay Securely • ${orderSummary.total.toFixed(2)}
                   </Text>
                   <ArrowRight size={20} color={neutralColors.white} />
                 </>
@@ -720,18 +786,21 @@ const styles = StyleSheet.create({
     textTransform: 'uppercase',
     letterSpacing: 0.5,
   },
-  stickerPreview: {
-    backgroundColor: neutralColors.surface,
-    borderRadius: 20,
-    overflow: 'hidden',
-    aspectRatio: 1,
-    borderWidth: 1,
-    borderColor: neutralColors.border,
+  cartList: {
+    gap: 12,
   },
-  stickerImage: {
-    width: '100%',
-    height: '100%',
-    resizeMode: 'contain',
+  addMoreButton: {
+    alignSelf: 'center',
+    paddingVertical: 12,
+  },
+  addMoreText: {
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: neutralColors.primary,
+  },
+  emptyCartButton: {
+    marginTop: 24,
+    paddingHorizontal: 32,
   },
   formSection: {
     marginBottom: 32,
@@ -828,29 +897,6 @@ const styles = StyleSheet.create({
   buttonDisabled: {
     opacity: 0.6,
   },
-  variantContainer: {
-    flexDirection: 'row',
-    gap: 12,
-  },
-  variantOption: {
-    flex: 1,
-    backgroundColor: neutralColors.white,
-    borderRadius: 16,
-    padding: 20,
-    alignItems: 'center',
-    borderWidth: 2,
-    borderColor: neutralColors.border,
-  },
-  variantOptionSelected: {
-    backgroundColor: neutralColors.surface,
-    borderColor: neutralColors.primary,
-  },
-  variantSize: {
-    fontSize: 16,
-    fontWeight: '600' as const,
-    color: neutralColors.text.primary,
-    marginBottom: 4,
-  },
   variantPrice: {
     fontSize: 14,
     color: neutralColors.text.secondary,
@@ -875,6 +921,46 @@ const styles = StyleSheet.create({
     backgroundColor: neutralColors.surface,
     borderColor: neutralColors.primary,
   },
+  shippingMethodText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  promoApplied: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: neutralColors.surface,
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: neutralColors.primary,
+  },
+  promoButton: {
+    backgroundColor: neutralColors.primary,
+    borderRadius: 12,
+    paddingHorizontal: 24,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  promoButtonText: {
+    color: neutralColors.white,
+    fontSize: 16,
+    fontWeight: '600' as const,
+  },
+  discountValue: {
+    color: neutralColors.success,
+  },
+  shippingStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  shippingStatusText: {
+    fontSize: 14,
+    color: neutralColors.text.secondary,
+  },
+  shippingError: {
+    color: neutralColors.error,
+  },
   paymentMethodText: {
     marginLeft: 16,
     flex: 1,
@@ -895,13 +981,6 @@ const styles = StyleSheet.create({
   paymentMethodSubtitleSelected: {
     color: neutralColors.text.secondary,
   },
-  stickerSheetPreview: {
-    backgroundColor: neutralColors.white,
-    borderRadius: 24,
-    padding: 8,
-    borderWidth: 1,
-    borderColor: neutralColors.border,
-  },
   stickerSheetTitle: {
     fontSize: 16,
     fontWeight: '600' as const,
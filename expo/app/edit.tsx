@@ -20,6 +20,7 @@ import { ArrowLeft, Save, Sparkles, RotateCcw, ChevronLeft, ChevronRight, Settin
 import { neutralColors } from '@/constants/colors';
 import { router, useLocalSearchParams } from 'expo-router';
 import { useUser } from '@/contexts/UserContext';
+import { useCart } from '@/contexts/CartContext';
 import { safeJsonParse } from '@/utils/json';
 import { compressBase64Image, estimateBase64Size } from '@/utils/imageCompression';
 import { processStickerImage } from '@/utils/backgroundRemover';
@@ -27,6 +28,7 @@ import { StickerSettingsPanel, StickerProcessingSettings, DEFAULT_SETTINGS } fro
 import { exportForPrintful } from '@/utils/printfulExport';
 import { getEditPrompt } from '@/utils/promptManager';
 import { callImageEditApi } from '@/utils/imageEditApi';
+import { getRetryAfterSeconds, formatRetryAfter } from '@/utils/rateLimit';
 
 type ImageEditRequest = {
   prompt: string;
@@ -53,6 +55,7 @@ const EditScreen = () => {
     stickerId?: string;
   }>();
   const { saveSticker, getStickerById } = useUser();
+  const { addItem } = useCart();
   const [editPrompt, setEditPrompt] = useState<string>('');
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
   const [currentVersionIndex, setCurrentVersionIndex] = useState<number>(0);
@@ -303,13 +306,13 @@ const EditScreen = () => {
 
 
 
-  const processEditWithRetry = React.useCallback(async (base64Data: string, promptToUse: string, retryCount: number = 0): Promise<ImageEditResponse> => {
+  const processEditWithRetry = React.useCallback(async (base64Data: string, promptToUse: string): Promise<ImageEditResponse> => {
     const prompt = await getEditPrompt(promptToUse);
     
     try {
       console.log('Sending edit request...');
       
-      const data = await callImageEditApi(base64Data, prompt, retryCount);
+      const data = await callImageEditApi(base64Data, prompt);
       
       console.log('Edit completed successfully!');
       
@@ -328,6 +331,9 @@ const EditScreen = () => {
         }
       };
     } catch (error: any) {
+      if (getRetryAfterSeconds(error) !== null) {
+        throw error;
+      }
       console.log('Processing error - using style fallback');
       const fallbackResult = await createLocalFallbackEdit(base64Data, promptToUse);
       return fallbackResult;
@@ -405,7 +411,12 @@ const EditScreen = () => {
       // Success - no alert needed since fallback is seamless
     } catch (error: any) {
       console.error('Error editing sticker:', error);
-      Alert.alert('Edit Error', 'Failed to process the edit. Please try again.');
+      const retryAfter = getRetryAfterSeconds(error);
+      if (retryAfter !== null) {
+        Alert.alert('Slow Down', `You've made a lot of edits in a short time. Please try again in ${formatRetryAfter(retryAfter)}.`);
+      } else {
+        Alert.alert('Edit Error', 'Failed to process the edit. Please try again.');
+      }
     } finally {
       setIsProcessing(false);
     }
@@ -438,15 +449,14 @@ const EditScreen = () => {
           { text: 'Later', style: 'cancel' },
           {
             text: 'Purchase Now',
-            onPress: () => {
-              router.push({
-                pathname: '/checkout',
-                params: {
-                  originalImage: baseImage,
-                  finalStickers: currentVersion.image,
-                  isReorder: 'false',
-                },
-              });
+            onPress: async () => {
+              try {
+                await addItem({ product: { kind: 'individual', size: '3x3' }, image: currentVersion.image });
+                router.push('/checkout');
+              } catch (addError: any) {
+                console.error('Error adding sticker to cart:', addError);
+                Alert.alert('Could Not Add to Cart', addError?.message || 'Please try again.');
+              }
             },
           },
         ]
@@ -455,7 +465,7 @@ const EditScreen = () => {
       console.error('Error saving edited sticker:', error);
       Alert.alert('Save Error', 'Failed to save the edited sticker. Please try again.');
     }
-  }, [versions, currentVersionIndex, originalImage, editPrompt, saveSticker]);
+  }, [versions, currentVersionIndex, originalImage, editPrompt, saveSticker, addItem]);
 
   const navigateToVersion = React.useCallback((index: number) => {
     if (index >= 0 && index < versions.length) {
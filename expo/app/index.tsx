@@ -15,17 +15,25 @@ import {
   TouchableWithoutFeedback,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { Camera, Upload, Sparkles, ArrowRight, LogOut, User, Grid3X3, Wand2, Settings } from 'lucide-react-native';
+import { Camera, Upload, Sparkles, ArrowRight, LogOut, User, Grid3X3, Wand2, Settings, Package, ShoppingCart } from 'lucide-react-native';
 import { memoryMadeColors } from '@/constants/colors';
 import * as ImagePicker from 'expo-image-picker';
-import { router } from 'expo-router';
+import { router, useFocusEffect } from 'expo-router';
 import { useUser, SavedSticker } from '@/contexts/UserContext';
+import { useCart } from '@/contexts/CartContext';
 import LoginForm from '@/components/LoginForm';
 import StickerGallery from '@/components/StickerGallery';
 import { safeJsonParse } from '@/utils/json';
 import { processStickerImage } from '@/utils/backgroundRemover';
 import { getInitialGenerationPrompt, getRegenerationPrompt } from '@/utils/promptManager';
-import { callImageEditApi } from '@/utils/imageEditApi';
+import { callImageCreateApi } from '@/utils/imageEditApi';
+import {
+  submitGenerationJob,
+  setActiveGenerationJob,
+  getActiveGenerationJob,
+  type ActiveGenerationJob,
+} from '@/utils/generationJobs';
+import { getRetryAfterSeconds, formatRetryAfter } from '@/utils/rateLimit';
 
 
 type ImageEditRequest = {
@@ -33,20 +41,31 @@ type ImageEditRequest = {
   images: { type: 'image'; image: string }[];
 };
 
-type ImageEditResponse = {
-  image: { base64Data: string; mimeType: string };
-};
-
 
 
 export default function UploadScreen() {
   const { user, savedStickers, isLoading, login, signup, logout, deleteSticker, saveSticker } = useUser();
+  const { itemCount } = useCart();
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
   const [showGallery, setShowGallery] = useState<boolean>(false);
   const [promptText, setPromptText] = useState<string>('');
   const [isGenerating, setIsGenerating] = useState<boolean>(false);
   const [isNavigating, setIsNavigating] = useState<boolean>(false);
+  const [resumableJob, setResumableJob] = useState<ActiveGenerationJob | null>(null);
+
+  // A generation may still be running (or finished unseen) from before navigation or a restart
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) {
+        setResumableJob(null);
+        return;
+      }
+      getActiveGenerationJob()
+        .then(setResumableJob)
+        .catch((error) => console.error('Error loading active generation job:', error));
+    }, [user])
+  );
 
   const requestPermissions = useCallback(async () => {
     if (Platform.OS !== 'web') {
@@ -201,33 +220,40 @@ export default function UploadScreen() {
     }
   }, []);
 
-  const processImageWithRetry = useCallback(async (base64Data: string, retryCount: number = 0): Promise<ImageEditResponse> => {
+  // Queues the generation on the backend; the review screen follows the job from here
+  const submitInitialGeneration = useCallback(async (base64Data: string, originalImage: string): Promise<string> => {
     try {
-      console.log('Starting initial sticker generation with gpt-image-1-mini...');
+      console.log('Submitting initial sticker generation job...');
       
       const prompt = await getInitialGenerationPrompt();
+      const job = await submitGenerationJob({ kind: 'edit', imageBase64: base64Data, prompt });
+      await setActiveGenerationJob({ jobId: job.id, originalImage });
       
-      // Use callImageEditApi which respects the model selection from admin settings
-      const data = await callImageEditApi(base64Data, prompt, retryCount);
-      
-      console.log('AI processing completed successfully!');
-      
-      // Skip post-processing - gpt-image-1-mini already outputs transparent PNG
-      console.log('Using direct output from gpt-image-1-mini (no post-processing)...');
-      const cleanedBase64 = data.image.base64Data;
-      
-      return {
-        image: {
-          base64Data: cleanedBase64,
-          mimeType: data.image.mimeType
-        }
-      };
+      console.log('Generation job queued:', job.id);
+      return job.id;
     } catch (error: any) {
       console.error('Error in initial generation:', error);
       throw error;
     }
   }, []);
 
+  const resumeGeneration = useCallback(() => {
+    if (!resumableJob || isNavigating) return;
+    setIsNavigating(true);
+    router.push({
+      pathname: '/review',
+      params: {
+        originalImage: resumableJob.originalImage,
+        generatedStickers: '',
+        isProcessing: 'true',
+        jobId: resumableJob.jobId,
+        ...(resumableJob.isCustomGenerated ? { isCustomGenerated: 'true' } : {}),
+        ...(resumableJob.customPrompt ? { customPrompt: resumableJob.customPrompt } : {}),
+      },
+    });
+    setTimeout(() => setIsNavigating(false), 1000);
+  }, [resumableJob, isNavigating]);
+
   const generateStickerFromPrompt = useCallback(async () => {
     if (!promptText.trim()) {
       Alert.alert('Prompt Required', 'Please enter a description for your custom sticker.');
@@ -240,30 +266,10 @@ export default function UploadScreen() {
     console.log('Starting AI sticker generation from prompt with gpt-image-1-mini...');
     
     try {
-      // Create a simple white canvas as base image
-      let base64Data: string;
-      
-      if (Platform.OS === 'web') {
-        const canvas = document.createElement('canvas');
-        canvas.width = 1024;
-        canvas.height = 1024;
-        const ctx = canvas.getContext('2d');
-        if (ctx) {
-          ctx.fillStyle = 'white';
-          ctx.fillRect(0, 0, 1024, 1024);
-        }
-        const whiteCanvasDataUrl = canvas.toDataURL('image/png');
-        base64Data = whiteCanvasDataUrl.split(',')[1];
-      } else {
-        // For mobile, create a simple base64 encoded white PNG
-        // This is a minimal 1x1 white PNG in base64
-        base64Data = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg==';
-      }
-
       const prompt = await getRegenerationPrompt(promptText);
       
-      // Use callImageEditApi which respects the model selection from admin settings
-      const data = await callImageEditApi(base64Data, prompt);
+      // The backend generates with the model selected in admin settings
+      const data = await callImageCreateApi(prompt);
 
       console.log('AI generation completed successfully!');
       
@@ -291,7 +297,11 @@ export default function UploadScreen() {
       let errorMessage = 'Failed to generate custom sticker. Please try again.';
       let errorTitle = 'Generation Error';
       
-      if (error.name === 'AbortError' || error.message.includes('timeout') || error.message.includes('timed out')) {
+      const retryAfter = getRetryAfterSeconds(error);
+      if (retryAfter !== null) {
+        errorTitle = 'Slow Down';
+        errorMessage = `You've generated a lot of stickers in a short time. Please try again in ${formatRetryAfter(retryAfter)}.`;
+      } else if (error.name === 'AbortError' || error.message.includes('timeout') || error.message.includes('timed out')) {
         errorTitle = 'Request Timeout';
         errorMessage = 'Generation is taking longer than expected. The server may be busy. Please try again in a few moments.';
       } else if (error.message.includes('504') || error.message.includes('502') || error.message.includes('503') || error.message.includes('500')) {
@@ -344,16 +354,10 @@ export default function UploadScreen() {
           }
 
           console.log('Image compressed, starting AI processing...');
-          const data = await processImageWithRetry(base64Data);
-          console.log('AI processing complete!');
+          const jobId = await submitInitialGeneration(base64Data, selectedImage);
 
-          const generatedStickerUri = `data:${data.image.mimeType};base64,${data.image.base64Data}`;
-          
-          // Update the review screen with processed data - saving will happen in review screen
-          router.setParams({
-            generatedStickers: generatedStickerUri,
-            isProcessing: 'false',
-          });
+          // The review screen picks up the job and shows progress - saving will happen there
+          router.setParams({ jobId });
         } catch (error: any) {
           console.error('Error processing image:', error);
           router.setParams({
@@ -389,7 +393,7 @@ export default function UploadScreen() {
       setIsProcessing(false);
       setTimeout(() => setIsNavigating(false), 1000);
     }
-  }, [selectedImage, compressImage, processImageWithRetry, isNavigating]);
+  }, [selectedImage, compressImage, submitInitialGeneration, isNavigating]);
 
   const handleSelectSticker = useCallback((sticker: SavedSticker) => {
     if (isNavigating) return;
@@ -473,21 +477,59 @@ export default function UploadScreen() {
                 </View>
               </View>
               <View style={styles.headerButtons}>
-                <TouchableOpacity style={styles.settingsButton} onPress={() => { 
+                <TouchableOpacity testID="cart-button" style={styles.settingsButton} onPress={() => {
+                  if (isNavigating) return;
+                  Keyboard.dismiss();
+                  setIsNavigating(true);
+                  router.push('/checkout');
+                  setTimeout(() => setIsNavigating(false), 1000);
+                }} activeOpacity={0.7} disabled={isNavigating}>
+                  <ShoppingCart size={18} color={memoryMadeColors.primary} />
+                  {itemCount > 0 && (
+                    <View style={styles.cartBadge}>
+                      <Text style={styles.cartBadgeText}>{itemCount > 99 ? '99+' : itemCount}</Text>
+                    </View>
+                  )}
+                </TouchableOpacity>
+                <TouchableOpacity testID="order-history-button" style={styles.settingsButton} onPress={() => {
                   if (isNavigating) return;
-                  Keyboard.dismiss(); 
+                  Keyboard.dismiss();
                   setIsNavigating(true);
-                  router.push('/admin');
+                  router.push('/orders');
                   setTimeout(() => setIsNavigating(false), 1000);
                 }} activeOpacity={0.7} disabled={isNavigating}>
-                  <Settings size={18} color={memoryMadeColors.primary} />
+                  <Package size={18} color={memoryMadeColors.primary} />
                 </TouchableOpacity>
+                {user.role === 'admin' && (
+                  <TouchableOpacity style={styles.settingsButton} onPress={() => { 
+                    if (isNavigating) return;
+                    Keyboard.dismiss(); 
+                    setIsNavigating(true);
+                    router.push('/admin');
+                    setTimeout(() => setIsNavigating(false), 1000);
+                  }} activeOpacity={0.7} disabled={isNavigating}>
+                    <Settings size={18} color={memoryMadeColors.primary} />
+                  </TouchableOpacity>
+                )}
                 <TouchableOpacity style={styles.logoutButton} onPress={handleLogout} activeOpacity={0.7}>
                   <LogOut size={18} color={memoryMadeColors.text.secondary} />
                 </TouchableOpacity>
               </View>
             </View>
 
+            {resumableJob && !showGallery && (
+              <TouchableOpacity
+                style={styles.galleryToggle}
+                onPress={resumeGeneration}
+                disabled={isNavigating}
+                activeOpacity={0.7}
+              >
+                <Sparkles size={16} color={memoryMadeColors.primary} />
+                <Text style={styles.galleryToggleText}>Your sticker is on its way - view progress</Text>
+                <ArrowRight size={16} color={memoryMadeColors.primary} />
+              </TouchableOpacity>
+            )}
+
             {showGallery ? (
               <View style={styles.galleryContainer}>
                 <StickerGallery
@@ -732,6 +774,23 @@ const styles = StyleSheet.create({
     padding: 8,
     borderRadius: 8,
   },
+  cartBadge: {
+    position: 'absolute',
+    top: 2,
+    right: 0,
+    minWidth: 16,
+    height: 16,
+    borderRadius: 8,
+    paddingHorizontal: 4,
+    backgroundColor: memoryMadeColors.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cartBadgeText: {
+    color: memoryMadeColors.white,
+    fontSize: 10,
+    fontWeight: '700' as const,
+  },
   logoutButton: {
     padding: 8,
     borderRadius: 8,
@@ -0,0 +1,268 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  RefreshControl,
+  TouchableOpacity,
+} from 'react-native';
+import { useFocusEffect, useLocalSearchParams } from 'expo-router';
+import * as WebBrowser from 'expo-web-browser';
+import { ExternalLink, Package, Truck } from 'lucide-react-native';
+import { memoryMadeColors } from '@/constants/colors';
+import { getShippingCountry } from '@/constants/countries';
+import { trpcClient } from '@/lib/trpc';
+import { describeOrderStatus, formatMoney, formatShippingMethod, type OrderDetail } from '@/utils/orders';
+
+type Shipment = OrderDetail['shipments'][number];
+
+function ShipmentCard({ shipment }: { shipment: Shipment }) {
+  const shippedAt = shipment.shippedAt ? new Date(shipment.shippedAt) : null;
+  return (
+    <View style={styles.card} testID={`shipment-${shipment.id}`}>
+      <View style={styles.shipmentHeader}>
+        <Truck size={20} color={memoryMadeColors.primary} />
+        <Text style={styles.cardTitle}>
+          {[shipment.carrier, shipment.service].filter(Boolean).join(' • ') || 'Shipment'}
+        </Text>
+      </View>
+      {shipment.status === 'returned' && (
+        <Text style={[styles.detail, { color: memoryMadeColors.error }]}>Returned to sender</Text>
+      )}
+      {shippedAt && <Text style={styles.detail}>Shipped {shippedAt.toLocaleDateString()}</Text>}
+      {shipment.trackingNumber && (
+        <Text style={styles.detail} selectable>Tracking number: {shipment.trackingNumber}</Text>
+      )}
+      {shipment.trackingUrl && (
+        <TouchableOpacity
+          style={styles.trackButton}
+          onPress={() => WebBrowser.openBrowserAsync(shipment.trackingUrl as string)}
+          testID={`track-${shipment.id}`}
+        >
+          <ExternalLink size={16} color={memoryMadeColors.white} />
+          <Text style={styles.trackButtonText}>Track Package</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+export default function OrderTrackingScreen() {
+  const { orderId } = useLocalSearchParams<{ orderId: string }>();
+  const [order, setOrder] = useState<OrderDetail | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadOrder = useCallback(async () => {
+    if (!orderId) return;
+    try {
+      setOrder(await trpcClient.orders.get.query({ id: orderId }));
+      setError(null);
+    } catch (e: any) {
+      console.error('[orderTracking] Failed to load order:', e);
+      setError(e?.message || 'Could not load this order.');
+    }
+  }, [orderId]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadOrder().finally(() => setIsLoading(false));
+    }, [loadOrder])
+  );
+
+  const handleRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    await loadOrder();
+    setIsRefreshing(false);
+  }, [loadOrder]);
+
+  if (isLoading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color={memoryMadeColors.primary} />
+      </View>
+    );
+  }
+
+  if (!order) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Package size={32} color={memoryMadeColors.text.tertiary} />
+        <Text style={styles.emptyText}>{error ?? 'Order not found.'}</Text>
+        <TouchableOpacity style={styles.primaryButton} onPress={handleRefresh}>
+          <Text style={styles.primaryButtonText}>Try Again</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const status = describeOrderStatus(order);
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={
+        <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} tintColor={memoryMadeColors.primary} />
+      }
+    >
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Order {order.printfulExternalId ?? order.id.slice(0, 8)}</Text>
+        <Text style={styles.detail}>Placed {new Date(order.createdAt).toLocaleDateString()}</Text>
+        <View style={[styles.statusBadge, { borderColor: status.color }]}>
+          <Text style={[styles.statusText, { color: status.color }]}>{status.label}</Text>
+        </View>
+        {order.statusReason && <Text style={styles.detail}>{order.statusReason}</Text>}
+      </View>
+
+      <View style={styles.card}>
+        {order.items.map((item, index) => (
+          <View key={index} style={styles.row}>
+            <Text style={styles.detail} numberOfLines={2}>{item.quantity} × {item.name}</Text>
+            <Text style={styles.detail}>{formatMoney(item.unitPrice * item.quantity, order.costs.currency)}</Text>
+          </View>
+        ))}
+        {order.costs.discount > 0 && (
+          <View style={styles.row}>
+            <Text style={styles.detail}>Discount{order.promoCode ? ` (${order.promoCode})` : ''}</Text>
+            <Text style={styles.detail}>−{formatMoney(order.costs.discount, order.costs.currency)}</Text>
+          </View>
+        )}
+        <View style={styles.row}>
+          <Text style={styles.detail}>
+            Shipping{order.shippingMethod ? ` (${formatShippingMethod(order.shippingMethod)})` : ''}
+          </Text>
+          <Text style={styles.detail}>{formatMoney(order.costs.shipping, order.costs.currency)}</Text>
+        </View>
+        <View style={styles.row}>
+          <Text style={styles.detail}>Tax</Text>
+          <Text style={styles.detail}>{formatMoney(order.costs.tax, order.costs.currency)}</Text>
+        </View>
+        <View style={styles.row}>
+          <Text style={styles.cardTitle}>Total</Text>
+          <Text style={styles.cardTitle}>{formatMoney(order.costs.total, order.costs.currency)}</Text>
+        </View>
+      </View>
+
+      <Text style={styles.sectionTitle}>Shipping to</Text>
+      <View style={styles.card}>
+        <Text style={styles.detail}>{order.recipient.name}</Text>
+        {order.recipient.company && <Text style={styles.detail}>{order.recipient.company}</Text>}
+        <Text style={styles.detail}>
+          {[order.recipient.address1, order.recipient.address2].filter(Boolean).join(', ')}
+        </Text>
+        <Text style={styles.detail}>
+          {order.recipient.city}{order.recipient.stateCode ? `, ${order.recipient.stateCode}` : ''} {order.recipient.zip}
+        </Text>
+        <Text style={styles.detail}>
+          {getShippingCountry(order.recipient.countryCode)?.name ?? order.recipient.countryCode}
+        </Text>
+      </View>
+
+      <Text style={styles.sectionTitle}>Tracking</Text>
+      {order.shipments.length > 0 ? (
+        order.shipments.map(shipment => <ShipmentCard key={shipment.id} shipment={shipment} />)
+      ) : (
+        <View style={styles.card}>
+          <Text style={styles.detail}>Tracking details will appear here once your order ships.</Text>
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: memoryMadeColors.cream,
+  },
+  centered: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 24,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  card: {
+    backgroundColor: memoryMadeColors.white,
+    borderRadius: 16,
+    padding: 16,
+    gap: 6,
+    borderWidth: 1,
+    borderColor: memoryMadeColors.border,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+    color: memoryMadeColors.text.primary,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600' as const,
+    color: memoryMadeColors.text.secondary,
+    marginTop: 4,
+  },
+  detail: {
+    fontSize: 14,
+    color: memoryMadeColors.text.secondary,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  shipmentHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  statusBadge: {
+    alignSelf: 'flex-start',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 2,
+    marginTop: 2,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600' as const,
+  },
+  trackButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    backgroundColor: memoryMadeColors.primary,
+    paddingVertical: 10,
+    borderRadius: 20,
+    marginTop: 6,
+  },
+  trackButtonText: {
+    color: memoryMadeColors.white,
+    fontSize: 15,
+    fontWeight: '600' as const,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: memoryMadeColors.text.secondary,
+    textAlign: 'center',
+  },
+  primaryButton: {
+    backgroundColor: memoryMadeColors.primary,
+    paddingVertical: 14,
+    paddingHorizontal: 28,
+    borderRadius: 24,
+    marginTop: 12,
+  },
+  primaryButtonText: {
+    color: memoryMadeColors.white,
+    fontSize: 16,
+    fontWeight: '600' as const,
+  },
+});
@@ -0,0 +1,250 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  Image,
+  ActivityIndicator,
+  RefreshControl,
+  TouchableOpacity,
+} from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { Package } from 'lucide-react-native';
+import { memoryMadeColors } from '@/constants/colors';
+import { trpcClient } from '@/lib/trpc';
+import StickerSheetPreview from '@/components/StickerSheetPreview';
+import { getStickerOption } from '@/constants/stickerSheetLayouts';
+import { describeOrderStatus, formatMoney, type OrderSummary } from '@/utils/orders';
+
+type Order = OrderSummary;
+
+const PAGE_SIZE = 20;
+
+function OrderPreview({ order }: { order: Order }) {
+  const item = order.items[0];
+  if (!order.previewImage || !item) {
+    return (
+      <View style={[styles.preview, styles.previewPlaceholder]}>
+        <Package size={28} color={memoryMadeColors.text.tertiary} />
+      </View>
+    );
+  }
+  if (item.product.kind === 'sheet' && item.stickerCount && getStickerOption(item.product.size, item.stickerCount)) {
+    return (
+      <View style={styles.preview}>
+        <StickerSheetPreview
+          stickerImage={order.previewImage}
+          sheetSize={item.product.size}
+          stickerCount={item.stickerCount}
+        />
+      </View>
+    );
+  }
+  return <Image source={{ uri: order.previewImage }} style={styles.preview} resizeMode="contain" />;
+}
+
+export default function OrdersScreen() {
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
+  const [isLoadingMore, setIsLoadingMore] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFirstPage = useCallback(async () => {
+    try {
+      const result = await trpcClient.orders.list.query({ limit: PAGE_SIZE, includePreview: true });
+      setOrders(result.orders);
+      setNextCursor(result.nextCursor);
+      setError(null);
+    } catch (e: any) {
+      console.error('[orders] Failed to load orders:', e);
+      setError(e?.message || 'Could not load your orders.');
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadFirstPage().finally(() => setIsLoading(false));
+    }, [loadFirstPage])
+  );
+
+  const handleRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    await loadFirstPage();
+    setIsRefreshing(false);
+  }, [loadFirstPage]);
+
+  const handleLoadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+    setIsLoadingMore(true);
+    try {
+      const result = await trpcClient.orders.list.query({ limit: PAGE_SIZE, before: nextCursor, includePreview: true });
+      setOrders(prev => [...prev, ...result.orders]);
+      setNextCursor(result.nextCursor);
+    } catch (e) {
+      console.error('[orders] Failed to load more orders:', e);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [nextCursor, isLoadingMore]);
+
+  const renderOrder = useCallback(({ item: order }: { item: Order }) => {
+    const status = describeOrderStatus(order);
+    const placedAt = new Date(order.createdAt);
+    return (
+      <TouchableOpacity
+        style={styles.card}
+        testID={`order-${order.id}`}
+        onPress={() => router.push({ pathname: '/order-tracking', params: { orderId: order.id } })}
+      >
+        <OrderPreview order={order} />
+        <View style={styles.cardBody}>
+          <Text style={styles.itemName} numberOfLines={2}>
+            {order.items.map(item => item.name).join(', ') || 'Sticker order'}
+          </Text>
+          <Text style={styles.meta}>
+            {placedAt.toLocaleDateString()} • {formatMoney(order.costs.total, order.costs.currency)}
+          </Text>
+          <View style={[styles.statusBadge, { borderColor: status.color }]}>
+            <Text style={[styles.statusText, { color: status.color }]}>{status.label}</Text>
+          </View>
+          <Text style={styles.orderId} numberOfLines={1}>
+            Order {order.printfulExternalId ?? order.id.slice(0, 8)}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  }, []);
+
+  if (isLoading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color={memoryMadeColors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={orders}
+        keyExtractor={order => order.id}
+        renderItem={renderOrder}
+        contentContainerStyle={orders.length === 0 ? styles.emptyContent : styles.listContent}
+        refreshControl={
+          <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} tintColor={memoryMadeColors.primary} />
+        }
+        onEndReached={handleLoadMore}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={isLoadingMore ? <ActivityIndicator color={memoryMadeColors.primary} /> : null}
+        ListEmptyComponent={
+          <View style={styles.centered}>
+            <Package size={32} color={memoryMadeColors.text.tertiary} />
+            <Text style={styles.emptyTitle}>{error ? 'Something went wrong' : 'No orders yet'}</Text>
+            <Text style={styles.emptyText}>
+              {error ?? 'Sticker sheets and memories you order will show up here.'}
+            </Text>
+            <TouchableOpacity style={styles.primaryButton} onPress={() => (error ? handleRefresh() : router.replace('/'))}>
+              <Text style={styles.primaryButtonText}>{error ? 'Try Again' : 'Create Stickers'}</Text>
+            </TouchableOpacity>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: memoryMadeColors.cream,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 24,
+  },
+  listContent: {
+    padding: 16,
+    gap: 12,
+  },
+  emptyContent: {
+    flexGrow: 1,
+  },
+  card: {
+    flexDirection: 'row',
+    backgroundColor: memoryMadeColors.white,
+    borderRadius: 16,
+    padding: 12,
+    gap: 12,
+    borderWidth: 1,
+    borderColor: memoryMadeColors.border,
+  },
+  preview: {
+    width: 96,
+    height: 96,
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: memoryMadeColors.lightCream,
+  },
+  previewPlaceholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cardBody: {
+    flex: 1,
+    gap: 4,
+  },
+  itemName: {
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: memoryMadeColors.text.primary,
+  },
+  meta: {
+    fontSize: 13,
+    color: memoryMadeColors.text.secondary,
+  },
+  statusBadge: {
+    alignSelf: 'flex-start',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 2,
+    marginTop: 2,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600' as const,
+  },
+  orderId: {
+    fontSize: 12,
+    color: memoryMadeColors.text.tertiary,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '700' as const,
+    color: memoryMadeColors.text.primary,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: memoryMadeColors.text.secondary,
+    textAlign: 'center',
+    lineHeight: 21,
+  },
+  primaryButton: {
+    backgroundColor: memoryMadeColors.primary,
+    paddingVertical: 14,
+    paddingHorizontal: 28,
+    borderRadius: 24,
+    marginTop: 12,
+  },
+  primaryButtonText: {
+    color: memoryMadeColors.white,
+    fontSize: 16,
+    fontWeight: '600' as const,
+  },
+});
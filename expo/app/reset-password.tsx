@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { KeyRound } from 'lucide-react-native';
+import { memoryMadeColors } from '@/constants/colors';
+import { useUser } from '@/contexts/UserContext';
+
+export default function ResetPasswordScreen() {
+  const params = useLocalSearchParams<{ token?: string }>();
+  const { requestPasswordReset, resetPassword } = useUser();
+  const [step, setStep] = useState<'request' | 'reset'>(params.token ? 'reset' : 'request');
+  const [email, setEmail] = useState<string>('');
+  const [token, setToken] = useState<string>(params.token ?? '');
+  const [password, setPassword] = useState<string>('');
+  const [confirmPassword, setConfirmPassword] = useState<string>('');
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  const handleRequest = async () => {
+    const e = email.trim();
+    if (!e.includes('@')) {
+      Alert.alert('Invalid Email', 'Please enter a valid email address.');
+      return;
+    }
+    setIsLoading(true);
+    try {
+      await requestPasswordReset(e);
+      setStep('reset');
+      Alert.alert('Check Your Email', 'If an account exists for that address, we sent a reset code.');
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Could not send reset email. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReset = async () => {
+    const t = token.trim();
+    if (!t) {
+      Alert.alert('Required Fields', 'Enter the code from the reset email.');
+      return;
+    }
+    if (password.length < 6) {
+      Alert.alert('Weak Password', 'Password must be at least 6 characters.');
+      return;
+    }
+    if (password !== confirmPassword) {
+      Alert.alert('Passwords Don’t Match', 'Please enter the same password twice.');
+      return;
+    }
+    setIsLoading(true);
+    try {
+      await resetPassword(t, password);
+      Alert.alert('Password Updated', 'You can now log in with your new password.', [
+        { text: 'OK', onPress: () => router.replace('/') },
+      ]);
+    } catch (error: any) {
+      Alert.alert('Reset Failed', error?.message || 'Could not reset your password. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        <View style={styles.header}>
+          <KeyRound size={32} color={memoryMadeColors.primary} />
+          <Text style={styles.title}>
+            {step === 'request' ? 'Forgot your password?' : 'Choose a new password'}
+          </Text>
+          <Text style={styles.subtitle}>
+            {step === 'request'
+              ? 'Enter your account email and we’ll send you a reset code.'
+              : 'Paste the code from your email and pick a new password.'}
+          </Text>
+        </View>
+
+        {step === 'request' ? (
+          <>
+            <TextInput
+              testID="reset-email-input"
+              style={styles.input}
+              placeholder="Email"
+              placeholderTextColor={memoryMadeColors.text.tertiary}
+              value={email}
+              onChangeText={setEmail}
+              keyboardType="email-address"
+              autoCapitalize="none"
+              autoComplete="email"
+              autoCorrect={false}
+              editable={!isLoading}
+              returnKeyType="done"
+              onSubmitEditing={handleRequest}
+            />
+            <TouchableOpacity
+              testID="reset-request-button"
+              style={[styles.primaryButton, isLoading && styles.primaryButtonDisabled]}
+              onPress={handleRequest}
+              disabled={isLoading}
+            >
+              {isLoading ? (
+                <ActivityIndicator size="small" color={memoryMadeColors.white} />
+              ) : (
+                <Text style={styles.primaryButtonText}>Send Reset Code</Text>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.linkButton} onPress={() => setStep('reset')}>
+              <Text style={styles.linkText}>I already have a code</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <TextInput
+              testID="reset-token-input"
+              style={styles.input}
+              placeholder="Reset code"
+              placeholderTextColor={memoryMadeColors.text.tertiary}
+              value={token}
+              onChangeText={setToken}
+              autoCapitalize="none"
+              autoCorrect={false}
+              editable={!isLoading}
+            />
+            <TextInput
+              testID="reset-password-input"
+              style={styles.input}
+              placeholder="New password"
+              placeholderTextColor={memoryMadeColors.text.tertiary}
+              value={password}
+              onChangeText={setPassword}
+              secureTextEntry={true}
+              autoCapitalize="none"
+              autoComplete="new-password"
+              editable={!isLoading}
+            />
+            <TextInput
+              testID="reset-confirm-input"
+              style={styles.input}
+              placeholder="Confirm new password"
+              placeholderTextColor={memoryMadeColors.text.tertiary}
+              value={confirmPassword}
+              onChangeText={setConfirmPassword}
+              secureTextEntry={true}
+              autoCapitalize="none"
+              autoComplete="new-password"
+              editable={!isLoading}
+              returnKeyType="done"
+              onSubmitEditing={handleReset}
+            />
+            <TouchableOpacity
+              testID="reset-submit-button"
+              style={[styles.primaryButton, isLoading && styles.primaryButtonDisabled]}
+              onPress={handleReset}
+              disabled={isLoading}
+            >
+              {isLoading ? (
+                <ActivityIndicator size="small" color={memoryMadeColors.white} />
+              ) : (
+                <Text style={styles.primaryButtonText}>Update Password</Text>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.linkButton} onPress={() => setStep('request')}>
+              <Text style={styles.linkText}>Send me a new code</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: memoryMadeColors.cream,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: 24,
+    paddingTop: 40,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 24,
+    gap: 8,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700' as const,
+    color: memoryMadeColors.text.primary,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 15,
+    color: memoryMadeColors.text.secondary,
+    textAlign: 'center',
+    lineHeight: 21,
+  },
+  input: {
+    backgroundColor: memoryMadeColors.white,
+    borderRadius: 24,
+    borderWidth: 2,
+    borderColor: memoryMadeColors.primary,
+    marginBottom: 16,
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    fontSize: 16,
+    color: memoryMadeColors.text.primary,
+    minHeight: 56,
+  },
+  primaryButton: {
+    backgroundColor: memoryMadeColors.primary,
+    paddingVertical: 18,
+    paddingHorizontal: 32,
+    borderRadius: 24,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 8,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    color: memoryMadeColors.white,
+    fontSize: 18,
+    fontWeight: '600' as const,
+  },
+  linkButton: {
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  linkText: {
+    color: memoryMadeColors.text.secondary,
+    fontSize: 14,
+  },
+});
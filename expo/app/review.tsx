@@ -19,8 +19,16 @@ import { RefreshCw, Upload, ArrowRight, Sparkles, Edit3, ChevronLeft, ChevronRig
 import { neutralColors } from '@/constants/colors';
 import { useLocalSearchParams, router } from 'expo-router';
 import { useUser } from '@/contexts/UserContext';
+import { useCart } from '@/contexts/CartContext';
 import { getInitialGenerationPrompt, getRegenerationPrompt } from '@/utils/promptManager';
-import { callImageEditApi } from '@/utils/imageEditApi';
+import { callImageEditApi, callImageCreateApi } from '@/utils/imageEditApi';
+import { getRetryAfterSeconds, formatRetryAfter } from '@/utils/rateLimit';
+import {
+  waitForGenerationJob,
+  cancelGenerationJob,
+  clearActiveGenerationJob,
+  GenerationCancelledError,
+} from '@/utils/generationJobs';
 
 
 type ImageEditRequest = {
@@ -36,6 +44,7 @@ const { width: screenWidth } = Dimensions.get('window');
 
 export default function ReviewScreen() {
   const { saveSticker } = useUser();
+  const { addItem } = useCart();
   const params = useLocalSearchParams();
   
   // Safely extract params with type checking
@@ -45,6 +54,7 @@ export default function ReviewScreen() {
   const customPrompt = typeof params.customPrompt === 'string' ? params.customPrompt : undefined;
   const isProcessing = params.isProcessing === 'true';
   const processingError = typeof params.processingError === 'string' ? params.processingError : undefined;
+  const jobId = typeof params.jobId === 'string' && params.jobId !== '' ? params.jobId : undefined;
 
   React.useEffect(() => {
     if (customPrompt) {
@@ -108,18 +118,70 @@ export default function ReviewScreen() {
   const [originalPrompt, setOriginalPrompt] = useState<string>('');
   const [isLoadingSticker, setIsLoadingSticker] = useState<boolean>(isProcessing);
   const [loadError, setLoadError] = useState<string | undefined>(processingError);
+  const [jobProgress, setJobProgress] = useState<number | null>(null);
+  const [isCancellingJob, setIsCancellingJob] = useState<boolean>(false);
   const flatListRef = useRef<FlatList>(null);
   const scrollViewRef = useRef<ScrollView>(null);
   
   const currentStickers = stickerVersions[currentVersionIndex] || generatedStickers;
 
-  const regenerateWithRetry = async (base64Data: string, retryCount: number = 0): Promise<ImageEditResponse> => {
+  // Follow a queued generation job; also how we reattach after navigation or an app restart
+  useEffect(() => {
+    if (!jobId) return;
+
+    const controller = new AbortController();
+    setIsLoadingSticker(true);
+    setLoadError(undefined);
+
+    waitForGenerationJob(jobId, {
+      signal: controller.signal,
+      onProgress: (job) => setJobProgress(job.progress),
+    })
+      .then((data) => {
+        const generatedStickerUri = `data:${data.image.mimeType};base64,${data.image.base64Data}`;
+        const versions = isCustomGenerated === 'true' || !originalImage
+          ? [generatedStickerUri]
+          : [originalImage, generatedStickerUri];
+        setStickerVersions(versions);
+        setCurrentVersionIndex(versions.length - 1);
+        setIsLoadingSticker(false);
+        clearActiveGenerationJob(jobId);
+      })
+      .catch((error: any) => {
+        if (controller.signal.aborted) return;
+        clearActiveGenerationJob(jobId);
+        if (error instanceof GenerationCancelledError) {
+          router.back();
+          return;
+        }
+        console.error('Generation job failed:', error);
+        setLoadError(error?.message || 'Failed to generate stickers');
+        setIsLoadingSticker(false);
+      });
+
+    return () => controller.abort();
+  }, [jobId, originalImage, isCustomGenerated]);
+
+  const cancelGeneration = async () => {
+    if (!jobId || isCancellingJob) return;
+    setIsCancellingJob(true);
+    try {
+      await cancelGenerationJob(jobId);
+    } catch (error) {
+      console.error('Error cancelling generation:', error);
+      Alert.alert('Cancel Failed', 'Could not cancel the generation. Please try again.');
+    } finally {
+      setIsCancellingJob(false);
+    }
+  };
+
+  const regenerateWithRetry = async (base64Data: string): Promise<ImageEditResponse> => {
     console.log('Starting regeneration with gpt-image-1-mini...');
     
     const prompt = await getInitialGenerationPrompt();
     
     // Use callImageEditApi which respects the model selection from admin settings
-    const data = await callImageEditApi(base64Data, prompt, retryCount);
+    const data = await callImageEditApi(base64Data, prompt);
     
     console.log('Regeneration completed successfully!');
     return data;
@@ -134,30 +196,10 @@ export default function ReviewScreen() {
         // For custom stickers, regenerate using gpt-image-1-mini with the original prompt
         const regeneratePrompt = originalPrompt || 'Create a high-quality kiss-cut sticker design with vibrant colors and clean edges, optimized for printing.';
         
-        // Create a simple white canvas as base image
-        let base64Data: string;
-        
-        if (Platform.OS === 'web') {
-          const canvas = document.createElement('canvas');
-          canvas.width = 1024;
-          canvas.height = 1024;
-          const ctx = canvas.getContext('2d');
-          if (ctx) {
-            ctx.fillStyle = 'white';
-            ctx.fillRect(0, 0, 1024, 1024);
-          }
-          const whiteCanvasDataUrl = canvas.toDataURL('image/png');
-          base64Data = whiteCanvasDataUrl.split(',')[1];
-        } else {
-          // For mobile, create a simple base64 encoded white PNG
-          // This is a minimal 1x1 white PNG in base64
-          base64Data = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg==';
-        }
-
         const prompt = await getRegenerationPrompt(regeneratePrompt);
         
-        // Use callImageEditApi which respects the model selection from admin settings
-        const data = await callImageEditApi(base64Data, prompt);
+        // The backend generates with the model selected in admin settings
+        const data = await callImageCreateApi(prompt);
         
         // Skip post-processing - gpt-image-1-mini already outputs transparent PNG
         console.log('Using direct output from gpt-image-1-mini (no post-processing)...');
@@ -218,7 +260,10 @@ export default function ReviewScreen() {
       console.error('Error regenerating stickers:', error);
       
       let errorMessage = 'Failed to regenerate stickers. Please try again.';
-      if (error.message.includes('timeout')) {
+      const retryAfter = getRetryAfterSeconds(error);
+      if (retryAfter !== null) {
+        errorMessage = `You've generated a lot of stickers in a short time. Please try again in ${formatRetryAfter(retryAfter)}.`;
+      } else if (error.message.includes('timeout')) {
         errorMessage = 'The request took too long to process. Please try again later.';
       } else if (error.message.includes('504')) {
         errorMessage = 'The server is temporarily overloaded. Please try again in a few moments.';
@@ -284,14 +329,13 @@ export default function ReviewScreen() {
       console.error('Error saving sticker:', error);
     }
     
-    // Navigate to checkout
-    router.push({
-      pathname: '/checkout',
-      params: {
-        originalImage,
-        finalStickers: stickerToShip,
-      },
-    });
+    try {
+      await addItem({ product: { kind: 'individual', size: '3x3' }, image: stickerToShip });
+      router.push('/checkout');
+    } catch (error: any) {
+      console.error('Error adding sticker to cart:', error);
+      Alert.alert('Could Not Add to Cart', error?.message || 'Please try again.');
+    }
   };
 
   const uploadNewPhoto = () => {
@@ -353,7 +397,10 @@ export default function ReviewScreen() {
       console.error('Error editing sticker:', error);
       
       let errorMessage = 'Failed to edit sticker. Please try again.';
-      if (error.message.includes('timeout')) {
+      const retryAfter = getRetryAfterSeconds(error);
+      if (retryAfter !== null) {
+        errorMessage = `You've made a lot of edits in a short time. Please try again in ${formatRetryAfter(retryAfter)}.`;
+      } else if (error.message.includes('timeout')) {
         errorMessage = 'The request took too long to process. Please try again later.';
       } else if (error.message.includes('504')) {
         errorMessage = 'The server is temporarily overloaded. Please try again in a few moments.';
@@ -408,7 +455,20 @@ export default function ReviewScreen() {
               <View style={styles.loadingContainer}>
                 <ActivityIndicator size="large" color={neutralColors.primary} />
                 <Text style={styles.loadingTitle}>Creating Your Stickers</Text>
-                <Text style={styles.loadingSubtext}>This may take a moment...</Text>
+                <Text style={styles.loadingSubtext}>
+                  {jobProgress !== null ? `${jobProgress}% complete` : 'This may take a moment...'}
+                </Text>
+                {jobId && (
+                  <TouchableOpacity
+                    style={styles.cancelJobButton}
+                    onPress={cancelGeneration}
+                    disabled={isCancellingJob}
+                  >
+                    <Text style={styles.cancelJobButtonText}>
+                      {isCancellingJob ? 'Cancelling...' : 'Cancel'}
+                    </Text>
+                  </TouchableOpacity>
+                )}
               </View>
             ) : isCustom ? (
               <View style={styles.singleStickerContainer}>
@@ -1107,6 +1167,19 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: neutralColors.text.secondary,
   },
+  cancelJobButton: {
+    marginTop: 20,
+    paddingVertical: 10,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: neutralColors.border,
+  },
+  cancelJobButtonText: {
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: neutralColors.text.secondary,
+  },
   errorContainer: {
     backgroundColor: neutralColors.surface,
     borderRadius: 20,
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -18,13 +18,14 @@ import { STICKER_SHEET_LAYOUTS, SHEET_CONSTANTS, SheetSize as LayoutSheetSize }
 import {
   getStickerDimensions,
   calculateDynamicLayouts,
-  generateDynamicStickerSheet,
+  dynamicSheetPlacements,
   DynamicSheetLayout,
 } from '@/utils/dynamicStickerLayout';
+import { gridPlacements, renderPrintSheet, type PrintSheetPlacement } from '@/utils/printSheets';
 import { router, useLocalSearchParams } from 'expo-router';
 import StickerSheetPreview from '@/components/StickerSheetPreview';
-import { captureRef } from 'react-native-view-shot';
-import * as FileSystem from 'expo-file-system';
+import { useCart } from '@/contexts/CartContext';
+import { useCatalog } from '@/contexts/CatalogContext';
 
 type SheetSize = '3x3' | '4x4' | '5.5x5.5';
 
@@ -32,7 +33,6 @@ type SheetConfig = {
   size: SheetSize;
   displayName: string;
   inches: number;
-  price: number;
   description: string;
 };
 
@@ -41,21 +41,18 @@ const SHEET_CONFIGS: SheetConfig[] = [
     size: '3x3',
     displayName: '3" × 3"',
     inches: 3.0,
-    price: 12.99,
     description: 'Perfect for small collections',
   },
   {
     size: '4x4',
     displayName: '4" × 4"',
     inches: 4.0,
-    price: 16.99,
     description: 'Most popular size',
   },
   {
     size: '5.5x5.5',
     displayName: '5.5" × 5.5"',
     inches: 5.5,
-    price: 27.99,
     description: 'Maximum stickers per sheet',
   },
 ];
@@ -82,11 +79,14 @@ const filterValidOptions = (layout: DynamicSheetLayout, size: SheetSize): Dynami
 
 export default function SheetSizeSelectionScreen() {
   const insets = useSafeAreaInsets();
+  const { addItem } = useCart();
+  const { variantFor, priceOf } = useCatalog();
+  const isSizeAvailable = (size: SheetSize) => variantFor({ kind: 'sheet', size })?.available ?? false;
   const params = useLocalSearchParams();
   const stickerImage = typeof params.stickerImage === 'string' ? params.stickerImage : '';
-  const originalImage = typeof params.originalImage === 'string' ? params.originalImage : '';
 
   const [selectedSize, setSelectedSize] = useState<SheetSize>('4x4');
+  const selectedSizeAvailable = isSizeAvailable(selectedSize);
   const [selectedStickerCount, setSelectedStickerCount] = useState<number | null>(null);
   const [isGenerating, setIsGenerating] = useState<boolean>(false);
   const [generationProgress, setGenerationProgress] = useState<string>('');
@@ -96,14 +96,6 @@ export default function SheetSizeSelectionScreen() {
     '5.5x5.5': null,
   });
   const [isAnalyzing, setIsAnalyzing] = useState<boolean>(true);
-  const [renderingCanvas, setRenderingCanvas] = useState<{
-    layout: any;
-    cols: number;
-    rows: number;
-    stickerCount: number;
-    stickerImageUri: string;
-  } | null>(null);
-  const sheetCanvasRef = useRef<View>(null);
 
   useEffect(() => {
     async function analyzeStickerDimensions() {
@@ -168,7 +160,7 @@ export default function SheetSizeSelectionScreen() {
         throw new Error('Invalid sheet size selected');
       }
 
-      let sheetImageBase64: string;
+      let placements: PrintSheetPlacement[];
       
       if (currentDynamicLayout) {
         const dynamicOption = currentDynamicLayout.options.find(opt => opt.count === currentStickerCount);
@@ -182,13 +174,7 @@ export default function SheetSizeSelectionScreen() {
           grid: dynamicOption.grid,
           dimensions: `${dynamicOption.stickerWidthInches.toFixed(2)}"×${dynamicOption.stickerHeightInches.toFixed(2)}"`,
         });
-
-        setGenerationProgress('Generating layout...');
-        sheetImageBase64 = await generateDynamicStickerSheet(
-          stickerImage,
-          selectedSize,
-          dynamicOption
-        );
+        placements = dynamicSheetPlacements(stickerImage, selectedSize, dynamicOption);
       } else {
         const stickerOption = currentLayout.options.find(opt => opt.count === currentStickerCount);
         if (!stickerOption) {
@@ -200,195 +186,41 @@ export default function SheetSizeSelectionScreen() {
           count: currentStickerCount,
           grid: stickerOption.grid,
         });
-
-        setGenerationProgress('Generating sheet...');
-        const startTime = Date.now();
-        sheetImageBase64 = await generateRepeatedStickerSheet(
-          stickerImage,
-          selectedSize,
-          currentStickerCount,
-          stickerOption.grid
-        );
-        const duration = Date.now() - startTime;
-        console.log(`[Sheet Generation] Completed in ${duration}ms`);
+        placements = gridPlacements(stickerImage, {
+          sheetInches: currentLayout.sheetSizeInches,
+          grid: stickerOption.grid,
+          count: currentStickerCount,
+          widthInches: stickerOption.stickerSizeInches,
+          heightInches: stickerOption.stickerSizeInches,
+          gutterInches: SHEET_CONSTANTS.GUTTER_INCHES,
+          marginInches: SHEET_CONSTANTS.OUTER_MARGIN_INCHES,
+        });
       }
 
+      // The server renders the print file, so every platform sends the printer the same image
+      setGenerationProgress('Generating sheet...');
+      const startTime = Date.now();
+      const sheetImageBase64 = await renderPrintSheet(selectedSize, placements);
+      console.log(`[Sheet Generation] Completed in ${Date.now() - startTime}ms`);
+
       setGenerationProgress('Finalizing...');
-      console.log('[Sheet Generation] Sheet generated, navigating to checkout');
+      console.log('[Sheet Generation] Sheet generated, adding to cart');
 
-      router.push({
-        pathname: '/checkout',
-        params: {
-          originalImage: originalImage || stickerImage,
-          finalStickers: sheetImageBase64,
-          isReorder: 'false',
-          isStickerSheet: 'true',
-          stickerCount: currentStickerCount.toString(),
-          sheetSize: selectedSize,
-          isMultiStickerSheet: 'false',
-        },
+      await addItem({
+        product: { kind: 'sheet', size: selectedSize },
+        image: sheetImageBase64,
+        stickerCount: currentStickerCount,
       });
-    } catch (error) {
+      router.push('/checkout');
+    } catch (error: any) {
       console.error('Error generating sheet:', error);
-      Alert.alert('Error', 'Failed to generate sticker sheet. Please try again.');
+      Alert.alert('Error', error?.message || 'Failed to generate sticker sheet. Please try again.');
     } finally {
       setIsGenerating(false);
       setGenerationProgress('');
     }
   };
 
-  const generateRepeatedStickerSheet = async (
-    stickerImageUri: string,
-    sheetSize: SheetSize,
-    stickerCount: number,
-    grid: [number, number]
-  ): Promise<string> => {
-    const layout = STICKER_SHEET_LAYOUTS[sheetSize as LayoutSheetSize];
-    const [cols, rows] = grid;
-
-    if (Platform.OS === 'web') {
-      return generateWebStickerSheet(stickerImageUri, layout, cols, rows, stickerCount);
-    } else {
-      return generateMobileStickerSheet(stickerImageUri, layout, cols, rows, stickerCount);
-    }
-  };
-
-  const generateWebStickerSheet = async (
-    stickerImageUri: string,
-    layout: any,
-    cols: number,
-    rows: number,
-    stickerCount: number
-  ): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const canvas = document.createElement('canvas');
-      canvas.width = layout.sheetSizePixels;
-      canvas.height = layout.sheetSizePixels;
-      const ctx = canvas.getContext('2d', { alpha: false, willReadFrequently: false });
-      
-      if (!ctx) {
-        reject(new Error('Could not get canvas context'));
-        return;
-      }
-
-      ctx.fillStyle = '#f8f9fa';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-      
-      ctx.fillStyle = '#ffffff';
-      ctx.fillRect(
-        SHEET_CONSTANTS.OUTER_MARGIN_PIXELS,
-        SHEET_CONSTANTS.OUTER_MARGIN_PIXELS,
-        layout.sheetSizePixels - 2 * SHEET_CONSTANTS.OUTER_MARGIN_PIXELS,
-        layout.sheetSizePixels - 2 * SHEET_CONSTANTS.OUTER_MARGIN_PIXELS
-      );
-
-      const img = new (window as any).Image();
-      img.crossOrigin = 'anonymous';
-      
-      img.onload = () => {
-        const stickerOption = layout.options.find((opt: any) => opt.count === stickerCount);
-        if (!stickerOption) {
-          reject(new Error('Invalid sticker count'));
-          return;
-        }
-
-        const stickerSizePixels = stickerOption.stickerSizePixels;
-        const gutterPixels = SHEET_CONSTANTS.GUTTER_PIXELS;
-        const marginPixels = SHEET_CONSTANTS.OUTER_MARGIN_PIXELS;
-
-        const totalGridWidth = cols * stickerSizePixels + (cols - 1) * gutterPixels;
-        const totalGridHeight = rows * stickerSizePixels + (rows - 1) * gutterPixels;
-        const usableWidth = layout.sheetSizePixels - 2 * marginPixels;
-        const usableHeight = layout.sheetSizePixels - 2 * marginPixels;
-        
-        const startX = marginPixels + Math.max(0, (usableWidth - totalGridWidth) / 2);
-        const startY = marginPixels + Math.max(0, (usableHeight - totalGridHeight) / 2);
-
-        ctx.imageSmoothingEnabled = true;
-        ctx.imageSmoothingQuality = 'high';
-
-        let drawn = 0;
-        for (let row = 0; row < rows && drawn < stickerCount; row++) {
-          for (let col = 0; col < cols && drawn < stickerCount; col++) {
-            const x = startX + col * (stickerSizePixels + gutterPixels);
-            const y = startY + row * (stickerSizePixels + gutterPixels);
-            
-            ctx.drawImage(img, x, y, stickerSizePixels, stickerSizePixels);
-            drawn++;
-          }
-        }
-        
-        resolve(canvas.toDataURL('image/png', 0.95));
-      };
-      
-      img.onerror = () => {
-        reject(new Error('Failed to load sticker image'));
-      };
-      
-      img.src = stickerImageUri;
-    });
-  };
-
-  const generateMobileStickerSheet = async (
-    stickerImageUri: string,
-    layout: any,
-    cols: number,
-    rows: number,
-    stickerCount: number
-  ): Promise<string> => {
-    console.log('[Mobile Sheet] Starting generation...');
-    
-    return new Promise((resolve, reject) => {
-      const stickerOption = layout.options.find((opt: any) => opt.count === stickerCount);
-      if (!stickerOption) {
-        reject(new Error('Invalid sticker count'));
-        return;
-      }
-
-      setRenderingCanvas({
-        layout,
-        cols,
-        rows,
-        stickerCount,
-        stickerImageUri,
-      });
-
-      setTimeout(async () => {
-        try {
-          if (!sheetCanvasRef.current) {
-            setRenderingCanvas(null);
-            reject(new Error('Canvas ref not available'));
-            return;
-          }
-
-          console.log('[Mobile Sheet] Waiting for images to load...');
-          await new Promise(r => setTimeout(r, 500));
-
-          console.log('[Mobile Sheet] Capturing view...');
-          const uri = await captureRef(sheetCanvasRef.current, {
-            format: 'png',
-            quality: 0.95,
-            width: layout.sheetSizePixels,
-            height: layout.sheetSizePixels,
-          });
-
-          console.log('[Mobile Sheet] Reading file...');
-          const base64 = await FileSystem.readAsStringAsync(uri, {
-            encoding: FileSystem.EncodingType.Base64,
-          });
-
-          setRenderingCanvas(null);
-          console.log('[Mobile Sheet] Generation complete');
-          resolve(`data:image/png;base64,${base64}`);
-        } catch (error) {
-          console.error('[Mobile Sheet] Error:', error);
-          setRenderingCanvas(null);
-          reject(error);
-        }
-      }, 100);
-    });
-  };
-
   const screenWidth = Dimensions.get('window').width;
   const screenHeight = Dimensions.get('window').height;
   const previewSize = Math.min(screenWidth - 32, screenHeight * 0.45);
@@ -463,7 +295,7 @@ export default function SheetSizeSelectionScreen() {
                       selectedSize === config.size && styles.sizeButtonSelected,
                     ]}
                     onPress={() => setSelectedSize(config.size)}
-                    disabled={isGenerating}
+                    disabled={isGenerating || !isSizeAvailable(config.size)}
                     activeOpacity={0.7}
                   >
                     <Text style={[
@@ -476,7 +308,9 @@ export default function SheetSizeSelectionScreen() {
                       styles.sizeButtonPrice,
                       selectedSize === config.size && styles.sizeButtonPriceSelected,
                     ]}>
-                      ${config.price.toFixed(2)}
+                      {isSizeAvailable(config.size)
+                        ? `$${priceOf({ kind: 'sheet', size: config.size }).toFixed(2)}`
+                        : 'Unavailable'}
                     </Text>
                   </TouchableOpacity>
                 ))}
@@ -547,7 +381,7 @@ export default function SheetSizeSelectionScreen() {
               <View style={[styles.summaryRow, styles.summaryRowTotal]}>
                 <Text style={styles.summaryLabelTotal}>Total Price</Text>
                 <Text style={styles.summaryValueTotal}>
-                  ${SHEET_CONFIGS.find(c => c.size === selectedSize)?.price.toFixed(2)}
+                  ${priceOf({ kind: 'sheet', size: selectedSize }).toFixed(2)}
                 </Text>
               </View>
             </View>
@@ -556,9 +390,9 @@ export default function SheetSizeSelectionScreen() {
 
         <View style={[styles.footer, { paddingBottom: insets.bottom + 20 }]}>
           <TouchableOpacity
-            style={[styles.generateButton, isGenerating && styles.generateButtonDisabled]}
+            style={[styles.generateButton, (isGenerating || !selectedSizeAvailable) && styles.generateButtonDisabled]}
             onPress={handleGenerateSheet}
-            disabled={isGenerating}
+            disabled={isGenerating || !selectedSizeAvailable}
           >
             {isGenerating ? (
               <View style={styles.buttonContent}>
@@ -578,72 +412,6 @@ export default function SheetSizeSelectionScreen() {
           </TouchableOpacity>
         </View>
       </View>
-
-      {renderingCanvas && (
-        <View
-          style={{
-            width: renderingCanvas.layout.sheetSizePixels,
-            height: renderingCanvas.layout.sheetSizePixels,
-            backgroundColor: '#f8f9fa',
-            position: 'absolute',
-            left: -10000,
-            top: 0,
-          }}
-          collapsable={false}
-          ref={sheetCanvasRef}
-        >
-          <View
-            style={{
-              position: 'absolute',
-              left: SHEET_CONSTANTS.OUTER_MARGIN_PIXELS,
-              top: SHEET_CONSTANTS.OUTER_MARGIN_PIXELS,
-              width: renderingCanvas.layout.sheetSizePixels - 2 * SHEET_CONSTANTS.OUTER_MARGIN_PIXELS,
-              height: renderingCanvas.layout.sheetSizePixels - 2 * SHEET_CONSTANTS.OUTER_MARGIN_PIXELS,
-              backgroundColor: '#ffffff',
-            }}
-          />
-          {(() => {
-            const stickerOption = renderingCanvas.layout.options.find((opt: any) => opt.count === renderingCanvas.stickerCount);
-            if (!stickerOption) return null;
-
-            const stickerSizePixels = stickerOption.stickerSizePixels;
-            const gutterPixels = SHEET_CONSTANTS.GUTTER_PIXELS;
-            const marginPixels = SHEET_CONSTANTS.OUTER_MARGIN_PIXELS;
-
-            const totalGridWidth = renderingCanvas.cols * stickerSizePixels + (renderingCanvas.cols - 1) * gutterPixels;
-            const totalGridHeight = renderingCanvas.rows * stickerSizePixels + (renderingCanvas.rows - 1) * gutterPixels;
-            const usableWidth = renderingCanvas.layout.sheetSizePixels - 2 * marginPixels;
-            const usableHeight = renderingCanvas.layout.sheetSizePixels - 2 * marginPixels;
-            
-            const startX = marginPixels + Math.max(0, (usableWidth - totalGridWidth) / 2);
-            const startY = marginPixels + Math.max(0, (usableHeight - totalGridHeight) / 2);
-
-            return Array.from({ length: renderingCanvas.rows }).map((_, row) =>
-              Array.from({ length: renderingCanvas.cols }).map((_, col) => {
-                const index = row * renderingCanvas.cols + col;
-                if (index >= renderingCanvas.stickerCount) return null;
-                
-                const x = startX + col * (stickerSizePixels + gutterPixels);
-                const y = startY + row * (stickerSizePixels + gutterPixels);
-                
-                return (
-                  <RNImage
-                    key={`${row}-${col}`}
-                    source={{ uri: renderingCanvas.stickerImageUri }}
-                    style={{
-                      position: 'absolute',
-                      left: x,
-                      top: y,
-                      width: stickerSizePixels,
-                      height: stickerSizePixels,
-                    }}
-                  />
-                );
-              })
-            );
-          })()}
-        </View>
-      )}
     </View>
   );
 }
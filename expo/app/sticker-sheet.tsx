@@ -11,21 +11,20 @@ import {
   Dimensions,
   PanResponder,
   Animated,
-  Platform,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { ArrowLeft, Plus, Trash2, RotateCcw, ShoppingCart, Grid3X3, Sparkles, Download } from 'lucide-react-native';
 import { neutralColors } from '@/constants/colors';
 import { router, useLocalSearchParams } from 'expo-router';
 import { useUser, SavedSticker } from '@/contexts/UserContext';
-import * as FileSystem from 'expo-file-system';
-import { captureRef } from 'react-native-view-shot';
-import { STICKER_SHEET_LAYOUTS, calculateGridDimensions, SheetSize as LayoutSheetSize, SHEET_CONSTANTS } from '@/constants/stickerSheetLayouts';
+import { useCart } from '@/contexts/CartContext';
+import { STICKER_SHEET_LAYOUTS, calculateGridDimensions, SheetSize as LayoutSheetSize } from '@/constants/stickerSheetLayouts';
+import { renderPrintSheet, type PrintSheetPlacement } from '@/utils/printSheets';
 
 
 const { width: screenWidth } = Dimensions.get('window');
 
-type SheetSize = '3x3' | '4x4' | '5x5';
+type SheetSize = '3x3' | '4x4' | '5.5x5.5';
 
 const CANVAS_SIZE = screenWidth - 48;
 const CANVAS_ASPECT_RATIO = 1;
@@ -62,6 +61,7 @@ interface StickerPosition {
 
 const StickerSheetScreen = memo(() => {
   const { savedStickers } = useUser();
+  const { addItem } = useCart();
   const params = useLocalSearchParams();
   const paramSheetSize = typeof params.sheetSize === 'string' ? params.sheetSize as SheetSize : '4x4';
   const paramStickerCount = typeof params.stickerCount === 'string' ? parseInt(params.stickerCount, 10) : null;
@@ -78,7 +78,6 @@ const StickerSheetScreen = memo(() => {
   });
   const animatedValues = useRef<{ [key: string]: { pan: Animated.ValueXY; scale: Animated.Value; opacity: Animated.Value; borderColor: Animated.Value } }>({});
   const panResponders = useRef<{ [key: string]: any }>({});
-  const canvasRef = useRef<View>(null);
   const dragStartPosition = useRef<{ x: number; y: number }>({ x: 0, y: 0 });
   const scrollViewRef = useRef<ScrollView>(null);
   
@@ -527,160 +526,25 @@ const StickerSheetScreen = memo(() => {
     );
   }, []);
 
-  const generateStickerSheetWeb = useCallback(async (): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      if (typeof document === 'undefined') {
-        reject(new Error('Document not available'));
-        return;
-      }
-
-      const layout = STICKER_SHEET_LAYOUTS[currentSheetSize as LayoutSheetSize];
-      const canvas = document.createElement('canvas');
-      canvas.width = layout.sheetSizePixels;
-      canvas.height = layout.sheetSizePixels;
-      const ctx = canvas.getContext('2d');
-      
-      if (!ctx) {
-        reject(new Error('Could not get canvas context'));
-        return;
-      }
-
-      ctx.fillStyle = '#FFFFFF';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-      let loadedImages = 0;
-      const totalImages = selectedStickers.length;
-      
-      if (totalImages === 0) {
-        resolve(canvas.toDataURL('image/png'));
-        return;
-      }
-
-      const scaleX = layout.sheetSizePixels / CANVAS_SIZE;
-      const scaleY = layout.sheetSizePixels / CANVAS_HEIGHT;
-      
-      ctx.fillStyle = '#f8f9fa';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-      
-      ctx.fillStyle = '#ffffff';
-      ctx.fillRect(
-        SHEET_CONSTANTS.OUTER_MARGIN_PIXELS,
-        SHEET_CONSTANTS.OUTER_MARGIN_PIXELS,
-        layout.sheetSizePixels - 2 * SHEET_CONSTANTS.OUTER_MARGIN_PIXELS,
-        layout.sheetSizePixels - 2 * SHEET_CONSTANTS.OUTER_MARGIN_PIXELS
-      );
-      
-      selectedStickers.forEach((stickerPos) => {
-        const img = new (window as any).Image();
-        img.crossOrigin = 'anonymous';
-        
-        img.onload = () => {
-          const x = stickerPos.x * scaleX;
-          const y = stickerPos.y * scaleY;
-          const boxWidth = (stickerPos.width ?? STICKER_SIZE_PIXELS) * scaleX;
-          const boxHeight = (stickerPos.height ?? STICKER_SIZE_PIXELS) * scaleY;
-
-          const naturalW = img.naturalWidth ?? img.width;
-          const naturalH = img.naturalHeight ?? img.height;
-          
-          if (naturalW <= 0 || naturalH <= 0) {
-            console.error('[generateStickerSheetWeb] Invalid image dimensions:', naturalW, naturalH);
-            loadedImages++;
-            if (loadedImages === totalImages) {
-              resolve(canvas.toDataURL('image/png'));
-            }
-            return;
-          }
-          
-          const ratio = naturalW / naturalH;
-          
-          let drawW = boxWidth;
-          let drawH = boxHeight;
-          
-          if (ratio > 1) {
-            drawW = boxWidth;
-            drawH = boxWidth / ratio;
-          } else if (ratio < 1) {
-            drawH = boxHeight;
-            drawW = boxHeight * ratio;
-          } else {
-            drawW = Math.min(boxWidth, boxHeight);
-            drawH = drawW;
-          }
-          
-          const offsetX = (boxWidth - drawW) / 2;
-          const offsetY = (boxHeight - drawH) / 2;
-          
-          console.log(`[generateStickerSheetWeb] Sticker: ${stickerPos.id}, Natural: ${naturalW}x${naturalH}, Ratio: ${ratio.toFixed(2)}, Box: ${boxWidth.toFixed(0)}x${boxHeight.toFixed(0)}, Draw: ${drawW.toFixed(0)}x${drawH.toFixed(0)}, Offset: ${offsetX.toFixed(0)},${offsetY.toFixed(0)}`);
-          
-          ctx.save();
-          ctx.translate(x + offsetX + drawW / 2, y + offsetY + drawH / 2);
-          ctx.rotate((stickerPos.rotation * Math.PI) / 180);
-          ctx.drawImage(
-            img,
-            -drawW / 2,
-            -drawH / 2,
-            drawW,
-            drawH,
-          );
-          ctx.restore();
-          
-          loadedImages++;
-          if (loadedImages === totalImages) {
-            resolve(canvas.toDataURL('image/png'));
-          }
-        };
-        
-        img.onerror = () => {
-          console.error('Failed to load sticker image:', stickerPos.sticker.stickerImage);
-          loadedImages++;
-          if (loadedImages === totalImages) {
-            resolve(canvas.toDataURL('image/png'));
-          }
-        };
-        
-        img.src = stickerPos.sticker.stickerImage;
-      });
-    });
-  }, [selectedStickers, currentSheetSize, STICKER_SIZE_PIXELS]);
-
-  const generateStickerSheetMobile = useCallback(async (): Promise<string> => {
-    if (!canvasRef.current) {
-      throw new Error('Canvas reference not available');
-    }
-
-    try {
-      const layout = STICKER_SHEET_LAYOUTS[currentSheetSize as LayoutSheetSize];
-      const uri = await captureRef(canvasRef.current, {
-        format: 'png',
-        quality: 1.0,
-        width: layout.sheetSizePixels,
-        height: layout.sheetSizePixels,
-      });
-
-      const base64 = await FileSystem.readAsStringAsync(uri, {
-        encoding: FileSystem.EncodingType.Base64,
-      });
-
-      return `data:image/png;base64,${base64}`;
-    } catch (error) {
-      console.error('Error capturing sticker sheet:', error);
-      throw error;
-    }
-  }, [currentSheetSize]);
-
   const generateStickerSheetImage = useCallback(async (): Promise<string> => {
     try {
-      if (Platform.OS === 'web') {
-        return await generateStickerSheetWeb();
-      } else {
-        return await generateStickerSheetMobile();
-      }
+      const layout = STICKER_SHEET_LAYOUTS[currentSheetSize as LayoutSheetSize];
+      const scaleX = layout.sheetSizeInches / CANVAS_SIZE;
+      const scaleY = layout.sheetSizeInches / CANVAS_HEIGHT;
+      // Rotation only ever steps by 90 degrees, which is all the server renders
+      return await renderPrintSheet(currentSheetSize as LayoutSheetSize, selectedStickers.map((stickerPos) => ({
+        image: stickerPos.sticker.stickerImage,
+        xInches: stickerPos.x * scaleX,
+        yInches: stickerPos.y * scaleY,
+        widthInches: (stickerPos.width ?? STICKER_SIZE_PIXELS) * scaleX,
+        heightInches: (stickerPos.height ?? STICKER_SIZE_PIXELS) * scaleY,
+        rotation: (stickerPos.rotation % 360) as PrintSheetPlacement['rotation'],
+      })));
     } catch (error) {
       console.error('Error generating sticker sheet image:', error);
       throw error;
     }
-  }, [generateStickerSheetWeb, generateStickerSheetMobile]);
+  }, [selectedStickers, currentSheetSize, STICKER_SIZE_PIXELS]);
 
   const proceedToCheckout = useCallback(async () => {
     if (selectedStickers.length === 0) {
@@ -711,29 +575,23 @@ const StickerSheetScreen = memo(() => {
     try {
       const stickerSheetImage = await generateStickerSheetImage();
       
-      router.push({
-        pathname: '/checkout',
-        params: {
-          originalImage: 'sticker-sheet',
-          finalStickers: stickerSheetImage,
-          isReorder: 'false',
-          isStickerSheet: 'true',
-          stickerCount: currentStickerCount.toString(),
-          sheetSize: currentSheetSize,
-          isMultiStickerSheet: 'false',
-        },
+      await addItem({
+        product: { kind: 'sheet', size: currentSheetSize },
+        image: stickerSheetImage,
+        stickerCount: currentStickerCount,
       });
-    } catch (error) {
-      console.error('Error generating sticker sheet:', error);
+      router.push('/checkout');
+    } catch (error: any) {
+      console.error('Error adding sticker sheet to cart:', error);
       Alert.alert(
-        'Generation Failed',
-        'Failed to generate sticker sheet. Please try again.',
+        'Could Not Add to Cart',
+        error?.message || 'Failed to generate sticker sheet. Please try again.',
         [{ text: 'OK' }]
       );
     } finally {
       setIsGeneratingSheet(false);
     }
-  }, [selectedStickers, validationErrors, arrangeStickersNeatly, generateStickerSheetImage, currentStickerCount, currentSheetSize]);
+  }, [selectedStickers, validationErrors, arrangeStickersNeatly, generateStickerSheetImage, currentStickerCount, currentSheetSize, addItem]);
 
   useEffect(() => {
     selectedStickers.forEach((item) => {
@@ -807,7 +665,6 @@ const StickerSheetScreen = memo(() => {
                 </Text>
               </View>
               <View 
-                ref={canvasRef}
                 style={[styles.canvas, { height: CANVAS_HEIGHT }]}
                 collapsable={false}
                 testID="stickerSheetCanvas"
@@ -0,0 +1,192 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { MailCheck } from 'lucide-react-native';
+import { memoryMadeColors } from '@/constants/colors';
+import { useUser } from '@/contexts/UserContext';
+
+export default function VerifyEmailScreen() {
+  const params = useLocalSearchParams<{ token?: string }>();
+  const { user, verifyEmail, sendVerificationEmail } = useUser();
+  const [token, setToken] = useState<string>(params.token ?? '');
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [isSending, setIsSending] = useState<boolean>(false);
+  const [isVerified, setIsVerified] = useState<boolean>(!!user?.emailVerified);
+
+  const handleVerify = useCallback(async (value: string) => {
+    const t = value.trim();
+    if (!t) {
+      Alert.alert('Required Fields', 'Enter the code from the verification email.');
+      return;
+    }
+    setIsLoading(true);
+    try {
+      await verifyEmail(t);
+      setIsVerified(true);
+    } catch (error: any) {
+      Alert.alert('Verification Failed', error?.message || 'Could not verify your email. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [verifyEmail]);
+
+  // Opened from the email link: verify straight away, once per token
+  const sentTokenRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (params.token && sentTokenRef.current !== params.token) {
+      sentTokenRef.current = params.token;
+      handleVerify(params.token);
+    }
+  }, [params.token, handleVerify]);
+
+  const handleResend = async () => {
+    if (!user) {
+      Alert.alert('Log In Required', 'Log in to request a new verification email.');
+      return;
+    }
+    setIsSending(true);
+    try {
+      await sendVerificationEmail();
+      Alert.alert('Email Sent', `We sent a new verification code to ${user.email}.`);
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Could not send the email. Please try again.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        <View style={styles.header}>
+          <MailCheck size={32} color={memoryMadeColors.primary} />
+          <Text style={styles.title}>{isVerified ? 'Email verified' : 'Verify your email'}</Text>
+          <Text style={styles.subtitle}>
+            {isVerified
+              ? 'Thanks for confirming your email address.'
+              : 'Paste the code from the verification email we sent you.'}
+          </Text>
+        </View>
+
+        {isVerified ? (
+          <TouchableOpacity style={styles.primaryButton} onPress={() => router.replace('/')}>
+            <Text style={styles.primaryButtonText}>Continue</Text>
+          </TouchableOpacity>
+        ) : (
+          <>
+            <TextInput
+              testID="verify-token-input"
+              style={styles.input}
+              placeholder="Verification code"
+              placeholderTextColor={memoryMadeColors.text.tertiary}
+              value={token}
+              onChangeText={setToken}
+              autoCapitalize="none"
+              autoCorrect={false}
+              editable={!isLoading}
+              returnKeyType="done"
+              onSubmitEditing={() => handleVerify(token)}
+            />
+            <TouchableOpacity
+              testID="verify-submit-button"
+              style={[styles.primaryButton, isLoading && styles.primaryButtonDisabled]}
+              onPress={() => handleVerify(token)}
+              disabled={isLoading}
+            >
+              {isLoading ? (
+                <ActivityIndicator size="small" color={memoryMadeColors.white} />
+              ) : (
+                <Text style={styles.primaryButtonText}>Verify Email</Text>
+              )}
+            </TouchableOpacity>
+            {user && (
+              <TouchableOpacity style={styles.linkButton} onPress={handleResend} disabled={isSending}>
+                <Text style={styles.linkText}>{isSending ? 'Sending...' : 'Resend verification email'}</Text>
+              </TouchableOpacity>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: memoryMadeColors.cream,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: 24,
+    paddingTop: 40,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 24,
+    gap: 8,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700' as const,
+    color: memoryMadeColors.text.primary,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 15,
+    color: memoryMadeColors.text.secondary,
+    textAlign: 'center',
+    lineHeight: 21,
+  },
+  input: {
+    backgroundColor: memoryMadeColors.white,
+    borderRadius: 24,
+    borderWidth: 2,
+    borderColor: memoryMadeColors.primary,
+    marginBottom: 16,
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    fontSize: 16,
+    color: memoryMadeColors.text.primary,
+    minHeight: 56,
+  },
+  primaryButton: {
+    backgroundColor: memoryMadeColors.primary,
+    paddingVertical: 18,
+    paddingHorizontal: 32,
+    borderRadius: 24,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 8,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    color: memoryMadeColors.white,
+    fontSize: 18,
+    fontWeight: '600' as const,
+  },
+  linkButton: {
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  linkText: {
+    color: memoryMadeColors.text.secondary,
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,47 @@
+import { decode as decodeJpeg } from 'jpeg-js';
+import { PNG } from 'pngjs';
+import type { BackgroundRemover } from './types';
+
+// Picker photos arrive as JPEG; either way the result is a PNG so it can carry transparency
+function decodeImage(bytes: Buffer): PNG {
+  if (bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    const decoded = decodeJpeg(bytes, { formatAsRGBA: true });
+    const png = new PNG({ width: decoded.width, height: decoded.height });
+    png.data = decoded.data;
+    return png;
+  }
+  try {
+    return PNG.sync.read(bytes);
+  } catch {
+    throw new Error('The canvas remover only handles PNG and JPEG images');
+  }
+}
+
+/**
+ * Server port of the app's canvas fallback (utils/backgroundRemover.ts): every pixel close to
+ * the top-left colour becomes transparent. Needs no external service, but only handles PNG and
+ * JPEG input and flat backgrounds.
+ */
+export function createCanvasRemover(tolerance: number = 50): BackgroundRemover {
+  return {
+    id: 'canvas',
+
+    async remove(imageBase64) {
+      const png = decodeImage(Buffer.from(imageBase64, 'base64'));
+      const { data } = png;
+      const bg = { r: data[0], g: data[1], b: data[2] };
+
+      for (let idx = 0; idx < data.length; idx += 4) {
+        const distance =
+          Math.abs(data[idx] - bg.r) +
+          Math.abs(data[idx + 1] - bg.g) +
+          Math.abs(data[idx + 2] - bg.b);
+        if (distance < tolerance * 3) {
+          data[idx + 3] = 0;
+        }
+      }
+
+      return PNG.sync.write(png).toString('base64');
+    },
+  };
+}
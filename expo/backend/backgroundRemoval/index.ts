@@ -0,0 +1,11 @@
+export type { BackgroundRemover } from './types';
+export { getBackgroundRemover, setBackgroundRemover } from './removers';
+export { createReplicateRemover } from './replicate';
+export { createLocalModelRemover } from './local';
+export { createCanvasRemover } from './canvas';
+export {
+  submitBackgroundRemoval,
+  getBackgroundRemovalJob,
+  startBackgroundRemovalQueue,
+} from './jobs';
+export type { BackgroundRemovalJobView, BackgroundRemovalStatus } from './jobs';
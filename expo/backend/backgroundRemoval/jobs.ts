@@ -0,0 +1,201 @@
+import { createHash, randomUUID } from 'crypto';
+import { getDatabase } from '@/backend/db';
+import { createLogger, runOutsideRequestContext } from '@/backend/logging';
+import { backgroundRemovalDuration, backgroundRemovalJobsTotal } from '@/backend/metrics';
+import { getBackgroundRemover } from './removers';
+
+/**
+ * Background-removal jobs with a content-addressed result cache.
+ *
+ * Results are keyed by the SHA-256 of the input image and the remover that produced them,
+ * so submitting an image that was already processed completes instantly.
+ */
+
+export type BackgroundRemovalStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export type BackgroundRemovalJobView = {
+  id: string;
+  status: BackgroundRemovalStatus;
+  cached: boolean;
+  error?: string;
+  resultBase64?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+type JobRow = {
+  id: string;
+  user_id: string;
+  input_hash: string;
+  remover: string;
+  input_image: string | null;
+  status: BackgroundRemovalStatus;
+  // 1 when the result came from the cache instead of running the remover
+  cached: number;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+};
+
+const log = createLogger({ component: 'backgroundRemoval' });
+
+const MAX_CONCURRENT = 2;
+
+function hashImage(imageBase64: string): string {
+  return createHash('sha256').update(Buffer.from(imageBase64, 'base64')).digest('hex');
+}
+
+async function getCachedResult(inputHash: string, remover: string): Promise<string | null> {
+  const db = await getDatabase();
+  const row = await db.get<{ result_base64: string }>(
+    'SELECT result_base64 FROM background_removal_cache WHERE input_hash = ? AND remover = ?',
+    [inputHash, remover]
+  );
+  return row?.result_base64 ?? null;
+}
+
+async function toView(row: JobRow): Promise<BackgroundRemovalJobView> {
+  const resultBase64 = row.status === 'succeeded' ? await getCachedResult(row.input_hash, row.remover) : null;
+  return {
+    id: row.id,
+    status: row.status,
+    cached: Number(row.cached) === 1,
+    error: row.error ?? undefined,
+    resultBase64: resultBase64 ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export async function submitBackgroundRemoval(userId: string, imageBase64: string): Promise<BackgroundRemovalJobView> {
+  const db = await getDatabase();
+  const remover = getBackgroundRemover().id;
+  const inputHash = hashImage(imageBase64);
+  const cached = await getCachedResult(inputHash, remover);
+  const now = new Date().toISOString();
+  const id = randomUUID();
+
+  await db.run(
+    `INSERT INTO background_removal_jobs (id, user_id, input_hash, remover, input_image, status, cached, created_at, updated_at, finished_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    cached
+      ? [id, userId, inputHash, remover, null, 'succeeded', 1, now, now, now]
+      : [id, userId, inputHash, remover, imageBase64, 'queued', 0, now, now, null]
+  );
+
+  if (cached) {
+    log.info('Cache hit', { jobId: id, inputHash: inputHash.slice(0, 12), remover });
+    backgroundRemovalJobsTotal.inc({ remover, outcome: 'cached' });
+  } else {
+    log.info('Queued job', { jobId: id, remover });
+    startBackgroundRemovalQueue();
+  }
+
+  const row = await db.get<JobRow>('SELECT * FROM background_removal_jobs WHERE id = ?', [id]);
+  return toView(row as JobRow);
+}
+
+export async function getBackgroundRemovalJob(userId: string, jobId: string): Promise<BackgroundRemovalJobView | null> {
+  const db = await getDatabase();
+  const row = await db.get<JobRow>(
+    'SELECT * FROM background_removal_jobs WHERE id = ? AND user_id = ?',
+    [jobId, userId]
+  );
+  return row ? toView(row) : null;
+}
+
+let activeWorkers = 0;
+let recovery: Promise<void> | null = null;
+
+// Jobs left running by a previous process never finished; put them back in line
+function recoverInterruptedJobs(): Promise<void> {
+  if (!recovery) {
+    recovery = (async () => {
+      const db = await getDatabase();
+      await db.run(
+        `UPDATE background_removal_jobs SET status = 'queued', updated_at = ? WHERE status = 'running'`,
+        [new Date().toISOString()]
+      );
+    })();
+  }
+  return recovery;
+}
+
+async function claimNextJob(): Promise<JobRow | undefined> {
+  const db = await getDatabase();
+  return db.transaction(async (tx) => {
+    const next = await tx.get<JobRow>(
+      `SELECT * FROM background_removal_jobs WHERE status = 'queued' ORDER BY created_at LIMIT 1`
+    );
+    if (!next) return undefined;
+    await tx.run(
+      `UPDATE background_removal_jobs SET status = 'running', updated_at = ? WHERE id = ?`,
+      [new Date().toISOString(), next.id]
+    );
+    return next;
+  });
+}
+
+async function runJob(job: JobRow): Promise<void> {
+  const db = await getDatabase();
+  try {
+    // An identical image may have been processed while this job waited
+    if (!(await getCachedResult(job.input_hash, job.remover))) {
+      // The job and its cache key name the remover it was submitted for; never run it on another
+      const remover = getBackgroundRemover();
+      if (remover.id !== job.remover) {
+        throw new Error(`The ${job.remover} background remover is no longer available`);
+      }
+      const result = await remover.remove(job.input_image ?? '');
+      await db.run(
+        `INSERT INTO background_removal_cache (input_hash, remover, result_base64, created_at) VALUES (?, ?, ?, ?)
+         ON CONFLICT (input_hash, remover) DO NOTHING`,
+        [job.input_hash, job.remover, result, new Date().toISOString()]
+      );
+    }
+    const now = new Date().toISOString();
+    await db.run(
+      `UPDATE background_removal_jobs SET status = 'succeeded', input_image = NULL, updated_at = ?, finished_at = ? WHERE id = ?`,
+      [now, now, job.id]
+    );
+    backgroundRemovalJobsTotal.inc({ remover: job.remover, outcome: 'succeeded' });
+    backgroundRemovalDuration.observe({ remover: job.remover }, (Date.now() - new Date(job.created_at).getTime()) / 1000);
+  } catch (error: any) {
+    log.error('Job failed', { jobId: job.id, remover: job.remover, err: error });
+    backgroundRemovalJobsTotal.inc({ remover: job.remover, outcome: 'failed' });
+    const now = new Date().toISOString();
+    await db.run(
+      `UPDATE background_removal_jobs SET status = 'failed', error = ?, input_image = NULL, updated_at = ?, finished_at = ? WHERE id = ?`,
+      [error?.message || 'Background removal failed', now, now, job.id]
+    );
+  }
+}
+
+async function drainQueue(): Promise<void> {
+  await recoverInterruptedJobs();
+  while (activeWorkers < MAX_CONCURRENT) {
+    // Reserve the worker slot before awaiting so overlapping drains cannot overshoot
+    activeWorkers++;
+    let job: JobRow | undefined;
+    try {
+      job = await claimNextJob();
+    } finally {
+      if (!job) activeWorkers--;
+    }
+    if (!job) return;
+
+    runJob(job)
+      .catch((error) => log.error('Worker crashed', { jobId: job.id, err: error }))
+      .finally(() => {
+        activeWorkers--;
+        startBackgroundRemovalQueue();
+      });
+  }
+}
+
+export function startBackgroundRemovalQueue(): void {
+  runOutsideRequestContext(() => {
+    drainQueue().catch((error) => log.error('Failed to process queue', { err: error }));
+  });
+}
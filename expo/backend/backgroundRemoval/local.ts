@@ -0,0 +1,33 @@
+import type { BackgroundRemover } from './types';
+
+/**
+ * Self-hosted model behind an HTTP endpoint that accepts a multipart `file` upload and answers
+ * with the cut-out PNG, as `rembg s` does at /api/remove.
+ */
+export function createLocalModelRemover(url: string, timeoutMs: number = 60000): BackgroundRemover {
+  return {
+    id: 'local',
+
+    async remove(imageBase64) {
+      const form = new FormData();
+      form.append('file', new Blob([Buffer.from(imageBase64, 'base64')], { type: 'image/png' }), 'image.png');
+
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+      try {
+        const res = await fetch(url, { method: 'POST', body: form, signal: controller.signal });
+        if (!res.ok) {
+          throw new Error(`Local background removal failed (${res.status})`);
+        }
+        return Buffer.from(await res.arrayBuffer()).toString('base64');
+      } catch (error: any) {
+        if (error?.name === 'AbortError') {
+          throw new Error('Local background removal timed out');
+        }
+        throw error;
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    },
+  };
+}
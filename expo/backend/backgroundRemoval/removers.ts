@@ -0,0 +1,44 @@
+import { createLogger } from '@/backend/logging';
+import { createCanvasRemover } from './canvas';
+import { createLocalModelRemover } from './local';
+import { createReplicateRemover } from './replicate';
+import type { BackgroundRemover } from './types';
+
+let remover: BackgroundRemover | null = null;
+
+// BG_REMOVAL_DRIVER picks the implementation; by default Replicate when a token is set, else canvas
+export function getBackgroundRemover(): BackgroundRemover {
+  if (remover) return remover;
+
+  const driver = process.env.BG_REMOVAL_DRIVER ?? (process.env.REPLICATE_API_TOKEN ? 'replicate' : 'canvas');
+  switch (driver) {
+    case 'replicate': {
+      const token = process.env.REPLICATE_API_TOKEN;
+      if (!token) {
+        throw new Error('BG_REMOVAL_DRIVER=replicate requires REPLICATE_API_TOKEN');
+      }
+      remover = createReplicateRemover(token);
+      break;
+    }
+    case 'local': {
+      const url = process.env.BG_REMOVAL_LOCAL_URL;
+      if (!url) {
+        throw new Error('BG_REMOVAL_DRIVER=local requires BG_REMOVAL_LOCAL_URL');
+      }
+      remover = createLocalModelRemover(url);
+      break;
+    }
+    case 'canvas':
+      remover = createCanvasRemover();
+      break;
+    default:
+      throw new Error(`Unsupported BG_REMOVAL_DRIVER: ${driver}`);
+  }
+  createLogger({ component: 'backgroundRemoval' }).info('Using remover', { remover: remover.id });
+  return remover;
+}
+
+// Tests and alternative runtimes can inject their own implementation
+export function setBackgroundRemover(next: BackgroundRemover | null): void {
+  remover = next;
+}
@@ -0,0 +1,68 @@
+import { createLogger } from '@/backend/logging';
+import type { BackgroundRemover } from './types';
+
+const log = createLogger({ component: 'backgroundRemoval', remover: 'replicate' });
+
+const MODEL_URL = 'https://api.replicate.com/v1/models/851-labs/background-remover/predictions';
+const POLL_INTERVAL_MS = 1200;
+
+// Replicate 851-labs background remover. Runs inside a job, so it can wait longer than a request could.
+export function createReplicateRemover(token: string, timeoutMs: number = 120000): BackgroundRemover {
+  const headers = { 'Authorization': `Bearer ${token}` };
+
+  return {
+    id: 'replicate',
+
+    async remove(imageBase64) {
+      const startRes = await fetch(MODEL_URL, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          input: {
+            image: `data:image/png;base64,${imageBase64}`,
+            format: 'png',
+          },
+        }),
+      });
+      if (!startRes.ok) {
+        const text = await startRes.text();
+        log.error('Replicate start error', { status: startRes.status, body: text });
+        throw new Error(`Replicate start failed (${startRes.status})`);
+      }
+
+      const prediction = await startRes.json() as { id: string };
+      const pollUrl = `https://api.replicate.com/v1/predictions/${prediction.id}`;
+      const started = Date.now();
+
+      while (Date.now() - started < timeoutMs) {
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+        const pollRes = await fetch(pollUrl, { headers });
+        if (!pollRes.ok) {
+          const text = await pollRes.text();
+          log.error('Replicate poll error', { status: pollRes.status, body: text });
+          throw new Error(`Replicate poll failed (${pollRes.status})`);
+        }
+
+        const data = await pollRes.json();
+        const status = data?.status as string | undefined;
+        if (status === 'succeeded') {
+          const out = data?.output;
+          const outputUrl = typeof out === 'string' ? out : Array.isArray(out) && typeof out[0] === 'string' ? out[0] : null;
+          if (!outputUrl) {
+            throw new Error('Replicate returned no output');
+          }
+          const imgRes = await fetch(outputUrl);
+          if (!imgRes.ok) {
+            throw new Error('Failed to download output');
+          }
+          return Buffer.from(await imgRes.arrayBuffer()).toString('base64');
+        }
+        if (status === 'failed' || status === 'canceled') {
+          throw new Error(`Replicate prediction ${status}: ${data?.error ?? 'unknown error'}`);
+        }
+      }
+
+      throw new Error('Background removal timed out');
+    },
+  };
+}
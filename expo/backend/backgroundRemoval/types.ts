@@ -0,0 +1,5 @@
+// A background-removal implementation. Input and output are base64 image data without a data: prefix.
+export interface BackgroundRemover {
+  readonly id: string;
+  remove(imageBase64: string): Promise<string>;
+}
@@ -0,0 +1,218 @@
+import { PRINTFUL_PRODUCTS } from '@/constants/printful';
+import { createLogger, runOutsideRequestContext } from '@/backend/logging';
+import type { OrderLine, OrderProduct, PriceList } from '@/backend/payments';
+import { getCatalogSource } from './source';
+import { listCatalogPrices, listSyncedVariants, saveCatalogPrice, saveSyncedVariants, type CatalogPrice, type SyncedVariant } from './store';
+import type { Catalog, CatalogKind, CatalogPriceInput, CatalogPriceSource, CatalogVariant } from './types';
+
+/**
+ * The products on sale, their Printful variants and what they cost. Variants and base costs
+ * are synced from Printful's catalog on a schedule; retail prices are set by an admin, either
+ * fixed or as a margin over base cost, and otherwise stay at the prices the app shipped with.
+ */
+
+const log = createLogger({ component: 'catalog' });
+
+const SYNC_INTERVAL_MS = 6 * 60 * 60 * 1000;
+// Prices are read on every quote; a short cache keeps that off the database
+const SNAPSHOT_TTL_MS = 60 * 1000;
+
+export class CatalogError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CatalogError';
+  }
+}
+
+type CatalogProductConfig = {
+  kind: CatalogKind;
+  productId: number;
+  // The sizes the app can lay out, with the variant and price used until the first sync
+  defaults: (typeof PRINTFUL_PRODUCTS)['KISS_CUT_STICKER_SHEET' | 'INDIVIDUAL_KISS_CUT_STICKERS'];
+};
+
+function configuredProductId(name: string, fallback: number): number {
+  const configured = Number(process.env[name]);
+  return Number.isInteger(configured) && configured > 0 ? configured : fallback;
+}
+
+// Product ids can be switched on the server without an app release
+function catalogProducts(): CatalogProductConfig[] {
+  return [
+    {
+      kind: 'sheet',
+      productId: configuredProductId('PRINTFUL_SHEET_PRODUCT_ID', PRINTFUL_PRODUCTS.KISS_CUT_STICKER_SHEET.id),
+      defaults: PRINTFUL_PRODUCTS.KISS_CUT_STICKER_SHEET,
+    },
+    {
+      kind: 'individual',
+      productId: configuredProductId('PRINTFUL_INDIVIDUAL_PRODUCT_ID', PRINTFUL_PRODUCTS.INDIVIDUAL_KISS_CUT_STICKERS.id),
+      defaults: PRINTFUL_PRODUCTS.INDIVIDUAL_KISS_CUT_STICKERS,
+    },
+  ];
+}
+
+// Printful labels sizes like 5.5″×5.5″; the app keys them as 5.5x5.5
+function sizeKey(label: string): string {
+  return label.replace(/[″"\s]/g, '').replace(/×/g, 'x').toLowerCase();
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function priceFor(
+  baseCost: number | undefined,
+  override: CatalogPrice | undefined,
+  fallback: number
+): { price: number; priceSource: CatalogPriceSource } {
+  if (override?.retailPrice !== undefined) {
+    return { price: override.retailPrice, priceSource: 'retail' };
+  }
+  if (override?.marginPercent !== undefined && baseCost !== undefined) {
+    return { price: Math.ceil(baseCost * (100 + override.marginPercent) / 100), priceSource: 'margin' };
+  }
+  return { price: fallback, priceSource: 'default' };
+}
+
+function buildCatalog(synced: SyncedVariant[], prices: CatalogPrice[]): Catalog {
+  const variants: CatalogVariant[] = [];
+  for (const config of catalogProducts()) {
+    for (const [size, fallback] of Object.entries(config.defaults.variants)) {
+      const variant = synced.find((candidate) => candidate.kind === config.kind && candidate.size === size);
+      const override = prices.find((candidate) => candidate.kind === config.kind && candidate.size === size);
+      variants.push({
+        kind: config.kind,
+        size: size as CatalogVariant['size'],
+        productId: variant?.productId ?? config.productId,
+        variantId: variant?.variantId ?? fallback.id,
+        productName: variant?.productName ?? config.defaults.name,
+        sizeLabel: variant?.sizeLabel ?? fallback.size,
+        baseCost: variant?.baseCost,
+        ...priceFor(variant?.baseCost, override, toCents(fallback.price)),
+        retailPrice: override?.retailPrice,
+        marginPercent: override?.marginPercent,
+        // Sizes that were never synced are sold as before
+        available: variant?.inStock ?? true,
+        syncedAt: variant?.syncedAt,
+      });
+    }
+  }
+
+  const syncedAt = synced.reduce<string | undefined>(
+    (latest, variant) => (!latest || variant.syncedAt > latest ? variant.syncedAt : latest),
+    undefined
+  );
+  return { variants, syncedAt };
+}
+
+let snapshot: { catalog: Catalog; loadedAt: number } | null = null;
+
+export async function getCatalog(): Promise<Catalog> {
+  if (snapshot && Date.now() - snapshot.loadedAt < SNAPSHOT_TTL_MS) {
+    return snapshot.catalog;
+  }
+  const catalog = buildCatalog(await listSyncedVariants(), await listCatalogPrices());
+  snapshot = { catalog, loadedAt: Date.now() };
+  return catalog;
+}
+
+export function findCatalogVariant(catalog: Catalog, product: OrderProduct): CatalogVariant {
+  const variant = catalog.variants.find((candidate) => candidate.kind === product.kind && candidate.size === product.size);
+  if (!variant) {
+    throw new CatalogError(`${product.size} ${product.kind === 'sheet' ? 'sticker sheets' : 'stickers'} are not sold`);
+  }
+  return variant;
+}
+
+// Unit prices for quoting an order
+export function catalogPriceList(catalog: Catalog): PriceList {
+  const prices: PriceList = { sheet: {} as PriceList['sheet'], individual: {} as PriceList['individual'] };
+  for (const variant of catalog.variants) {
+    (prices[variant.kind] as Record<string, number>)[variant.size] = variant.price;
+  }
+  return prices;
+}
+
+/**
+ * Throws CatalogError if any line is for a size Printful currently has out of stock.
+ */
+export function assertAvailable(catalog: Catalog, lines: OrderLine[]): void {
+  for (const line of lines) {
+    const variant = findCatalogVariant(catalog, line.product);
+    if (!variant.available) {
+      throw new CatalogError(`${variant.productName} (${variant.sizeLabel}) is not available right now`);
+    }
+  }
+}
+
+export async function setCatalogPrice(input: CatalogPriceInput): Promise<Catalog> {
+  await saveCatalogPrice(input);
+  snapshot = null;
+  log.info('Catalog price updated', {
+    kind: input.kind,
+    size: input.size,
+    retailPrice: input.retailPrice ?? null,
+    marginPercent: input.marginPercent ?? null,
+  });
+  return getCatalog();
+}
+
+/**
+ * Pulls the configured products from Printful and records their variants and base costs.
+ * Variants in sizes the app cannot lay out are skipped.
+ */
+export async function syncCatalog(): Promise<{ source: string; variants: number }> {
+  const source = getCatalogSource();
+  const syncedAt = new Date().toISOString();
+  let count = 0;
+
+  for (const config of catalogProducts()) {
+    const { product, variants } = await source.fetchProduct(config.productId);
+    const synced: SyncedVariant[] = [];
+    for (const variant of variants) {
+      const size = sizeKey(variant.size) as SyncedVariant['size'];
+      const baseCost = toCents(Number(variant.price));
+      if (!(size in config.defaults.variants) || !Number.isFinite(baseCost)) {
+        log.debug('Skipping catalog variant', { productId: product.id, variantId: variant.id, size: variant.size });
+        continue;
+      }
+      // Sticker products come in one color; if Printful adds more, the first listed is used
+      if (synced.some((candidate) => candidate.size === size)) continue;
+      synced.push({
+        kind: config.kind,
+        size,
+        productId: product.id,
+        variantId: variant.id,
+        productName: product.title,
+        sizeLabel: variant.size,
+        baseCost,
+        inStock: variant.in_stock && !product.is_discontinued,
+        syncedAt,
+      });
+    }
+    await saveSyncedVariants(config.kind, synced, syncedAt);
+    count += synced.length;
+  }
+
+  snapshot = null;
+  log.info('Catalog synced', { source: source.name, variants: count });
+  return { source: source.name, variants: count };
+}
+
+let syncTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Syncs the catalog now and then every few hours. Safe to call more than once. A failed sync
+ * keeps the last good catalog.
+ */
+export function startCatalogSync(): void {
+  if (syncTimer) return;
+  const run = () => {
+    runOutsideRequestContext(() => {
+      syncCatalog().catch((error) => log.error('Catalog sync failed', { err: error }));
+    });
+  };
+  syncTimer = setInterval(run, SYNC_INTERVAL_MS);
+  run();
+}
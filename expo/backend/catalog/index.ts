@@ -0,0 +1,11 @@
+export {
+  assertAvailable,
+  catalogPriceList,
+  CatalogError,
+  findCatalogVariant,
+  getCatalog,
+  setCatalogPrice,
+  startCatalogSync,
+  syncCatalog,
+} from './catalog';
+export type { Catalog, CatalogKind, CatalogPriceInput, CatalogPriceSource, CatalogVariant } from './types';
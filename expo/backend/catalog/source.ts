@@ -0,0 +1,56 @@
+import { isPrintfulConfigured, printfulRequest } from '@/backend/printful/client';
+import sheetFixture from './fixtures/product_532.json';
+import individualFixture from './fixtures/product_533.json';
+
+/**
+ * Where catalog syncs read products from: Printful's catalog API, or responses recorded from
+ * it when there is no Printful store (development and tests). Set PRINTFUL_CATALOG_SOURCE to
+ * `fixtures` to use the recordings even with a store configured.
+ */
+
+// GET /products/{id}, trimmed to the fields the catalog uses
+export type PrintfulCatalogProduct = {
+  product: { id: number; title: string; is_discontinued?: boolean };
+  variants: {
+    id: number;
+    product_id: number;
+    name: string;
+    size: string;
+    // Base cost in dollars, e.g. "6.95"
+    price: string;
+    in_stock: boolean;
+  }[];
+};
+
+export type CatalogSource = {
+  name: 'printful' | 'fixtures';
+  fetchProduct: (productId: number) => Promise<PrintfulCatalogProduct>;
+};
+
+const FIXTURES: Record<number, PrintfulCatalogProduct> = {
+  [sheetFixture.product.id]: sheetFixture,
+  [individualFixture.product.id]: individualFixture,
+};
+
+const printfulSource: CatalogSource = {
+  name: 'printful',
+  fetchProduct: (productId) => printfulRequest<PrintfulCatalogProduct>('GET', `/products/${productId}`),
+};
+
+const fixtureSource: CatalogSource = {
+  name: 'fixtures',
+  fetchProduct: async (productId) => {
+    const fixture = FIXTURES[productId];
+    if (!fixture) {
+      throw new Error(`No recorded catalog fixture for Printful product ${productId}`);
+    }
+    return fixture;
+  },
+};
+
+export function getCatalogSource(): CatalogSource {
+  if (process.env.PRINTFUL_CATALOG_SOURCE === 'fixtures' || !isPrintfulConfigured()) {
+    return fixtureSource;
+  }
+  return printfulSource;
+}
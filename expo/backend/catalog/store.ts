@@ -0,0 +1,114 @@
+import { getDatabase } from '@/backend/db';
+import type { CatalogKind, CatalogPriceInput, CatalogSize } from './types';
+
+// A variant as last synced from Printful; base cost in cents
+export type SyncedVariant = {
+  kind: CatalogKind;
+  size: CatalogSize;
+  productId: number;
+  variantId: number;
+  productName: string;
+  sizeLabel: string;
+  baseCost: number;
+  inStock: boolean;
+  syncedAt: string;
+};
+
+export type CatalogPrice = {
+  kind: CatalogKind;
+  size: CatalogSize;
+  retailPrice?: number;
+  marginPercent?: number;
+  updatedAt: string;
+};
+
+type VariantRow = {
+  kind: CatalogKind;
+  size: CatalogSize;
+  product_id: number;
+  variant_id: number;
+  product_name: string;
+  size_label: string;
+  base_cost: number;
+  in_stock: number;
+  synced_at: string;
+};
+
+type PriceRow = {
+  kind: CatalogKind;
+  size: CatalogSize;
+  retail_price: number | null;
+  margin_percent: number | null;
+  updated_at: string;
+};
+
+export async function listSyncedVariants(): Promise<SyncedVariant[]> {
+  const db = await getDatabase();
+  const rows = await db.all<VariantRow>('SELECT * FROM catalog_variants ORDER BY kind, size');
+  return rows.map((row) => ({
+    kind: row.kind,
+    size: row.size,
+    productId: Number(row.product_id),
+    variantId: Number(row.variant_id),
+    productName: row.product_name,
+    sizeLabel: row.size_label,
+    baseCost: Number(row.base_cost),
+    inStock: !!row.in_stock,
+    syncedAt: row.synced_at,
+  }));
+}
+
+/**
+ * Replaces one product's variants with a fresh sync. Sizes Printful no longer lists are kept
+ * but marked out of stock, so they stop being sold without losing their history.
+ */
+export async function saveSyncedVariants(kind: CatalogKind, variants: SyncedVariant[], syncedAt: string): Promise<void> {
+  const db = await getDatabase();
+  await db.transaction(async (tx) => {
+    for (const variant of variants) {
+      await tx.run(
+        `INSERT INTO catalog_variants (kind, size, product_id, variant_id, product_name, size_label, base_cost,
+           in_stock, synced_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (kind, size) DO UPDATE SET
+           product_id = excluded.product_id, variant_id = excluded.variant_id, product_name = excluded.product_name,
+           size_label = excluded.size_label, base_cost = excluded.base_cost, in_stock = excluded.in_stock,
+           synced_at = excluded.synced_at`,
+        [variant.kind, variant.size, variant.productId, variant.variantId, variant.productName, variant.sizeLabel,
+          variant.baseCost, variant.inStock ? 1 : 0, syncedAt]
+      );
+    }
+    await tx.run(
+      'UPDATE catalog_variants SET in_stock = 0 WHERE kind = ? AND synced_at != ?',
+      [kind, syncedAt]
+    );
+  });
+}
+
+export async function listCatalogPrices(): Promise<CatalogPrice[]> {
+  const db = await getDatabase();
+  const rows = await db.all<PriceRow>('SELECT * FROM catalog_prices');
+  return rows.map((row) => ({
+    kind: row.kind,
+    size: row.size,
+    retailPrice: row.retail_price === null ? undefined : Number(row.retail_price),
+    marginPercent: row.margin_percent === null ? undefined : Number(row.margin_percent),
+    updatedAt: row.updated_at,
+  }));
+}
+
+// Setting neither a retail price nor a margin clears the override
+export async function saveCatalogPrice(input: CatalogPriceInput): Promise<void> {
+  const db = await getDatabase();
+  if (input.retailPrice == null && input.marginPercent == null) {
+    await db.run('DELETE FROM catalog_prices WHERE kind = ? AND size = ?', [input.kind, input.size]);
+    return;
+  }
+  await db.run(
+    `INSERT INTO catalog_prices (kind, size, retail_price, margin_percent, updated_at)
+     VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT (kind, size) DO UPDATE SET
+       retail_price = excluded.retail_price, margin_percent = excluded.margin_percent, updated_at = excluded.updated_at`,
+    [input.kind, input.size, input.retailPrice ?? null, input.marginPercent ?? null, new Date().toISOString()]
+  );
+}
@@ -0,0 +1,43 @@
+import type { IndividualSize, SheetSize } from '@/backend/payments';
+
+export type CatalogKind = 'sheet' | 'individual';
+
+export type CatalogSize<K extends CatalogKind = CatalogKind> = K extends 'sheet' ? SheetSize : IndividualSize;
+
+// Where a variant's retail price came from: fixed by an admin, base cost plus an admin margin,
+// or the price the app shipped with
+export type CatalogPriceSource = 'retail' | 'margin' | 'default';
+
+// Amounts in cents
+export type CatalogVariant = {
+  kind: CatalogKind;
+  size: CatalogSize;
+  productId: number;
+  variantId: number;
+  productName: string;
+  // Printful's size, e.g. 3″×3″
+  sizeLabel: string;
+  // What Printful charges us; unknown until the first sync
+  baseCost?: number;
+  price: number;
+  priceSource: CatalogPriceSource;
+  retailPrice?: number;
+  marginPercent?: number;
+  available: boolean;
+  syncedAt?: string;
+};
+
+export type Catalog = {
+  variants: CatalogVariant[];
+  // Most recent successful sync; missing when only the built-in products are known
+  syncedAt?: string;
+};
+
+// An admin's price for one size: a fixed retail price, a margin over base cost, or neither to
+// go back to the default
+export type CatalogPriceInput = {
+  kind: CatalogKind;
+  size: CatalogSize;
+  retailPrice?: number | null;
+  marginPercent?: number | null;
+};
@@ -0,0 +1,4 @@
+export { CompositingError, compositeSheet, decodeSticker, MAX_STICKER_PIXELS } from './sheet';
+export type { SheetBox, SheetComposition, SheetPlacement, SheetRotation } from './sheet';
+export { withDpi } from './png';
+export { thumbnailPng } from './thumbnail';
@@ -0,0 +1,45 @@
+const METERS_PER_INCH = 0.0254;
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Buffer): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of data) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Records the print resolution in the PNG's pHYs chunk, which is how print shops and image
+ * editors know a 1650 px sheet is 5.5″ at 300 dpi. pngjs does not write the chunk, so it is
+ * inserted after IHDR, where the PNG spec requires it to come before the image data.
+ */
+export function withDpi(png: Buffer, dpi: number): Buffer {
+  // 8-byte signature, then IHDR: length, type, 13 bytes of data, CRC
+  const ihdrEnd = 8 + 4 + 4 + 13 + 4;
+  if (png.length < ihdrEnd || png.toString('latin1', 12, 16) !== 'IHDR') {
+    throw new Error('Not a PNG image');
+  }
+
+  const pixelsPerMeter = Math.round(dpi / METERS_PER_INCH);
+  const body = Buffer.alloc(4 + 9);
+  body.write('pHYs', 0, 'latin1');
+  body.writeUInt32BE(pixelsPerMeter, 4);
+  body.writeUInt32BE(pixelsPerMeter, 8);
+  // Unit: meters
+  body.writeUInt8(1, 12);
+
+  const chunk = Buffer.alloc(4 + body.length + 4);
+  chunk.writeUInt32BE(9, 0);
+  body.copy(chunk, 4);
+  chunk.writeUInt32BE(crc32(body), 4 + body.length);
+
+  return Buffer.concat([png.subarray(0, ihdrEnd), chunk, png.subarray(ihdrEnd)]);
+}
@@ -0,0 +1,207 @@
+import { PNG } from 'pngjs';
+import { withDpi } from './png';
+
+/**
+ * Print sheets rendered on the server, so every platform sends the printer the same file. Each
+ * sticker is resampled once per drawn size and copied into its placements on a transparent
+ * sheet; anything left transparent is bare sticker paper.
+ */
+
+// [x, y, width, height] in sheet pixels; the sticker is fitted inside and centered
+export type SheetBox = [number, number, number, number];
+
+// Clockwise, about the centre of the box
+export type SheetRotation = 0 | 90 | 180 | 270;
+
+export type SheetPlacement = {
+  box: SheetBox;
+  // Index into the composition's stickers
+  sticker: number;
+  rotation: SheetRotation;
+};
+
+export type SheetComposition = {
+  widthPixels: number;
+  heightPixels: number;
+  dpi: number;
+  // Decoded PNGs of the stickers the placements draw
+  stickers: PNG[];
+  placements: SheetPlacement[];
+};
+
+// Decoding allocates 4 bytes a pixel and resampling four floats, so huge images are refused up front
+export const MAX_STICKER_PIXELS = 4096 * 4096;
+
+export class CompositingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CompositingError';
+  }
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+export function decodeSticker(png: Buffer): PNG {
+  // The IHDR chunk always comes first, so the size is known before anything is inflated
+  if (png.length < 24 || !png.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new CompositingError('The sticker image must be a PNG');
+  }
+  if (png.readUInt32BE(16) * png.readUInt32BE(20) > MAX_STICKER_PIXELS) {
+    throw new CompositingError('The sticker image is too large');
+  }
+  try {
+    return PNG.sync.read(png);
+  } catch {
+    throw new CompositingError('The sticker image must be a PNG');
+  }
+}
+
+/**
+ * One pass of a separable resize along rows. A tent filter as wide as the scale factor averages
+ * every source pixel when shrinking and interpolates linearly when enlarging.
+ */
+function resizeRows(src: Float32Array, width: number, height: number, targetWidth: number): Float32Array {
+  const out = new Float32Array(targetWidth * height * 4);
+  const scale = width / targetWidth;
+  const support = Math.max(1, scale);
+  for (let x = 0; x < targetWidth; x++) {
+    const center = (x + 0.5) * scale - 0.5;
+    const first = Math.ceil(center - support);
+    const last = Math.floor(center + support);
+    const taps: [number, number][] = [];
+    let total = 0;
+    for (let i = first; i <= last; i++) {
+      const weight = Math.max(0, 1 - Math.abs(i - center) / support);
+      if (weight === 0) continue;
+      taps.push([Math.min(Math.max(i, 0), width - 1), weight]);
+      total += weight;
+    }
+    for (let y = 0; y < height; y++) {
+      const row = y * width;
+      const target = (y * targetWidth + x) * 4;
+      for (const [i, weight] of taps) {
+        const source = (row + i) * 4;
+        const w = weight / total;
+        out[target] += src[source] * w;
+        out[target + 1] += src[source + 1] * w;
+        out[target + 2] += src[source + 2] * w;
+        out[target + 3] += src[source + 3] * w;
+      }
+    }
+  }
+  return out;
+}
+
+function transpose(src: Float32Array, width: number, height: number): Float32Array {
+  const out = new Float32Array(src.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const from = (y * width + x) * 4;
+      const to = (x * height + y) * 4;
+      out[to] = src[from];
+      out[to + 1] = src[from + 1];
+      out[to + 2] = src[from + 2];
+      out[to + 3] = src[from + 3];
+    }
+  }
+  return out;
+}
+
+/**
+ * Resizes RGBA pixels. Colour is premultiplied by alpha while filtering, so transparent pixels
+ * (whose colour is meaningless) cannot bleed a dark fringe into the sticker's edge.
+ */
+export function resize(image: PNG, targetWidth: number, targetHeight: number): Uint8Array {
+  const { width, height, data } = image;
+  const premultiplied = new Float32Array(width * height * 4);
+  for (let i = 0; i < width * height * 4; i += 4) {
+    const alpha = data[i + 3] / 255;
+    premultiplied[i] = data[i] * alpha;
+    premultiplied[i + 1] = data[i + 1] * alpha;
+    premultiplied[i + 2] = data[i + 2] * alpha;
+    premultiplied[i + 3] = data[i + 3];
+  }
+
+  const across = resizeRows(premultiplied, width, height, targetWidth);
+  const down = resizeRows(transpose(across, targetWidth, height), height, targetWidth, targetHeight);
+  const resized = transpose(down, targetHeight, targetWidth);
+
+  const out = new Uint8Array(targetWidth * targetHeight * 4);
+  for (let i = 0; i < out.length; i += 4) {
+    const alpha = resized[i + 3];
+    if (alpha <= 0) continue;
+    const unpremultiply = 255 / alpha;
+    out[i] = Math.round(Math.min(255, resized[i] * unpremultiply));
+    out[i + 1] = Math.round(Math.min(255, resized[i + 1] * unpremultiply));
+    out[i + 2] = Math.round(Math.min(255, resized[i + 2] * unpremultiply));
+    out[i + 3] = Math.round(Math.min(255, alpha));
+  }
+  return out;
+}
+
+// Quarter turns clockwise; a 90 or 270 degree turn swaps width and height
+function rotate(pixels: Uint8Array, width: number, height: number, rotation: SheetRotation): Uint8Array {
+  if (rotation === 0) return pixels;
+  const out = new Uint8Array(pixels.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let to: number;
+      if (rotation === 90) to = x * height + (height - 1 - y);
+      else if (rotation === 180) to = (height - 1 - y) * width + (width - 1 - x);
+      else to = (width - 1 - x) * height + y;
+      out.set(pixels.subarray((y * width + x) * 4, (y * width + x) * 4 + 4), to * 4);
+    }
+  }
+  return out;
+}
+
+/**
+ * Renders the sheet as a PNG with its DPI recorded. Each sticker, size and rotation is resampled
+ * once and reused by every placement that repeats it.
+ */
+export function compositeSheet(composition: SheetComposition): Buffer {
+  const { widthPixels, heightPixels, dpi, stickers, placements } = composition;
+  // New PNGs start zeroed, which is fully transparent
+  const sheet = new PNG({ width: widthPixels, height: heightPixels });
+  const resized = new Map<string, Uint8Array>();
+
+  for (const { box: [boxX, boxY, boxWidth, boxHeight], sticker: index, rotation } of placements) {
+    const sticker = stickers[index];
+    const scale = Math.min(boxWidth / sticker.width, boxHeight / sticker.height);
+    const fittedWidth = Math.max(1, Math.round(sticker.width * scale));
+    const fittedHeight = Math.max(1, Math.round(sticker.height * scale));
+    const key = `${index}:${fittedWidth}x${fittedHeight}:${rotation}`;
+    let pixels = resized.get(key);
+    if (!pixels) {
+      pixels = rotate(resize(sticker, fittedWidth, fittedHeight), fittedWidth, fittedHeight, rotation);
+      resized.set(key, pixels);
+    }
+
+    const turned = rotation === 90 || rotation === 270;
+    const drawWidth = turned ? fittedHeight : fittedWidth;
+    const drawHeight = turned ? fittedWidth : fittedHeight;
+    const left = Math.round(boxX + (boxWidth - drawWidth) / 2);
+    const top = Math.round(boxY + (boxHeight - drawHeight) / 2);
+    for (let y = 0; y < drawHeight; y++) {
+      const sheetY = top + y;
+      if (sheetY < 0 || sheetY >= heightPixels) continue;
+      for (let x = 0; x < drawWidth; x++) {
+        const sheetX = left + x;
+        if (sheetX < 0 || sheetX >= widthPixels) continue;
+        const from = (y * drawWidth + x) * 4;
+        const alpha = pixels[from + 3];
+        if (alpha === 0) continue;
+        const to = (sheetY * widthPixels + sheetX) * 4;
+        // A turned sticker can reach past its box; where it meets another, it is drawn over it
+        const below = sheet.data[to + 3] * (255 - alpha) / 255;
+        const total = alpha + below;
+        for (let channel = 0; channel < 3; channel++) {
+          sheet.data[to + channel] = Math.round((pixels[from + channel] * alpha + sheet.data[to + channel] * below) / total);
+        }
+        sheet.data[to + 3] = Math.round(total);
+      }
+    }
+  }
+
+  return withDpi(PNG.sync.write(sheet, { colorType: 6 }), dpi);
+}
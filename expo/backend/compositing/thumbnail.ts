@@ -0,0 +1,18 @@
+import { PNG } from 'pngjs';
+import { decodeSticker, resize } from './sheet';
+
+/**
+ * A small PNG of an image for lists and previews, no larger than `maxSide` pixels on either
+ * side. Images already that small are returned as they are.
+ */
+export function thumbnailPng(png: Buffer, maxSide: number): Buffer {
+  const image = decodeSticker(png);
+  const scale = Math.min(1, maxSide / Math.max(image.width, image.height));
+  if (scale === 1) return png;
+
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const thumbnail = new PNG({ width, height });
+  thumbnail.data = Buffer.from(resize(image, width, height));
+  return PNG.sync.write(thumbnail);
+}
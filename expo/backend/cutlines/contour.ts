@@ -0,0 +1,357 @@
+import { PNG } from 'pngjs';
+
+/**
+ * Kiss-cut lines that follow a sticker's shape. The image's alpha channel is reduced to a mask
+ * on a working grid of at most MAX_GRID cells a side, grown by the cut offset with an exact
+ * distance transform, and its outer boundary traced, smoothed and simplified into a closed
+ * polygon. Holes are filled first, since a kiss cut only follows the outside of the art.
+ */
+
+export type CutlinePoint = [number, number];
+
+export type CutlineOptions = {
+  // The box the image is drawn into, centered and scaled to fit, in output units (e.g. sheet pixels)
+  box: { x: number; y: number; width: number; height: number };
+  // Distance from the art to the cut, in output units
+  offset: number;
+  // Points per closed path after simplification
+  maxPoints?: number;
+};
+
+// Cutters handle a few hundred nodes per shape comfortably; more only slows the plotter down
+export const MAX_CUTLINE_POINTS = 200;
+
+const MAX_GRID = 400;
+// Pixels at or below this alpha are background
+const ALPHA_THRESHOLD = 8;
+// Pieces smaller than this share of the largest are specks of stray alpha, not art to cut out
+const MIN_PIECE_SHARE = 0.01;
+
+// Squared distance standing in for "no art in reach"
+const FAR = 1e20;
+
+type Mask = { width: number; height: number; cells: Uint8Array };
+
+/**
+ * Reduces the image's alpha to a grid of at most MAX_GRID cells a side; a cell is art if any
+ * pixel in it is. Returns null when the image cannot be decoded or has no art at all.
+ */
+function alphaMask(png: Buffer): { mask: Mask; step: number; imageWidth: number; imageHeight: number } | null {
+  let image: PNG;
+  try {
+    image = PNG.sync.read(png);
+  } catch {
+    return null;
+  }
+  const { width, height, data } = image;
+  const step = Math.max(1, Math.ceil(Math.max(width, height) / MAX_GRID));
+  const mask: Mask = { width: Math.ceil(width / step), height: Math.ceil(height / step), cells: new Uint8Array(0) };
+  mask.cells = new Uint8Array(mask.width * mask.height);
+
+  let any = false;
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor(y / step) * mask.width;
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] > ALPHA_THRESHOLD) {
+        mask.cells[row + Math.floor(x / step)] = 1;
+        any = true;
+      }
+    }
+  }
+  return any ? { mask, step, imageWidth: width, imageHeight: height } : null;
+}
+
+// Felzenszwalb–Huttenlocher squared distance transform of one row or column, in place
+function distance1d(f: Float64Array, n: number, v: Int32Array, z: Float64Array, out: Float64Array): void {
+  let k = 0;
+  v[0] = 0;
+  z[0] = -Infinity;
+  z[1] = Infinity;
+  for (let q = 1; q < n; q++) {
+    let s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    while (s <= z[k]) {
+      k--;
+      s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    }
+    k++;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = Infinity;
+  }
+  k = 0;
+  for (let q = 0; q < n; q++) {
+    while (z[k + 1] < q) k++;
+    out[q] = (q - v[k]) * (q - v[k]) + f[v[k]];
+  }
+}
+
+// The mask grown by `radius` cells, on a grid padded so the growth is not clipped
+function dilate(mask: Mask, radius: number): { mask: Mask; pad: number } {
+  const pad = Math.ceil(radius) + 1;
+  const width = mask.width + 2 * pad;
+  const height = mask.height + 2 * pad;
+  // Finite, so rows with no art do not turn the transform's arithmetic into NaN
+  const distances = new Float64Array(width * height).fill(FAR);
+  for (let y = 0; y < mask.height; y++) {
+    for (let x = 0; x < mask.width; x++) {
+      if (mask.cells[y * mask.width + x]) distances[(y + pad) * width + x + pad] = 0;
+    }
+  }
+
+  const size = Math.max(width, height);
+  const f = new Float64Array(size);
+  const out = new Float64Array(size);
+  const v = new Int32Array(size);
+  const z = new Float64Array(size + 1);
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) f[y] = distances[y * width + x];
+    distance1d(f, height, v, z, out);
+    for (let y = 0; y < height; y++) distances[y * width + x] = out[y];
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) f[x] = distances[y * width + x];
+    distance1d(f, width, v, z, out);
+    for (let x = 0; x < width; x++) distances[y * width + x] = out[x];
+  }
+
+  const cells = new Uint8Array(width * height);
+  const limit = radius * radius;
+  for (let i = 0; i < cells.length; i++) cells[i] = distances[i] <= limit ? 1 : 0;
+  return { mask: { width, height, cells }, pad };
+}
+
+// Labels 4-connected runs of cells equal to `value`; returns labels (0 = other) and each label's size
+function components(mask: Mask, value: number): { labels: Int32Array; sizes: number[] } {
+  const { width, height, cells } = mask;
+  const labels = new Int32Array(width * height);
+  const sizes = [0];
+  const stack: number[] = [];
+  for (let start = 0; start < cells.length; start++) {
+    if (cells[start] !== value || labels[start]) continue;
+    const label = sizes.length;
+    let size = 0;
+    labels[start] = label;
+    stack.push(start);
+    while (stack.length > 0) {
+      const i = stack.pop() as number;
+      size++;
+      const x = i % width;
+      const neighbours = [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, i - width, i + width];
+      for (const n of neighbours) {
+        if (n >= 0 && n < cells.length && cells[n] === value && !labels[n]) {
+          labels[n] = label;
+          stack.push(n);
+        }
+      }
+    }
+    sizes.push(size);
+  }
+  return { labels, sizes };
+}
+
+// Fills holes and drops specks, leaving only the outlines worth cutting
+function cuttablePieces(mask: Mask): Mask {
+  const { width, height } = mask;
+  const cells = new Uint8Array(mask.cells);
+
+  // Background that cannot reach the grid's edge is a hole in the art
+  const background = components(mask, 0);
+  const outside = new Set<number>();
+  for (let x = 0; x < width; x++) {
+    outside.add(background.labels[x]);
+    outside.add(background.labels[(height - 1) * width + x]);
+  }
+  for (let y = 0; y < height; y++) {
+    outside.add(background.labels[y * width]);
+    outside.add(background.labels[y * width + width - 1]);
+  }
+  for (let i = 0; i < cells.length; i++) {
+    if (!cells[i] && !outside.has(background.labels[i])) cells[i] = 1;
+  }
+
+  const filled: Mask = { width, height, cells };
+  const pieces = components(filled, 1);
+  const minimum = Math.max(...pieces.sizes) * MIN_PIECE_SHARE;
+  for (let i = 0; i < cells.length; i++) {
+    if (cells[i] && pieces.sizes[pieces.labels[i]] < minimum) cells[i] = 0;
+  }
+  return filled;
+}
+
+/**
+ * Outer boundaries of the mask as closed loops of cell corners, clockwise on screen. Each
+ * boundary edge runs with the art on its right; where two pieces touch only at a corner the
+ * walk turns right, so each piece gets its own loop.
+ */
+function traceBoundaries(mask: Mask): CutlinePoint[][] {
+  const { width, height, cells } = mask;
+  const filled = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && cells[y * width + x] === 1;
+  const vertex = (x: number, y: number) => y * (width + 1) + x;
+
+  const edges: { x: number; y: number; dx: number; dy: number }[] = [];
+  const outgoing = new Map<number, number[]>();
+  const addEdge = (x: number, y: number, dx: number, dy: number) => {
+    const key = vertex(x, y);
+    outgoing.set(key, [...(outgoing.get(key) ?? []), edges.length]);
+    edges.push({ x, y, dx, dy });
+  };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!filled(x, y)) continue;
+      if (!filled(x, y - 1)) addEdge(x, y, 1, 0);
+      if (!filled(x + 1, y)) addEdge(x + 1, y, 0, 1);
+      if (!filled(x, y + 1)) addEdge(x + 1, y + 1, -1, 0);
+      if (!filled(x - 1, y)) addEdge(x, y + 1, 0, -1);
+    }
+  }
+
+  const used = new Uint8Array(edges.length);
+  const loops: CutlinePoint[][] = [];
+  for (let first = 0; first < edges.length; first++) {
+    if (used[first]) continue;
+    const loop: CutlinePoint[] = [];
+    let current = first;
+    while (!used[current]) {
+      used[current] = 1;
+      const edge = edges[current];
+      loop.push([edge.x, edge.y]);
+      const candidates = outgoing.get(vertex(edge.x + edge.dx, edge.y + edge.dy)) ?? [];
+      if (candidates.length === 0) break;
+      // Right turn, then straight on, then left; the walk ends when it comes back to a used edge
+      const preference = (i: number) => {
+        const next = edges[i];
+        if (next.dx === -edge.dy && next.dy === edge.dx) return 0;
+        if (next.dx === edge.dx && next.dy === edge.dy) return 1;
+        return 2;
+      };
+      current = [...candidates].sort((a, b) => preference(a) - preference(b))[0];
+    }
+    if (loop.length >= 4) loops.push(loop);
+  }
+  return loops;
+}
+
+// Moving average around the closed loop, which turns pixel staircases into slopes
+function smooth(loop: CutlinePoint[], radius: number, passes: number): CutlinePoint[] {
+  let points = loop;
+  const n = points.length;
+  for (let pass = 0; pass < passes; pass++) {
+    const next: CutlinePoint[] = [];
+    for (let i = 0; i < n; i++) {
+      let x = 0;
+      let y = 0;
+      for (let j = -radius; j <= radius; j++) {
+        const point = points[(i + j + n) % n];
+        x += point[0];
+        y += point[1];
+      }
+      next.push([x / (2 * radius + 1), y / (2 * radius + 1)]);
+    }
+    points = next;
+  }
+  return points;
+}
+
+function distanceToSegment(p: CutlinePoint, a: CutlinePoint, b: CutlinePoint): number {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const length = dx * dx + dy * dy;
+  const t = length === 0 ? 0 : Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / length));
+  return Math.hypot(p[0] - a[0] - t * dx, p[1] - a[1] - t * dy);
+}
+
+// Ramer–Douglas–Peucker on an open polyline, keeping both ends
+function simplifyOpen(points: CutlinePoint[], tolerance: number): CutlinePoint[] {
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop() as [number, number];
+    let farthest = -1;
+    let distance = tolerance;
+    for (let i = start + 1; i < end; i++) {
+      const d = distanceToSegment(points[i], points[start], points[end]);
+      if (d > distance) {
+        farthest = i;
+        distance = d;
+      }
+    }
+    if (farthest >= 0) {
+      keep[farthest] = 1;
+      stack.push([start, farthest], [farthest, end]);
+    }
+  }
+  return points.filter((_, i) => keep[i]);
+}
+
+// A closed loop is split at the point farthest from its start, so both halves have fixed ends
+function simplifyClosed(loop: CutlinePoint[], tolerance: number): CutlinePoint[] {
+  let split = 0;
+  let farthest = 0;
+  for (let i = 1; i < loop.length; i++) {
+    const d = Math.hypot(loop[i][0] - loop[0][0], loop[i][1] - loop[0][1]);
+    if (d > farthest) {
+      farthest = d;
+      split = i;
+    }
+  }
+  if (split === 0) return loop;
+  const first = simplifyOpen(loop.slice(0, split + 1), tolerance);
+  const second = simplifyOpen([...loop.slice(split), loop[0]], tolerance);
+  return [...first, ...second.slice(1, -1)];
+}
+
+/**
+ * Traces the cut line around a sticker image drawn into `box`, as closed polygons in the same
+ * units as the box (usually one, more when the art is in separate pieces). Returns null when
+ * the image cannot be decoded or is fully transparent, so callers can fall back to a shape.
+ */
+export function traceCutline(png: Buffer, options: CutlineOptions): CutlinePoint[][] | null {
+  const traced = alphaMask(png);
+  if (!traced) return null;
+  const { mask, step, imageWidth, imageHeight } = traced;
+
+  const { box } = options;
+  const scale = Math.min(box.width / imageWidth, box.height / imageHeight);
+  const cellSize = scale * step;
+  const originX = box.x + (box.width - imageWidth * scale) / 2;
+  const originY = box.y + (box.height - imageHeight * scale) / 2;
+
+  const grown = dilate(mask, Math.max(options.offset, 0) / cellSize);
+  const loops = traceBoundaries(cuttablePieces(grown.mask));
+  const maxPoints = options.maxPoints ?? MAX_CUTLINE_POINTS;
+
+  return loops.map((loop) => {
+    // Tiny pieces would shrink to nothing under the full window
+    const smoothed = smooth(loop, Math.min(2, Math.floor(loop.length / 12)), 2);
+    // Start within half a cell of the smoothed outline and loosen until the loop is small enough
+    let tolerance = 0.5;
+    let simplified = simplifyClosed(smoothed, tolerance);
+    while (simplified.length > maxPoints) {
+      tolerance *= 1.5;
+      simplified = simplifyClosed(smoothed, tolerance);
+    }
+    if (simplified.length < 3) simplified = loop;
+    return simplified.map(([x, y]): CutlinePoint => [
+      originX + (x - grown.pad) * cellSize,
+      originY + (y - grown.pad) * cellSize,
+    ]);
+  });
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+// SVG path data for traced loops, one closed subpath each
+export function cutlinePathData(loops: CutlinePoint[][]): string {
+  return loops
+    .map((loop) => loop.map(([x, y], i) => `${i === 0 ? 'M' : 'L'} ${formatNumber(x)} ${formatNumber(y)}`).join(' ') + ' Z')
+    .join(' ');
+}
+
+// The same loops moved by (dx, dy), for placing one traced sticker many times
+export function translateCutline(loops: CutlinePoint[][], dx: number, dy: number): CutlinePoint[][] {
+  return loops.map((loop) => loop.map(([x, y]): CutlinePoint => [x + dx, y + dy]));
+}
@@ -0,0 +1,2 @@
+export { cutlinePathData, MAX_CUTLINE_POINTS, traceCutline, translateCutline } from './contour';
+export type { CutlineOptions, CutlinePoint } from './contour';
@@ -0,0 +1,42 @@
+import { join } from 'path';
+import { createLogger } from '@/backend/logging';
+import { createSqliteDatabase } from './sqlite';
+import { runMigrations } from './migrations';
+import type { Database } from './types';
+
+export type { Database, SqlParam, RunResult, Migration } from './types';
+export { isUniqueViolation } from './types';
+
+const log = createLogger({ component: 'db' });
+
+let databasePromise: Promise<Database> | null = null;
+
+function openDatabase(): Database {
+  const driver = process.env.DATABASE_DRIVER ?? 'sqlite';
+
+  switch (driver) {
+    case 'sqlite': {
+      const filename = process.env.SQLITE_PATH ?? join(process.cwd(), 'data', 'app.db');
+      log.info('Opening SQLite database', { filename });
+      return createSqliteDatabase(filename);
+    }
+    default:
+      // Postgres (or any other driver) plugs in here by implementing the Database interface
+      throw new Error(`Unsupported DATABASE_DRIVER: ${driver}`);
+  }
+}
+
+export function getDatabase(): Promise<Database> {
+  if (!databasePromise) {
+    databasePromise = (async () => {
+      const db = openDatabase();
+      await runMigrations(db);
+      return db;
+    })();
+    databasePromise.catch((error) => {
+      log.error('Failed to initialize database', { err: error });
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
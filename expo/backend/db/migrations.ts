@@ -0,0 +1,414 @@
+import { createLogger } from '@/backend/logging';
+import type { Database, Migration } from './types';
+
+// Append-only: never edit a migration that has shipped, add a new one instead.
+export const migrations: Migration[] = [
+  {
+    id: 1,
+    name: 'create_users',
+    up: `
+      CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE,
+        name TEXT NOT NULL,
+        password_hash TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    id: 2,
+    name: 'create_sessions',
+    up: `
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        refresh_token_hash TEXT NOT NULL UNIQUE,
+        previous_token_hash TEXT,
+        created_at TEXT NOT NULL,
+        last_used_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        revoked_at TEXT
+      );
+      CREATE INDEX idx_sessions_user_id ON sessions (user_id);
+      CREATE INDEX idx_sessions_previous_token_hash ON sessions (previous_token_hash);
+    `,
+  },
+  {
+    id: 3,
+    name: 'email_verification_and_action_tokens',
+    up: `
+      ALTER TABLE users ADD COLUMN email_verified_at TEXT;
+      CREATE TABLE action_tokens (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        purpose TEXT NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        used_at TEXT
+      );
+      CREATE INDEX idx_action_tokens_user_purpose ON action_tokens (user_id, purpose);
+    `,
+  },
+  {
+    id: 4,
+    name: 'user_roles_and_settings',
+    up: `
+      ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'user';
+      CREATE TABLE settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        updated_by TEXT
+      );
+    `,
+  },
+  {
+    id: 5,
+    name: 'login_lockout',
+    up: `
+      ALTER TABLE users ADD COLUMN failed_login_count INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE users ADD COLUMN locked_until TEXT;
+    `,
+  },
+  {
+    id: 6,
+    name: 'create_stickers',
+    up: `
+      CREATE TABLE stickers (
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        id TEXT NOT NULL,
+        title TEXT,
+        original_image TEXT NOT NULL,
+        sticker_image TEXT NOT NULL,
+        image_width INTEGER,
+        image_height INTEGER,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        deleted_at TEXT,
+        PRIMARY KEY (user_id, id)
+      );
+      CREATE INDEX idx_stickers_user_updated ON stickers (user_id, updated_at);
+    `,
+  },
+  {
+    id: 7,
+    name: 'create_generation_usage',
+    up: `
+      CREATE TABLE generation_usage (
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        day TEXT NOT NULL,
+        count INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (user_id, day)
+      );
+    `,
+  },
+  {
+    id: 8,
+    name: 'create_generation_jobs',
+    up: `
+      CREATE TABLE generation_jobs (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        kind TEXT NOT NULL,
+        prompt TEXT NOT NULL,
+        input_image TEXT,
+        status TEXT NOT NULL,
+        progress INTEGER NOT NULL DEFAULT 0,
+        quota_day TEXT,
+        result_base64 TEXT,
+        result_mime_type TEXT,
+        error TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        started_at TEXT,
+        finished_at TEXT
+      );
+      CREATE INDEX idx_generation_jobs_status ON generation_jobs (status, created_at);
+      CREATE INDEX idx_generation_jobs_user ON generation_jobs (user_id, created_at);
+    `,
+  },
+  {
+    id: 9,
+    name: 'create_background_removal',
+    up: `
+      CREATE TABLE background_removal_cache (
+        input_hash TEXT NOT NULL,
+        remover TEXT NOT NULL,
+        result_base64 TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (input_hash, remover)
+      );
+      CREATE TABLE background_removal_jobs (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        input_hash TEXT NOT NULL,
+        remover TEXT NOT NULL,
+        input_image TEXT,
+        status TEXT NOT NULL,
+        error TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        finished_at TEXT
+      );
+      CREATE INDEX idx_background_removal_jobs_status ON background_removal_jobs (status, created_at);
+    `,
+  },
+  {
+    id: 10,
+    name: 'create_payments',
+    up: `
+      CREATE TABLE payments (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        payment_intent_id TEXT NOT NULL,
+        amount INTEGER NOT NULL,
+        currency TEXT NOT NULL,
+        status TEXT NOT NULL,
+        description TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_payments_intent ON payments (payment_intent_id);
+      CREATE INDEX idx_payments_user ON payments (user_id, created_at);
+    `,
+  },
+  {
+    id: 11,
+    name: 'create_orders',
+    up: `
+      CREATE TABLE orders (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        payment_id TEXT REFERENCES payments(id),
+        status TEXT NOT NULL,
+        items TEXT NOT NULL,
+        recipient TEXT NOT NULL,
+        currency TEXT NOT NULL,
+        subtotal INTEGER NOT NULL,
+        shipping INTEGER NOT NULL,
+        tax INTEGER NOT NULL,
+        total INTEGER NOT NULL,
+        printful_order_id TEXT,
+        printful_external_id TEXT,
+        preview_image TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_orders_user ON orders (user_id, created_at);
+      CREATE INDEX idx_orders_printful ON orders (printful_order_id);
+    `,
+  },
+  {
+    id: 12,
+    name: 'create_order_shipments',
+    up: `
+      ALTER TABLE orders ADD COLUMN status_reason TEXT;
+      CREATE TABLE order_shipments (
+        order_id TEXT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+        shipment_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        carrier TEXT,
+        service TEXT,
+        tracking_number TEXT,
+        tracking_url TEXT,
+        shipped_at TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (order_id, shipment_id)
+      );
+    `,
+  },
+  {
+    id: 13,
+    name: 'add_shipping_methods',
+    up: `
+      ALTER TABLE payments ADD COLUMN shipping_method TEXT;
+      ALTER TABLE payments ADD COLUMN shipping INTEGER;
+      ALTER TABLE orders ADD COLUMN shipping_method TEXT;
+    `,
+  },
+  {
+    id: 14,
+    name: 'create_promo_codes',
+    up: `
+      CREATE TABLE promo_codes (
+        code TEXT PRIMARY KEY,
+        kind TEXT NOT NULL,
+        value INTEGER NOT NULL,
+        description TEXT,
+        max_uses INTEGER,
+        max_uses_per_user INTEGER,
+        expires_at TEXT,
+        active INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE promo_redemptions (
+        id TEXT PRIMARY KEY,
+        code TEXT NOT NULL REFERENCES promo_codes(code),
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        payment_id TEXT NOT NULL UNIQUE,
+        kind TEXT NOT NULL,
+        value INTEGER NOT NULL,
+        discount INTEGER NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_promo_redemptions_code ON promo_redemptions (code, user_id);
+      ALTER TABLE payments ADD COLUMN promo_code TEXT;
+      ALTER TABLE payments ADD COLUMN discount INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE orders ADD COLUMN promo_code TEXT;
+      ALTER TABLE orders ADD COLUMN discount INTEGER NOT NULL DEFAULT 0;
+    `,
+  },
+  {
+    id: 15,
+    name: 'create_order_outbox',
+    up: `
+      ALTER TABLE orders ADD COLUMN idempotency_key TEXT;
+      CREATE UNIQUE INDEX idx_orders_idempotency ON orders (user_id, idempotency_key);
+      CREATE INDEX idx_orders_payment ON orders (payment_id);
+      UPDATE orders SET status = 'fulfilled' WHERE status = 'shipped';
+      UPDATE orders SET status = 'created' WHERE status = 'pending';
+      CREATE TABLE order_print_files (
+        order_id TEXT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        filename TEXT,
+        url TEXT,
+        image_base64 TEXT,
+        printful_file_id TEXT,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (order_id, position)
+      );
+      CREATE TABLE order_outbox (
+        order_id TEXT PRIMARY KEY REFERENCES orders(id) ON DELETE CASCADE,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TEXT NOT NULL,
+        last_error TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_order_outbox_due ON order_outbox (status, next_attempt_at);
+    `,
+  },
+  {
+    id: 16,
+    name: 'create_catalog',
+    up: `
+      CREATE TABLE catalog_variants (
+        kind TEXT NOT NULL,
+        size TEXT NOT NULL,
+        product_id INTEGER NOT NULL,
+        variant_id INTEGER NOT NULL,
+        product_name TEXT NOT NULL,
+        size_label TEXT NOT NULL,
+        base_cost INTEGER NOT NULL,
+        in_stock INTEGER NOT NULL,
+        synced_at TEXT NOT NULL,
+        PRIMARY KEY (kind, size)
+      );
+      CREATE TABLE catalog_prices (
+        kind TEXT NOT NULL,
+        size TEXT NOT NULL,
+        retail_price INTEGER,
+        margin_percent INTEGER,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (kind, size)
+      );
+      ALTER TABLE payments ADD COLUMN unit_prices TEXT;
+    `,
+  },
+  {
+    id: 17,
+    name: 'add_fulfillment_provider',
+    // The printful_* id columns now hold whichever provider's ids the order was sent to
+    up: `
+      ALTER TABLE orders ADD COLUMN fulfillment_provider TEXT;
+      UPDATE orders SET fulfillment_provider = 'printful' WHERE printful_order_id IS NOT NULL;
+    `,
+  },
+  {
+    id: 18,
+    name: 'create_print_files',
+    // print_files.id is the SHA-256 of the file; storage_key points at the order's own copy
+    up: `
+      CREATE TABLE print_files (
+        id TEXT PRIMARY KEY,
+        content_type TEXT NOT NULL,
+        byte_size INTEGER NOT NULL,
+        width INTEGER,
+        height INTEGER,
+        created_at TEXT NOT NULL
+      );
+      ALTER TABLE order_print_files ADD COLUMN file_id TEXT;
+      ALTER TABLE order_print_files ADD COLUMN storage_key TEXT;
+    `,
+  },
+  {
+    id: 19,
+    name: 'add_payment_shipping_destination',
+    // JSON country, state and postal code the payment's shipping was quoted for
+    up: `
+      ALTER TABLE payments ADD COLUMN shipping_destination TEXT;
+    `,
+  },
+  {
+    id: 20,
+    name: 'add_background_removal_cached',
+    // Cache hits were inserted already finished, which is the best guess for existing rows
+    up: `
+      ALTER TABLE background_removal_jobs ADD COLUMN cached INTEGER NOT NULL DEFAULT 0;
+      UPDATE background_removal_jobs SET cached = 1 WHERE status = 'succeeded' AND finished_at = created_at;
+    `,
+  },
+  {
+    id: 21,
+    name: 'add_sticker_change_seq',
+    // Existing rows are numbered in the order they last changed
+    up: `
+      ALTER TABLE stickers ADD COLUMN change_seq INTEGER NOT NULL DEFAULT 0;
+      UPDATE stickers SET change_seq = (
+        SELECT COUNT(*) FROM stickers AS earlier
+        WHERE earlier.user_id = stickers.user_id
+          AND (earlier.updated_at < stickers.updated_at OR (earlier.updated_at = stickers.updated_at AND earlier.id <= stickers.id))
+      );
+      CREATE INDEX idx_stickers_user_change ON stickers (user_id, change_seq);
+    `,
+  },
+  {
+    id: 22,
+    name: 'add_generation_result_transparent',
+    // Unknown for jobs that finished before it was recorded
+    up: `
+      ALTER TABLE generation_jobs ADD COLUMN result_transparent INTEGER;
+    `,
+  },
+];
+
+export async function runMigrations(db: Database): Promise<void> {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      id INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    );
+  `);
+
+  const applied = await db.all<{ id: number }>('SELECT id FROM schema_migrations');
+  const appliedIds = new Set(applied.map((row) => Number(row.id)));
+
+  for (const migration of migrations) {
+    if (appliedIds.has(migration.id)) continue;
+
+    createLogger({ component: 'db' }).info('Applying migration', { id: migration.id, name: migration.name });
+    await db.transaction(async (tx) => {
+      await tx.exec(migration.up);
+      await tx.run(
+        'INSERT INTO schema_migrations (id, name, applied_at) VALUES (?, ?, ?)',
+        [migration.id, migration.name, new Date().toISOString()]
+      );
+    });
+  }
+}
@@ -0,0 +1,68 @@
+import BetterSqlite3 from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import type { Database, RunResult, SqlParam } from './types';
+
+function normalizeParams(params: SqlParam[] = []): unknown[] {
+  // better-sqlite3 only binds numbers, strings, bigints, buffers and null
+  return params.map((p) => (typeof p === 'boolean' ? (p ? 1 : 0) : p));
+}
+
+export function createSqliteDatabase(filename: string): Database {
+  if (filename !== ':memory:') {
+    mkdirSync(dirname(filename), { recursive: true });
+  }
+
+  const db = new BetterSqlite3(filename);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+
+  // better-sqlite3 is synchronous, so transactions only need to be serialized
+  // against each other to keep interleaved async callers out of an open BEGIN.
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const adapter: Database = {
+    dialect: 'sqlite',
+
+    async exec(sql: string): Promise<void> {
+      db.exec(sql);
+    },
+
+    async run(sql: string, params?: SqlParam[]): Promise<RunResult> {
+      const result = db.prepare(sql).run(...normalizeParams(params));
+      return { changes: result.changes };
+    },
+
+    async get<T>(sql: string, params?: SqlParam[]): Promise<T | undefined> {
+      return db.prepare(sql).get(...normalizeParams(params)) as T | undefined;
+    },
+
+    async all<T>(sql: string, params?: SqlParam[]): Promise<T[]> {
+      return db.prepare(sql).all(...normalizeParams(params)) as T[];
+    },
+
+    transaction<T>(fn: (tx: Database) => Promise<T>): Promise<T> {
+      const next = queue.then(async () => {
+        db.exec('BEGIN IMMEDIATE');
+        try {
+          const result = await fn(adapter);
+          db.exec('COMMIT');
+          return result;
+        } catch (error) {
+          if (db.inTransaction) {
+            db.exec('ROLLBACK');
+          }
+          throw error;
+        }
+      });
+      queue = next.catch(() => undefined);
+      return next;
+    },
+
+    async close(): Promise<void> {
+      db.close();
+    },
+  };
+
+  return adapter;
+}
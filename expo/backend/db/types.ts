@@ -0,0 +1,31 @@
+export type SqlParam = string | number | bigint | boolean | null;
+
+export type RunResult = {
+  changes: number;
+};
+
+export type DatabaseDialect = 'sqlite' | 'postgres';
+
+// Minimal async SQL surface the backend stores are written against.
+// Statements use `?` placeholders; adapters translate them if their driver needs to.
+export interface Database {
+  readonly dialect: DatabaseDialect;
+  exec(sql: string): Promise<void>;
+  run(sql: string, params?: SqlParam[]): Promise<RunResult>;
+  get<T>(sql: string, params?: SqlParam[]): Promise<T | undefined>;
+  all<T>(sql: string, params?: SqlParam[]): Promise<T[]>;
+  transaction<T>(fn: (tx: Database) => Promise<T>): Promise<T>;
+  close(): Promise<void>;
+}
+
+export type Migration = {
+  id: number;
+  name: string;
+  up: string;
+};
+
+export function isUniqueViolation(error: unknown): boolean {
+  const code = (error as { code?: string } | null)?.code;
+  // SQLite reports SQLITE_CONSTRAINT_UNIQUE, Postgres reports SQLSTATE 23505
+  return code === 'SQLITE_CONSTRAINT_UNIQUE' || code === 'SQLITE_CONSTRAINT_PRIMARYKEY' || code === '23505';
+}
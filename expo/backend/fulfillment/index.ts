@@ -0,0 +1,12 @@
+export { defaultFulfillmentProviderId, getFulfillmentProvider, setFulfillmentProvider } from './providers';
+export { createPrintfulProvider } from './printful';
+export { createMockProvider } from './mock';
+export { createLocalShopProvider } from './local';
+export { externalIdFor, FulfillmentError } from './types';
+export type {
+  FulfillmentItem,
+  FulfillmentOrder,
+  FulfillmentProvider,
+  FulfillmentProviderId,
+  FulfillmentStatus,
+} from './types';
@@ -0,0 +1,232 @@
+import { access, mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { getShippingCountry } from '@/constants/countries';
+import { cutlinePathData, traceCutline, type CutlinePoint } from '@/backend/cutlines';
+import { createLogger } from '@/backend/logging';
+import type { OrderView } from '@/backend/orders';
+import { readPrintFile } from '@/backend/printFiles';
+import { externalIdFor, FulfillmentError, type FulfillmentProvider, type FulfillmentStatus } from './types';
+
+/**
+ * Orders we print and cut ourselves. Each order becomes a folder holding a print-ready package:
+ * every item's PNG and cut-line SVG, a manifest.json describing the job, and a packing slip.
+ * The shop reports progress by writing status.json into the folder, e.g.
+ * { "status": "fulfilled", "carrier": "USPS", "trackingNumber": "..." }.
+ */
+
+type LocalStatusFile = {
+  status?: FulfillmentStatus['status'];
+  reason?: string;
+  carrier?: string;
+  service?: string;
+  trackingNumber?: string;
+  trackingUrl?: string;
+  shippedAt?: string;
+};
+
+const log = createLogger({ component: 'fulfillment' });
+
+// Flat rate for everything the shop mails itself
+const LOCAL_SHIPPING_CENTS = 499;
+// White border left around the art on individual stickers, in inches
+const CUT_BORDER_INCHES = 0.0625;
+
+function itemName(position: number): string {
+  return `item-${String(position + 1).padStart(2, '0')}`;
+}
+
+function formatMoney(cents: number, currency: string): string {
+  return `${(cents / 100).toFixed(2)} ${currency.toUpperCase()}`;
+}
+
+// Image size from the PNG header, so sheets can be cut at their edge without decoding them
+function pngSize(png: Buffer): { width: number; height: number } | null {
+  if (png.length < 24 || png.toString('latin1', 12, 16) !== 'IHDR') return null;
+  return { width: png.readUInt32BE(16), height: png.readUInt32BE(20) };
+}
+
+function coversImage(loop: CutlinePoint[], width: number, height: number): boolean {
+  const xs = loop.map(([x]) => x);
+  const ys = loop.map(([, y]) => y);
+  return Math.min(...xs) <= 0 && Math.min(...ys) <= 0 && Math.max(...xs) >= width && Math.max(...ys) >= height;
+}
+
+/**
+ * Cut lines at the print's physical size. Every sticker is kiss-cut along its outline with a
+ * small white border; on a sheet that means each sticker on it, traced from the transparent
+ * paper around them, and the sheet is also cut at its trim edge. Art with no transparency to
+ * trace is cut at the trim edge only.
+ */
+function cutSvg(item: OrderView['items'][number], png: Buffer): string {
+  const inches = parseFloat(item.product.size);
+  const { width, height } = pngSize(png) ?? { width: 1000, height: 1000 };
+  const trimEdge = `M 0 0 L ${width} 0 L ${width} ${height} L 0 ${height} Z`;
+  const traced = traceCutline(png, {
+    box: { x: 0, y: 0, width, height },
+    offset: (CUT_BORDER_INCHES * width) / inches,
+  });
+  // An opaque image traces as one outline around the whole print, which is just its trim edge
+  const contour = traced && !traced.some((loop) => coversImage(loop, width, height)) ? traced : null;
+  const cut = contour ? cutlinePathData(contour) : trimEdge;
+  const trim = item.product.kind === 'sheet' && contour
+    ? `\n  <path id="trim" d="${trimEdge}" fill="none" stroke="#00ffff" stroke-width="1"/>`
+    : '';
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${inches}in" height="${(inches * height) / width}in" viewBox="0 0 ${width} ${height}">
+  <path id="cut" d="${cut}" fill="none" stroke="#ff00ff" stroke-width="1"/>${trim}
+</svg>
+`;
+}
+
+function packingSlip(order: OrderView, externalId: string): string {
+  const { recipient } = order;
+  const lines = [
+    'PACKING SLIP',
+    `Order ${externalId}`,
+    `Placed ${new Date(order.createdAt).toDateString()}`,
+    '',
+    'Ship to:',
+    recipient.name,
+    recipient.company,
+    recipient.address1,
+    recipient.address2,
+    [recipient.city, recipient.stateCode, recipient.zip].filter(Boolean).join(' '),
+    getShippingCountry(recipient.countryCode)?.name ?? recipient.countryCode,
+    '',
+    'Items:',
+    ...order.items.map((item, index) =>
+      `  ${item.quantity} × ${item.name}${item.stickerCount ? ` (${item.stickerCount} stickers)` : ''}  [${itemName(index)}]`
+    ),
+    '',
+    `Shipping: ${order.shippingMethod ?? 'STANDARD'}`,
+    `Total paid: ${formatMoney(order.costs.total, order.costs.currency)}`,
+  ];
+  return `${lines.filter((line): line is string => line !== undefined).join('\n')}\n`;
+}
+
+async function readStatusFile(folder: string): Promise<LocalStatusFile | null> {
+  try {
+    return JSON.parse(await readFile(join(folder, 'status.json'), 'utf8')) as LocalStatusFile;
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return null;
+    throw new FulfillmentError(`Could not read status.json in ${folder}: ${error?.message ?? error}`);
+  }
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function createLocalShopProvider(directory: string): FulfillmentProvider {
+  const folderFor = (order: OrderView) => join(directory, externalIdFor(order.id));
+
+  return {
+    id: 'local',
+    reportsStatus: false,
+
+    async uploadFile(order, file) {
+      // Only files we stored ourselves: fetching an order's URL from the backend would let a
+      // customer make it request any address it can reach
+      if (!file.storageKey) {
+        throw new FulfillmentError(`Print file ${file.position + 1} is not a stored print file`, true);
+      }
+      const data = await readPrintFile(file.storageKey);
+      if (!data) {
+        throw new FulfillmentError(`Print file ${file.position + 1} is missing from storage`, true);
+      }
+
+      const folder = folderFor(order);
+      await mkdir(folder, { recursive: true });
+      const filename = `${itemName(file.position)}.png`;
+      await writeFile(join(folder, filename), data);
+      return filename;
+    },
+
+    async quoteShipping() {
+      return [{ id: 'STANDARD', name: 'Standard shipping', amount: LOCAL_SHIPPING_CENTS, currency: 'usd' }];
+    },
+
+    async createOrder(order, files) {
+      const folder = folderFor(order);
+      const externalId = externalIdFor(order.id);
+      const manifestPath = join(folder, 'manifest.json');
+      // The manifest is written last, so its presence means the package is complete
+      if (await exists(manifestPath)) {
+        return { id: `local-${externalId}`, externalId };
+      }
+
+      const items = [];
+      for (const [index, item] of order.items.entries()) {
+        const file = files.find((candidate) => candidate.position === index);
+        if (!file?.providerFileId) {
+          throw new FulfillmentError(`Print file ${index + 1} was not uploaded`, true);
+        }
+        const cutFile = `${itemName(index)}-cut.svg`;
+        await writeFile(join(folder, cutFile), cutSvg(item, await readFile(join(folder, file.providerFileId))));
+        items.push({
+          position: index,
+          name: item.name,
+          product: item.product,
+          variantId: item.variantId,
+          quantity: item.quantity,
+          stickerCount: item.stickerCount,
+          sizeInches: parseFloat(item.product.size),
+          printFile: file.providerFileId,
+          cutFile,
+        });
+      }
+
+      await writeFile(join(folder, 'packing-slip.txt'), packingSlip(order, externalId));
+      await writeFile(manifestPath, JSON.stringify({
+        orderId: order.id,
+        externalId,
+        createdAt: new Date().toISOString(),
+        shippingMethod: order.shippingMethod ?? 'STANDARD',
+        recipient: order.recipient,
+        items,
+        costs: order.costs,
+        packingSlip: 'packing-slip.txt',
+      }, null, 2));
+
+      log.info('Print package written', { orderId: order.id, folder });
+      return { id: `local-${externalId}`, externalId };
+    },
+
+    async getOrderStatus(order) {
+      const folder = folderFor(order);
+      const file = await readStatusFile(folder);
+      if (!file?.status) return null;
+      return {
+        status: file.status,
+        reason: file.reason,
+        shipment: file.trackingNumber || file.carrier
+          ? {
+            id: `local-${externalIdFor(order.id)}`,
+            status: file.status === 'returned' ? 'returned' : 'shipped',
+            carrier: file.carrier,
+            service: file.service,
+            trackingNumber: file.trackingNumber,
+            trackingUrl: file.trackingUrl,
+            shippedAt: file.shippedAt,
+          }
+          : undefined,
+      };
+    },
+
+    async cancelOrder(order) {
+      const folder = folderFor(order);
+      const current = await readStatusFile(folder);
+      if (current?.status === 'fulfilled' || current?.status === 'returned') {
+        throw new FulfillmentError('This order has already shipped', true);
+      }
+      await mkdir(folder, { recursive: true });
+      await writeFile(join(folder, 'status.json'), JSON.stringify({ status: 'canceled', reason: 'Canceled by admin' }, null, 2));
+      log.info('Print package canceled', { orderId: order.id, folder });
+    },
+  };
+}
@@ -0,0 +1,48 @@
+import { createLogger } from '@/backend/logging';
+import { externalIdFor, type FulfillmentProvider } from './types';
+
+const log = createLogger({ component: 'fulfillment' });
+
+/**
+ * Stands in for a real provider in development: accepts every file and order without sending
+ * them anywhere, quotes the checkout's historic flat rate, and reports orders as shipped with a
+ * dummy tracking number so order tracking can be exercised end to end.
+ */
+export function createMockProvider(): FulfillmentProvider {
+  return {
+    id: 'mock',
+    reportsStatus: false,
+
+    async uploadFile(order, file) {
+      log.debug('Mock fulfillment: accepted print file', { orderId: order.id, position: file.position });
+      return `mock-file-${file.position + 1}`;
+    },
+
+    async quoteShipping() {
+      return [{ id: 'STANDARD', name: 'Standard shipping', amount: 499, currency: 'usd' }];
+    },
+
+    async createOrder(order) {
+      log.warn('Mock fulfillment: order accepted but not sent to a printer', { orderId: order.id });
+      const externalId = externalIdFor(order.id);
+      return { id: `mock-${externalId}`, externalId };
+    },
+
+    async getOrderStatus(order) {
+      return {
+        status: 'fulfilled',
+        shipment: {
+          id: `mock-${externalIdFor(order.id)}`,
+          status: 'shipped',
+          carrier: 'Mock Carrier',
+          trackingNumber: 'MOCK123456789',
+          shippedAt: order.updatedAt,
+        },
+      };
+    },
+
+    async cancelOrder(order) {
+      log.info('Mock fulfillment: order canceled', { orderId: order.id });
+    },
+  };
+}
@@ -0,0 +1,163 @@
+import { getShippingCountry } from '@/constants/countries';
+import { createLogger } from '@/backend/logging';
+import { isPrintFileHostingConfigured, signPrintFileUrl } from '@/backend/printFiles';
+import { printfulRequest, PrintfulApiError } from '@/backend/printful/client';
+import { externalIdFor, FulfillmentError, type FulfillmentProvider, type FulfillmentStatus } from './types';
+
+type PrintfulOrder = { id: number | string; external_id?: string | null; status?: string };
+
+type PrintfulShippingRate = {
+  id: string;
+  name: string;
+  rate: string;
+  currency: string;
+  minDeliveryDays?: number;
+  maxDeliveryDays?: number;
+};
+
+const log = createLogger({ component: 'fulfillment' });
+
+function dollars(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+// Printful takes state codes only for countries with coded regions; elsewhere the region is free text
+function regionFields(countryCode: string, region?: string): { state_code?: string; state_name?: string } {
+  const hasRegionCodes = !!getShippingCountry(countryCode)?.region?.options;
+  return hasRegionCodes ? { state_code: region } : { state_name: region };
+}
+
+// draft, pending and inprocess are all still on their way; partial has some items left to ship
+const STATUS_MAP: Record<string, FulfillmentStatus['status']> = {
+  draft: 'submitted',
+  pending: 'submitted',
+  inprocess: 'submitted',
+  partial: 'submitted',
+  onhold: 'on_hold',
+  fulfilled: 'fulfilled',
+  failed: 'failed',
+  canceled: 'canceled',
+};
+
+// A timed-out create may still have gone through, so orders are looked up before creating them again
+async function findPrintfulOrder(externalId: string): Promise<PrintfulOrder | null> {
+  try {
+    return await printfulRequest<PrintfulOrder>('GET', `/orders/@${externalId}`);
+  } catch (error) {
+    if (error instanceof PrintfulApiError && error.status === 404) return null;
+    throw error;
+  }
+}
+
+/**
+ * Printful's REST API with the store token from PRINTFUL_API_KEY. Status changes arrive through
+ * its webhooks (see backend/printful/webhook.ts). Orders are created as drafts unless
+ * PRINTFUL_CONFIRM_ORDERS=true sends them straight to production.
+ */
+export function createPrintfulProvider(): FulfillmentProvider {
+  return {
+    id: 'printful',
+    reportsStatus: true,
+
+    async uploadFile(_order, file) {
+      // Printful fetches files from a URL, so stored files are handed over as signed links to ours
+      if (file.storageKey && !isPrintFileHostingConfigured()) {
+        throw new FulfillmentError('PUBLIC_API_URL is not set, so Printful cannot fetch print files');
+      }
+      const url = file.storageKey ? signPrintFileUrl(file.storageKey) : file.url;
+      if (!url) {
+        throw new FulfillmentError(`Print file ${file.position + 1} is not hosted, so Printful cannot fetch it`, true);
+      }
+      const uploaded = await printfulRequest<{ id: number | string }>('POST', '/files', {
+        url,
+        filename: file.filename,
+      });
+      return String(uploaded.id);
+    },
+
+    async quoteShipping(destination, items) {
+      const rates = await printfulRequest<PrintfulShippingRate[]>('POST', '/shipping/rates', {
+        recipient: {
+          address1: destination.address1,
+          city: destination.city,
+          country_code: destination.countryCode,
+          ...regionFields(destination.countryCode, destination.stateCode),
+          zip: destination.zip || undefined,
+        },
+        items: items.map((item) => ({ variant_id: item.variantId, quantity: item.quantity })),
+        currency: 'USD',
+      });
+
+      return rates
+        .filter((rate) => rate.currency.toUpperCase() === 'USD')
+        .map((rate) => ({
+          id: rate.id,
+          name: rate.name,
+          amount: Math.round(Number(rate.rate) * 100),
+          currency: 'usd' as const,
+          minDeliveryDays: rate.minDeliveryDays,
+          maxDeliveryDays: rate.maxDeliveryDays,
+        }))
+        .filter((rate) => Number.isFinite(rate.amount) && rate.amount >= 0)
+        .sort((a, b) => a.amount - b.amount);
+    },
+
+    async createOrder(order, files) {
+      const externalId = externalIdFor(order.id);
+      const existing = await findPrintfulOrder(externalId);
+      if (existing) {
+        log.info('Printful already has this order', { orderId: order.id, printfulOrderId: existing.id });
+        return { id: String(existing.id), externalId: existing.external_id ?? externalId };
+      }
+
+      const { recipient, costs } = order;
+      const confirm = process.env.PRINTFUL_CONFIRM_ORDERS === 'true';
+      const created = await printfulRequest<PrintfulOrder>('POST', `/orders${confirm ? '?confirm=true' : ''}`, {
+        external_id: externalId,
+        shipping: order.shippingMethod ?? 'STANDARD',
+        recipient: {
+          name: recipient.name,
+          company: recipient.company,
+          address1: recipient.address1,
+          address2: recipient.address2,
+          city: recipient.city,
+          ...regionFields(recipient.countryCode, recipient.stateCode),
+          country_code: recipient.countryCode,
+          zip: recipient.zip || undefined,
+          phone: recipient.phone,
+          email: recipient.email,
+        },
+        items: order.items.map((item, index) => {
+          const file = files.find((candidate) => candidate.position === index);
+          return {
+            variant_id: item.variantId,
+            quantity: item.quantity,
+            name: item.name,
+            retail_price: dollars(item.unitPrice),
+            files: [file?.providerFileId ? { id: Number(file.providerFileId) } : { url: file?.url }],
+          };
+        }),
+        // Printful prints retail costs on the packing slip, so they must be what the customer paid
+        retail_costs: {
+          currency: costs.currency.toUpperCase(),
+          subtotal: dollars(costs.subtotal),
+          discount: dollars(costs.discount),
+          shipping: dollars(costs.shipping),
+          tax: dollars(costs.tax),
+        },
+      });
+      return { id: String(created.id), externalId: created.external_id ?? externalId };
+    },
+
+    async getOrderStatus(order) {
+      const found = await findPrintfulOrder(order.printfulExternalId ?? externalIdFor(order.id));
+      const status = found?.status ? STATUS_MAP[found.status] : undefined;
+      return status ? { status } : null;
+    },
+
+    async cancelOrder(order) {
+      // Printful refuses once an order is in production, which surfaces as a 4xx here
+      await printfulRequest('DELETE', `/orders/@${order.printfulExternalId ?? externalIdFor(order.id)}`);
+    },
+  };
+}
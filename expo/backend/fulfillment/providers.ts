@@ -0,0 +1,56 @@
+import { join } from 'path';
+import { createLogger } from '@/backend/logging';
+import { isPrintfulConfigured } from '@/backend/printful/client';
+import { createLocalShopProvider } from './local';
+import { createMockProvider } from './mock';
+import { createPrintfulProvider } from './printful';
+import type { FulfillmentProvider, FulfillmentProviderId } from './types';
+
+const providers = new Map<string, FulfillmentProvider>();
+let injected: FulfillmentProvider | null = null;
+
+function createProvider(id: string): FulfillmentProvider {
+  switch (id) {
+    case 'printful':
+      if (!isPrintfulConfigured()) {
+        throw new Error('FULFILLMENT_PROVIDER=printful requires PRINTFUL_API_KEY');
+      }
+      return createPrintfulProvider();
+    case 'mock':
+      // Orders sent to the mock are never printed, so production must name a real provider
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('FULFILLMENT_PROVIDER must be set to a real provider in production');
+      }
+      return createMockProvider();
+    case 'local':
+      return createLocalShopProvider(process.env.FULFILLMENT_LOCAL_DIR ?? join(process.cwd(), 'data', 'print-jobs'));
+    default:
+      throw new Error(`Unsupported FULFILLMENT_PROVIDER: ${id}`);
+  }
+}
+
+// FULFILLMENT_PROVIDER picks where new orders go; by default Printful when a key is set, else the mock
+export function defaultFulfillmentProviderId(): FulfillmentProviderId {
+  return (process.env.FULFILLMENT_PROVIDER ?? (isPrintfulConfigured() ? 'printful' : 'mock')) as FulfillmentProviderId;
+}
+
+/**
+ * The provider an order was sent to, or where new orders go. Orders keep the provider they
+ * were submitted to even after the configuration changes.
+ */
+export function getFulfillmentProvider(id: string = defaultFulfillmentProviderId()): FulfillmentProvider {
+  if (injected) return injected;
+
+  let provider = providers.get(id);
+  if (!provider) {
+    provider = createProvider(id);
+    providers.set(id, provider);
+    createLogger({ component: 'fulfillment' }).info('Using fulfillment provider', { provider: id });
+  }
+  return provider;
+}
+
+// Tests and alternative runtimes can inject their own implementation
+export function setFulfillmentProvider(next: FulfillmentProvider | null): void {
+  injected = next;
+}
@@ -0,0 +1,50 @@
+import type { OrderShipment, OrderStatus, OrderView, StoredPrintFile } from '@/backend/orders';
+import type { ShippingDestination, ShippingRate } from '@/backend/shipping';
+
+export type FulfillmentProviderId = 'printful' | 'mock' | 'local';
+
+// One line to quote shipping for; lines for the same variant are already combined
+export type FulfillmentItem = {
+  variantId: number;
+  quantity: number;
+};
+
+// The provider's record of a submitted order
+export type FulfillmentOrder = {
+  id: string;
+  externalId: string;
+};
+
+export type FulfillmentStatus = {
+  status: Extract<OrderStatus, 'submitted' | 'on_hold' | 'fulfilled' | 'returned' | 'failed' | 'canceled'>;
+  reason?: string;
+  shipment?: OrderShipment;
+};
+
+export class FulfillmentError extends Error {
+  // Permanent failures are not retried; anything else is, with backoff
+  constructor(message: string, public readonly permanent: boolean = false) {
+    super(message);
+    this.name = 'FulfillmentError';
+  }
+}
+
+// Somewhere paid orders are sent to be printed and shipped
+export interface FulfillmentProvider {
+  readonly id: FulfillmentProviderId;
+  // Pushes status changes to us (Printful's webhooks); the others are asked when an order is viewed
+  readonly reportsStatus: boolean;
+  // Makes one print file available to the provider and returns its id for the file
+  uploadFile(order: OrderView, file: StoredPrintFile): Promise<string>;
+  // Cheapest first; empty when the provider cannot ship to the destination
+  quoteShipping(destination: ShippingDestination, items: FulfillmentItem[]): Promise<ShippingRate[]>;
+  // Safe to repeat: an order the provider already has is returned rather than created twice
+  createOrder(order: OrderView, files: StoredPrintFile[]): Promise<FulfillmentOrder>;
+  getOrderStatus(order: OrderView): Promise<FulfillmentStatus | null>;
+  cancelOrder(order: OrderView): Promise<void>;
+}
+
+// Providers cap external ids at 32 characters, which a dashless UUID fills exactly
+export function externalIdFor(orderId: string): string {
+  return orderId.replace(/-/g, '');
+}
@@ -0,0 +1,86 @@
+import { createLogger } from '@/backend/logging';
+
+const log = createLogger({ component: 'generation' });
+
+/**
+ * Per-key circuit breaker. After `failureThreshold` consecutive failures a key is opened and
+ * skipped for `cooldownMs`; then a single trial call is let through (half-open) and its
+ * outcome either closes the circuit or opens it for another cooldown.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type CircuitStatus = {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openUntil?: string;
+};
+
+export type CircuitBreaker = {
+  canAttempt(key: string): boolean;
+  recordSuccess(key: string): void;
+  recordFailure(key: string): void;
+  getStatus(key: string): CircuitStatus;
+};
+
+type Entry = {
+  consecutiveFailures: number;
+  openUntil: number | null;
+  trialInFlight: boolean;
+};
+
+export function createCircuitBreaker(options: { failureThreshold: number; cooldownMs: number }): CircuitBreaker {
+  const entries = new Map<string, Entry>();
+
+  const getEntry = (key: string): Entry => {
+    let entry = entries.get(key);
+    if (!entry) {
+      entry = { consecutiveFailures: 0, openUntil: null, trialInFlight: false };
+      entries.set(key, entry);
+    }
+    return entry;
+  };
+
+  const stateOf = (entry: Entry, now: number): CircuitState => {
+    if (entry.openUntil === null) return 'closed';
+    return now < entry.openUntil ? 'open' : 'half-open';
+  };
+
+  return {
+    canAttempt(key) {
+      const entry = getEntry(key);
+      const state = stateOf(entry, Date.now());
+      if (state === 'closed') return true;
+      if (state === 'open' || entry.trialInFlight) return false;
+      entry.trialInFlight = true;
+      return true;
+    },
+
+    recordSuccess(key) {
+      const entry = getEntry(key);
+      entry.consecutiveFailures = 0;
+      entry.openUntil = null;
+      entry.trialInFlight = false;
+    },
+
+    recordFailure(key) {
+      const entry = getEntry(key);
+      entry.consecutiveFailures++;
+      const wasTrial = entry.trialInFlight;
+      entry.trialInFlight = false;
+      if (wasTrial || entry.consecutiveFailures >= options.failureThreshold) {
+        entry.openUntil = Date.now() + options.cooldownMs;
+        log.warn('Circuit opened', { key, consecutiveFailures: entry.consecutiveFailures, cooldownMs: options.cooldownMs });
+      }
+    },
+
+    getStatus(key) {
+      const entry = getEntry(key);
+      return {
+        state: stateOf(entry, Date.now()),
+        consecutiveFailures: entry.consecutiveFailures,
+        openUntil: entry.openUntil !== null ? new Date(entry.openUntil).toISOString() : undefined,
+      };
+    },
+  };
+}
@@ -0,0 +1,122 @@
+import { createLogger } from '@/backend/logging';
+import { providerCallDuration, providerCallsTotal } from '@/backend/metrics';
+import { getAdminSettings } from '@/backend/trpc/routes/settings/store';
+import { createCircuitBreaker } from './circuitBreaker';
+import { getImageProvider, listImageProviders, type ImageProvider } from './registry';
+import type { EditModel, GeneratedImage, ImageEditResponse } from './types';
+
+const log = createLogger({ component: 'generation' });
+
+const DEFAULT_MODEL: EditModel = 'gpt-image-1-mini';
+
+// Minimal white PNG; edit-only providers use it as the canvas for prompt-only generation
+const BLANK_CANVAS_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg==';
+
+export const providerCircuitBreaker = createCircuitBreaker({
+  failureThreshold: 3,
+  cooldownMs: 60 * 1000,
+});
+
+type GenerationRequest = {
+  kind: 'edit' | 'create';
+  images: string[];
+  prompt: string;
+};
+
+/**
+ * The configured editModel first, then the admin's fallback order. Without an explicit
+ * fallback list every other registered provider is tried in registration order.
+ */
+export async function getProviderChain(): Promise<ImageProvider[]> {
+  const settings = await getAdminSettings();
+  const primary = settings.editModel ?? DEFAULT_MODEL;
+  const fallbacks = settings.fallbackModels
+    ?? listImageProviders().map((provider) => provider.id).filter((id) => id !== primary);
+
+  const ids = [...new Set([primary, ...fallbacks])];
+  return ids
+    .map((id) => getImageProvider(id))
+    .filter((provider): provider is ImageProvider => !!provider);
+}
+
+function approximateBytes(base64: string): number {
+  return Math.floor((base64.length * 3) / 4);
+}
+
+function unsupportedReason(provider: ImageProvider, request: GenerationRequest): string | null {
+  const { capabilities } = provider;
+  if (request.images.length > 1 && !capabilities.multiImageInput) {
+    return 'does not accept multiple images';
+  }
+  if (request.images.some((image) => approximateBytes(image) > capabilities.maxInputBytes)) {
+    return 'input image is too large';
+  }
+  return null;
+}
+
+async function callProvider(provider: ImageProvider, request: GenerationRequest): Promise<ImageEditResponse> {
+  if (request.kind === 'create') {
+    return provider.create && provider.capabilities.textToImage
+      ? provider.create(request.prompt)
+      : provider.edit([BLANK_CANVAS_BASE64], request.prompt);
+  }
+  return provider.edit(request.images, request.prompt);
+}
+
+async function generateWithFallback(request: GenerationRequest): Promise<GeneratedImage> {
+  const chain = await getProviderChain();
+  let lastError: unknown = null;
+
+  for (const provider of chain) {
+    const labels = { provider: provider.id, kind: request.kind };
+    if (!provider.isConfigured()) {
+      log.debug('Skipping provider', { provider: provider.id, reason: 'not configured' });
+      continue;
+    }
+    const reason = unsupportedReason(provider, request);
+    if (reason) {
+      log.info('Skipping provider', { provider: provider.id, reason });
+      providerCallsTotal.inc({ ...labels, outcome: 'skipped' });
+      continue;
+    }
+    if (!providerCircuitBreaker.canAttempt(provider.id)) {
+      log.info('Skipping provider', { provider: provider.id, reason: 'circuit open' });
+      providerCallsTotal.inc({ ...labels, outcome: 'skipped' });
+      continue;
+    }
+
+    const endTimer = providerCallDuration.startTimer(labels);
+    try {
+      const result = await callProvider(provider, request);
+      const seconds = endTimer();
+      providerCircuitBreaker.recordSuccess(provider.id);
+      providerCallsTotal.inc({ ...labels, outcome: 'success' });
+      log.info('Provider call succeeded', { ...labels, durationMs: Math.round(seconds * 1000) });
+      return { ...result, transparent: provider.capabilities.transparentOutput };
+    } catch (error: any) {
+      endTimer();
+      providerCallsTotal.inc({ ...labels, outcome: 'failure' });
+      log.error('Provider call failed', { ...labels, err: error });
+      providerCircuitBreaker.recordFailure(provider.id);
+      lastError = error;
+    }
+  }
+
+  if (lastError) throw lastError;
+  throw new Error('No image model is currently available. Please try again in a minute.');
+}
+
+/**
+ * Edits an image, falling back through the configured provider chain
+ */
+export async function editImage(base64Data: string, prompt: string): Promise<GeneratedImage> {
+  return generateWithFallback({ kind: 'edit', images: [base64Data], prompt });
+}
+
+/**
+ * Generates an image from a prompt alone, falling back through the configured provider chain
+ */
+export async function createImage(prompt: string): Promise<GeneratedImage> {
+  return generateWithFallback({ kind: 'create', images: [], prompt });
+}
@@ -0,0 +1,14 @@
+export { editImage, createImage, getProviderChain, providerCircuitBreaker } from './generate';
+export { registerImageProvider, getImageProvider, listImageProviders } from './registry';
+export type { ImageProvider, ImageProviderCapabilities } from './registry';
+export type { CircuitState, CircuitStatus } from './circuitBreaker';
+export type { EditModel, GeneratedImage, ImageEditResponse } from './types';
+export { reserveGeneration, releaseGeneration, GenerationQuotaError, getDailyGenerationLimit } from './quota';
+export type { GenerationReservation } from './quota';
+export {
+  submitGenerationJob,
+  getGenerationJob,
+  cancelGenerationJob,
+  startGenerationQueue,
+} from './jobs';
+export type { GenerationJobInput, GenerationJobStatus, GenerationJobView } from './jobs';
@@ -0,0 +1,273 @@
+import { randomUUID } from 'crypto';
+import { getBackgroundRemover } from '@/backend/backgroundRemoval';
+import { getDatabase } from '@/backend/db';
+import { createLogger, runOutsideRequestContext } from '@/backend/logging';
+import { generationJobDuration, generationJobsTotal } from '@/backend/metrics';
+import { createImage, editImage } from './generate';
+import { releaseGeneration } from './quota';
+import type { GeneratedImage, ImageEditResponse } from './types';
+
+/**
+ * In-process generation queue backed by the generation_jobs table.
+ *
+ * Submitting only records a queued row, so the HTTP request returns immediately and slow
+ * providers are no longer bound by the /trpc request timeout. Workers claim jobs oldest-first;
+ * results stay in the table so clients can reattach after navigating away or restarting.
+ */
+
+export type GenerationJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export type GenerationJobInput =
+  | { kind: 'edit'; prompt: string; imageBase64: string }
+  | { kind: 'create'; prompt: string };
+
+export type GenerationJobView = {
+  id: string;
+  kind: GenerationJobInput['kind'];
+  status: GenerationJobStatus;
+  progress: number;
+  error?: string;
+  result?: ImageEditResponse;
+  // Whether the result has a transparent background; false when it still needs removing
+  transparent?: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+type JobRow = {
+  id: string;
+  user_id: string;
+  kind: GenerationJobInput['kind'];
+  prompt: string;
+  input_image: string | null;
+  status: GenerationJobStatus;
+  progress: number;
+  quota_day: string | null;
+  result_base64: string | null;
+  result_mime_type: string | null;
+  result_transparent: number | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+const log = createLogger({ component: 'generationJobs' });
+
+const PROGRESS_TICK_MS = 1000;
+// Providers report no progress, so running jobs creep toward this ceiling on a time curve
+const PROGRESS_CEILING = 90;
+const EXPECTED_DURATION_MS = 30000;
+
+function getConcurrency(): number {
+  const configured = Number(process.env.GENERATION_CONCURRENCY);
+  return Number.isFinite(configured) && configured > 0 ? configured : 2;
+}
+
+function toView(row: JobRow): GenerationJobView {
+  return {
+    id: row.id,
+    kind: row.kind,
+    status: row.status,
+    progress: row.progress,
+    error: row.error ?? undefined,
+    result: row.result_base64
+      ? { image: { base64Data: row.result_base64, mimeType: row.result_mime_type ?? 'image/png' } }
+      : undefined,
+    transparent: row.result_transparent === null ? undefined : Number(row.result_transparent) === 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export async function submitGenerationJob(
+  userId: string,
+  input: GenerationJobInput,
+  quotaDay: string | null
+): Promise<GenerationJobView> {
+  const db = await getDatabase();
+  const now = new Date().toISOString();
+  const id = randomUUID();
+  await db.run(
+    `INSERT INTO generation_jobs (id, user_id, kind, prompt, input_image, status, progress, quota_day, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, 'queued', 0, ?, ?, ?)`,
+    [id, userId, input.kind, input.prompt, input.kind === 'edit' ? input.imageBase64 : null, quotaDay, now, now]
+  );
+  log.info('Queued generation job', { jobId: id, kind: input.kind });
+
+  startGenerationQueue();
+  const row = await db.get<JobRow>('SELECT * FROM generation_jobs WHERE id = ?', [id]);
+  return toView(row as JobRow);
+}
+
+export async function getGenerationJob(userId: string, jobId: string): Promise<GenerationJobView | null> {
+  const db = await getDatabase();
+  const row = await db.get<JobRow>('SELECT * FROM generation_jobs WHERE id = ? AND user_id = ?', [jobId, userId]);
+  return row ? toView(row) : null;
+}
+
+/**
+ * Cancels a queued or running job and refunds its quota. A running provider call is left to
+ * finish, but its result is discarded because the worker only completes jobs still running.
+ */
+export async function cancelGenerationJob(userId: string, jobId: string): Promise<GenerationJobView | null> {
+  const db = await getDatabase();
+  const now = new Date().toISOString();
+  const row = await db.transaction(async (tx) => {
+    const result = await tx.run(
+      `UPDATE generation_jobs SET status = 'cancelled', input_image = NULL, updated_at = ?, finished_at = ?
+       WHERE id = ? AND user_id = ? AND status IN ('queued', 'running')`,
+      [now, now, jobId, userId]
+    );
+    const current = await tx.get<JobRow>('SELECT * FROM generation_jobs WHERE id = ? AND user_id = ?', [jobId, userId]);
+    return { cancelled: result.changes > 0, current };
+  });
+
+  if (!row.current) return null;
+  if (row.cancelled) {
+    log.info('Cancelled generation job', { jobId });
+    generationJobsTotal.inc({ kind: row.current.kind, status: 'cancelled' });
+    if (row.current.quota_day) {
+      await releaseGeneration(userId, row.current.quota_day);
+    }
+  }
+  return toView(row.current);
+}
+
+let activeWorkers = 0;
+let recovery: Promise<void> | null = null;
+
+// Jobs left running by a previous process never finished; put them back in line
+function recoverInterruptedJobs(): Promise<void> {
+  if (!recovery) {
+    recovery = (async () => {
+      const db = await getDatabase();
+      const result = await db.run(
+        `UPDATE generation_jobs SET status = 'queued', progress = 0, updated_at = ? WHERE status = 'running'`,
+        [new Date().toISOString()]
+      );
+      if (result.changes > 0) {
+        log.info('Re-queued interrupted generation jobs', { count: result.changes });
+      }
+    })();
+  }
+  return recovery;
+}
+
+async function claimNextJob(): Promise<JobRow | undefined> {
+  const db = await getDatabase();
+  return db.transaction(async (tx) => {
+    const next = await tx.get<JobRow>(
+      `SELECT * FROM generation_jobs WHERE status = 'queued' ORDER BY created_at LIMIT 1`
+    );
+    if (!next) return undefined;
+    const now = new Date().toISOString();
+    await tx.run(
+      `UPDATE generation_jobs SET status = 'running', progress = 5, started_at = ?, updated_at = ? WHERE id = ?`,
+      [now, now, next.id]
+    );
+    return { ...next, status: 'running' as const };
+  });
+}
+
+/**
+ * Providers without transparentOutput paint a background; it is removed here so every job
+ * returns a sticker ready to cut. If removal fails the painted image is kept and the job
+ * reports it as not transparent.
+ */
+async function withTransparentBackground(job: JobRow, result: GeneratedImage): Promise<GeneratedImage> {
+  if (result.transparent) return result;
+  try {
+    // Resolved here so a misconfigured remover falls back like a failed removal
+    const remover = getBackgroundRemover();
+    const base64Data = await remover.remove(result.image.base64Data);
+    log.info('Removed background from generated image', { jobId: job.id, remover: remover.id });
+    return { image: { base64Data, mimeType: 'image/png' }, transparent: true };
+  } catch (error) {
+    log.warn('Could not remove background from generated image', { jobId: job.id, err: error });
+    return result;
+  }
+}
+
+async function runJob(job: JobRow): Promise<void> {
+  const db = await getDatabase();
+  const startedAt = Date.now();
+
+  const ticker = setInterval(() => {
+    const elapsed = Date.now() - startedAt;
+    const progress = Math.round(5 + (PROGRESS_CEILING - 5) * (1 - Math.exp(-elapsed / EXPECTED_DURATION_MS)));
+    db.run(
+      `UPDATE generation_jobs SET progress = ?, updated_at = ? WHERE id = ? AND status = 'running'`,
+      [progress, new Date().toISOString(), job.id]
+    ).catch((error) => log.error('Failed to record progress', { jobId: job.id, err: error }));
+  }, PROGRESS_TICK_MS);
+
+  try {
+    const result = await withTransparentBackground(job, job.kind === 'edit'
+      ? await editImage(job.input_image ?? '', job.prompt)
+      : await createImage(job.prompt));
+
+    const now = new Date().toISOString();
+    const update = await db.run(
+      `UPDATE generation_jobs SET status = 'succeeded', progress = 100, result_base64 = ?, result_mime_type = ?,
+         result_transparent = ?, input_image = NULL, updated_at = ?, finished_at = ?
+       WHERE id = ? AND status = 'running'`,
+      [result.image.base64Data, result.image.mimeType, result.transparent ? 1 : 0, now, now, job.id]
+    );
+    log.info(update.changes > 0 ? 'Generation job succeeded' : 'Discarding result of cancelled job', {
+      jobId: job.id,
+      userId: job.user_id,
+      durationMs: Date.now() - startedAt,
+    });
+    if (update.changes > 0) {
+      generationJobsTotal.inc({ kind: job.kind, status: 'succeeded' });
+      generationJobDuration.observe({ kind: job.kind }, (Date.now() - new Date(job.created_at).getTime()) / 1000);
+    }
+  } catch (error: any) {
+    log.error('Generation job failed', { jobId: job.id, userId: job.user_id, err: error });
+    const now = new Date().toISOString();
+    const update = await db.run(
+      `UPDATE generation_jobs SET status = 'failed', error = ?, input_image = NULL, updated_at = ?, finished_at = ?
+       WHERE id = ? AND status = 'running'`,
+      [error?.message || 'Image generation failed', now, now, job.id]
+    );
+    if (update.changes > 0) {
+      generationJobsTotal.inc({ kind: job.kind, status: 'failed' });
+      if (job.quota_day) {
+        await releaseGeneration(job.user_id, job.quota_day);
+      }
+    }
+  } finally {
+    clearInterval(ticker);
+  }
+}
+
+async function drainQueue(): Promise<void> {
+  await recoverInterruptedJobs();
+  while (activeWorkers < getConcurrency()) {
+    // Reserve the worker slot before awaiting so overlapping drains cannot overshoot
+    activeWorkers++;
+    let job: JobRow | undefined;
+    try {
+      job = await claimNextJob();
+    } finally {
+      if (!job) activeWorkers--;
+    }
+    if (!job) return;
+
+    runJob(job)
+      .catch((error) => log.error('Worker crashed', { jobId: job.id, err: error }))
+      .finally(() => {
+        activeWorkers--;
+        startGenerationQueue();
+      });
+  }
+}
+
+/**
+ * Wakes the workers. Safe to call repeatedly; also run at startup to resume queued jobs.
+ */
+export function startGenerationQueue(): void {
+  runOutsideRequestContext(() => {
+    drainQueue().catch((error) => log.error('Failed to process generation queue', { err: error }));
+  });
+}
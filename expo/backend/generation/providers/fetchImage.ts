@@ -0,0 +1,12 @@
+// Providers that answer with a hosted URL are normalised to inline base64 like the others
+export async function fetchImageAsBase64(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error('Failed to fetch generated image');
+  }
+  return Buffer.from(await response.arrayBuffer()).toString('base64');
+}
+
+export function isAbortError(error: unknown): boolean {
+  return (error as { name?: string } | null)?.name === 'AbortError';
+}
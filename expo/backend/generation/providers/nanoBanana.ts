@@ -0,0 +1,60 @@
+import type { ImageEditResponse } from '../types';
+import { isAbortError } from './fetchImage';
+
+export async function callNanoBananaEdit(
+  images: string[],
+  prompt: string,
+  timeout: number = 20000
+): Promise<ImageEditResponse> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = await fetch('https://toolkit.rork.com/images/edit/', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+      },
+      body: JSON.stringify({
+        prompt,
+        images: images.map((image) => ({ type: 'image', image })),
+      }),
+      signal: controller.signal,
+    });
+
+    if (response.status >= 502 && response.status <= 504) {
+      throw new Error(`Server temporarily unavailable (${response.status})`);
+    }
+    if (response.status === 429) {
+      throw new Error('Rate limited');
+    }
+    if (!response.ok) {
+      throw new Error(`API Error ${response.status}`);
+    }
+
+    const responseText = await response.text();
+    if (responseText.trim().startsWith('<!DOCTYPE') || responseText.trim().startsWith('<html')) {
+      throw new Error('Received error page');
+    }
+
+    let data: ImageEditResponse;
+    try {
+      data = JSON.parse(responseText);
+    } catch {
+      throw new Error('Invalid response format');
+    }
+    if (!data?.image?.base64Data) {
+      throw new Error('Incomplete response');
+    }
+
+    return { image: { base64Data: data.image.base64Data, mimeType: data.image.mimeType || 'image/png' } };
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw new Error('Request timed out');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -0,0 +1,117 @@
+import { createLogger } from '@/backend/logging';
+import type { ImageEditResponse } from '../types';
+import { fetchImageAsBase64, isAbortError } from './fetchImage';
+
+const log = createLogger({ component: 'generation', provider: 'openai' });
+
+type OpenAIImageModel = 'gpt-image-1-mini' | 'gpt-image-1';
+
+type OpenAIImageOptions = {
+  model?: OpenAIImageModel;
+  size?: '1024x1024' | '1024x1792' | '1792x1024';
+  background?: 'transparent' | 'opaque' | 'auto';
+  quality?: 'low' | 'medium' | 'high';
+  timeout?: number;
+};
+
+type OpenAIImageResponse = {
+  created: number;
+  data: {
+    url?: string;
+    b64_json?: string;
+    revised_prompt?: string;
+  }[];
+};
+
+function getOpenAIKey(): string {
+  const key = process.env.OPENAI_API_KEY;
+  if (!key) {
+    throw new Error('OpenAI API key not configured. Set OPENAI_API_KEY on the server.');
+  }
+  return key;
+}
+
+async function postImageForm(
+  endpoint: 'generations' | 'edits',
+  form: FormData,
+  timeout: number
+): Promise<ImageEditResponse> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = await fetch(`https://api.openai.com/v1/images/${endpoint}`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${getOpenAIKey()}` },
+      body: form,
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unknown error');
+      log.error('OpenAI API error', { endpoint, status: response.status, body: errorText });
+      throw new Error(`OpenAI API error: ${response.status}`);
+    }
+
+    let data: OpenAIImageResponse;
+    try {
+      data = await response.json();
+    } catch {
+      throw new Error('Invalid response format from OpenAI');
+    }
+    const imageData = data?.data?.[0];
+    if (!imageData) {
+      throw new Error('No images in OpenAI response');
+    }
+
+    let base64Data: string;
+    if (imageData.b64_json) {
+      base64Data = imageData.b64_json;
+    } else if (imageData.url) {
+      base64Data = await fetchImageAsBase64(imageData.url);
+    } else {
+      throw new Error('No image data in OpenAI response');
+    }
+
+    return { image: { base64Data, mimeType: 'image/png' } };
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw new Error('OpenAI request timed out');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+function buildForm(prompt: string, options: OpenAIImageOptions): FormData {
+  const form = new FormData();
+  form.append('model', options.model ?? 'gpt-image-1-mini');
+  form.append('prompt', prompt);
+  form.append('n', '1');
+  form.append('size', options.size ?? '1024x1024');
+  form.append('background', options.background ?? 'transparent');
+  form.append('quality', options.quality ?? 'medium');
+  return form;
+}
+
+export async function callOpenAIImageGenerate(
+  prompt: string,
+  options: OpenAIImageOptions = {}
+): Promise<ImageEditResponse> {
+  return postImageForm('generations', buildForm(prompt, options), options.timeout ?? 60000);
+}
+
+export async function callOpenAIImageEdit(
+  images: string[],
+  prompt: string,
+  options: OpenAIImageOptions = {}
+): Promise<ImageEditResponse> {
+  const form = buildForm(prompt, options);
+  // Multiple reference images go up as an image[] array
+  const field = images.length > 1 ? 'image[]' : 'image';
+  images.forEach((image, index) => {
+    form.append(field, new Blob([Buffer.from(image, 'base64')], { type: 'image/png' }), `image-${index}.png`);
+  });
+  return postImageForm('edits', form, options.timeout ?? 60000);
+}
@@ -0,0 +1,76 @@
+import { createLogger } from '@/backend/logging';
+import type { ImageEditResponse } from '../types';
+import { fetchImageAsBase64, isAbortError } from './fetchImage';
+
+const log = createLogger({ component: 'generation', provider: 'seedream' });
+
+type SeeDreamResponse = {
+  images: {
+    url: string;
+    content_type: string;
+  }[];
+};
+
+export async function callSeeDreamEdit(
+  base64Data: string,
+  prompt: string,
+  timeout: number = 30000
+): Promise<ImageEditResponse> {
+  const key = process.env.FAL_KEY;
+  if (!key) {
+    throw new Error('SeeDream API key not configured. Set FAL_KEY on the server.');
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = await fetch('https://fal.run/fal-ai/bytedance/seedream/v4/edit', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Key ${key}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        prompt,
+        image_url: `data:image/png;base64,${base64Data}`,
+        seed: Math.floor(Math.random() * 1000000),
+        guidance_scale: 7.5,
+        num_inference_steps: 25,
+      }),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unknown error');
+      log.error('SeeDream API error', { status: response.status, body: errorText });
+      throw new Error(`SeeDream API error: ${response.status}`);
+    }
+
+    let data: SeeDreamResponse;
+    try {
+      data = await response.json();
+    } catch {
+      throw new Error('Invalid response format from SeeDream');
+    }
+    const first = data?.images?.[0];
+    if (!first) {
+      throw new Error('No images in SeeDream response');
+    }
+
+    const base64Result = await fetchImageAsBase64(first.url);
+    return {
+      image: {
+        base64Data: base64Result,
+        mimeType: first.content_type || 'image/png',
+      },
+    };
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw new Error('SeeDream request timed out');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -0,0 +1,69 @@
+import { getDatabase } from '@/backend/db';
+import { RateLimitError } from '@/backend/rateLimit/errors';
+import type { UserRole } from '@/backend/trpc/routes/auth/store';
+
+const DEFAULT_DAILY_LIMIT = 50;
+
+export class GenerationQuotaError extends RateLimitError {
+  constructor(limit: number, retryAfterSeconds: number) {
+    super(`Daily generation limit of ${limit} reached`, retryAfterSeconds);
+    this.name = 'GenerationQuotaError';
+  }
+}
+
+export function getDailyGenerationLimit(): number {
+  const configured = Number(process.env.GENERATION_DAILY_LIMIT);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_DAILY_LIMIT;
+}
+
+// Quotas reset at midnight UTC
+function currentDay(now: Date): { day: string; secondsUntilReset: number } {
+  const day = now.toISOString().slice(0, 10);
+  const nextDay = Date.parse(`${day}T00:00:00.000Z`) + 24 * 60 * 60 * 1000;
+  return { day, secondsUntilReset: (nextDay - now.getTime()) / 1000 };
+}
+
+export type GenerationReservation = {
+  // Null for unmetered users; otherwise the quota day the generation was charged to
+  day: string | null;
+  release: () => Promise<void>;
+};
+
+export async function releaseGeneration(userId: string, day: string): Promise<void> {
+  const db = await getDatabase();
+  await db.run(
+    'UPDATE generation_usage SET count = count - 1 WHERE user_id = ? AND day = ? AND count > 0',
+    [userId, day]
+  );
+}
+
+/**
+ * Claims one generation from the user's daily allowance. The reservation's release hands it
+ * back if the generation fails or is cancelled. Admins are not metered.
+ */
+export async function reserveGeneration(user: { id: string; role: UserRole }): Promise<GenerationReservation> {
+  if (user.role === 'admin') {
+    return { day: null, release: async () => {} };
+  }
+
+  const limit = getDailyGenerationLimit();
+  const { day, secondsUntilReset } = currentDay(new Date());
+  const db = await getDatabase();
+
+  await db.transaction(async (tx) => {
+    const row = await tx.get<{ count: number }>(
+      'SELECT count FROM generation_usage WHERE user_id = ? AND day = ?',
+      [user.id, day]
+    );
+    if ((row?.count ?? 0) >= limit) {
+      throw new GenerationQuotaError(limit, secondsUntilReset);
+    }
+    await tx.run(
+      `INSERT INTO generation_usage (user_id, day, count) VALUES (?, ?, 1)
+       ON CONFLICT (user_id, day) DO UPDATE SET count = count + 1`,
+      [user.id, day]
+    );
+  });
+
+  return { day, release: () => releaseGeneration(user.id, day) };
+}
@@ -0,0 +1,91 @@
+import { callNanoBananaEdit } from './providers/nanoBanana';
+import { callOpenAIImageEdit, callOpenAIImageGenerate } from './providers/openai';
+import { callSeeDreamEdit } from './providers/seedream';
+import type { EditModel, ImageEditResponse } from './types';
+
+export type ImageProviderCapabilities = {
+  // Returns real alpha rather than painting a background the sticker pipeline must remove
+  transparentOutput: boolean;
+  multiImageInput: boolean;
+  // Can generate from a prompt alone; others are handed a blank canvas to edit
+  textToImage: boolean;
+  maxInputBytes: number;
+  timeoutMs: number;
+};
+
+export interface ImageProvider {
+  id: EditModel;
+  label: string;
+  capabilities: ImageProviderCapabilities;
+  // False when the credentials it needs are missing, so it is skipped rather than failing
+  isConfigured(): boolean;
+  edit(images: string[], prompt: string): Promise<ImageEditResponse>;
+  create?(prompt: string): Promise<ImageEditResponse>;
+}
+
+const MB = 1024 * 1024;
+
+const providers = new Map<EditModel, ImageProvider>();
+
+export function registerImageProvider(provider: ImageProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function getImageProvider(id: EditModel): ImageProvider | undefined {
+  return providers.get(id);
+}
+
+export function listImageProviders(): ImageProvider[] {
+  return [...providers.values()];
+}
+
+registerImageProvider({
+  id: 'gpt-image-1-mini',
+  label: 'GPT Image 1 Mini',
+  capabilities: {
+    transparentOutput: true,
+    multiImageInput: true,
+    textToImage: true,
+    maxInputBytes: 50 * MB,
+    timeoutMs: 60000,
+  },
+  isConfigured: () => !!process.env.OPENAI_API_KEY,
+  edit(images, prompt) {
+    return callOpenAIImageEdit(images, prompt, { model: 'gpt-image-1-mini', timeout: this.capabilities.timeoutMs });
+  },
+  create(prompt) {
+    return callOpenAIImageGenerate(prompt, { model: 'gpt-image-1-mini', timeout: this.capabilities.timeoutMs });
+  },
+});
+
+registerImageProvider({
+  id: 'nano-banana',
+  label: 'Nano Banana',
+  capabilities: {
+    transparentOutput: false,
+    multiImageInput: true,
+    textToImage: false,
+    maxInputBytes: 20 * MB,
+    timeoutMs: 20000,
+  },
+  isConfigured: () => true,
+  edit(images, prompt) {
+    return callNanoBananaEdit(images, prompt, this.capabilities.timeoutMs);
+  },
+});
+
+registerImageProvider({
+  id: 'seedream',
+  label: 'SeeDream v4',
+  capabilities: {
+    transparentOutput: false,
+    multiImageInput: false,
+    textToImage: false,
+    maxInputBytes: 10 * MB,
+    timeoutMs: 30000,
+  },
+  isConfigured: () => !!process.env.FAL_KEY,
+  edit(images, prompt) {
+    return callSeeDreamEdit(images[0], prompt, this.capabilities.timeoutMs);
+  },
+});
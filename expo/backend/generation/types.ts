@@ -0,0 +1,11 @@
+import type { StoredAdminSettings } from '@/backend/trpc/routes/settings/store';
+
+export type EditModel = NonNullable<StoredAdminSettings['editModel']>;
+
+// Kept identical to the shape the app consumed when it called the providers directly
+export type ImageEditResponse = {
+  image: { base64Data: string; mimeType: string };
+};
+
+// What the provider chain returns: the image and whether it has a real transparent background
+export type GeneratedImage = ImageEditResponse & { transparent: boolean };
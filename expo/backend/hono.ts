@@ -3,19 +3,40 @@ import { trpcServer } from "@hono/trpc-server";
 import { cors } from "hono/cors";
 import { appRouter } from "./trpc/app-router";
 import { createContext } from "./trpc/create-context";
+import { rateLimit, rateLimitPolicies } from "./rateLimit";
+import { startGenerationQueue } from "./generation";
+import { startBackgroundRemovalQueue } from "./backgroundRemoval";
+import { logger, requestLogger } from "./logging";
+import { httpMetrics, metricsHandler } from "./metrics";
+import { onPaymentStatusChange, stripeWebhookHandler } from "./payments";
+import { handleOrderPayment, startOrderOutbox } from "./orders";
+import { printfulWebhookHandler } from "./printful";
+import { printFileHandler } from "./printFiles";
+import { startCatalogSync } from "./catalog";
 
 // app will be mounted at /api
 const app = new Hono();
 
-// Add middleware to log all requests BEFORE other handlers
-app.use('*', async (c, next) => {
-  console.log('[backend] Request:', c.req.method, c.req.url);
-  await next();
-  console.log('[backend] Response status:', c.res.status);
-});
+// Resume jobs queued (or interrupted) before this process started
+startGenerationQueue();
+startBackgroundRemovalQueue();
+
+// Orders move to fulfillment once their payment succeeds; the outbox retries failed submissions
+onPaymentStatusChange(handleOrderPayment);
+startOrderOutbox();
+
+// Products, variants and base costs follow Printful's catalog
+startCatalogSync();
+
+// Request ids and access logging run BEFORE other handlers so every log line is scoped
+app.use("*", requestLogger());
+app.use("*", httpMetrics());
 
 // Enable CORS for all routes
-app.use("*", cors());
+app.use("*", cors({ origin: "*", exposeHeaders: ["Retry-After", "X-Request-Id"] }));
+
+// Per-route request limits (see rateLimit/policies.ts)
+app.use("*", rateLimit(rateLimitPolicies));
 
 // Mount tRPC router at /trpc with timeout handling
 app.use(
@@ -30,7 +51,7 @@ app.use(
       await Promise.race([next(), timeoutPromise]);
     } catch (error: any) {
       if (error.message === 'Request timeout') {
-        console.error('[backend] Request timeout after', timeoutMs, 'ms');
+        logger.error("Request timeout", { timeoutMs });
         return c.json({ error: 'Request timeout' }, 504);
       }
       throw error;
@@ -41,104 +62,18 @@ app.use(
     router: appRouter,
     createContext,
     onError: ({ error, path }) => {
-      console.error('[backend] tRPC error on path:', path);
-      console.error('[backend] tRPC error:', error);
-      console.error('[backend] tRPC error stack:', error.stack);
+      // Expected failures (auth, validation, limits) are already logged by the procedure middleware
+      if (error.code === "INTERNAL_SERVER_ERROR") {
+        logger.error("tRPC error", { route: path, err: error.cause ?? error });
+      }
     },
   })
 );
 
-// Replicate 851-labs background removal proxy (keeps API key server-side)
-app.post('/rmbg', async (c) => {
-  try {
-    const token = process.env.REPLICATE_API_TOKEN;
-    if (!token) {
-      console.error('[backend] Missing REPLICATE_API_TOKEN');
-      return c.json({ error: 'Server not configured' }, 500);
-    }
-
-    const body = await c.req.json<{ imageBase64: string }>();
-    const imageBase64 = body?.imageBase64 ?? '';
-    if (!imageBase64 || typeof imageBase64 !== 'string') {
-      return c.json({ error: 'Invalid image' }, 400);
-    }
-
-    const startRes = await fetch('https://api.replicate.com/v1/models/851-labs/background-remover/predictions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        input: {
-          image: `data:image/png;base64,${imageBase64}`,
-          format: 'png'
-        }
-      })
-    });
-
-    if (!startRes.ok) {
-      const text = await startRes.text();
-      console.error('[backend] Replicate start error:', startRes.status, text);
-      return c.json({ error: 'Replicate start failed' }, 502);
-    }
-
-    const prediction = await startRes.json() as { id: string };
-    const pollUrl = `https://api.replicate.com/v1/predictions/${prediction.id}`;
-
-    const timeoutMs = 45000;
-    const pollIntervalMs = 1200;
-    const started = Date.now();
-
-    let outputUrl: string | null = null;
-    while (Date.now() - started < timeoutMs) {
-      await new Promise(res => setTimeout(res, pollIntervalMs));
-      const pollRes = await fetch(pollUrl, {
-        headers: { 'Authorization': `Bearer ${token}` }
-      });
-      if (!pollRes.ok) {
-        const text = await pollRes.text();
-        console.error('[backend] Replicate poll error:', pollRes.status, text);
-        break;
-      }
-      const data = await pollRes.json();
-      const status = data?.status as string | undefined;
-      if (status === 'succeeded') {
-        const out = data?.output;
-        if (typeof out === 'string') {
-          outputUrl = out;
-        } else if (Array.isArray(out) && out.length > 0 && typeof out[0] === 'string') {
-          outputUrl = out[0];
-        }
-        break;
-      }
-      if (status === 'failed' || status === 'canceled') {
-        console.error('[backend] Replicate status:', status, data?.error);
-        break;
-      }
-    }
-
-    if (!outputUrl) {
-      return c.json({ error: 'Background removal timed out' }, 504);
-    }
-
-    const imgRes = await fetch(outputUrl);
-    if (!imgRes.ok) {
-      return c.json({ error: 'Failed to download output' }, 502);
-    }
-    const arrayBuf = await imgRes.arrayBuffer();
-    const base64 = Buffer.from(arrayBuf).toString('base64');
-    return c.json({ base64 });
-  } catch (err) {
-    console.error('[backend] /rmbg error:', err);
-    return c.json({ error: 'Unexpected error' }, 500);
-  }
-});
-
 // Test endpoint to verify Replicate API token
 app.get("/test-replicate", (c) => {
   const token = process.env.REPLICATE_API_TOKEN;
-  console.log('[backend] Replicate token check:', token ? `Token present (${token.substring(0, 8)}...)` : 'Token missing');
+  logger.info("Replicate token check", { configured: !!token });
   return c.json({ 
     status: token ? "configured" : "missing",
     message: token ? "Replicate API token is configured" : "REPLICATE_API_TOKEN environment variable is not set",
@@ -146,15 +81,25 @@ app.get("/test-replicate", (c) => {
   });
 });
 
+// Stripe payment events; authenticated by signature, so it sits outside the tRPC auth flow
+app.post("/webhooks/stripe", stripeWebhookHandler());
+
+// Printful fulfillment events (shipments, failures, holds); authenticated by a URL token
+app.post("/webhooks/printful", printfulWebhookHandler());
+
+// Print files for fulfillment providers to fetch; authenticated by an expiring signed URL
+app.get("/files/*", printFileHandler());
+
+// Prometheus scrape endpoint, protected by METRICS_TOKEN
+app.get("/metrics", metricsHandler());
+
 // Simple health check endpoint
 app.get("/", (c) => {
-  console.log('[backend] Health check endpoint hit');
   return c.json({ status: "ok", message: "API is running" });
 });
 
 // Debug endpoint to check if backend is working
 app.get("/debug", (c) => {
-  console.log('[backend] Debug endpoint hit');
   return c.json({ 
     status: "ok", 
     message: "Backend is working",
@@ -163,7 +108,10 @@ app.get("/debug", (c) => {
       health: "/api/",
       trpc: "/api/trpc",
       debug: "/api/debug",
-      rmbg: "/api/rmbg",
+      metrics: "/api/metrics",
+      stripeWebhook: "/api/webhooks/stripe",
+      printfulWebhook: "/api/webhooks/printful",
+      printFiles: "/api/files/*",
       testReplicate: "/api/test-replicate"
     }
   });
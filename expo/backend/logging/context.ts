@@ -0,0 +1,23 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Per-request fields every log line written while handling the request should carry
+export type RequestContext = {
+  requestId: string;
+  userId?: string;
+  route?: string;
+};
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+// Background work kicked off by a request (queue workers) must not log under that request's id
+export function runOutsideRequestContext<T>(fn: () => T): T {
+  return storage.exit(fn);
+}
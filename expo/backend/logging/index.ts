@@ -0,0 +1,6 @@
+export { logger, createLogger } from './logger';
+export type { Logger, LogLevel, LogFields } from './logger';
+export { runWithRequestContext, runOutsideRequestContext, getRequestContext } from './context';
+export type { RequestContext } from './context';
+export { redact, redactString } from './redact';
+export { requestLogger } from './middleware';
@@ -0,0 +1,55 @@
+import { getRequestContext } from './context';
+import { redact, redactString } from './redact';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  child(bindings: LogFields): Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+function getMinLevel(): number {
+  const configured = process.env.LOG_LEVEL as LogLevel | undefined;
+  return configured && configured in LEVELS ? LEVELS[configured] : LEVELS.info;
+}
+
+/**
+ * JSON-lines logger. Each line carries the level, message, the active request's id/user/route
+ * (see runWithRequestContext) and any bound or per-call fields, all passed through redaction.
+ */
+export function createLogger(bindings: LogFields = {}): Logger {
+  const write = (level: LogLevel, message: string, fields?: LogFields) => {
+    if (LEVELS[level] < getMinLevel()) return;
+
+    const entry = {
+      ts: new Date().toISOString(),
+      level,
+      msg: redactString(message),
+      ...getRequestContext(),
+      ...(redact(bindings) as LogFields),
+      ...(fields ? (redact(fields) as LogFields) : {}),
+    };
+    const line = JSON.stringify(entry);
+    if (level === 'error' || level === 'warn') {
+      process.stderr.write(`${line}\n`);
+    } else {
+      process.stdout.write(`${line}\n`);
+    }
+  };
+
+  return {
+    debug: (message, fields) => write('debug', message, fields),
+    info: (message, fields) => write('info', message, fields),
+    warn: (message, fields) => write('warn', message, fields),
+    error: (message, fields) => write('error', message, fields),
+    child: (extra) => createLogger({ ...bindings, ...extra }),
+  };
+}
+
+export const logger = createLogger();
@@ -0,0 +1,35 @@
+import { randomUUID } from 'crypto';
+import type { MiddlewareHandler } from 'hono';
+import { runWithRequestContext, type RequestContext } from './context';
+import { logger } from './logger';
+
+const REQUEST_ID_HEADER = 'X-Request-Id';
+// Accept a caller-supplied id only if it is short and harmless to echo into logs and headers
+const VALID_REQUEST_ID = /^[\w-]{1,128}$/;
+
+/**
+ * Assigns every request an id (reusing a valid incoming X-Request-Id), echoes it back on the
+ * response, scopes log lines to it and logs one completion line with status and duration.
+ */
+export function requestLogger(): MiddlewareHandler {
+  return async (c, next) => {
+    const incoming = c.req.header(REQUEST_ID_HEADER);
+    const context: RequestContext = {
+      requestId: incoming && VALID_REQUEST_ID.test(incoming) ? incoming : randomUUID(),
+      route: `${c.req.method} ${c.req.path}`,
+    };
+    const started = Date.now();
+
+    await runWithRequestContext(context, async () => {
+      try {
+        await next();
+      } finally {
+        c.header(REQUEST_ID_HEADER, context.requestId);
+        logger.info('request completed', {
+          status: c.res.status,
+          durationMs: Date.now() - started,
+        });
+      }
+    });
+  };
+}
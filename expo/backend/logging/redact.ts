@@ -0,0 +1,54 @@
+/**
+ * Scrubs personal data and secrets from values before they are logged:
+ * emails, credentials/tokens and base64 image payloads.
+ */
+
+const SENSITIVE_KEY = /password|secret|token|authorization|cookie|api[-_]?key/i;
+const EMAIL_KEY = /e-?mail/i;
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+const BEARER_PATTERN = /Bearer\s+[\w.~+/-]+=*/gi;
+const JWT_PATTERN = /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g;
+const DATA_URI_PATTERN = /data:[\w/+.-]+;base64,[A-Za-z0-9+/=]+/g;
+// Long unbroken base64 runs are image payloads, never useful in a log line
+const BASE64_RUN_PATTERN = /[A-Za-z0-9+/]{200,}={0,2}/g;
+
+const MAX_DEPTH = 6;
+
+export function redactString(value: string): string {
+  return value
+    .replace(DATA_URI_PATTERN, (match) => `[base64 ${match.length} chars]`)
+    .replace(BASE64_RUN_PATTERN, (match) => `[base64 ${match.length} chars]`)
+    .replace(BEARER_PATTERN, 'Bearer [redacted]')
+    .replace(JWT_PATTERN, '[token]')
+    .replace(EMAIL_PATTERN, '[email]');
+}
+
+export function redact(value: unknown, depth: number = 0): unknown {
+  if (value === null || value === undefined) return value;
+  if (typeof value === 'string') return redactString(value);
+  if (typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[truncated]';
+
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      stack: value.stack ? redactString(value.stack) : undefined,
+      ...(value.cause !== undefined ? { cause: redact(value.cause, depth + 1) } : {}),
+    };
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map((item) => redact(item, depth + 1));
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+    if (SENSITIVE_KEY.test(key) && item !== null && item !== undefined && typeof item !== 'boolean') {
+      result[key] = '[redacted]';
+    } else if (EMAIL_KEY.test(key) && typeof item === 'string') {
+      result[key] = '[email]';
+    } else {
+      result[key] = redact(item, depth + 1);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,31 @@
+import { join } from 'path';
+import { createConsoleMailer, createOutboxMailer } from './outbox';
+import type { Mailer } from './types';
+
+export type { Mailer, MailMessage } from './types';
+export { passwordResetEmail, verificationEmail } from './templates';
+
+let mailer: Mailer | null = null;
+
+export function getMailer(): Mailer {
+  if (mailer) return mailer;
+
+  const driver = process.env.MAIL_DRIVER ?? 'outbox';
+  switch (driver) {
+    case 'outbox':
+      mailer = createOutboxMailer(process.env.MAIL_OUTBOX_DIR ?? join(process.cwd(), 'data', 'outbox'));
+      break;
+    case 'console':
+      mailer = createConsoleMailer();
+      break;
+    default:
+      // A real provider (SES, Postmark, SMTP...) plugs in here by implementing Mailer
+      throw new Error(`Unsupported MAIL_DRIVER: ${driver}`);
+  }
+  return mailer;
+}
+
+// Tests and alternative runtimes can inject their own transport
+export function setMailer(next: Mailer | null): void {
+  mailer = next;
+}
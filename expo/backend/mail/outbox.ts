@@ -0,0 +1,26 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { createLogger } from '@/backend/logging';
+import type { MailMessage, Mailer } from './types';
+
+// Local development mailer: writes each message to a JSON file instead of sending it
+export function createOutboxMailer(directory: string): Mailer {
+  return {
+    async send(message: MailMessage): Promise<void> {
+      await mkdir(directory, { recursive: true });
+      const filename = `${new Date().toISOString().replace(/[:.]/g, '-')}-${Math.random().toString(36).slice(2, 8)}.json`;
+      const path = join(directory, filename);
+      await writeFile(path, JSON.stringify({ ...message, createdAt: new Date().toISOString() }, null, 2));
+      createLogger({ component: 'mail' }).info('Message written to outbox', { path });
+    },
+  };
+}
+
+// Delivery, not logging: prints the full message (links included) so it can be used locally
+export function createConsoleMailer(): Mailer {
+  return {
+    async send(message: MailMessage): Promise<void> {
+      console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+    },
+  };
+}
@@ -0,0 +1,33 @@
+import type { MailMessage } from './types';
+
+function appLink(path: string, token: string): string {
+  const base = process.env.APP_URL ?? 'myapp://';
+  const separator = base.endsWith('/') ? '' : '/';
+  return `${base}${separator}${path}?token=${encodeURIComponent(token)}`;
+}
+
+export function passwordResetEmail(to: string, token: string): MailMessage {
+  const link = appLink('reset-password', token);
+  return {
+    to,
+    subject: 'Reset your Memory Made password',
+    text:
+      `We received a request to reset your password.\n\n` +
+      `Open this link to choose a new one:\n${link}\n\n` +
+      `Or paste this code into the app:\n${token}\n\n` +
+      `The link expires in 1 hour. If you didn't ask for this, you can ignore this email.`,
+  };
+}
+
+export function verificationEmail(to: string, token: string): MailMessage {
+  const link = appLink('verify-email', token);
+  return {
+    to,
+    subject: 'Verify your Memory Made email',
+    text:
+      `Please confirm your email address.\n\n` +
+      `Open this link to verify:\n${link}\n\n` +
+      `Or paste this code into the app:\n${token}\n\n` +
+      `The link expires in 24 hours.`,
+  };
+}
@@ -0,0 +1,4 @@
+export * from './metrics';
+export { createRegistry, DEFAULT_BUCKETS } from './registry';
+export type { Counter, Histogram, Labels, MetricsRegistry } from './registry';
+export { httpMetrics, metricsHandler } from './middleware';
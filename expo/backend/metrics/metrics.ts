@@ -0,0 +1,71 @@
+import { createRegistry } from './registry';
+
+export const registry = createRegistry();
+
+// HTTP layer: one series per registered Hono route, so unknown paths cannot explode cardinality
+export const httpRequestsTotal = registry.counter(
+  'http_requests_total',
+  'HTTP requests handled, by route, method and status code.',
+  ['route', 'method', 'status']
+);
+export const httpRequestDuration = registry.histogram(
+  'http_request_duration_seconds',
+  'HTTP request latency, by route and method.',
+  ['route', 'method']
+);
+
+export const trpcCallsTotal = registry.counter(
+  'trpc_calls_total',
+  'tRPC procedure calls, by procedure and result code ("OK" on success).',
+  ['procedure', 'code']
+);
+export const trpcCallDuration = registry.histogram(
+  'trpc_call_duration_seconds',
+  'tRPC procedure latency, by procedure.',
+  ['procedure']
+);
+
+// Image providers: every attempt in the fallback chain is counted, including skipped ones
+export const providerCallsTotal = registry.counter(
+  'image_provider_calls_total',
+  'Image provider attempts, by provider, kind (edit/create) and outcome (success/failure/skipped).',
+  ['provider', 'kind', 'outcome']
+);
+export const providerCallDuration = registry.histogram(
+  'image_provider_call_duration_seconds',
+  'Image provider call latency, by provider and kind.',
+  ['provider', 'kind']
+);
+
+export const generationJobsTotal = registry.counter(
+  'generation_jobs_total',
+  'Finished generation jobs, by kind and status (succeeded/failed/cancelled).',
+  ['kind', 'status']
+);
+export const generationJobDuration = registry.histogram(
+  'generation_job_duration_seconds',
+  'Time from submission to completion of succeeded generation jobs, by kind.',
+  ['kind']
+);
+
+export const backgroundRemovalJobsTotal = registry.counter(
+  'background_removal_jobs_total',
+  'Background-removal jobs, by remover and outcome (cached/succeeded/failed).',
+  ['remover', 'outcome']
+);
+export const backgroundRemovalDuration = registry.histogram(
+  'background_removal_duration_seconds',
+  'Time from submission to completion of background-removal jobs that ran a remover.',
+  ['remover']
+);
+
+export const ordersTotal = registry.counter(
+  'orders_total',
+  'Orders by outcome (e.g. submitted, fulfillment_failed, paid, shipped).',
+  ['outcome']
+);
+export const orderSubmissionDuration = registry.histogram(
+  'order_submission_duration_seconds',
+  'Latency of submitting orders to the fulfillment provider.',
+  ['outcome']
+);
@@ -0,0 +1,47 @@
+import { timingSafeEqual } from 'crypto';
+import type { Context, MiddlewareHandler } from 'hono';
+import { matchedRoutes } from 'hono/route';
+import { httpRequestDuration, httpRequestsTotal, registry } from './metrics';
+
+// The path of the handler that produced the response, e.g. "/trpc/*"; "/*" when only middleware ran
+function resolveRoute(c: Context): string {
+  return matchedRoutes(c)[c.req.routeIndex]?.path ?? 'unmatched';
+}
+
+export function httpMetrics(): MiddlewareHandler {
+  return async (c, next) => {
+    const started = performance.now();
+    try {
+      await next();
+    } finally {
+      const labels = { route: resolveRoute(c), method: c.req.method };
+      httpRequestsTotal.inc({ ...labels, status: c.res.status });
+      httpRequestDuration.observe(labels, (performance.now() - started) / 1000);
+    }
+  };
+}
+
+function isAuthorized(c: Context, expected: string): boolean {
+  const header = c.req.header('authorization');
+  const presented = header?.startsWith('Bearer ') ? header.slice(7) : '';
+  const a = Buffer.from(presented);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Prometheus scrape endpoint. Requires `Authorization: Bearer $METRICS_TOKEN`; when no token is
+ * configured the endpoint is disabled rather than left open.
+ */
+export function metricsHandler() {
+  return (c: Context) => {
+    const token = process.env.METRICS_TOKEN;
+    if (!token) {
+      return c.json({ error: 'Metrics are disabled' }, 404);
+    }
+    if (!isAuthorized(c, token)) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+    return c.text(registry.render(), 200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+  };
+}
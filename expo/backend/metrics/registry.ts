@@ -0,0 +1,134 @@
+/**
+ * Minimal in-process metrics registry rendered in the Prometheus text exposition format.
+ * Values live in memory and reset when the process restarts, which Prometheus handles natively.
+ */
+
+export type Labels = Record<string, string | number>;
+
+export type Counter<L extends string> = {
+  inc(labels: Record<L, string | number>, value?: number): void;
+};
+
+export type Histogram<L extends string> = {
+  observe(labels: Record<L, string | number>, seconds: number): void;
+  // Returns a function that records the seconds elapsed since the timer started
+  startTimer(labels: Record<L, string | number>): () => number;
+};
+
+type Metric = {
+  name: string;
+  render(): string[];
+};
+
+export const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels, extra?: Labels): string {
+  const entries = Object.entries({ ...labels, ...extra });
+  if (entries.length === 0) return '';
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(String(value))}"`).join(',')}}`;
+}
+
+// Label order is fixed by the metric definition so equal label sets share one series
+function seriesKey(labelNames: readonly string[], labels: Labels): string {
+  return JSON.stringify(labelNames.map((name) => String(labels[name] ?? '')));
+}
+
+function pickLabels(labelNames: readonly string[], labels: Labels): Labels {
+  return Object.fromEntries(labelNames.map((name) => [name, labels[name] ?? '']));
+}
+
+export function createRegistry() {
+  const metrics = new Map<string, Metric>();
+
+  const register = (metric: Metric) => {
+    if (metrics.has(metric.name)) {
+      throw new Error(`Metric already registered: ${metric.name}`);
+    }
+    metrics.set(metric.name, metric);
+  };
+
+  return {
+    counter<L extends string>(name: string, help: string, labelNames: readonly L[]): Counter<L> {
+      const series = new Map<string, { labels: Labels; value: number }>();
+      register({
+        name,
+        render: () => [
+          `# HELP ${name} ${help}`,
+          `# TYPE ${name} counter`,
+          ...[...series.values()].map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+        ],
+      });
+
+      return {
+        inc(labels, value = 1) {
+          const key = seriesKey(labelNames, labels);
+          const existing = series.get(key);
+          if (existing) {
+            existing.value += value;
+          } else {
+            series.set(key, { labels: pickLabels(labelNames, labels), value });
+          }
+        },
+      };
+    },
+
+    histogram<L extends string>(
+      name: string,
+      help: string,
+      labelNames: readonly L[],
+      buckets: number[] = DEFAULT_BUCKETS
+    ): Histogram<L> {
+      const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+      register({
+        name,
+        render: () => [
+          `# HELP ${name} ${help}`,
+          `# TYPE ${name} histogram`,
+          ...[...series.values()].flatMap(({ labels, counts, sum, count }) => [
+            ...buckets.map((bound, index) => `${name}_bucket${formatLabels(labels, { le: bound })} ${counts[index]}`),
+            `${name}_bucket${formatLabels(labels, { le: '+Inf' })} ${count}`,
+            `${name}_sum${formatLabels(labels)} ${sum}`,
+            `${name}_count${formatLabels(labels)} ${count}`,
+          ]),
+        ],
+      });
+
+      const observe = (labels: Labels, seconds: number) => {
+        const key = seriesKey(labelNames, labels);
+        let entry = series.get(key);
+        if (!entry) {
+          entry = { labels: pickLabels(labelNames, labels), counts: buckets.map(() => 0), sum: 0, count: 0 };
+          series.set(key, entry);
+        }
+        // Buckets are cumulative: an observation counts toward every bound at or above it
+        buckets.forEach((bound, index) => {
+          if (seconds <= bound) entry.counts[index]++;
+        });
+        entry.sum += seconds;
+        entry.count++;
+      };
+
+      return {
+        observe,
+        startTimer(labels) {
+          const started = performance.now();
+          return () => {
+            const seconds = (performance.now() - started) / 1000;
+            observe(labels, seconds);
+            return seconds;
+          };
+        },
+      };
+    },
+
+    render(): string {
+      return `${[...metrics.values()].flatMap((metric) => metric.render()).join('\n')}\n`;
+    },
+  };
+}
+
+export type MetricsRegistry = ReturnType<typeof createRegistry>;
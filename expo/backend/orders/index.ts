@@ -0,0 +1,19 @@
+export { createOrder, handleOrderPayment, OrderPaymentError } from './orders';
+export type { CreateOrderInput, CreateOrderItem } from './orders';
+export { getOrder, listOrders, findOrderByPrintfulId, transitionOrder, upsertShipment } from './store';
+export { listOrderSubmissions, markOrderPaid, retryOrderSubmission, startOrderOutbox } from './outbox';
+export { ORDER_TRANSITIONS, canTransition } from './state';
+export { cancelOrder, OrderCancelError, refreshOrderStatus } from './submission';
+export type { StoredPrintFile } from './store';
+export type {
+  OrderCosts,
+  OrderDetail,
+  OrderItem,
+  OrderPrintFile,
+  OrderRecipient,
+  OrderShipment,
+  OrderStatus,
+  OrderSubmission,
+  OrderSubmissionStatus,
+  OrderView,
+} from './types';
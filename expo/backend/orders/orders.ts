@@ -0,0 +1,209 @@
+import { randomUUID } from 'crypto';
+import { catalogPriceList, findCatalogVariant, getCatalog, type CatalogVariant } from '@/backend/catalog';
+import { thumbnailPng } from '@/backend/compositing';
+import { createLogger } from '@/backend/logging';
+import { ordersTotal } from '@/backend/metrics';
+import { isUniqueViolation } from '@/backend/db';
+import { defaultFulfillmentProviderId } from '@/backend/fulfillment';
+import {
+  getPaymentByIntent,
+  quoteOrder,
+  unitPrice,
+  type OrderProduct,
+  type StripePaymentIntentStatus,
+} from '@/backend/payments';
+import { decodeImageData, readPrintFile, retainPrintFile, storePrintFile } from '@/backend/printFiles';
+import { getRedemptionForPayment } from '@/backend/promotions';
+import { assertShippableAddress, isSameDestination } from '@/backend/shipping';
+import { markOrderPaid } from './outbox';
+import { findOrderByIdempotencyKey, findOrderByPaymentIntent, insertOrder, transitionOrder, type StoredPrintFile } from './store';
+import type { OrderItem, OrderRecipient, OrderView } from './types';
+
+const log = createLogger({ component: 'orders' });
+
+const PREVIEW_SIZE_PIXELS = 256;
+
+export class OrderPaymentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OrderPaymentError';
+  }
+}
+
+export type CreateOrderItem = {
+  product: OrderProduct;
+  quantity: number;
+  stickerCount?: number;
+  // An uploaded print file (printFiles.upload), a hosted URL, or the image itself as a data URL or base64
+  printFile: { fileId?: string; url?: string; filename?: string };
+};
+
+export type CreateOrderInput = {
+  // Generated by the client per checkout, so retrying a request that timed out cannot order twice
+  idempotencyKey: string;
+  paymentIntentId: string;
+  items: CreateOrderItem[];
+  recipient: OrderRecipient;
+};
+
+function isHostedUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
+
+// Stored files, and inline images once stored, are copied to the order so it keeps its own artwork
+async function toPrintFile(
+  orderId: string,
+  item: CreateOrderItem,
+  position: number
+): Promise<Omit<StoredPrintFile, 'providerFileId'>> {
+  const { fileId, url, filename } = item.printFile;
+  if (!fileId && url && isHostedUrl(url)) {
+    // The local shop never downloads URLs, so its orders must carry stored files
+    if (defaultFulfillmentProviderId() === 'local') {
+      throw new OrderPaymentError(`Order item ${position + 1} must be an uploaded print file`);
+    }
+    return { position, filename, url };
+  }
+  if (!fileId && !url) {
+    throw new OrderPaymentError(`Order item ${position + 1} has no print file`);
+  }
+  const id = fileId ?? (await storePrintFile(decodeImageData(url as string))).id;
+  return { position, filename, fileId: id, storageKey: await retainPrintFile(orderId, id) };
+}
+
+// Orders keep a small copy of their first print file to show in the order list
+async function previewImageFor(
+  orderId: string,
+  file: Omit<StoredPrintFile, 'providerFileId'> | undefined
+): Promise<string | undefined> {
+  if (!file?.storageKey) return undefined;
+  try {
+    const data = await readPrintFile(file.storageKey);
+    return data ? `data:image/png;base64,${thumbnailPng(data, PREVIEW_SIZE_PIXELS).toString('base64')}` : undefined;
+  } catch (error) {
+    // JPEG print files, for one, have no preview; the order is placed without it
+    log.warn('Could not make an order preview', { orderId, err: error });
+    return undefined;
+  }
+}
+
+function describeVariant(variant: CatalogVariant): string {
+  return variant.kind === 'sheet'
+    ? `Custom Kiss Cut Sticker Sheet ${variant.sizeLabel}`
+    : `Custom Kiss Cut Stickers (${variant.sizeLabel})`;
+}
+
+/**
+ * Creates the order for a checkout before the customer pays, so a payment can never end up
+ * without an order. Costs are re-quoted on the server and must match what the linked payment
+ * charges, and the recipient must be where that payment's shipping was quoted for. Repeating a
+ * call with the same idempotency key returns the order it created.
+ */
+export async function createOrder(userId: string, input: CreateOrderInput): Promise<OrderView> {
+  assertShippableAddress(input.recipient);
+
+  const payment = await getPaymentByIntent(userId, input.paymentIntentId);
+  if (!payment) {
+    throw new OrderPaymentError('Payment not found for this order');
+  }
+
+  const existing = await findOrderByIdempotencyKey(userId, input.idempotencyKey);
+  if (existing) {
+    if (existing.paymentId !== payment.id) {
+      throw new OrderPaymentError('This checkout was already used for a different payment');
+    }
+    return existing.view;
+  }
+  if (await findOrderByPaymentIntent(input.paymentIntentId)) {
+    throw new OrderPaymentError('An order already exists for this payment');
+  }
+  // Shipping was priced for the destination the payment was opened with; payments from before
+  // destinations were kept have none to check
+  if (payment.shippingDestination && !isSameDestination(payment.shippingDestination, input.recipient)) {
+    throw new OrderPaymentError('The shipping address does not match the address shipping was quoted for');
+  }
+
+  // Prices, shipping and any promo were fixed when the payment was opened; older payments used
+  // the flat shipping rate and predate stored prices
+  const catalog = await getCatalog();
+  const prices = payment.unitPrices ?? catalogPriceList(catalog);
+  const redemption = payment.promoCode ? await getRedemptionForPayment(payment.id) : null;
+  const quote = quoteOrder(input.items, prices, payment.shipping, redemption ?? undefined);
+  if (payment.amount !== quote.total || payment.currency !== quote.currency) {
+    throw new OrderPaymentError('Payment does not match the order total');
+  }
+
+  const items = input.items.map((line): OrderItem => {
+    const variant = findCatalogVariant(catalog, line.product);
+    return {
+      product: line.product,
+      name: describeVariant(variant),
+      variantId: variant.variantId,
+      quantity: line.quantity,
+      stickerCount: line.stickerCount,
+      unitPrice: unitPrice(line.product, prices),
+      files: [{
+        type: 'default',
+        url: line.printFile.url && isHostedUrl(line.printFile.url) ? line.printFile.url : undefined,
+        filename: line.printFile.filename,
+      }],
+    };
+  });
+
+  const orderId = randomUUID();
+  const printFiles = [];
+  for (const [position, item] of input.items.entries()) {
+    printFiles.push(await toPrintFile(orderId, item, position));
+  }
+
+  let order: OrderView;
+  try {
+    order = await insertOrder({
+      id: orderId,
+      userId,
+      paymentId: payment.id,
+      status: 'created',
+      items,
+      recipient: input.recipient,
+      costs: quote,
+      shippingMethod: payment.shippingMethod,
+      promoCode: redemption?.code,
+      previewImage: await previewImageFor(orderId, printFiles[0]),
+      idempotencyKey: input.idempotencyKey,
+      printFiles,
+    });
+  } catch (error) {
+    // A concurrent retry of the same request got there first
+    const raced = isUniqueViolation(error) ? await findOrderByIdempotencyKey(userId, input.idempotencyKey) : null;
+    if (!raced) throw error;
+    return raced.view;
+  }
+
+  ordersTotal.inc({ outcome: 'created' });
+  log.info('Order created', { orderId: order.id, paymentId: payment.id, total: quote.total });
+
+  // Usually the payment is still open here, but a retried request can arrive after it succeeded
+  if (payment.status === 'succeeded' && await markOrderPaid(order.id)) {
+    return { ...order, status: 'paid' };
+  }
+  return order;
+}
+
+/**
+ * Payment status listener: a succeeded payment moves its order to paid and into the submission
+ * outbox; a canceled one cancels an order that was never paid. Idempotent, so webhook retries
+ * and status polls can both call it.
+ */
+export async function handleOrderPayment(paymentIntentId: string, status: StripePaymentIntentStatus): Promise<void> {
+  if (status !== 'succeeded' && status !== 'canceled') return;
+
+  const order = await findOrderByPaymentIntent(paymentIntentId);
+  if (!order || order.status !== 'created') return;
+
+  if (status === 'succeeded') {
+    await markOrderPaid(order.id);
+  } else if (await transitionOrder(order.id, 'canceled', 'Payment was canceled')) {
+    ordersTotal.inc({ outcome: 'canceled' });
+    log.info('Order canceled with its payment', { orderId: order.id });
+  }
+}
@@ -0,0 +1,280 @@
+import { getDatabase, type Database } from '@/backend/db';
+import { createLogger, runOutsideRequestContext } from '@/backend/logging';
+import { orderSubmissionDuration, ordersTotal } from '@/backend/metrics';
+import { getOrderById, listPaidUnsubmittedOrders, transitionOrder } from './store';
+import { advanceOrder, isPermanentFailure } from './submission';
+import type { OrderSubmission, OrderSubmissionStatus } from './types';
+
+/**
+ * Durable outbox for submitting paid orders to fulfillment, backed by the order_outbox table.
+ *
+ * An order is queued in the same transaction that marks it paid, so a crash can delay a
+ * submission but never lose it. Failed attempts are retried with exponential backoff; after
+ * MAX_ATTEMPTS (or a failure retrying cannot fix) the order is marked failed for an admin.
+ */
+
+type OutboxRow = {
+  order_id: string;
+  status: OrderSubmissionStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+const log = createLogger({ component: 'orderOutbox' });
+
+const MAX_CONCURRENT = 2;
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+// Wakes the queue for retries that came due and payments that were never marked paid
+const POLL_INTERVAL_MS = 30 * 1000;
+
+// 30s, 1m, 2m, 4m... capped at an hour, with jitter so retries after an outage spread out
+function retryDelayMs(attempts: number): number {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+/**
+ * Queues a paid order for submission. Queuing an order that is already in the outbox does
+ * nothing, so callers can repeat it freely.
+ */
+export async function enqueueOrderSubmission(orderId: string, db?: Database): Promise<void> {
+  const conn = db ?? await getDatabase();
+  const now = new Date().toISOString();
+  await conn.run(
+    `INSERT INTO order_outbox (order_id, status, attempts, next_attempt_at, created_at, updated_at)
+     VALUES (?, 'pending', 0, ?, ?, ?)
+     ON CONFLICT (order_id) DO NOTHING`,
+    [orderId, now, now, now]
+  );
+}
+
+/**
+ * Admin retry for an order whose submission failed before it reached the provider: moves it
+ * back to paid and gives it a fresh set of attempts. Returns false if it is not retryable.
+ */
+export async function retryOrderSubmission(orderId: string): Promise<boolean> {
+  const db = await getDatabase();
+  const retried = await db.transaction(async (tx) => {
+    const order = await getOrderById(orderId, tx);
+    if (!order || order.view.status !== 'failed' || order.view.printfulOrderId) {
+      return false;
+    }
+    await transitionOrder(orderId, 'paid', undefined, tx);
+    const now = new Date().toISOString();
+    await tx.run(
+      `INSERT INTO order_outbox (order_id, status, attempts, next_attempt_at, created_at, updated_at)
+       VALUES (?, 'pending', 0, ?, ?, ?)
+       ON CONFLICT (order_id) DO UPDATE SET
+         status = 'pending', attempts = 0, next_attempt_at = excluded.next_attempt_at, last_error = NULL,
+         updated_at = excluded.updated_at`,
+      [orderId, now, now, now]
+    );
+    return true;
+  });
+
+  if (retried) {
+    log.info('Order submission retried by admin', { orderId });
+    startOrderOutbox();
+  }
+  return retried;
+}
+
+/**
+ * Outbox entries that have not gone through: still waiting or retrying, or given up on.
+ * Newest activity first.
+ */
+export async function listOrderSubmissions(
+  options: { status?: OrderSubmissionStatus; limit: number }
+): Promise<OrderSubmission[]> {
+  const db = await getDatabase();
+  const rows = options.status
+    ? await db.all<OutboxRow>(
+      'SELECT * FROM order_outbox WHERE status = ? ORDER BY updated_at DESC LIMIT ?',
+      [options.status, options.limit]
+    )
+    : await db.all<OutboxRow>(
+      `SELECT * FROM order_outbox WHERE status != 'done' ORDER BY updated_at DESC LIMIT ?`,
+      [options.limit]
+    );
+
+  const submissions: OrderSubmission[] = [];
+  for (const row of rows) {
+    const order = await getOrderById(row.order_id);
+    if (!order) continue;
+    submissions.push({
+      order: { ...order.view, previewImage: undefined },
+      userId: order.userId,
+      status: row.status,
+      attempts: Number(row.attempts),
+      nextAttemptAt: row.status === 'pending' ? row.next_attempt_at : undefined,
+      lastError: row.last_error ?? undefined,
+      updatedAt: row.updated_at,
+    });
+  }
+  return submissions;
+}
+
+let activeWorkers = 0;
+let recovery: Promise<void> | null = null;
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+
+// Submissions left running by a previous process never finished; they are due again now
+function recoverInterruptedSubmissions(): Promise<void> {
+  if (!recovery) {
+    recovery = (async () => {
+      const db = await getDatabase();
+      const now = new Date().toISOString();
+      const result = await db.run(
+        `UPDATE order_outbox SET status = 'pending', next_attempt_at = ?, updated_at = ? WHERE status = 'running'`,
+        [now, now]
+      );
+      if (result.changes > 0) {
+        log.info('Re-queued interrupted order submissions', { count: result.changes });
+      }
+    })();
+    recovery.catch(() => {
+      recovery = null;
+    });
+  }
+  return recovery;
+}
+
+// Safety net for the payment hook: a paid order that was never queued gets queued here
+async function queueMissedPayments(): Promise<void> {
+  for (const orderId of await listPaidUnsubmittedOrders(20)) {
+    log.warn('Found paid order that was not queued', { orderId });
+    await markOrderPaid(orderId);
+  }
+}
+
+/**
+ * Marks an order paid and queues its submission in one transaction. Safe to repeat: an order
+ * that is already past `created` is left alone.
+ */
+export async function markOrderPaid(orderId: string): Promise<boolean> {
+  const db = await getDatabase();
+  const paid = await db.transaction(async (tx) => {
+    // `failed` can also move to paid, but only through an admin retry
+    const order = await getOrderById(orderId, tx);
+    if (order?.view.status !== 'created') return false;
+    await transitionOrder(orderId, 'paid', undefined, tx);
+    await enqueueOrderSubmission(orderId, tx);
+    return true;
+  });
+  if (paid) {
+    ordersTotal.inc({ outcome: 'paid' });
+    log.info('Order paid, queued for submission', { orderId });
+    startOrderOutbox();
+  }
+  return paid;
+}
+
+async function claimNextSubmission(): Promise<OutboxRow | undefined> {
+  const db = await getDatabase();
+  return db.transaction(async (tx) => {
+    const now = new Date().toISOString();
+    const next = await tx.get<OutboxRow>(
+      `SELECT * FROM order_outbox WHERE status = 'pending' AND next_attempt_at <= ?
+       ORDER BY next_attempt_at LIMIT 1`,
+      [now]
+    );
+    if (!next) return undefined;
+    await tx.run(
+      `UPDATE order_outbox SET status = 'running', attempts = attempts + 1, updated_at = ? WHERE order_id = ?`,
+      [now, next.order_id]
+    );
+    return { ...next, status: 'running' as const, attempts: Number(next.attempts) + 1 };
+  });
+}
+
+async function runSubmission(entry: OutboxRow): Promise<void> {
+  const db = await getDatabase();
+  const startedAt = Date.now();
+  try {
+    const status = await advanceOrder(entry.order_id);
+    await db.run(
+      `UPDATE order_outbox SET status = 'done', last_error = NULL, updated_at = ? WHERE order_id = ?`,
+      [new Date().toISOString(), entry.order_id]
+    );
+    if (status === 'submitted') {
+      ordersTotal.inc({ outcome: 'submitted' });
+      orderSubmissionDuration.observe({ outcome: 'submitted' }, (Date.now() - startedAt) / 1000);
+    }
+    log.info('Order submission finished', { orderId: entry.order_id, status, attempts: entry.attempts });
+  } catch (error: any) {
+    const message = error?.message || 'Order submission failed';
+    const now = new Date();
+    orderSubmissionDuration.observe({ outcome: 'failed' }, (Date.now() - startedAt) / 1000);
+
+    if (isPermanentFailure(error) || entry.attempts >= MAX_ATTEMPTS) {
+      await db.transaction(async (tx) => {
+        await tx.run(
+          `UPDATE order_outbox SET status = 'dead', last_error = ?, updated_at = ? WHERE order_id = ?`,
+          [message, now.toISOString(), entry.order_id]
+        );
+        await transitionOrder(entry.order_id, 'failed', message, tx);
+      });
+      ordersTotal.inc({ outcome: 'fulfillment_failed' });
+      log.error('Order submission failed, giving up', { orderId: entry.order_id, attempts: entry.attempts, err: error });
+      return;
+    }
+
+    const nextAttemptAt = new Date(now.getTime() + retryDelayMs(entry.attempts)).toISOString();
+    await db.run(
+      `UPDATE order_outbox SET status = 'pending', last_error = ?, next_attempt_at = ?, updated_at = ? WHERE order_id = ?`,
+      [message, nextAttemptAt, now.toISOString(), entry.order_id]
+    );
+    log.warn('Order submission failed, will retry', {
+      orderId: entry.order_id,
+      attempts: entry.attempts,
+      nextAttemptAt,
+      err: error,
+    });
+  }
+}
+
+async function drainOutbox(): Promise<void> {
+  await recoverInterruptedSubmissions();
+  while (activeWorkers < MAX_CONCURRENT) {
+    // Reserve the worker slot before awaiting so overlapping drains cannot overshoot
+    activeWorkers++;
+    let entry: OutboxRow | undefined;
+    try {
+      entry = await claimNextSubmission();
+    } finally {
+      if (!entry) activeWorkers--;
+    }
+    if (!entry) return;
+
+    runSubmission(entry)
+      .catch((error) => log.error('Outbox worker crashed', { orderId: entry.order_id, err: error }))
+      .finally(() => {
+        activeWorkers--;
+        startOrderOutbox();
+      });
+  }
+}
+
+/**
+ * Wakes the outbox workers. Safe to call repeatedly; the first call (at startup) also starts
+ * the poll that picks up retries as they come due.
+ */
+export function startOrderOutbox(): void {
+  if (!pollTimer) {
+    pollTimer = setInterval(() => {
+      runOutsideRequestContext(() => {
+        queueMissedPayments()
+          .catch((error) => log.error('Failed to queue missed payments', { err: error }))
+          .finally(() => startOrderOutbox());
+      });
+    }, POLL_INTERVAL_MS);
+  }
+  runOutsideRequestContext(() => {
+    drainOutbox().catch((error) => log.error('Failed to process order outbox', { err: error }));
+  });
+}
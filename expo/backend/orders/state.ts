@@ -0,0 +1,28 @@
+import type { OrderStatus } from './types';
+
+/**
+ * Moves each order status allows. Checkout creates the order before payment; the payment
+ * webhook marks it paid, the submission outbox uploads its files and submits it, and
+ * fulfillment webhooks take it from there.
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  created: ['paid', 'canceled'],
+  paid: ['files_uploaded', 'failed', 'canceled'],
+  files_uploaded: ['submitted', 'failed', 'canceled'],
+  submitted: ['on_hold', 'fulfilled', 'failed', 'canceled'],
+  on_hold: ['submitted', 'fulfilled', 'failed', 'canceled'],
+  fulfilled: ['returned'],
+  // A returned package can be shipped again
+  returned: ['fulfilled'],
+  // An admin retry puts an order that never reached the provider back in the outbox
+  failed: ['paid', 'canceled'],
+  canceled: [],
+};
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from].includes(to);
+}
+
+export function previousStatuses(to: OrderStatus): OrderStatus[] {
+  return (Object.keys(ORDER_TRANSITIONS) as OrderStatus[]).filter((from) => canTransition(from, to));
+}
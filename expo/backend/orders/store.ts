@@ -0,0 +1,380 @@
+import { randomUUID } from 'crypto';
+import { getDatabase, type Database } from '@/backend/db';
+import { previousStatuses } from './state';
+import type {
+  OrderCosts,
+  OrderDetail,
+  OrderItem,
+  OrderRecipient,
+  OrderShipment,
+  OrderStatus,
+  OrderView,
+} from './types';
+
+type OrderRow = {
+  id: string;
+  user_id: string;
+  payment_id: string | null;
+  status: OrderStatus;
+  status_reason: string | null;
+  items: string;
+  recipient: string;
+  currency: string;
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  tax: number;
+  total: number;
+  shipping_method: string | null;
+  promo_code: string | null;
+  printful_order_id: string | null;
+  printful_external_id: string | null;
+  fulfillment_provider: string | null;
+  preview_image: string | null;
+  idempotency_key: string | null;
+  created_at: string;
+  updated_at: string;
+  payment_status: OrderView['paymentStatus'];
+};
+
+type PrintFileRow = {
+  order_id: string;
+  position: number;
+  filename: string | null;
+  url: string | null;
+  image_base64: string | null;
+  printful_file_id: string | null;
+  file_id: string | null;
+  storage_key: string | null;
+};
+
+// The artwork for one order item, by item position
+export type StoredPrintFile = {
+  position: number;
+  filename?: string;
+  // A file hosted elsewhere, fetched by the provider
+  url?: string;
+  // Orders placed before print files were stored kept their images inline
+  imageBase64?: string;
+  // The uploaded print file and the order's immutable copy of it (see backend/printFiles)
+  fileId?: string;
+  storageKey?: string;
+  // The fulfillment provider's id for the file once it has been uploaded there
+  providerFileId?: string;
+};
+
+type ShipmentRow = {
+  order_id: string;
+  shipment_id: string;
+  status: OrderShipment['status'];
+  carrier: string | null;
+  service: string | null;
+  tracking_number: string | null;
+  tracking_url: string | null;
+  shipped_at: string | null;
+};
+
+// Payment status is read through the join so webhook updates show up without copying them here
+const SELECT_ORDERS = `
+  SELECT o.*, p.status AS payment_status
+  FROM orders o LEFT JOIN payments p ON p.id = o.payment_id
+`;
+
+function parseJson<T>(value: string, fallback: T): T {
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+// Previews are thumbnails; older orders stored the full print file, which is left out
+const MAX_PREVIEW_IMAGE_LENGTH = 512 * 1024;
+
+function toView(row: OrderRow, includePreview: boolean = true): OrderView {
+  return {
+    id: row.id,
+    status: row.status,
+    statusReason: row.status_reason ?? undefined,
+    paymentStatus: row.payment_status ?? null,
+    items: parseJson<OrderItem[]>(row.items, []),
+    recipient: parseJson<OrderRecipient>(row.recipient, {} as OrderRecipient),
+    costs: {
+      currency: row.currency,
+      subtotal: Number(row.subtotal),
+      discount: Number(row.discount),
+      shipping: Number(row.shipping),
+      tax: Number(row.tax),
+      total: Number(row.total),
+    },
+    shippingMethod: row.shipping_method ?? undefined,
+    promoCode: row.promo_code ?? undefined,
+    printfulOrderId: row.printful_order_id ?? undefined,
+    printfulExternalId: row.printful_external_id ?? undefined,
+    fulfillmentProvider: row.fulfillment_provider ?? undefined,
+    previewImage: includePreview && row.preview_image && row.preview_image.length <= MAX_PREVIEW_IMAGE_LENGTH
+      ? row.preview_image
+      : undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Stores a new order and its print files together. Throws a unique violation if the user
+ * already has an order with this idempotency key.
+ */
+export async function insertOrder(order: {
+  // Generated here unless the caller needed it first, e.g. to store the order's files
+  id?: string;
+  userId: string;
+  paymentId: string | null;
+  status: OrderStatus;
+  items: OrderItem[];
+  recipient: OrderRecipient;
+  costs: OrderCosts;
+  shippingMethod?: string;
+  promoCode?: string;
+  previewImage?: string;
+  idempotencyKey?: string;
+  printFiles: Omit<StoredPrintFile, 'providerFileId'>[];
+}): Promise<OrderView> {
+  const db = await getDatabase();
+  const id = order.id ?? randomUUID();
+  const now = new Date().toISOString();
+  await db.transaction(async (tx) => {
+    await tx.run(
+      `INSERT INTO orders (id, user_id, payment_id, status, items, recipient, currency, subtotal, discount, shipping, tax,
+         total, shipping_method, promo_code, preview_image, idempotency_key, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id, order.userId, order.paymentId, order.status, JSON.stringify(order.items), JSON.stringify(order.recipient),
+        order.costs.currency, order.costs.subtotal, order.costs.discount, order.costs.shipping, order.costs.tax,
+        order.costs.total, order.shippingMethod ?? null, order.promoCode ?? null, order.previewImage ?? null,
+        order.idempotencyKey ?? null, now, now,
+      ]
+    );
+    for (const file of order.printFiles) {
+      await tx.run(
+        `INSERT INTO order_print_files (order_id, position, filename, url, image_base64, file_id, storage_key, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id, file.position, file.filename ?? null, file.url ?? null, file.imageBase64 ?? null, file.fileId ?? null,
+          file.storageKey ?? null, now,
+        ]
+      );
+    }
+  });
+  return (await getOrder(order.userId, id)) as OrderView;
+}
+
+export async function findOrderByIdempotencyKey(
+  userId: string,
+  idempotencyKey: string
+): Promise<{ view: OrderView; paymentId: string | null } | null> {
+  const db = await getDatabase();
+  const row = await db.get<OrderRow>(
+    `${SELECT_ORDERS} WHERE o.user_id = ? AND o.idempotency_key = ?`,
+    [userId, idempotencyKey]
+  );
+  return row ? { view: toView(row), paymentId: row.payment_id } : null;
+}
+
+// For background work that acts on an order without a signed-in user
+export async function getOrderById(
+  orderId: string,
+  db?: Database
+): Promise<{ view: OrderView; userId: string } | null> {
+  const conn = db ?? await getDatabase();
+  const row = await conn.get<OrderRow>(`${SELECT_ORDERS} WHERE o.id = ?`, [orderId]);
+  return row ? { view: toView(row), userId: row.user_id } : null;
+}
+
+export async function findOrderByPaymentIntent(
+  paymentIntentId: string
+): Promise<{ id: string; status: OrderStatus } | null> {
+  const db = await getDatabase();
+  const row = await db.get<Pick<OrderRow, 'id' | 'status'>>(
+    `SELECT o.id, o.status FROM orders o JOIN payments p ON p.id = o.payment_id
+     WHERE p.payment_intent_id = ? ORDER BY o.created_at DESC LIMIT 1`,
+    [paymentIntentId]
+  );
+  return row ?? null;
+}
+
+// Orders whose payment went through but were never marked paid, e.g. after a crash mid-webhook
+export async function listPaidUnsubmittedOrders(limit: number): Promise<string[]> {
+  const db = await getDatabase();
+  const rows = await db.all<{ id: string }>(
+    `SELECT o.id FROM orders o JOIN payments p ON p.id = o.payment_id
+     WHERE o.status = 'created' AND p.status = 'succeeded' ORDER BY o.created_at LIMIT ?`,
+    [limit]
+  );
+  return rows.map((row) => row.id);
+}
+
+export async function getPrintFiles(orderId: string): Promise<StoredPrintFile[]> {
+  const db = await getDatabase();
+  const rows = await db.all<PrintFileRow>(
+    'SELECT * FROM order_print_files WHERE order_id = ? ORDER BY position',
+    [orderId]
+  );
+  return rows.map((row) => ({
+    position: Number(row.position),
+    filename: row.filename ?? undefined,
+    url: row.url ?? undefined,
+    imageBase64: row.image_base64 ?? undefined,
+    providerFileId: row.printful_file_id ?? undefined,
+    fileId: row.file_id ?? undefined,
+    storageKey: row.storage_key ?? undefined,
+  }));
+}
+
+// Moves an inline image into print file storage; the inline copy is dropped once it is stored
+export async function setPrintFileStorageKey(
+  orderId: string,
+  position: number,
+  fileId: string,
+  storageKey: string
+): Promise<void> {
+  const db = await getDatabase();
+  await db.run(
+    `UPDATE order_print_files SET file_id = ?, storage_key = ?, image_base64 = NULL
+     WHERE order_id = ? AND position = ?`,
+    [fileId, storageKey, orderId, position]
+  );
+}
+
+export async function setProviderFileId(orderId: string, position: number, providerFileId: string): Promise<void> {
+  const db = await getDatabase();
+  await db.run(
+    'UPDATE order_print_files SET printful_file_id = ? WHERE order_id = ? AND position = ?',
+    [providerFileId, orderId, position]
+  );
+}
+
+/**
+ * Pins the order to a fulfillment provider the first time it is submitted, so retries go to
+ * the same place even if the configured provider changes. Returns the order's provider.
+ */
+export async function assignFulfillmentProvider(orderId: string, provider: string): Promise<string> {
+  const db = await getDatabase();
+  await db.run(
+    'UPDATE orders SET fulfillment_provider = ? WHERE id = ? AND fulfillment_provider IS NULL',
+    [provider, orderId]
+  );
+  const row = await db.get<Pick<OrderRow, 'fulfillment_provider'>>(
+    'SELECT fulfillment_provider FROM orders WHERE id = ?',
+    [orderId]
+  );
+  return row?.fulfillment_provider ?? provider;
+}
+
+export async function setProviderOrder(orderId: string, providerOrderId: string, externalId: string): Promise<void> {
+  const db = await getDatabase();
+  await db.run(
+    'UPDATE orders SET printful_order_id = ?, printful_external_id = ?, updated_at = ? WHERE id = ?',
+    [providerOrderId, externalId, new Date().toISOString(), orderId]
+  );
+}
+
+export async function getOrder(userId: string, orderId: string): Promise<OrderDetail | null> {
+  const db = await getDatabase();
+  const row = await db.get<OrderRow>(`${SELECT_ORDERS} WHERE o.id = ? AND o.user_id = ?`, [orderId, userId]);
+  if (!row) return null;
+
+  const shipments = await db.all<ShipmentRow>(
+    'SELECT * FROM order_shipments WHERE order_id = ? ORDER BY created_at',
+    [orderId]
+  );
+  return {
+    ...toView(row),
+    shipments: shipments.map((shipment) => ({
+      id: shipment.shipment_id,
+      status: shipment.status,
+      carrier: shipment.carrier ?? undefined,
+      service: shipment.service ?? undefined,
+      trackingNumber: shipment.tracking_number ?? undefined,
+      trackingUrl: shipment.tracking_url ?? undefined,
+      shippedAt: shipment.shipped_at ?? undefined,
+    })),
+  };
+}
+
+export async function findOrderByPrintfulId(
+  printfulOrderId: string,
+  externalId?: string
+): Promise<{ id: string; userId: string; status: OrderStatus } | null> {
+  const db = await getDatabase();
+  const row = await db.get<Pick<OrderRow, 'id' | 'user_id' | 'status'>>(
+    `SELECT id, user_id, status FROM orders
+     WHERE printful_order_id = ? OR (? IS NOT NULL AND printful_external_id = ?)
+     ORDER BY created_at DESC LIMIT 1`,
+    [printfulOrderId, externalId ?? null, externalId ?? null]
+  );
+  return row ? { id: row.id, userId: row.user_id, status: row.status } : null;
+}
+
+/**
+ * Moves an order to `status` if ORDER_TRANSITIONS allows it from where the order is now.
+ * Repeating the current status only refreshes the reason. Returns whether anything changed.
+ */
+export async function transitionOrder(
+  orderId: string,
+  status: OrderStatus,
+  reason?: string,
+  db?: Database
+): Promise<boolean> {
+  const conn = db ?? await getDatabase();
+  const from = previousStatuses(status);
+  const placeholders = from.map(() => '?').join(', ');
+  const result = await conn.run(
+    `UPDATE orders SET status = ?, status_reason = ?, updated_at = ?
+     WHERE id = ? AND (${from.length > 0 ? `status IN (${placeholders}) OR ` : ''}(status = ? AND status_reason IS NOT ?))`,
+    [status, reason ?? null, new Date().toISOString(), orderId, ...from, status, reason ?? null]
+  );
+  return result.changes > 0;
+}
+
+// Webhooks are retried, so recording the same shipment twice just refreshes it
+export async function upsertShipment(orderId: string, shipment: OrderShipment): Promise<void> {
+  const db = await getDatabase();
+  const now = new Date().toISOString();
+  await db.run(
+    `INSERT INTO order_shipments (order_id, shipment_id, status, carrier, service, tracking_number, tracking_url,
+       shipped_at, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT (order_id, shipment_id) DO UPDATE SET
+       status = excluded.status, carrier = excluded.carrier, service = excluded.service,
+       tracking_number = excluded.tracking_number, tracking_url = excluded.tracking_url,
+       shipped_at = excluded.shipped_at, updated_at = excluded.updated_at`,
+    [
+      orderId, shipment.id, shipment.status, shipment.carrier ?? null, shipment.service ?? null,
+      shipment.trackingNumber ?? null, shipment.trackingUrl ?? null, shipment.shippedAt ?? null, now, now,
+    ]
+  );
+}
+
+// Checkouts abandoned at the payment sheet leave unpaid `created` orders the customer never placed
+const PLACED_ORDERS = `NOT (o.status = 'created' AND COALESCE(p.status, '') NOT IN ('processing', 'requires_capture', 'succeeded'))`;
+
+/**
+ * Newest first. `before` is the createdAt of the last order already shown, for paging. Previews
+ * are only included when asked for.
+ */
+export async function listOrders(
+  userId: string,
+  options: { limit: number; before?: string; includePreview?: boolean }
+): Promise<OrderView[]> {
+  const db = await getDatabase();
+  const rows = options.before
+    ? await db.all<OrderRow>(
+      `${SELECT_ORDERS} WHERE o.user_id = ? AND ${PLACED_ORDERS} AND o.created_at < ? ORDER BY o.created_at DESC LIMIT ?`,
+      [userId, options.before, options.limit]
+    )
+    : await db.all<OrderRow>(
+      `${SELECT_ORDERS} WHERE o.user_id = ? AND ${PLACED_ORDERS} ORDER BY o.created_at DESC LIMIT ?`,
+      [userId, options.limit]
+    );
+  return rows.map((row) => toView(row, options.includePreview ?? false));
+}
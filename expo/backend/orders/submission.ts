@@ -0,0 +1,149 @@
+import { getFulfillmentProvider, FulfillmentError, type FulfillmentProvider } from '@/backend/fulfillment';
+import { createLogger } from '@/backend/logging';
+import { ordersTotal } from '@/backend/metrics';
+import { decodeImageData, retainPrintFile, storePrintFile } from '@/backend/printFiles';
+import { PrintfulApiError } from '@/backend/printful/client';
+import { canTransition } from './state';
+import {
+  assignFulfillmentProvider,
+  getOrderById,
+  getPrintFiles,
+  setPrintFileStorageKey,
+  setProviderFileId,
+  setProviderOrder,
+  transitionOrder,
+  upsertShipment,
+} from './store';
+import type { OrderView } from './types';
+
+/**
+ * The fulfillment half of the order state machine: uploads a paid order's print files, then
+ * submits it to the order's fulfillment provider. Each step records its result before the
+ * order moves on, so a retry picks up where the last attempt stopped instead of starting over.
+ */
+
+const log = createLogger({ component: 'orders' });
+
+export class OrderCancelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OrderCancelError';
+  }
+}
+
+// Providers reject bad requests outright; timeouts, rate limits and outages are worth retrying
+export function isPermanentFailure(error: unknown): boolean {
+  if (error instanceof FulfillmentError) return error.permanent;
+  if (error instanceof PrintfulApiError) {
+    return error.status >= 400 && error.status < 500 && error.status !== 408 && error.status !== 429;
+  }
+  return false;
+}
+
+// Orders stay with the provider they were first sent to
+function providerFor(order: OrderView): FulfillmentProvider {
+  return getFulfillmentProvider(order.fulfillmentProvider);
+}
+
+async function uploadPrintFiles(order: OrderView, provider: FulfillmentProvider): Promise<void> {
+  const files = await getPrintFiles(order.id);
+  for (const file of files) {
+    if (file.providerFileId) continue;
+    // Orders from before print file storage still carry their images inline
+    if (file.imageBase64 && !file.storageKey) {
+      file.fileId = (await storePrintFile(decodeImageData(file.imageBase64))).id;
+      file.storageKey = await retainPrintFile(order.id, file.fileId);
+      await setPrintFileStorageKey(order.id, file.position, file.fileId, file.storageKey);
+    }
+    await setProviderFileId(order.id, file.position, await provider.uploadFile(order, file));
+  }
+}
+
+/**
+ * Runs the remaining fulfillment steps for a paid order. Orders in any other status (already
+ * submitted, canceled while queued...) are left alone. Returns the status the order ends in.
+ */
+export async function advanceOrder(orderId: string): Promise<OrderView['status'] | null> {
+  let order = (await getOrderById(orderId))?.view;
+
+  while (order && (order.status === 'paid' || order.status === 'files_uploaded')) {
+    if (!order.fulfillmentProvider) {
+      order.fulfillmentProvider = await assignFulfillmentProvider(orderId, getFulfillmentProvider().id);
+    }
+    const provider = providerFor(order);
+
+    if (order.status === 'paid') {
+      await uploadPrintFiles(order, provider);
+      await transitionOrder(orderId, 'files_uploaded');
+    } else {
+      const submitted = await provider.createOrder(order, await getPrintFiles(orderId));
+      await setProviderOrder(orderId, submitted.id, submitted.externalId);
+      if (await transitionOrder(orderId, 'submitted')) {
+        log.info('Order submitted for fulfillment', { orderId, provider: provider.id, providerOrderId: submitted.id });
+      } else if ((await getOrderById(orderId))?.view.status === 'canceled') {
+        // Canceled by an admin while the order was on its way to the provider
+        log.warn('Order canceled during submission, canceling it with the provider', { orderId, provider: provider.id });
+        await provider.cancelOrder({ ...order, printfulOrderId: submitted.id, printfulExternalId: submitted.externalId });
+      }
+    }
+    order = (await getOrderById(orderId))?.view;
+  }
+  return order?.status ?? null;
+}
+
+/**
+ * Asks the provider where a submitted order is, for providers that cannot push status changes
+ * the way Printful's webhooks do. Returns whether the order changed.
+ */
+export async function refreshOrderStatus(order: OrderView): Promise<boolean> {
+  if (!order.fulfillmentProvider || !['submitted', 'on_hold', 'fulfilled'].includes(order.status)) {
+    return false;
+  }
+  const provider = providerFor(order);
+  if (provider.reportsStatus) return false;
+
+  const current = await provider.getOrderStatus(order);
+  if (!current || current.status === order.status || !canTransition(order.status, current.status)) {
+    return false;
+  }
+
+  if (current.shipment && (current.status === 'fulfilled' || current.status === 'returned')) {
+    await upsertShipment(order.id, current.shipment);
+  }
+  const reason = current.status === 'fulfilled' || current.status === 'submitted' ? undefined : current.reason;
+  const changed = await transitionOrder(order.id, current.status, reason);
+  if (changed) {
+    ordersTotal.inc({ outcome: current.status });
+    log.info('Order status updated from fulfillment provider', {
+      orderId: order.id,
+      provider: provider.id,
+      from: order.status,
+      to: current.status,
+    });
+  }
+  return changed;
+}
+
+/**
+ * Cancels an order that has not shipped. Orders already with the provider are canceled there
+ * first, so an order the provider refuses to stop is left as it is.
+ */
+export async function cancelOrder(orderId: string, reason: string): Promise<OrderView> {
+  const order = (await getOrderById(orderId))?.view;
+  if (!order) {
+    throw new OrderCancelError('Order not found');
+  }
+  if (!canTransition(order.status, 'canceled')) {
+    throw new OrderCancelError(`A ${order.status} order cannot be canceled`);
+  }
+
+  if (order.printfulOrderId && order.fulfillmentProvider) {
+    await providerFor(order).cancelOrder(order);
+  }
+  if (!(await transitionOrder(orderId, 'canceled', reason))) {
+    throw new OrderCancelError('The order changed while it was being canceled; try again');
+  }
+  ordersTotal.inc({ outcome: 'canceled' });
+  log.info('Order canceled', { orderId, from: order.status, provider: order.fulfillmentProvider });
+  return (await getOrderById(orderId))?.view ?? order;
+}
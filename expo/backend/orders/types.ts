@@ -0,0 +1,109 @@
+import type { OrderProduct, StripePaymentIntentStatus } from '@/backend/payments';
+
+/**
+ * created → paid → files_uploaded → submitted → fulfilled, with on_hold, returned, failed and
+ * canceled as side exits. See ORDER_TRANSITIONS for the moves each status allows.
+ */
+export type OrderStatus =
+  | 'created'
+  | 'paid'
+  | 'files_uploaded'
+  | 'submitted'
+  | 'on_hold'
+  | 'fulfilled'
+  | 'returned'
+  | 'failed'
+  | 'canceled';
+
+export type OrderPrintFile = {
+  type: 'default' | 'preview';
+  // Only hosted files are kept; inline data URLs are not stored as print file references
+  url?: string;
+  filename?: string;
+};
+
+export type OrderItem = {
+  product: OrderProduct;
+  name: string;
+  variantId: number;
+  quantity: number;
+  // Stickers laid out on a sheet product, for rendering its preview
+  stickerCount?: number;
+  // Cents
+  unitPrice: number;
+  files: OrderPrintFile[];
+};
+
+export type OrderRecipient = {
+  name: string;
+  company?: string;
+  email: string;
+  phone?: string;
+  address1: string;
+  address2?: string;
+  city: string;
+  stateCode?: string;
+  countryCode: string;
+  zip: string;
+};
+
+export type OrderCosts = {
+  currency: string;
+  subtotal: number;
+  // Promo discount taken off the subtotal or shipping
+  discount: number;
+  shipping: number;
+  tax: number;
+  total: number;
+};
+
+export type OrderShipment = {
+  id: string;
+  status: 'shipped' | 'returned';
+  carrier?: string;
+  service?: string;
+  trackingNumber?: string;
+  trackingUrl?: string;
+  shippedAt?: string;
+};
+
+export type OrderView = {
+  id: string;
+  status: OrderStatus;
+  // Why the order failed, was canceled or put on hold, by us or the fulfillment provider
+  statusReason?: string;
+  // Live status of the linked Stripe payment; "succeeded" means the order is paid
+  paymentStatus: StripePaymentIntentStatus | null;
+  items: OrderItem[];
+  recipient: OrderRecipient;
+  costs: OrderCosts;
+  // Fulfillment shipping method, e.g. STANDARD
+  shippingMethod?: string;
+  promoCode?: string;
+  // Where the order was sent: printful, mock or local
+  fulfillmentProvider?: string;
+  // The provider's order id and our external id there; named for Printful, the first provider
+  printfulOrderId?: string;
+  printfulExternalId?: string;
+  // Thumbnail of the first print file, as a data URI
+  previewImage?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type OrderDetail = OrderView & {
+  shipments: OrderShipment[];
+};
+
+export type OrderSubmissionStatus = 'pending' | 'running' | 'done' | 'dead';
+
+// An order's place in the submission outbox, for the admin view of stuck and failed orders
+export type OrderSubmission = {
+  order: OrderView;
+  userId: string;
+  status: OrderSubmissionStatus;
+  attempts: number;
+  nextAttemptAt?: string;
+  lastError?: string;
+  updatedAt: string;
+};
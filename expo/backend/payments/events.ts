@@ -0,0 +1,20 @@
+import type { StripePaymentIntentStatus } from './stripe';
+
+/**
+ * Lets other modules react to payment outcomes without payments depending on them. Listeners
+ * are called for every status report, including repeats, so they must be idempotent.
+ */
+
+export type PaymentStatusListener = (paymentIntentId: string, status: StripePaymentIntentStatus) => Promise<void>;
+
+const listeners: PaymentStatusListener[] = [];
+
+export function onPaymentStatusChange(listener: PaymentStatusListener): void {
+  if (!listeners.includes(listener)) listeners.push(listener);
+}
+
+export async function notifyPaymentStatus(paymentIntentId: string, status: StripePaymentIntentStatus): Promise<void> {
+  for (const listener of listeners) {
+    await listener(paymentIntentId, status);
+  }
+}
@@ -0,0 +1,13 @@
+export { startPayment, getPaymentStatus } from './intents';
+export type { StartedPayment, PaymentShipping } from './intents';
+export { quoteOrder, unitPrice, DEFAULT_PRICES, SHEET_SIZES, INDIVIDUAL_SIZES, MAX_ORDER_LINES, MAX_LINE_QUANTITY } from './pricing';
+export type { OrderLine, OrderProduct, OrderQuote, PriceList, PromoDiscount, SheetSize, IndividualSize } from './pricing';
+export { onPaymentStatusChange } from './events';
+export type { PaymentStatusListener } from './events';
+export { getPaymentByIntent, setPaymentStatus, isFinalPaymentStatus } from './store';
+export type { PaymentView } from './store';
+export { cancelPaymentIntent, createPaymentIntent, retrievePaymentIntent, isStripeConfigured, StripeApiError } from './stripe';
+export type { StripePaymentIntent, StripePaymentIntentStatus } from './stripe';
+export { verifyStripeEvent, signStripePayload, StripeSignatureError } from './webhook';
+export type { StripeEvent } from './webhook';
+export { stripeWebhookHandler } from './webhookHandler';
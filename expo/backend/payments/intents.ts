@@ -0,0 +1,172 @@
+import { randomUUID } from 'crypto';
+import { assertAvailable, catalogPriceList, getCatalog } from '@/backend/catalog';
+import { createLogger } from '@/backend/logging';
+import { normalizePromoCode, reservePromoCode } from '@/backend/promotions';
+import { resolveShippingRate, type ShippingDestination, type ShippingRate } from '@/backend/shipping';
+import { notifyPaymentStatus } from './events';
+import { quoteOrder, type OrderLine, type OrderQuote } from './pricing';
+import {
+  getPaymentByIntent,
+  insertPayment,
+  isFinalPaymentStatus,
+  listUnpaidPromoPayments,
+  setPaymentStatus,
+  type PaymentView,
+} from './store';
+import { cancelPaymentIntent, createPaymentIntent, retrievePaymentIntent } from './stripe';
+
+const log = createLogger({ component: 'payments' });
+
+export type StartedPayment = {
+  paymentIntentId: string;
+  clientSecret: string;
+  quote: OrderQuote;
+  shippingRate: ShippingRate;
+  promoCode?: string;
+};
+
+export type PaymentShipping = {
+  destination: ShippingDestination;
+  rateId: string;
+};
+
+function describeLines(lines: OrderLine[]): string {
+  if (lines.length === 1 && lines[0].quantity === 1) {
+    const { product } = lines[0];
+    return product.kind === 'sheet'
+      ? `Kiss-cut sticker sheet (${product.size})`
+      : `Kiss-cut stickers (${product.size})`;
+  }
+  const count = lines.reduce((sum, line) => sum + line.quantity, 0);
+  return `Kiss-cut stickers (${count} items)`;
+}
+
+/**
+ * A customer who dismissed the payment sheet can still pay that intent later, so its promo code
+ * use is only handed back once Stripe has canceled it. Intents Stripe will not cancel (already
+ * paid, or mid-payment) keep their use.
+ */
+async function cancelUnpaidPromoPayments(userId: string, promoCode: string): Promise<void> {
+  for (const payment of await listUnpaidPromoPayments(userId, normalizePromoCode(promoCode))) {
+    try {
+      const intent = await cancelPaymentIntent(payment.paymentIntentId);
+      if (await setPaymentStatus(payment.paymentIntentId, intent.status)) {
+        await notifyPaymentStatus(payment.paymentIntentId, intent.status).catch((error) => {
+          log.warn('Payment status listener failed', { paymentIntentId: payment.paymentIntentId, err: error });
+        });
+      }
+      log.info('Canceled unpaid payment holding a promo code', { paymentId: payment.id });
+    } catch (error) {
+      log.warn('Could not cancel unpaid payment', { paymentId: payment.id, err: error });
+    }
+  }
+}
+
+/**
+ * Prices the cart, chosen shipping method and any promo code on the server and opens a
+ * PaymentIntent for it. The client confirms the intent with the returned secret; the webhook
+ * records the outcome. The catalog prices used are kept with the payment, so a price change
+ * while the customer pays does not stop their order from matching it.
+ */
+export async function startPayment(
+  user: { id: string; email: string },
+  lines: OrderLine[],
+  shipping: PaymentShipping,
+  receiptEmail?: string,
+  promoCode?: string
+): Promise<StartedPayment> {
+  const catalog = await getCatalog();
+  assertAvailable(catalog, lines);
+  const prices = catalogPriceList(catalog);
+  const shippingRate = await resolveShippingRate(shipping.destination, lines, shipping.rateId);
+  const paymentId = randomUUID();
+  if (promoCode) {
+    await cancelUnpaidPromoPayments(user.id, promoCode);
+  }
+  // The code is claimed before Stripe is asked, so the charged amount never uses a code that ran out
+  const reservation = promoCode
+    ? await reservePromoCode(user.id, promoCode, paymentId, (promo) => quoteOrder(lines, prices, shippingRate.amount, promo).discount)
+    : null;
+  const quote = quoteOrder(lines, prices, shippingRate.amount, reservation?.promo);
+  const description = describeLines(lines);
+
+  let intent;
+  try {
+    intent = await createPaymentIntent({
+      amount: quote.total,
+      currency: quote.currency,
+      description,
+      receiptEmail: receiptEmail ?? user.email,
+      metadata: {
+        paymentId,
+        userId: user.id,
+        // e.g. "sheet:4x4x2,individual:3x3x1"; metadata values are capped at 500 characters
+        items: lines.map((line) => `${line.product.kind}:${line.product.size}x${line.quantity}`).join(',').slice(0, 500),
+        shipping: shippingRate.id,
+        ...(reservation ? { promoCode: reservation.promo.code } : {}),
+      },
+    }, paymentId);
+    if (!intent.client_secret) {
+      throw new Error('Stripe did not return a client secret');
+    }
+  } catch (error) {
+    await reservation?.release().catch((releaseError) => {
+      log.warn('Could not release promo code', { paymentId, err: releaseError });
+    });
+    throw error;
+  }
+
+  await insertPayment({
+    id: paymentId,
+    userId: user.id,
+    paymentIntentId: intent.id,
+    amount: intent.amount,
+    currency: intent.currency,
+    status: intent.status,
+    description,
+    shippingMethod: shippingRate.id,
+    shipping: shippingRate.amount,
+    shippingDestination: {
+      countryCode: shipping.destination.countryCode,
+      stateCode: shipping.destination.stateCode,
+      zip: shipping.destination.zip,
+    },
+    promoCode: reservation?.promo.code,
+    discount: quote.discount,
+    unitPrices: prices,
+  });
+  log.info('Payment intent created', { paymentId, paymentIntentId: intent.id, amount: intent.amount });
+
+  return {
+    paymentIntentId: intent.id,
+    clientSecret: intent.client_secret,
+    quote,
+    shippingRate,
+    promoCode: reservation?.promo.code,
+  };
+}
+
+/**
+ * Returns the caller's payment, asking Stripe directly while it is still open so the client
+ * does not have to wait for the webhook after confirming.
+ */
+export async function getPaymentStatus(userId: string, paymentIntentId: string): Promise<PaymentView | null> {
+  const payment = await getPaymentByIntent(userId, paymentIntentId);
+  if (!payment || isFinalPaymentStatus(payment.status)) {
+    return payment;
+  }
+
+  try {
+    const intent = await retrievePaymentIntent(paymentIntentId);
+    if (await setPaymentStatus(paymentIntentId, intent.status)) {
+      // The webhook repeats this if it fails here
+      await notifyPaymentStatus(paymentIntentId, intent.status).catch((error) => {
+        log.warn('Payment status listener failed', { paymentIntentId, err: error });
+      });
+      return getPaymentByIntent(userId, paymentIntentId);
+    }
+  } catch (error) {
+    log.warn('Could not refresh payment intent', { paymentIntentId, err: error });
+  }
+  return payment;
+}
@@ -0,0 +1,110 @@
+import { MAX_LINE_QUANTITY, MAX_ORDER_LINES, PRINTFUL_PRODUCTS } from '@/constants/printful';
+
+/**
+ * Server-side pricing. Amounts charged are always computed here from the product selection,
+ * never taken from the client; the checkout screen shows the same figures.
+ */
+
+export type SheetSize = keyof typeof PRINTFUL_PRODUCTS.KISS_CUT_STICKER_SHEET.variants;
+export type IndividualSize = keyof typeof PRINTFUL_PRODUCTS.INDIVIDUAL_KISS_CUT_STICKERS.variants;
+
+export type OrderProduct =
+  | { kind: 'sheet'; size: SheetSize }
+  | { kind: 'individual'; size: IndividualSize };
+
+// One cart line: a product and how many of it
+export type OrderLine = {
+  product: OrderProduct;
+  quantity: number;
+};
+
+// Unit price (cents) of every size of every product, from the catalog at the time of pricing
+export type PriceList = {
+  sheet: Record<SheetSize, number>;
+  individual: Record<IndividualSize, number>;
+};
+
+// All amounts in the smallest currency unit (cents)
+export type OrderQuote = {
+  currency: 'usd';
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  tax: number;
+  total: number;
+};
+
+// A promo code's effect: percent off the merchandise, a fixed amount off it (cents), or free shipping
+export type PromoDiscount = {
+  kind: 'percent' | 'fixed' | 'free_shipping';
+  value: number;
+};
+
+export const SHEET_SIZES = Object.keys(PRINTFUL_PRODUCTS.KISS_CUT_STICKER_SHEET.variants) as [SheetSize, ...SheetSize[]];
+export const INDIVIDUAL_SIZES = Object.keys(PRINTFUL_PRODUCTS.INDIVIDUAL_KISS_CUT_STICKERS.variants) as [IndividualSize, ...IndividualSize[]];
+
+export { MAX_LINE_QUANTITY, MAX_ORDER_LINES };
+
+// Charged when no shipping method was quoted for the order
+const FLAT_SHIPPING_CENTS = 499;
+const SHEET_TAX_RATE = 0.08;
+const INDIVIDUAL_FLAT_TAX_CENTS = 239;
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function centsBySize<Size extends string>(variants: Record<Size, { price: number }>): Record<Size, number> {
+  const prices = {} as Record<Size, number>;
+  for (const size of Object.keys(variants) as Size[]) {
+    prices[size] = toCents(variants[size].price);
+  }
+  return prices;
+}
+
+// The prices the app shipped with, for sizes the catalog has not priced
+export const DEFAULT_PRICES: PriceList = {
+  sheet: centsBySize(PRINTFUL_PRODUCTS.KISS_CUT_STICKER_SHEET.variants),
+  individual: centsBySize(PRINTFUL_PRODUCTS.INDIVIDUAL_KISS_CUT_STICKERS.variants),
+};
+
+export function unitPrice(product: OrderProduct, prices: PriceList): number {
+  return product.kind === 'sheet' ? prices.sheet[product.size] : prices.individual[product.size];
+}
+
+function discountFor(promo: PromoDiscount, subtotal: number, shipping: number): number {
+  switch (promo.kind) {
+    case 'percent':
+      return Math.round(subtotal * Math.min(Math.max(promo.value, 0), 100) / 100);
+    case 'fixed':
+      return Math.min(Math.max(promo.value, 0), subtotal);
+    case 'free_shipping':
+      return shipping;
+  }
+}
+
+/**
+ * Sheets are taxed at a rate on what is paid for them, after their share of any money off;
+ * individual stickers carry one flat tax per order.
+ */
+export function quoteOrder(
+  lines: OrderLine[],
+  prices: PriceList,
+  shipping: number = FLAT_SHIPPING_CENTS,
+  promo?: PromoDiscount
+): OrderQuote {
+  let subtotal = 0;
+  let sheetSubtotal = 0;
+  for (const line of lines) {
+    const amount = unitPrice(line.product, prices) * line.quantity;
+    subtotal += amount;
+    if (line.product.kind === 'sheet') sheetSubtotal += amount;
+  }
+
+  const discount = promo ? discountFor(promo, subtotal, shipping) : 0;
+  const merchandiseDiscount = promo?.kind === 'free_shipping' || subtotal === 0 ? 0 : discount;
+  const sheetDiscount = Math.round(merchandiseDiscount * sheetSubtotal / subtotal) || 0;
+  const hasIndividual = lines.some((line) => line.product.kind === 'individual');
+  const tax = Math.round((sheetSubtotal - sheetDiscount) * SHEET_TAX_RATE) + (hasIndividual ? INDIVIDUAL_FLAT_TAX_CENTS : 0);
+  return { currency: 'usd', subtotal, discount, shipping, tax, total: subtotal - discount + shipping + tax };
+}
@@ -0,0 +1,141 @@
+import { getDatabase } from '@/backend/db';
+import type { AddressFields } from '@/constants/countries';
+import type { PriceList } from './pricing';
+import type { StripePaymentIntentStatus } from './stripe';
+
+export type PaymentView = {
+  id: string;
+  paymentIntentId: string;
+  amount: number;
+  currency: string;
+  status: StripePaymentIntentStatus;
+  description?: string;
+  // Shipping method and cost (cents) the amount was quoted with
+  shippingMethod?: string;
+  shipping?: number;
+  // Where that shipping cost was quoted for; the order must ship there
+  shippingDestination?: AddressFields;
+  promoCode?: string;
+  // Promo discount (cents) taken off the amount
+  discount: number;
+  // Catalog prices the amount was quoted with; missing on payments from before the catalog
+  unitPrices?: PriceList;
+  createdAt: string;
+  updatedAt: string;
+};
+
+type PaymentRow = {
+  id: string;
+  user_id: string;
+  payment_intent_id: string;
+  amount: number;
+  currency: string;
+  status: StripePaymentIntentStatus;
+  description: string | null;
+  shipping_method: string | null;
+  shipping: number | null;
+  shipping_destination: string | null;
+  promo_code: string | null;
+  discount: number;
+  unit_prices: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+const FINAL_STATUSES: StripePaymentIntentStatus[] = ['succeeded', 'canceled'];
+
+export function isFinalPaymentStatus(status: StripePaymentIntentStatus): boolean {
+  return FINAL_STATUSES.includes(status);
+}
+
+function parseJson<T>(value: string | null): T | undefined {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+function toView(row: PaymentRow): PaymentView {
+  return {
+    id: row.id,
+    paymentIntentId: row.payment_intent_id,
+    amount: Number(row.amount),
+    currency: row.currency,
+    status: row.status,
+    description: row.description ?? undefined,
+    shippingMethod: row.shipping_method ?? undefined,
+    shipping: row.shipping === null ? undefined : Number(row.shipping),
+    shippingDestination: parseJson<AddressFields>(row.shipping_destination),
+    promoCode: row.promo_code ?? undefined,
+    discount: Number(row.discount),
+    unitPrices: parseJson<PriceList>(row.unit_prices),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export async function insertPayment(payment: {
+  id: string;
+  userId: string;
+  paymentIntentId: string;
+  amount: number;
+  currency: string;
+  status: StripePaymentIntentStatus;
+  description?: string;
+  shippingMethod?: string;
+  shipping?: number;
+  shippingDestination?: AddressFields;
+  promoCode?: string;
+  discount?: number;
+  unitPrices?: PriceList;
+}): Promise<PaymentView> {
+  const db = await getDatabase();
+  const now = new Date().toISOString();
+  await db.run(
+    `INSERT INTO payments (id, user_id, payment_intent_id, amount, currency, status, description, shipping_method,
+       shipping, shipping_destination, promo_code, discount, unit_prices, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [payment.id, payment.userId, payment.paymentIntentId, payment.amount, payment.currency, payment.status,
+      payment.description ?? null, payment.shippingMethod ?? null, payment.shipping ?? null,
+      payment.shippingDestination ? JSON.stringify(payment.shippingDestination) : null, payment.promoCode ?? null,
+      payment.discount ?? 0, payment.unitPrices ? JSON.stringify(payment.unitPrices) : null, now, now]
+  );
+  const row = await db.get<PaymentRow>('SELECT * FROM payments WHERE id = ?', [payment.id]);
+  return toView(row as PaymentRow);
+}
+
+export async function getPaymentByIntent(userId: string, paymentIntentId: string): Promise<PaymentView | null> {
+  const db = await getDatabase();
+  const row = await db.get<PaymentRow>(
+    'SELECT * FROM payments WHERE user_id = ? AND payment_intent_id = ? ORDER BY created_at DESC LIMIT 1',
+    [userId, paymentIntentId]
+  );
+  return row ? toView(row) : null;
+}
+
+// The user's payments that used the code and are still waiting for a payment method
+export async function listUnpaidPromoPayments(userId: string, promoCode: string): Promise<PaymentView[]> {
+  const db = await getDatabase();
+  const rows = await db.all<PaymentRow>(
+    `SELECT * FROM payments WHERE user_id = ? AND promo_code = ? AND status = 'requires_payment_method'`,
+    [userId, promoCode]
+  );
+  return rows.map(toView);
+}
+
+/**
+ * Records the latest intent status. Webhooks can arrive out of order, so a payment that
+ * already reached a final status is never moved back.
+ */
+export async function setPaymentStatus(paymentIntentId: string, status: StripePaymentIntentStatus): Promise<boolean> {
+  const db = await getDatabase();
+  const placeholders = FINAL_STATUSES.map(() => '?').join(', ');
+  const result = await db.run(
+    `UPDATE payments SET status = ?, updated_at = ?
+     WHERE payment_intent_id = ? AND status != ? AND status NOT IN (${placeholders})`,
+    [status, new Date().toISOString(), paymentIntentId, status, ...FINAL_STATUSES]
+  );
+  return result.changes > 0;
+}
@@ -0,0 +1,116 @@
+import { createLogger } from '@/backend/logging';
+
+/**
+ * Thin Stripe REST client. STRIPE_API_BASE lets development point it at stripe-mock
+ * (e.g. http://localhost:12111) so payment flows can run without the live API.
+ */
+
+const log = createLogger({ component: 'payments' });
+
+const DEFAULT_API_BASE = 'https://api.stripe.com';
+const REQUEST_TIMEOUT_MS = 20000;
+
+export type StripePaymentIntentStatus =
+  | 'requires_payment_method'
+  | 'requires_confirmation'
+  | 'requires_action'
+  | 'processing'
+  | 'requires_capture'
+  | 'canceled'
+  | 'succeeded';
+
+export type StripePaymentIntent = {
+  id: string;
+  object: 'payment_intent';
+  amount: number;
+  currency: string;
+  status: StripePaymentIntentStatus;
+  client_secret: string | null;
+  metadata: Record<string, string>;
+};
+
+export class StripeApiError extends Error {
+  constructor(message: string, public readonly status: number, public readonly code?: string) {
+    super(message);
+    this.name = 'StripeApiError';
+  }
+}
+
+export function isStripeConfigured(): boolean {
+  return !!process.env.STRIPE_SECRET_KEY;
+}
+
+// Stripe takes form-encoded bodies with bracketed keys for nested objects (metadata[order]=...)
+function encodeForm(params: Record<string, unknown>, prefix?: string, form = new URLSearchParams()): URLSearchParams {
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null) continue;
+    const name = prefix ? `${prefix}[${key}]` : key;
+    if (typeof value === 'object') {
+      encodeForm(value as Record<string, unknown>, name, form);
+    } else {
+      form.append(name, String(value));
+    }
+  }
+  return form;
+}
+
+async function stripeRequest<T>(
+  method: 'GET' | 'POST',
+  path: string,
+  params?: Record<string, unknown>,
+  idempotencyKey?: string
+): Promise<T> {
+  const secretKey = process.env.STRIPE_SECRET_KEY;
+  if (!secretKey) {
+    throw new Error('Stripe is not configured. Set STRIPE_SECRET_KEY on the server.');
+  }
+
+  const headers: Record<string, string> = { 'Authorization': `Bearer ${secretKey}` };
+  if (method === 'POST') headers['Content-Type'] = 'application/x-www-form-urlencoded';
+  if (idempotencyKey) headers['Idempotency-Key'] = idempotencyKey;
+
+  const response = await fetch(`${process.env.STRIPE_API_BASE ?? DEFAULT_API_BASE}/v1${path}`, {
+    method,
+    headers,
+    body: method === 'POST' && params ? encodeForm(params).toString() : undefined,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    const error = data?.error;
+    log.error('Stripe API error', { path, status: response.status, code: error?.code, type: error?.type });
+    throw new StripeApiError(error?.message ?? `Stripe API error: ${response.status}`, response.status, error?.code);
+  }
+  return data as T;
+}
+
+export function createPaymentIntent(
+  params: {
+    amount: number;
+    currency: string;
+    description?: string;
+    receiptEmail?: string;
+    metadata?: Record<string, string>;
+  },
+  idempotencyKey: string
+): Promise<StripePaymentIntent> {
+  return stripeRequest<StripePaymentIntent>('POST', '/payment_intents', {
+    amount: params.amount,
+    currency: params.currency,
+    description: params.description,
+    receipt_email: params.receiptEmail,
+    metadata: params.metadata,
+    automatic_payment_methods: { enabled: true },
+  }, idempotencyKey);
+}
+
+export function retrievePaymentIntent(paymentIntentId: string): Promise<StripePaymentIntent> {
+  return stripeRequest<StripePaymentIntent>('GET', `/payment_intents/${encodeURIComponent(paymentIntentId)}`);
+}
+
+export function cancelPaymentIntent(paymentIntentId: string): Promise<StripePaymentIntent> {
+  return stripeRequest<StripePaymentIntent>('POST', `/payment_intents/${encodeURIComponent(paymentIntentId)}/cancel`, {
+    cancellation_reason: 'abandoned',
+  });
+}
@@ -0,0 +1,62 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export type StripeEvent<T = unknown> = {
+  id: string;
+  type: string;
+  created: number;
+  data: { object: T };
+};
+
+export class StripeSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StripeSignatureError';
+  }
+}
+
+// Matches Stripe's own libraries: events signed more than 5 minutes ago are rejected as replays
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+export function signStripePayload(payload: string, secret: string, timestamp: number): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${payload}`, 'utf8').digest('hex');
+}
+
+/**
+ * Verifies a `Stripe-Signature` header (`t=<unix>,v1=<hex>[,v1=...]`) against the raw request
+ * body and returns the parsed event. The body must be the exact bytes Stripe sent.
+ */
+export function verifyStripeEvent(
+  payload: string,
+  signatureHeader: string | undefined,
+  secret: string,
+  toleranceSeconds: number = DEFAULT_TOLERANCE_SECONDS
+): StripeEvent {
+  if (!signatureHeader) {
+    throw new StripeSignatureError('Missing Stripe-Signature header');
+  }
+
+  const parts = signatureHeader.split(',').map((part) => part.split('=') as [string, string]);
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+  if (!Number.isFinite(timestamp) || signatures.length === 0) {
+    throw new StripeSignatureError('Malformed Stripe-Signature header');
+  }
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+    throw new StripeSignatureError('Stripe signature timestamp outside tolerance');
+  }
+
+  const expected = Buffer.from(signStripePayload(payload, secret, timestamp), 'hex');
+  const matches = signatures.some((signature) => {
+    const candidate = Buffer.from(signature, 'hex');
+    return candidate.length === expected.length && timingSafeEqual(candidate, expected);
+  });
+  if (!matches) {
+    throw new StripeSignatureError('Stripe signature mismatch');
+  }
+
+  try {
+    return JSON.parse(payload) as StripeEvent;
+  } catch {
+    throw new StripeSignatureError('Stripe webhook body is not valid JSON');
+  }
+}
@@ -0,0 +1,56 @@
+import type { Context } from 'hono';
+import { createLogger } from '@/backend/logging';
+import { notifyPaymentStatus } from './events';
+import { setPaymentStatus } from './store';
+import type { StripePaymentIntent } from './stripe';
+import { StripeSignatureError, verifyStripeEvent, type StripeEvent } from './webhook';
+
+const log = createLogger({ component: 'payments' });
+
+async function handleStripeEvent(event: StripeEvent): Promise<void> {
+  if (!event.type.startsWith('payment_intent.')) {
+    log.debug('Ignoring Stripe event', { eventId: event.id, type: event.type });
+    return;
+  }
+
+  // Every payment_intent.* event carries the intent's current status, so one update covers them all
+  const intent = event.data.object as StripePaymentIntent;
+  const updated = await setPaymentStatus(intent.id, intent.status);
+  // Also on repeats: if a listener failed last time, Stripe's retry is what runs it again
+  await notifyPaymentStatus(intent.id, intent.status);
+  log.info('Stripe event processed', { eventId: event.id, type: event.type, paymentIntentId: intent.id, updated });
+}
+
+/**
+ * Stripe webhook endpoint. Verifies the signature with STRIPE_WEBHOOK_SECRET against the raw
+ * body; Stripe retries anything but a 2xx, so processing errors surface as 500.
+ */
+export function stripeWebhookHandler() {
+  return async (c: Context) => {
+    const secret = process.env.STRIPE_WEBHOOK_SECRET;
+    if (!secret) {
+      log.error('Stripe webhook received but STRIPE_WEBHOOK_SECRET is not set');
+      return c.json({ error: 'Webhook not configured' }, 503);
+    }
+
+    const payload = await c.req.text();
+    let event: StripeEvent;
+    try {
+      event = verifyStripeEvent(payload, c.req.header('stripe-signature'), secret);
+    } catch (error) {
+      if (error instanceof StripeSignatureError) {
+        log.warn('Rejected Stripe webhook', { reason: error.message });
+        return c.json({ error: 'Invalid signature' }, 400);
+      }
+      throw error;
+    }
+
+    try {
+      await handleStripeEvent(event);
+    } catch (error) {
+      log.error('Failed to process Stripe event', { eventId: event.id, type: event.type, err: error });
+      return c.json({ error: 'Processing failed' }, 500);
+    }
+    return c.json({ received: true });
+  };
+}
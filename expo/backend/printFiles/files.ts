@@ -0,0 +1,142 @@
+import { createHash } from 'crypto';
+import { basename } from 'path';
+import { PRINTFUL_IMAGE_REQUIREMENTS } from '@/constants/printful';
+import { getDatabase } from '@/backend/db';
+import { createLogger } from '@/backend/logging';
+import { getPrintFileStorage } from './storage';
+import { PrintFileError, type PrintFile, type PrintFileContentType } from './types';
+
+/**
+ * Print files are uploaded once and stored under their SHA-256, so re-sending the same design
+ * costs nothing and an id always means the same bytes. When an order is placed its files are
+ * copied under the order (orders/<orderId>/<sha256>.png); that copy is never rewritten or
+ * cleaned up, so reprints and disputes use exactly what was sent to production.
+ */
+
+type PrintFileRow = {
+  id: string;
+  content_type: PrintFileContentType;
+  byte_size: number;
+  width: number | null;
+  height: number | null;
+  created_at: string;
+};
+
+const log = createLogger({ component: 'printFiles' });
+
+export const MAX_PRINT_FILE_BYTES = PRINTFUL_IMAGE_REQUIREMENTS.MAX_FILE_SIZE_MB * 1024 * 1024;
+
+const EXTENSIONS: Record<PrintFileContentType, string> = { 'image/png': 'png', 'image/jpeg': 'jpg' };
+
+function sha256(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function detectContentType(data: Buffer): PrintFileContentType | null {
+  if (data.length > 8 && data.readUInt32BE(0) === 0x89504e47 && data.readUInt32BE(4) === 0x0d0a1a0a) return 'image/png';
+  if (data.length > 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'image/jpeg';
+  return null;
+}
+
+// Width and height from the PNG header, without decoding the image
+function pngDimensions(data: Buffer): { width: number; height: number } | null {
+  if (data.length < 24 || data.toString('latin1', 12, 16) !== 'IHDR') return null;
+  return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+}
+
+function toPrintFile(row: PrintFileRow): PrintFile {
+  return {
+    id: row.id,
+    contentType: row.content_type,
+    byteSize: Number(row.byte_size),
+    width: row.width ?? undefined,
+    height: row.height ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+function uploadKey(file: Pick<PrintFile, 'id' | 'contentType'>): string {
+  return `uploads/${file.id}.${EXTENSIONS[file.contentType]}`;
+}
+
+export function isPrintFileId(value: string): boolean {
+  return /^[a-f0-9]{64}$/.test(value);
+}
+
+export function contentTypeForKey(key: string): PrintFileContentType {
+  return key.endsWith('.jpg') ? 'image/jpeg' : 'image/png';
+}
+
+// Accepts a data URL or bare base64, the two ways the app sends images
+export function decodeImageData(value: string): Buffer {
+  const base64 = value.startsWith('data:') ? value.slice(value.indexOf(',') + 1) : value;
+  return Buffer.from(base64, 'base64');
+}
+
+export async function getPrintFile(id: string): Promise<PrintFile | null> {
+  const db = await getDatabase();
+  const row = await db.get<PrintFileRow>('SELECT * FROM print_files WHERE id = ?', [id]);
+  return row ? toPrintFile(row) : null;
+}
+
+/**
+ * Stores an uploaded print file and returns it. Uploading bytes that are already stored returns
+ * the existing file.
+ */
+export async function storePrintFile(data: Buffer): Promise<PrintFile> {
+  if (data.length === 0) {
+    throw new PrintFileError('The print file is empty');
+  }
+  if (data.length > MAX_PRINT_FILE_BYTES) {
+    throw new PrintFileError(`Print files can be at most ${PRINTFUL_IMAGE_REQUIREMENTS.MAX_FILE_SIZE_MB} MB`);
+  }
+  const contentType = detectContentType(data);
+  if (!contentType) {
+    throw new PrintFileError('Print files must be PNG or JPEG images');
+  }
+
+  const id = sha256(data);
+  const existing = await getPrintFile(id);
+  if (existing) return existing;
+
+  const dimensions = contentType === 'image/png' ? pngDimensions(data) : null;
+  await getPrintFileStorage().put(uploadKey({ id, contentType }), data);
+  const db = await getDatabase();
+  await db.run(
+    `INSERT INTO print_files (id, content_type, byte_size, width, height, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)
+     ON CONFLICT (id) DO NOTHING`,
+    [id, contentType, data.length, dimensions?.width ?? null, dimensions?.height ?? null, new Date().toISOString()]
+  );
+  log.info('Print file stored', { fileId: id, contentType, byteSize: data.length });
+  return (await getPrintFile(id)) as PrintFile;
+}
+
+/**
+ * Reads a stored file, checking it still matches the SHA-256 its key was named after. Returns
+ * null when nothing is stored under the key.
+ */
+export async function readPrintFile(key: string): Promise<Buffer | null> {
+  const data = await getPrintFileStorage().get(key);
+  if (!data) return null;
+  const expected = basename(key).split('.')[0];
+  if (isPrintFileId(expected) && sha256(data) !== expected) {
+    throw new Error(`Print file ${key} does not match its checksum`);
+  }
+  return data;
+}
+
+/**
+ * Copies an uploaded file to the order's own storage and returns the copy's key, for
+ * order_print_files.storage_key.
+ */
+export async function retainPrintFile(orderId: string, fileId: string): Promise<string> {
+  const file = await getPrintFile(fileId);
+  const data = file ? await readPrintFile(uploadKey(file)) : null;
+  if (!file || !data) {
+    throw new PrintFileError('Print file not found; upload it again');
+  }
+  const key = `orders/${orderId}/${file.id}.${EXTENSIONS[file.contentType]}`;
+  await getPrintFileStorage().put(key, data);
+  return key;
+}
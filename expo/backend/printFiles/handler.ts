@@ -0,0 +1,38 @@
+import type { Context } from 'hono';
+import { createLogger } from '@/backend/logging';
+import { contentTypeForKey, readPrintFile } from './files';
+import { verifyPrintFileSignature } from './urls';
+
+const log = createLogger({ component: 'printFiles' });
+
+/**
+ * Serves print files to whoever holds a signed URL from signPrintFileUrl, which is how
+ * fulfillment providers fetch artwork. Mounted at /files/*.
+ */
+export function printFileHandler() {
+  return async (c: Context) => {
+    const key = decodeURIComponent(c.req.path.replace(/^.*?\/files\//, ''));
+    if (!verifyPrintFileSignature(key, c.req.query('expires'), c.req.query('signature'))) {
+      log.warn('Rejected print file request', { key, reason: 'invalid or expired signature' });
+      return c.json({ error: 'Forbidden' }, 403);
+    }
+
+    let data: Buffer | null;
+    try {
+      data = await readPrintFile(key);
+    } catch (error) {
+      log.error('Failed to read print file', { key, err: error });
+      return c.json({ error: 'Print file unavailable' }, 500);
+    }
+    if (!data) {
+      return c.json({ error: 'Not found' }, 404);
+    }
+
+    return c.body(new Uint8Array(data), 200, {
+      'Content-Type': contentTypeForKey(key),
+      'Content-Length': String(data.length),
+      // Files never change under a key, but the URL is temporary, so caches must not outlive it
+      'Cache-Control': 'private, max-age=3600, immutable',
+    });
+  };
+}
@@ -0,0 +1,14 @@
+export {
+  decodeImageData,
+  getPrintFile,
+  isPrintFileId,
+  MAX_PRINT_FILE_BYTES,
+  readPrintFile,
+  retainPrintFile,
+  storePrintFile,
+} from './files';
+export { printFileHandler } from './handler';
+export { createDiskStorage, getPrintFileStorage, setPrintFileStorage } from './storage';
+export { isPrintFileHostingConfigured, signPrintFileUrl, SIGNED_URL_TTL_MS, verifyPrintFileSignature } from './urls';
+export { PrintFileError } from './types';
+export type { PrintFile, PrintFileContentType, PrintFileStorage } from './types';
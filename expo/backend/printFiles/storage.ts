@@ -0,0 +1,77 @@
+import { randomUUID } from 'crypto';
+import { access, chmod, mkdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import { dirname, join, normalize, sep } from 'path';
+import type { PrintFileStorage } from './types';
+
+/**
+ * Files on local disk under `directory`. Each file is written to a temporary name and renamed
+ * into place, then made read-only, so a reader never sees half a file and nothing rewrites one.
+ */
+export function createDiskStorage(directory: string): PrintFileStorage {
+  const root = normalize(directory);
+  const pathFor = (key: string) => {
+    const path = normalize(join(root, key));
+    if (!path.startsWith(root + sep)) {
+      throw new Error(`Invalid print file key: ${key}`);
+    }
+    return path;
+  };
+  const exists = async (key: string) => {
+    try {
+      await access(pathFor(key));
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  return {
+    async put(key, data) {
+      if (await exists(key)) return;
+      const path = pathFor(key);
+      await mkdir(dirname(path), { recursive: true });
+      const temporary = `${path}.${randomUUID()}.tmp`;
+      try {
+        await writeFile(temporary, data);
+        await chmod(temporary, 0o444);
+        await rename(temporary, path);
+      } catch (error) {
+        await unlink(temporary).catch(() => undefined);
+        throw error;
+      }
+    },
+
+    async get(key) {
+      try {
+        return await readFile(pathFor(key));
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    exists,
+  };
+}
+
+let storage: PrintFileStorage | null = null;
+
+export function getPrintFileStorage(): PrintFileStorage {
+  if (storage) return storage;
+
+  const driver = process.env.PRINT_FILE_STORAGE ?? 'disk';
+  switch (driver) {
+    case 'disk':
+      storage = createDiskStorage(process.env.PRINT_FILE_DIR ?? join(process.cwd(), 'data', 'print-files'));
+      break;
+    default:
+      // Object storage (S3, GCS...) plugs in here by implementing PrintFileStorage
+      throw new Error(`Unsupported PRINT_FILE_STORAGE: ${driver}`);
+  }
+  return storage;
+}
+
+// Tests and alternative runtimes can inject their own storage
+export function setPrintFileStorage(next: PrintFileStorage | null): void {
+  storage = next;
+}
@@ -0,0 +1,28 @@
+export type PrintFileContentType = 'image/png' | 'image/jpeg';
+
+// A print file as uploaded: content-addressed, so the same bytes always get the same id
+export type PrintFile = {
+  // SHA-256 of the file, hex
+  id: string;
+  contentType: PrintFileContentType;
+  byteSize: number;
+  width?: number;
+  height?: number;
+  createdAt: string;
+};
+
+export class PrintFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PrintFileError';
+  }
+}
+
+// Where print file bytes live. Keys are paths such as "uploads/<sha256>.png"
+export interface PrintFileStorage {
+  // Write-once: storing a key that already exists leaves the existing file untouched
+  put(key: string, data: Buffer): Promise<void>;
+  // null when nothing is stored under the key
+  get(key: string): Promise<Buffer | null>;
+  exists(key: string): Promise<boolean>;
+}
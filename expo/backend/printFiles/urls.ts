@@ -0,0 +1,47 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Long enough for a provider to fetch the file after a retried submission, short enough to not leak
+export const SIGNED_URL_TTL_MS = 24 * 60 * 60 * 1000;
+
+export function getPrintFileUrlSecret(): string {
+  const secret = process.env.PRINT_FILE_URL_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('PRINT_FILE_URL_SECRET must be set in production');
+  }
+  return 'dev_print_file_secret_change_me';
+}
+
+function signature(key: string, expires: number): string {
+  return createHmac('sha256', getPrintFileUrlSecret()).update(`${key}\n${expires}`).digest('base64url');
+}
+
+// Signed URLs are only useful if the fulfillment provider can reach the backend
+export function isPrintFileHostingConfigured(): boolean {
+  return !!process.env.PUBLIC_API_URL;
+}
+
+/**
+ * A URL anyone holding it can fetch the file from until it expires. PUBLIC_API_URL is the
+ * backend's public address including the /api prefix, e.g. https://shop.example.com/api.
+ */
+export function signPrintFileUrl(key: string, ttlMs: number = SIGNED_URL_TTL_MS): string {
+  const base = process.env.PUBLIC_API_URL;
+  if (!base) {
+    throw new Error('PUBLIC_API_URL must be set to host print files');
+  }
+  const expires = Math.floor((Date.now() + ttlMs) / 1000);
+  const path = key.split('/').map(encodeURIComponent).join('/');
+  return `${base.replace(/\/+$/, '')}/files/${path}?expires=${expires}&signature=${signature(key, expires)}`;
+}
+
+// False for tampered, mismatched or expired signatures
+export function verifyPrintFileSignature(key: string, expires: string | undefined, presented: string | undefined): boolean {
+  const expiresAt = Number(expires);
+  if (!Number.isInteger(expiresAt) || expiresAt * 1000 < Date.now() || !presented) {
+    return false;
+  }
+  const a = Buffer.from(presented);
+  const b = Buffer.from(signature(key, expiresAt));
+  return a.length === b.length && timingSafeEqual(a, b);
+}
@@ -0,0 +1,53 @@
+import { createLogger } from '@/backend/logging';
+
+/**
+ * Thin Printful REST client holding the store's private token (PRINTFUL_API_KEY), which
+ * must never ship in the app. PRINTFUL_STORE_ID selects the store for account-level tokens.
+ */
+
+const log = createLogger({ component: 'printful' });
+
+const DEFAULT_API_BASE = 'https://api.printful.com';
+const REQUEST_TIMEOUT_MS = 15000;
+
+export class PrintfulApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'PrintfulApiError';
+  }
+}
+
+export function isPrintfulConfigured(): boolean {
+  return !!process.env.PRINTFUL_API_KEY;
+}
+
+export async function printfulRequest<T>(
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+  path: string,
+  body?: unknown
+): Promise<T> {
+  const apiKey = process.env.PRINTFUL_API_KEY;
+  if (!apiKey) {
+    throw new Error('Printful is not configured. Set PRINTFUL_API_KEY on the server.');
+  }
+
+  const headers: Record<string, string> = { 'Authorization': `Bearer ${apiKey}` };
+  if (body !== undefined) headers['Content-Type'] = 'application/json';
+  if (process.env.PRINTFUL_STORE_ID) headers['X-PF-Store-Id'] = process.env.PRINTFUL_STORE_ID;
+
+  const response = await fetch(`${process.env.PRINTFUL_API_BASE ?? DEFAULT_API_BASE}${path}`, {
+    method,
+    headers,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  // Printful wraps everything as { code, result } and reports failures as { code, error: { message } }
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    const message = data?.error?.message ?? data?.result ?? `Printful API error: ${response.status}`;
+    log.error('Printful API error', { path, status: response.status, message });
+    throw new PrintfulApiError(String(message), response.status);
+  }
+  return data?.result as T;
+}
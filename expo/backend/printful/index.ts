@@ -0,0 +1,4 @@
+export { isPrintfulConfigured, printfulRequest, PrintfulApiError } from './client';
+export { applyPrintfulEvent, isPrintfulWebhookEvent } from './webhook';
+export type { PrintfulEventResult, PrintfulWebhookEvent, PrintfulWebhookShipment } from './webhook';
+export { printfulWebhookHandler } from './webhookHandler';
@@ -0,0 +1,82 @@
+/**
+ * Replays Printful webhook fixtures against a running backend, for exercising order tracking
+ * without a live Printful store.
+ *
+ *   PRINTFUL_WEBHOOK_SECRET=dev bun backend/printful/simulate.ts --order 12345678 \
+ *     package_shipped [order_failed ...]
+ *
+ * Fixtures live in ./fixtures; the order id (and --external id, if given) replace the
+ * placeholders in each fixture. Events are sent in the order listed.
+ */
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+
+const FIXTURES_DIR = join(__dirname, 'fixtures');
+const DEFAULT_URL = 'http://localhost:8081/api/webhooks/printful';
+
+type Options = { orderId?: string; externalId?: string; url: string; fixtures: string[] };
+
+function listFixtures(): string[] {
+  return readdirSync(FIXTURES_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => file.replace(/\.json$/, ''));
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = { url: process.env.PRINTFUL_WEBHOOK_URL ?? DEFAULT_URL, fixtures: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--order') options.orderId = argv[++i];
+    else if (arg === '--external') options.externalId = argv[++i];
+    else if (arg === '--url') options.url = argv[++i];
+    else options.fixtures.push(arg);
+  }
+  return options;
+}
+
+function loadFixture(name: string, options: Options): Record<string, any> {
+  const event = JSON.parse(readFileSync(join(FIXTURES_DIR, `${name}.json`), 'utf8'));
+  if (event.data?.order) {
+    if (options.orderId) event.data.order.id = options.orderId;
+    event.data.order.external_id = options.externalId ?? null;
+  }
+  event.created = Math.floor(Date.now() / 1000);
+  return event;
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const secret = process.env.PRINTFUL_WEBHOOK_SECRET;
+  const available = listFixtures();
+
+  if (!secret || !options.orderId || options.fixtures.length === 0) {
+    console.error('Usage: PRINTFUL_WEBHOOK_SECRET=... bun backend/printful/simulate.ts --order <printfulOrderId>');
+    console.error('         [--external <externalId>] [--url <webhookUrl>] <fixture> [fixture ...]');
+    console.error(`Fixtures: ${available.join(', ')}`);
+    process.exit(1);
+  }
+
+  const unknown = options.fixtures.filter((name) => !available.includes(name));
+  if (unknown.length > 0) {
+    console.error(`Unknown fixture(s): ${unknown.join(', ')}. Available: ${available.join(', ')}`);
+    process.exit(1);
+  }
+
+  const url = new URL(options.url);
+  url.searchParams.set('token', secret);
+
+  for (const name of options.fixtures) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(loadFixture(name, options)),
+    });
+    console.log(`${name}: ${response.status} ${await response.text()}`);
+    if (!response.ok) process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
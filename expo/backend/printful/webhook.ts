@@ -0,0 +1,113 @@
+import { createLogger } from '@/backend/logging';
+import { ordersTotal } from '@/backend/metrics';
+import {
+  canTransition,
+  findOrderByPrintfulId,
+  transitionOrder,
+  upsertShipment,
+  type OrderShipment,
+  type OrderStatus,
+} from '@/backend/orders';
+
+const log = createLogger({ component: 'printful' });
+
+/**
+ * Printful (v1) webhook payloads. Only the fields we act on are typed; Printful sends more.
+ */
+export type PrintfulWebhookShipment = {
+  id: number | string;
+  carrier?: string;
+  service?: string;
+  tracking_number?: string | number;
+  tracking_url?: string;
+  ship_date?: string;
+  shipped_at?: number;
+};
+
+export type PrintfulWebhookEvent = {
+  type: string;
+  created: number;
+  retries?: number;
+  data: {
+    order?: { id: number | string; external_id?: string | null; status?: string };
+    shipment?: PrintfulWebhookShipment;
+    reason?: string;
+  };
+};
+
+export type PrintfulEventResult =
+  | { outcome: 'applied'; orderId: string; status: OrderStatus }
+  | { outcome: 'ignored'; reason: string };
+
+// Event type → the order status it moves to
+const EVENT_STATUS: Record<string, OrderStatus> = {
+  package_shipped: 'fulfilled',
+  package_returned: 'returned',
+  order_failed: 'failed',
+  order_canceled: 'canceled',
+  order_put_hold: 'on_hold',
+  order_remove_hold: 'submitted',
+};
+
+export function isPrintfulWebhookEvent(value: unknown): value is PrintfulWebhookEvent {
+  const event = value as PrintfulWebhookEvent | null;
+  return !!event && typeof event.type === 'string' && !!event.data && typeof event.data === 'object';
+}
+
+function toShipment(shipment: PrintfulWebhookShipment, status: OrderShipment['status']): OrderShipment {
+  const shippedAt = shipment.shipped_at
+    ? new Date(shipment.shipped_at * 1000).toISOString()
+    : shipment.ship_date;
+  return {
+    id: String(shipment.id),
+    status,
+    carrier: shipment.carrier || undefined,
+    service: shipment.service || undefined,
+    trackingNumber: shipment.tracking_number ? String(shipment.tracking_number) : undefined,
+    trackingUrl: shipment.tracking_url && /^https?:\/\//i.test(shipment.tracking_url) ? shipment.tracking_url : undefined,
+    shippedAt,
+  };
+}
+
+/**
+ * Applies a Printful webhook event to the stored order. Events are idempotent: replaying one
+ * refreshes the shipment and leaves the status where it is.
+ */
+export async function applyPrintfulEvent(event: PrintfulWebhookEvent): Promise<PrintfulEventResult> {
+  const target = EVENT_STATUS[event.type];
+  if (!target) {
+    return { outcome: 'ignored', reason: `unhandled event type ${event.type}` };
+  }
+
+  const printfulOrder = event.data.order;
+  if (!printfulOrder?.id) {
+    return { outcome: 'ignored', reason: 'event has no order' };
+  }
+  const order = await findOrderByPrintfulId(String(printfulOrder.id), printfulOrder.external_id ?? undefined);
+  if (!order) {
+    return { outcome: 'ignored', reason: 'unknown order' };
+  }
+
+  // Replays land on the status they already set; anything else must be a move the order allows
+  if (order.status !== target && !canTransition(order.status, target)) {
+    return { outcome: 'ignored', reason: `order is ${order.status}` };
+  }
+
+  if (event.data.shipment && (target === 'fulfilled' || target === 'returned')) {
+    await upsertShipment(order.id, toShipment(event.data.shipment, target === 'fulfilled' ? 'shipped' : 'returned'));
+  }
+
+  const reason = target === 'fulfilled' || target === 'submitted' ? undefined : event.data.reason;
+  const changed = await transitionOrder(order.id, target, reason);
+  if (changed && order.status !== target) {
+    ordersTotal.inc({ outcome: target });
+    log.info('Order status updated from Printful', {
+      orderId: order.id,
+      userId: order.userId,
+      from: order.status,
+      to: target,
+      event: event.type,
+    });
+  }
+  return { outcome: 'applied', orderId: order.id, status: target };
+}
@@ -0,0 +1,52 @@
+import { timingSafeEqual } from 'crypto';
+import type { Context } from 'hono';
+import { createLogger } from '@/backend/logging';
+import { applyPrintfulEvent, isPrintfulWebhookEvent } from './webhook';
+
+const log = createLogger({ component: 'printful' });
+
+function tokenMatches(presented: string | undefined, expected: string): boolean {
+  const a = Buffer.from(presented ?? '');
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Printful webhook endpoint. Printful does not sign its webhooks, so the URL registered with
+ * Printful carries `?token=$PRINTFUL_WEBHOOK_SECRET`. Printful retries anything but a 2xx, so
+ * events we cannot match to an order are acknowledged rather than failed.
+ */
+export function printfulWebhookHandler() {
+  return async (c: Context) => {
+    const secret = process.env.PRINTFUL_WEBHOOK_SECRET;
+    if (!secret) {
+      log.error('Printful webhook received but PRINTFUL_WEBHOOK_SECRET is not set');
+      return c.json({ error: 'Webhook not configured' }, 503);
+    }
+    if (!tokenMatches(c.req.query('token'), secret)) {
+      log.warn('Rejected Printful webhook', { reason: 'invalid token' });
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    let event: unknown;
+    try {
+      event = await c.req.json();
+    } catch {
+      return c.json({ error: 'Invalid JSON' }, 400);
+    }
+    if (!isPrintfulWebhookEvent(event)) {
+      return c.json({ error: 'Invalid event' }, 400);
+    }
+
+    try {
+      const result = await applyPrintfulEvent(event);
+      if (result.outcome === 'ignored') {
+        log.info('Ignoring Printful event', { type: event.type, reason: result.reason });
+      }
+    } catch (error) {
+      log.error('Failed to process Printful event', { type: event.type, err: error });
+      return c.json({ error: 'Processing failed' }, 500);
+    }
+    return c.json({ received: true });
+  };
+}
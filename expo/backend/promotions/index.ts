@@ -0,0 +1,4 @@
+export { checkPromoCode, reservePromoCode, PromoCodeError } from './promotions';
+export type { PromoReservation } from './promotions';
+export { getRedemptionForPayment, listPromoCodes, normalizePromoCode, savePromoCode } from './store';
+export type { PromoCode, PromoCodeInput, PromoRedemption } from './store';
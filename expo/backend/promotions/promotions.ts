@@ -0,0 +1,87 @@
+import { randomUUID } from 'crypto';
+import { getDatabase, type Database } from '@/backend/db';
+import { createLogger } from '@/backend/logging';
+import {
+  countRedemptions,
+  deleteRedemption,
+  getPromoCode,
+  insertRedemption,
+  normalizePromoCode,
+  releaseUnconfirmedRedemptions,
+  type PromoCode,
+} from './store';
+
+const log = createLogger({ component: 'promotions' });
+
+export class PromoCodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromoCodeError';
+  }
+}
+
+export type PromoReservation = {
+  promo: PromoCode;
+  release: () => Promise<void>;
+};
+
+async function loadUsablePromo(userId: string, code: string, db?: Database): Promise<PromoCode> {
+  const promo = await getPromoCode(code, db);
+  // Unknown and disabled codes get the same answer so codes cannot be probed for
+  if (!promo || !promo.active) {
+    throw new PromoCodeError('That promo code is not valid');
+  }
+  if (promo.expiresAt && Date.parse(promo.expiresAt) <= Date.now()) {
+    throw new PromoCodeError('That promo code has expired');
+  }
+
+  if (promo.maxUses !== null || promo.maxUsesPerUser !== null) {
+    const uses = await countRedemptions(promo.code, userId, db);
+    if (promo.maxUses !== null && uses.total >= promo.maxUses) {
+      throw new PromoCodeError('That promo code has been fully redeemed');
+    }
+    if (promo.maxUsesPerUser !== null && uses.byUser >= promo.maxUsesPerUser) {
+      throw new PromoCodeError('You have already used that promo code');
+    }
+  }
+  return promo;
+}
+
+/**
+ * Looks up a code for the user, throwing PromoCodeError with a customer-facing message when it
+ * cannot be used. Nothing is reserved; checkout claims the code when the payment is opened.
+ */
+export async function checkPromoCode(userId: string, code: string): Promise<PromoCode> {
+  return loadUsablePromo(userId, normalizePromoCode(code));
+}
+
+/**
+ * Claims one use of the code for a payment, re-checking the limits inside a transaction so
+ * concurrent checkouts cannot overrun them. The reservation's release hands the use back if
+ * the payment could not be opened.
+ */
+export async function reservePromoCode(
+  userId: string,
+  code: string,
+  paymentId: string,
+  discount: (promo: PromoCode) => number
+): Promise<PromoReservation> {
+  const db = await getDatabase();
+  const promo = await db.transaction(async (tx) => {
+    await releaseUnconfirmedRedemptions(code, userId, tx);
+    const usable = await loadUsablePromo(userId, normalizePromoCode(code), tx);
+    await insertRedemption({
+      id: randomUUID(),
+      code: usable.code,
+      userId,
+      paymentId,
+      kind: usable.kind,
+      value: usable.value,
+      discount: discount(usable),
+    }, tx);
+    return usable;
+  });
+
+  log.info('Promo code reserved', { code: promo.code, paymentId });
+  return { promo, release: () => deleteRedemption(paymentId) };
+}
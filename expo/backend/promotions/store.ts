@@ -0,0 +1,189 @@
+import { getDatabase, type Database } from '@/backend/db';
+import type { PromoDiscount } from '@/backend/payments';
+
+export type PromoCode = PromoDiscount & {
+  code: string;
+  description?: string;
+  // Null limits are unlimited
+  maxUses: number | null;
+  maxUsesPerUser: number | null;
+  expiresAt?: string;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type PromoCodeInput = PromoDiscount & {
+  code: string;
+  description?: string;
+  maxUses?: number | null;
+  maxUsesPerUser?: number | null;
+  expiresAt?: string | null;
+  active?: boolean;
+};
+
+// The promo as it applied to one payment, kept so later changes to the code do not reprice it
+export type PromoRedemption = PromoDiscount & {
+  code: string;
+  userId: string;
+  paymentId: string;
+  discount: number;
+  createdAt: string;
+};
+
+type PromoCodeRow = {
+  code: string;
+  kind: PromoDiscount['kind'];
+  value: number;
+  description: string | null;
+  max_uses: number | null;
+  max_uses_per_user: number | null;
+  expires_at: string | null;
+  active: number;
+  created_at: string;
+  updated_at: string;
+};
+
+type PromoRedemptionRow = {
+  code: string;
+  user_id: string;
+  payment_id: string;
+  kind: PromoDiscount['kind'];
+  value: number;
+  discount: number;
+  created_at: string;
+};
+
+// An unpaid checkout holds its redemption this long before it stops counting against the limits
+const PENDING_REDEMPTION_MS = 30 * 60 * 1000;
+
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function toPromoCode(row: PromoCodeRow): PromoCode {
+  return {
+    code: row.code,
+    kind: row.kind,
+    value: Number(row.value),
+    description: row.description ?? undefined,
+    maxUses: row.max_uses === null ? null : Number(row.max_uses),
+    maxUsesPerUser: row.max_uses_per_user === null ? null : Number(row.max_uses_per_user),
+    expiresAt: row.expires_at ?? undefined,
+    active: Number(row.active) === 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export async function getPromoCode(code: string, db?: Database): Promise<PromoCode | null> {
+  const conn = db ?? await getDatabase();
+  const row = await conn.get<PromoCodeRow>('SELECT * FROM promo_codes WHERE code = ?', [normalizePromoCode(code)]);
+  return row ? toPromoCode(row) : null;
+}
+
+export async function listPromoCodes(): Promise<(PromoCode & { uses: number })[]> {
+  const db = await getDatabase();
+  const rows = await db.all<PromoCodeRow & { uses: number }>(
+    `SELECT c.*, (
+       SELECT COUNT(*) FROM promo_redemptions r JOIN payments p ON p.id = r.payment_id
+       WHERE r.code = c.code AND p.status = 'succeeded'
+     ) AS uses
+     FROM promo_codes c ORDER BY c.created_at DESC`
+  );
+  return rows.map((row) => ({ ...toPromoCode(row), uses: Number(row.uses) }));
+}
+
+export async function savePromoCode(input: PromoCodeInput): Promise<PromoCode> {
+  const db = await getDatabase();
+  const code = normalizePromoCode(input.code);
+  const now = new Date().toISOString();
+  await db.run(
+    `INSERT INTO promo_codes (code, kind, value, description, max_uses, max_uses_per_user, expires_at, active,
+       created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT (code) DO UPDATE SET
+       kind = excluded.kind, value = excluded.value, description = excluded.description,
+       max_uses = excluded.max_uses, max_uses_per_user = excluded.max_uses_per_user,
+       expires_at = excluded.expires_at, active = excluded.active, updated_at = excluded.updated_at`,
+    [
+      code, input.kind, input.value, input.description ?? null, input.maxUses ?? null, input.maxUsesPerUser ?? null,
+      input.expiresAt ?? null, input.active === false ? 0 : 1, now, now,
+    ]
+  );
+  return (await getPromoCode(code)) as PromoCode;
+}
+
+/**
+ * Redemptions that count against a code's limits: paid (or paying) checkouts, plus recent ones
+ * that are still waiting for payment. Abandoned and canceled checkouts give their use back.
+ */
+export async function countRedemptions(
+  code: string,
+  userId: string,
+  db?: Database
+): Promise<{ total: number; byUser: number }> {
+  const conn = db ?? await getDatabase();
+  const pendingSince = new Date(Date.now() - PENDING_REDEMPTION_MS).toISOString();
+  const row = await conn.get<{ total: number | null; by_user: number | null }>(
+    `SELECT COUNT(*) AS total, SUM(CASE WHEN r.user_id = ? THEN 1 ELSE 0 END) AS by_user
+     FROM promo_redemptions r LEFT JOIN payments p ON p.id = r.payment_id
+     WHERE r.code = ? AND (
+       p.status IN ('succeeded', 'processing', 'requires_capture')
+       OR ((p.status IS NULL OR p.status != 'canceled') AND r.created_at > ?)
+     )`,
+    [userId, normalizePromoCode(code), pendingSince]
+  );
+  return { total: Number(row?.total ?? 0), byUser: Number(row?.by_user ?? 0) };
+}
+
+export async function insertRedemption(
+  redemption: Omit<PromoRedemption, 'createdAt'> & { id: string },
+  db?: Database
+): Promise<void> {
+  const conn = db ?? await getDatabase();
+  await conn.run(
+    `INSERT INTO promo_redemptions (id, code, user_id, payment_id, kind, value, discount, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      redemption.id, redemption.code, redemption.userId, redemption.paymentId, redemption.kind, redemption.value,
+      redemption.discount, new Date().toISOString(),
+    ]
+  );
+}
+
+/**
+ * Drops the user's earlier claims on a code whose payments were canceled, such as a payment
+ * sheet they dismissed and checkout then canceled, so trying again does not count as a second
+ * use. Payments that could still be paid keep their claim.
+ */
+export async function releaseUnconfirmedRedemptions(code: string, userId: string, db?: Database): Promise<number> {
+  const conn = db ?? await getDatabase();
+  const result = await conn.run(
+    `DELETE FROM promo_redemptions WHERE code = ? AND user_id = ? AND payment_id IN (
+       SELECT id FROM payments WHERE user_id = ? AND status = 'canceled'
+     )`,
+    [normalizePromoCode(code), userId, userId]
+  );
+  return result.changes;
+}
+
+export async function deleteRedemption(paymentId: string): Promise<void> {
+  const db = await getDatabase();
+  await db.run('DELETE FROM promo_redemptions WHERE payment_id = ?', [paymentId]);
+}
+
+export async function getRedemptionForPayment(paymentId: string): Promise<PromoRedemption | null> {
+  const db = await getDatabase();
+  const row = await db.get<PromoRedemptionRow>('SELECT * FROM promo_redemptions WHERE payment_id = ?', [paymentId]);
+  if (!row) return null;
+  return {
+    code: row.code,
+    userId: row.user_id,
+    paymentId: row.payment_id,
+    kind: row.kind,
+    value: Number(row.value),
+    discount: Number(row.discount),
+    createdAt: row.created_at,
+  };
+}
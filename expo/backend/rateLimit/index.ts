@@ -0,0 +1,6 @@
+export { rateLimit, getClientIp, getTrustedProxyHops } from './middleware';
+export { rateLimitPolicies } from './policies';
+export type { RateLimitPolicy, RateLimitScope } from './policies';
+export { createMemoryRateLimitStore } from './store';
+export type { RateLimitStore, RateLimitHit } from './store';
+export { RateLimitError } from './errors';
@@ -0,0 +1,114 @@
+import type { Context, MiddlewareHandler } from 'hono';
+import { serialize } from 'superjson';
+import { TRPC_ERROR_CODES_BY_KEY } from '@trpc/server/rpc';
+import { createLogger } from '@/backend/logging';
+import { verifyAccessToken } from '@/backend/trpc/routes/auth/tokens';
+import type { RateLimitPolicy } from './policies';
+import { createMemoryRateLimitStore, type RateLimitStore } from './store';
+
+const log = createLogger({ component: 'rateLimit' });
+
+const TRPC_PREFIX = '/trpc/';
+
+// Number of reverse proxies in front of the server; each appends the address it saw to X-Forwarded-For
+export function getTrustedProxyHops(): number {
+  const configured = Number(process.env.TRUSTED_PROXY_HOPS);
+  return Number.isInteger(configured) && configured > 0 ? configured : 0;
+}
+
+// The peer address from the server adapter: Bun passes its server, @hono/node-server the request
+function getSocketAddress(c: Context): string | null {
+  const env = c.env as {
+    requestIP?: (request: Request) => { address: string } | null;
+    incoming?: { socket?: { remoteAddress?: string } };
+  } | undefined;
+  try {
+    return env?.requestIP?.(c.req.raw)?.address ?? env?.incoming?.socket?.remoteAddress ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The address limits are counted against. Clients can send any X-Forwarded-For they like, so
+ * only the entries our own proxies appended are trusted: with N proxies, the Nth from the right
+ * is the address the outermost one saw. Without configured proxies the header is ignored.
+ */
+export function getClientIp(c: Context): string {
+  const hops = getTrustedProxyHops();
+  if (hops > 0) {
+    const forwarded = (c.req.header('x-forwarded-for') ?? '')
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+    if (forwarded.length >= hops) return forwarded[forwarded.length - hops];
+  }
+  return getSocketAddress(c) ?? 'unknown';
+}
+
+function getUserId(c: Context): string | null {
+  const authHeader = c.req.header('authorization');
+  const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
+  return token ? verifyAccessToken(token)?.id ?? null : null;
+}
+
+// Mounted app paths look like /api/trpc/auth.login; batched calls join procedures with commas
+function resolveTarget(path: string): { route: string; procedures: string[] } {
+  const route = path.replace(/^\/api(?=\/)/, '');
+  if (!route.startsWith(TRPC_PREFIX)) {
+    return { route, procedures: [] };
+  }
+  return { route, procedures: route.slice(TRPC_PREFIX.length).split(',') };
+}
+
+function appliesTo(policy: RateLimitPolicy, route: string, procedures: string[]): boolean {
+  if (policy.routes?.includes(route)) return true;
+  return procedures.some((procedure) => policy.procedures?.includes(procedure));
+}
+
+export function rateLimit(
+  policies: RateLimitPolicy[],
+  store: RateLimitStore = createMemoryRateLimitStore()
+): MiddlewareHandler {
+  return async (c, next) => {
+    const { route, procedures } = resolveTarget(c.req.path);
+    const matching = policies.filter((policy) => appliesTo(policy, route, procedures));
+    if (matching.length === 0) {
+      await next();
+      return;
+    }
+
+    const ip = getClientIp(c);
+    const userId = matching.some((policy) => policy.scope === 'user') ? getUserId(c) : null;
+
+    for (const policy of matching) {
+      const subject = policy.scope === 'user' && userId ? `user:${userId}` : `ip:${ip}`;
+      const { count, resetAt } = await store.hit(`${policy.name}:${subject}`, policy.windowMs);
+      if (count <= policy.limit) continue;
+
+      const retryAfterSeconds = Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+      log.warn('Limit exceeded', { policy: policy.name, subject, retryAfterSeconds });
+      c.header('Retry-After', String(retryAfterSeconds));
+
+      const message = 'Too many requests. Please try again later.';
+      if (procedures.length > 0) {
+        // Shape the body like a tRPC error so clients get a typed TOO_MANY_REQUESTS error
+        return c.json({
+          error: serialize({
+            message,
+            code: TRPC_ERROR_CODES_BY_KEY.TOO_MANY_REQUESTS,
+            data: {
+              code: 'TOO_MANY_REQUESTS',
+              httpStatus: 429,
+              path: procedures.join(','),
+              retryAfterSeconds,
+            },
+          }),
+        }, 429);
+      }
+      return c.json({ error: message, retryAfterSeconds }, 429);
+    }
+
+    await next();
+  };
+}
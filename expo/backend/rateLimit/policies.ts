@@ -0,0 +1,99 @@
+export type RateLimitScope = 'ip' | 'user';
+
+export type RateLimitPolicy = {
+  name: string;
+  // Plain Hono route paths (relative to /api) or tRPC procedure paths such as "auth.login"
+  routes?: string[];
+  procedures?: string[];
+  limit: number;
+  windowMs: number;
+  // "user" falls back to the client IP for anonymous callers
+  scope: RateLimitScope;
+};
+
+const MINUTE = 60 * 1000;
+
+export const rateLimitPolicies: RateLimitPolicy[] = [
+  {
+    name: 'auth-login-ip',
+    procedures: ['auth.login'],
+    limit: 20,
+    windowMs: 15 * MINUTE,
+    scope: 'ip',
+  },
+  {
+    name: 'auth-signup-ip',
+    procedures: ['auth.signup'],
+    limit: 5,
+    windowMs: 60 * MINUTE,
+    scope: 'ip',
+  },
+  {
+    name: 'auth-email-ip',
+    procedures: ['auth.requestPasswordReset', 'auth.sendVerification'],
+    limit: 5,
+    windowMs: 15 * MINUTE,
+    scope: 'ip',
+  },
+  {
+    // Burst guard only; the daily allowance is enforced by generation quotas
+    name: 'generation-user',
+    procedures: ['generation.submit'],
+    limit: 10,
+    windowMs: MINUTE,
+    scope: 'user',
+  },
+  {
+    name: 'background-removal-user',
+    procedures: ['backgroundRemoval.submit'],
+    limit: 10,
+    windowMs: MINUTE,
+    scope: 'user',
+  },
+  {
+    name: 'background-removal-ip',
+    procedures: ['backgroundRemoval.submit'],
+    limit: 30,
+    windowMs: MINUTE,
+    scope: 'ip',
+  },
+  {
+    // Each call can reach Printful's rates endpoint; checkout re-quotes as the address is typed
+    name: 'shipping-rates-user',
+    procedures: ['shipping.rates'],
+    limit: 30,
+    windowMs: MINUTE,
+    scope: 'user',
+  },
+  {
+    // Keeps promo codes from being guessed by brute force
+    name: 'promo-codes-user',
+    procedures: ['orders.applyPromo'],
+    limit: 10,
+    windowMs: 10 * MINUTE,
+    scope: 'user',
+  },
+  {
+    // A checkout uploads one file per cart line; identical files are stored once
+    name: 'print-files-user',
+    procedures: ['printFiles.upload'],
+    limit: 60,
+    windowMs: 10 * MINUTE,
+    scope: 'user',
+  },
+  {
+    // Each call decodes the stickers and renders a full-resolution print sheet
+    name: 'sheet-layout-user',
+    procedures: ['stickers.generateSheetLayout'],
+    limit: 10,
+    windowMs: MINUTE,
+    scope: 'user',
+  },
+  {
+    name: 'payments-user',
+    procedures: ['payments.createIntent'],
+    limit: 10,
+    windowMs: 10 * MINUTE,
+    scope: 'user',
+  },
+];
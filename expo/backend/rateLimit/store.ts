@@ -0,0 +1,39 @@
+export type RateLimitHit = {
+  count: number;
+  resetAt: number;
+};
+
+// Counter storage for fixed-window limits; swap for Redis when running more than one instance
+export interface RateLimitStore {
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const windows = new Map<string, RateLimitHit>();
+  let lastSweep = Date.now();
+
+  const sweep = (now: number) => {
+    if (now - lastSweep < 60_000) return;
+    lastSweep = now;
+    for (const [key, entry] of windows) {
+      if (entry.resetAt <= now) windows.delete(key);
+    }
+  };
+
+  return {
+    async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+      const now = Date.now();
+      sweep(now);
+
+      const existing = windows.get(key);
+      if (!existing || existing.resetAt <= now) {
+        const fresh = { count: 1, resetAt: now + windowMs };
+        windows.set(key, fresh);
+        return fresh;
+      }
+
+      existing.count += 1;
+      return existing;
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import { validateAddress, type AddressErrors, type AddressFields } from '@/constants/countries';
+
+export class AddressValidationError extends Error {
+  constructor(public readonly fields: AddressErrors) {
+    super(Object.values(fields)[0] ?? 'Invalid address');
+    this.name = 'AddressValidationError';
+  }
+}
+
+/**
+ * Rejects addresses in countries we do not ship to, or whose state or postal code does not
+ * fit the country, with the same rules the checkout form applies.
+ */
+export function assertShippableAddress(address: AddressFields): void {
+  const errors = validateAddress(address);
+  if (Object.keys(errors).length > 0) {
+    throw new AddressValidationError(errors);
+  }
+}
+
+// Postal codes are compared without case or spacing, so "sw1a 1aa" matches "SW1A 1AA"
+function normalizeZip(zip: string | undefined): string {
+  return (zip ?? '').replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * Whether two addresses are the same destination for shipping rates: same country, state and
+ * postal code. Street and city do not change what a carrier charges.
+ */
+export function isSameDestination(a: AddressFields, b: AddressFields): boolean {
+  return (
+    a.countryCode.toUpperCase() === b.countryCode.toUpperCase() &&
+    (a.stateCode ?? '').toUpperCase() === (b.stateCode ?? '').toUpperCase() &&
+    normalizeZip(a.zip) === normalizeZip(b.zip)
+  );
+}
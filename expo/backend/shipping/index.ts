@@ -0,0 +1,3 @@
+export { assertShippableAddress, isSameDestination, AddressValidationError } from './address';
+export { getShippingRates, resolveShippingRate, ShippingRateError } from './rates';
+export type { ShippingDestination, ShippingRate } from './rates';
@@ -0,0 +1,127 @@
+import { findCatalogVariant, getCatalog, type Catalog } from '@/backend/catalog';
+import { getFulfillmentProvider, type FulfillmentItem } from '@/backend/fulfillment';
+import { createLogger } from '@/backend/logging';
+import type { OrderLine } from '@/backend/payments';
+import { assertShippableAddress } from './address';
+
+/**
+ * Shipping rates for a destination and cart, quoted by the fulfillment provider for the actual
+ * recipient. Quotes are cached briefly so the rate a customer picks is the rate they are
+ * charged, even if the provider's figure moves between showing the options and paying.
+ */
+
+const log = createLogger({ component: 'shipping' });
+
+const QUOTE_TTL_MS = 15 * 60 * 1000;
+const MAX_CACHED_QUOTES = 500;
+
+export type ShippingDestination = {
+  countryCode: string;
+  stateCode?: string;
+  city?: string;
+  // Empty for countries where postal codes are optional
+  zip: string;
+  address1?: string;
+};
+
+// Amounts in cents
+export type ShippingRate = {
+  id: string;
+  name: string;
+  amount: number;
+  currency: 'usd';
+  minDeliveryDays?: number;
+  maxDeliveryDays?: number;
+};
+
+export class ShippingRateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShippingRateError';
+  }
+}
+
+const quoteCache = new Map<string, { rates: ShippingRate[]; expiresAt: number }>();
+
+// Providers quote per variant, so lines for the same size are combined
+function fulfillmentItems(catalog: Catalog, lines: OrderLine[]): FulfillmentItem[] {
+  const quantities = new Map<number, number>();
+  for (const line of lines) {
+    const { variantId } = findCatalogVariant(catalog, line.product);
+    quantities.set(variantId, (quantities.get(variantId) ?? 0) + line.quantity);
+  }
+  return [...quantities]
+    .sort(([a], [b]) => a - b)
+    .map(([variantId, quantity]) => ({ variantId, quantity }));
+}
+
+function cacheKey(provider: string, destination: ShippingDestination, items: FulfillmentItem[]): string {
+  return JSON.stringify([
+    provider,
+    destination.countryCode.toUpperCase(),
+    destination.stateCode?.toUpperCase() ?? '',
+    destination.zip.trim().toUpperCase(),
+    destination.city?.trim().toLowerCase() ?? '',
+    items,
+  ]);
+}
+
+function rememberQuote(key: string, rates: ShippingRate[]): void {
+  const now = Date.now();
+  if (quoteCache.size >= MAX_CACHED_QUOTES) {
+    for (const [cachedKey, entry] of quoteCache) {
+      if (entry.expiresAt <= now) quoteCache.delete(cachedKey);
+    }
+    // Still full of live quotes: drop the oldest, Map iteration follows insertion order
+    if (quoteCache.size >= MAX_CACHED_QUOTES) {
+      quoteCache.delete(quoteCache.keys().next().value as string);
+    }
+  }
+  quoteCache.set(key, { rates, expiresAt: now + QUOTE_TTL_MS });
+}
+
+/**
+ * Shipping options for sending the cart to the destination, cheapest first.
+ */
+export async function getShippingRates(
+  destination: ShippingDestination,
+  lines: OrderLine[]
+): Promise<ShippingRate[]> {
+  assertShippableAddress(destination);
+  const provider = getFulfillmentProvider();
+  const items = fulfillmentItems(await getCatalog(), lines);
+  const key = cacheKey(provider.id, destination, items);
+  const cached = quoteCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.rates;
+  }
+
+  const rates = await provider.quoteShipping(destination, items);
+  if (rates.length === 0) {
+    throw new ShippingRateError('We cannot ship to this address');
+  }
+  rememberQuote(key, rates);
+  log.info('Fetched shipping rates', {
+    provider: provider.id,
+    countryCode: destination.countryCode,
+    methods: rates.map((rate) => rate.id),
+  });
+  return rates;
+}
+
+/**
+ * The quoted rate for a chosen method. Throws ShippingRateError if it is not offered for the
+ * destination, which is how a tampered or stale selection is rejected.
+ */
+export async function resolveShippingRate(
+  destination: ShippingDestination,
+  lines: OrderLine[],
+  rateId: string
+): Promise<ShippingRate> {
+  const rates = await getShippingRates(destination, lines);
+  const rate = rates.find((candidate) => candidate.id === rateId);
+  if (!rate) {
+    throw new ShippingRateError('That shipping method is not available for this address');
+  }
+  return rate;
+}
@@ -2,9 +2,44 @@ import { createTRPCRouter } from "./create-context";
 import hiRoute from "./routes/example/hi/route";
 import signupRoute from "./routes/auth/signup";
 import loginRoute from "./routes/auth/login";
+import refreshRoute from "./routes/auth/refresh";
+import logoutRoute from "./routes/auth/logout";
+import requestPasswordResetRoute from "./routes/auth/requestPasswordReset";
+import resetPasswordRoute from "./routes/auth/resetPassword";
+import sendVerificationRoute from "./routes/auth/sendVerification";
+import verifyEmailRoute from "./routes/auth/verifyEmail";
+import getSettingsRoute from "./routes/settings/get";
+import updateSettingsRoute from "./routes/settings/update";
+import generationSubmitRoute from "./routes/generation/submit";
+import generationJobRoute from "./routes/generation/job";
+import generationCancelRoute from "./routes/generation/cancel";
+import generationProvidersRoute from "./routes/generation/providers";
+import backgroundRemovalSubmitRoute from "./routes/backgroundRemoval/submit";
+import backgroundRemovalJobRoute from "./routes/backgroundRemoval/job";
+import paymentsCreateIntentRoute from "./routes/payments/createIntent";
+import paymentsStatusRoute from "./routes/payments/status";
+import ordersCreateRoute from "./routes/orders/create";
+import ordersListRoute from "./routes/orders/list";
+import ordersGetRoute from "./routes/orders/get";
+import ordersApplyPromoRoute from "./routes/orders/applyPromo";
+import ordersSubmissionsRoute from "./routes/orders/submissions";
+import ordersRetryRoute from "./routes/orders/retry";
+import ordersCancelRoute from "./routes/orders/cancel";
+import printFilesUploadRoute from "./routes/printFiles/upload";
+import promotionsListRoute from "./routes/promotions/list";
+import promotionsSaveRoute from "./routes/promotions/save";
+import shippingRatesRoute from "./routes/shipping/rates";
+import catalogListRoute from "./routes/catalog/list";
+import catalogPricingRoute from "./routes/catalog/pricing";
+import catalogSetPriceRoute from "./routes/catalog/setPrice";
+import catalogSyncRoute from "./routes/catalog/sync";
 import { generateSheetLayoutProcedure } from "./routes/stickers/generate-sheet-layout";
-
-console.log('[app-router] Creating app router with auth routes');
+import {
+  listStickersProcedure,
+  saveStickerProcedure,
+  updateStickerProcedure,
+  deleteStickerProcedure,
+} from "./routes/stickers/library";
 
 export const appRouter = createTRPCRouter({
   example: createTRPCRouter({
@@ -13,12 +48,63 @@ export const appRouter = createTRPCRouter({
   auth: createTRPCRouter({
     signup: signupRoute,
     login: loginRoute,
+    refresh: refreshRoute,
+    logout: logoutRoute,
+    requestPasswordReset: requestPasswordResetRoute,
+    resetPassword: resetPasswordRoute,
+    sendVerification: sendVerificationRoute,
+    verifyEmail: verifyEmailRoute,
+  }),
+  settings: createTRPCRouter({
+    get: getSettingsRoute,
+    update: updateSettingsRoute,
+  }),
+  generation: createTRPCRouter({
+    submit: generationSubmitRoute,
+    job: generationJobRoute,
+    cancel: generationCancelRoute,
+    providers: generationProvidersRoute,
+  }),
+  backgroundRemoval: createTRPCRouter({
+    submit: backgroundRemovalSubmitRoute,
+    job: backgroundRemovalJobRoute,
+  }),
+  payments: createTRPCRouter({
+    createIntent: paymentsCreateIntentRoute,
+    status: paymentsStatusRoute,
+  }),
+  orders: createTRPCRouter({
+    create: ordersCreateRoute,
+    list: ordersListRoute,
+    get: ordersGetRoute,
+    applyPromo: ordersApplyPromoRoute,
+    submissions: ordersSubmissionsRoute,
+    retry: ordersRetryRoute,
+    cancel: ordersCancelRoute,
+  }),
+  printFiles: createTRPCRouter({
+    upload: printFilesUploadRoute,
+  }),
+  promotions: createTRPCRouter({
+    list: promotionsListRoute,
+    save: promotionsSaveRoute,
+  }),
+  shipping: createTRPCRouter({
+    rates: shippingRatesRoute,
+  }),
+  catalog: createTRPCRouter({
+    list: catalogListRoute,
+    pricing: catalogPricingRoute,
+    setPrice: catalogSetPriceRoute,
+    sync: catalogSyncRoute,
   }),
   stickers: createTRPCRouter({
     generateSheetLayout: generateSheetLayoutProcedure,
+    list: listStickersProcedure,
+    save: saveStickerProcedure,
+    update: updateStickerProcedure,
+    delete: deleteStickerProcedure,
   }),
 });
 
-console.log('[app-router] App router created successfully');
-
 export type AppRouter = typeof appRouter;
\ No newline at end of file
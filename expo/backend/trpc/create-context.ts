@@ -1,33 +1,51 @@
 import { FetchCreateContextFnOptions } from "@trpc/server/adapters/fetch";
-import { initTRPC } from "@trpc/server";
+import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
-import jwt from "jsonwebtoken";
+import { verifyAccessToken } from "./routes/auth/tokens";
+import { getActiveSession } from "./routes/auth/sessions";
+import { RateLimitError } from "../rateLimit/errors";
+import { getRequestContext, logger as rootLogger } from "../logging";
+import { trpcCallDuration, trpcCallsTotal } from "../metrics";
+import type { UserRole } from "./routes/auth/store";
 
 export type AuthUser = {
   id: string;
   email: string;
   name: string;
+  role: UserRole;
 };
 
 // Context creation function
 export const createContext = async (opts: FetchCreateContextFnOptions) => {
   let user: AuthUser | null = null;
+  let sessionId: string | null = null;
   try {
     const authHeader = opts.req.headers.get("authorization");
     const token = authHeader?.startsWith("Bearer ") ? authHeader.slice(7) : null;
-    const secret = process.env.JWT_SECRET ?? "dev_secret_change_me";
-    if (token) {
-      const decoded = jwt.verify(token, secret) as AuthUser & { iat?: number; exp?: number };
-      if (decoded?.id && decoded?.email) {
-        user = { id: decoded.id, email: decoded.email, name: decoded.name };
-      }
+    const payload = token ? verifyAccessToken(token) : null;
+    // A valid signature is not enough: the session must not have been logged out or revoked
+    const session = payload ? await getActiveSession(payload.sid) : null;
+    if (payload && session && session.userId === payload.id) {
+      user = { id: payload.id, email: payload.email, name: payload.name, role: session.role };
+      sessionId = payload.sid;
     }
   } catch (e) {
-    // Ignore invalid token
+    rootLogger.error("Failed to resolve session", { component: "context", err: e });
   }
+
+  // Lines logged anywhere while serving this request now carry the caller's id too
+  const requestContext = getRequestContext();
+  if (requestContext && user) {
+    requestContext.userId = user.id;
+  }
+
   return {
     req: opts.req,
+    resHeaders: opts.resHeaders,
     user,
+    sessionId,
+    requestId: requestContext?.requestId ?? null,
+    logger: rootLogger.child({ component: "trpc" }),
   };
 };
 
@@ -36,16 +54,64 @@ export type Context = Awaited<ReturnType<typeof createContext>>;
 // Initialize tRPC
 const t = initTRPC.context<Context>().create({
   transformer: superjson,
+  errorFormatter({ shape, error }) {
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        retryAfterSeconds: error.cause instanceof RateLimitError ? error.cause.retryAfterSeconds : undefined,
+      },
+    };
+  },
 });
 
 export const createTRPCRouter = t.router;
-export const publicProcedure = t.procedure;
+
+// One log line and one metrics sample per procedure call, with its outcome and duration
+const logged = t.middleware(async ({ ctx, path, type, next }) => {
+  const requestContext = getRequestContext();
+  if (requestContext) {
+    requestContext.route = path;
+  }
+  const started = Date.now();
+  const result = await next();
+  const durationMs = Date.now() - started;
+  trpcCallsTotal.inc({ procedure: path, code: result.ok ? "OK" : result.error.code });
+  trpcCallDuration.observe({ procedure: path }, durationMs / 1000);
+  if (result.ok) {
+    ctx.logger.info("procedure completed", { route: path, type, durationMs });
+  } else {
+    const level = result.error.code === "INTERNAL_SERVER_ERROR" ? "error" : "warn";
+    ctx.logger[level]("procedure failed", {
+      route: path,
+      type,
+      durationMs,
+      code: result.error.code,
+      err: level === "error" ? result.error.cause ?? result.error : result.error.message,
+    });
+  }
+  return result;
+});
+
+export const publicProcedure = t.procedure.use(logged);
 
 const isAuthed = t.middleware(({ ctx, next }) => {
-  if (!ctx.user) {
-    throw new Error("UNAUTHORIZED");
+  if (!ctx.user || !ctx.sessionId) {
+    throw new TRPCError({ code: "UNAUTHORIZED" });
+  }
+  return next({ ctx: { ...ctx, user: ctx.user, sessionId: ctx.sessionId } });
+});
+
+export const protectedProcedure = publicProcedure.use(isAuthed);
+
+const isAdmin = t.middleware(({ ctx, next }) => {
+  if (!ctx.user || !ctx.sessionId) {
+    throw new TRPCError({ code: "UNAUTHORIZED" });
+  }
+  if (ctx.user.role !== "admin") {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Admin access required" });
   }
-  return next({ ctx: { ...ctx, user: ctx.user } });
+  return next({ ctx: { ...ctx, user: ctx.user, sessionId: ctx.sessionId } });
 });
 
-export const protectedProcedure = t.procedure.use(isAuthed);
\ No newline at end of file
+export const adminProcedure = publicProcedure.use(isAdmin);
@@ -0,0 +1,63 @@
+import { randomUUID } from "crypto";
+import { getDatabase } from "@/backend/db";
+import { generateOpaqueToken, hashToken } from "./tokens";
+
+export type ActionTokenPurpose = "password_reset" | "email_verification";
+
+const TTL_MS: Record<ActionTokenPurpose, number> = {
+  password_reset: 60 * 60 * 1000,
+  email_verification: 24 * 60 * 60 * 1000,
+};
+
+type ActionTokenRow = {
+  id: string;
+  user_id: string;
+  expires_at: string;
+  used_at: string | null;
+};
+
+// Issues a fresh single-use token; any earlier unused token for the same purpose stops working
+export async function createActionToken(userId: string, purpose: ActionTokenPurpose): Promise<string> {
+  const db = await getDatabase();
+  const token = generateOpaqueToken();
+  const now = new Date();
+
+  await db.transaction(async (tx) => {
+    await tx.run(
+      'UPDATE action_tokens SET used_at = ? WHERE user_id = ? AND purpose = ? AND used_at IS NULL',
+      [now.toISOString(), userId, purpose]
+    );
+    await tx.run(
+      `INSERT INTO action_tokens (id, user_id, purpose, token_hash, created_at, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        randomUUID(),
+        userId,
+        purpose,
+        hashToken(token),
+        now.toISOString(),
+        new Date(now.getTime() + TTL_MS[purpose]).toISOString(),
+      ]
+    );
+  });
+
+  return token;
+}
+
+// Marks the token used and returns its user id, or null if unknown, expired or already used
+export async function consumeActionToken(token: string, purpose: ActionTokenPurpose): Promise<string | null> {
+  const db = await getDatabase();
+
+  return db.transaction(async (tx) => {
+    const row = await tx.get<ActionTokenRow>(
+      'SELECT id, user_id, expires_at, used_at FROM action_tokens WHERE token_hash = ? AND purpose = ?',
+      [hashToken(token), purpose]
+    );
+    if (!row || row.used_at || new Date(row.expires_at).getTime() <= Date.now()) {
+      return null;
+    }
+
+    await tx.run('UPDATE action_tokens SET used_at = ? WHERE id = ?', [new Date().toISOString(), row.id]);
+    return row.user_id;
+  });
+}
@@ -1,7 +1,8 @@
 import { z } from "zod";
-import jwt from "jsonwebtoken";
+import { TRPCError } from "@trpc/server";
 import { publicProcedure } from "@/backend/trpc/create-context";
-import { verifyUser } from "./store";
+import { AccountLockedError, verifyUser } from "./store";
+import { createSession } from "./sessions";
 
 const LoginInput = z.object({
   email: z.string().email(),
@@ -10,30 +11,22 @@ const LoginInput = z.object({
 
 export default publicProcedure
   .input(LoginInput)
-  .mutation(async ({ input }) => {
+  .mutation(async ({ ctx, input }) => {
     try {
-      console.log('[login] Login procedure called');
-      console.log('[login] Attempting login for:', input.email);
-      
-      console.log('[login] Verifying user credentials...');
       const user = await verifyUser(input.email, input.password);
       if (!user) {
-        console.log('[login] Invalid credentials for:', input.email);
+        ctx.logger.info("Login rejected: invalid credentials");
         throw new Error("Invalid email or password");
       }
 
-      console.log('[login] Login successful for:', { id: user.id, email: user.email, name: user.name });
-      
-      console.log('[login] Generating JWT token...');
-      const secret = process.env.JWT_SECRET ?? "dev_secret_change_me";
-      const token = jwt.sign({ id: user.id, email: user.email, name: user.name }, secret, { expiresIn: "30d" });
-      console.log('[login] JWT token generated successfully');
-
-      const result = { id: user.id, email: user.email, name: user.name, token };
-      console.log('[login] Returning result:', { ...result, token: '***' });
+      const result = await createSession(user);
+      ctx.logger.info("Login successful", { userId: user.id });
       return result;
     } catch (error: any) {
-      console.error('[login] Error in login procedure:', error);
+      if (error instanceof AccountLockedError) {
+        ctx.resHeaders.set('Retry-After', String(error.retryAfterSeconds));
+        throw new TRPCError({ code: "TOO_MANY_REQUESTS", message: error.message, cause: error });
+      }
       throw error;
     }
   });
@@ -0,0 +1,20 @@
+import { z } from "zod";
+import { publicProcedure } from "@/backend/trpc/create-context";
+import { revokeSession, revokeSessionByRefreshToken } from "./sessions";
+
+const LogoutInput = z.object({
+  refreshToken: z.string().optional(),
+});
+
+// Public so a client whose access token already expired can still end its session
+export default publicProcedure
+  .input(LogoutInput)
+  .mutation(async ({ ctx, input }) => {
+    if (ctx.sessionId) {
+      await revokeSession(ctx.sessionId);
+    }
+    if (input.refreshToken) {
+      await revokeSessionByRefreshToken(input.refreshToken);
+    }
+    return { success: true };
+  });
@@ -0,0 +1,20 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { publicProcedure } from "@/backend/trpc/create-context";
+import { getUserById } from "./store";
+import { rotateSession } from "./sessions";
+
+const RefreshInput = z.object({
+  refreshToken: z.string().min(1),
+});
+
+export default publicProcedure
+  .input(RefreshInput)
+  .mutation(async ({ ctx, input }) => {
+    const result = await rotateSession(input.refreshToken, getUserById);
+    if (!result) {
+      ctx.logger.info("Refresh token rejected");
+      throw new TRPCError({ code: "UNAUTHORIZED", message: "Session expired" });
+    }
+    return result;
+  });
@@ -0,0 +1,25 @@
+import { z } from "zod";
+import { publicProcedure } from "@/backend/trpc/create-context";
+import { getMailer, passwordResetEmail } from "@/backend/mail";
+import { getUserByEmail } from "./store";
+import { createActionToken } from "./actionTokens";
+
+const RequestPasswordResetInput = z.object({
+  email: z.string().email(),
+});
+
+// Always reports success so the endpoint can't be used to discover registered emails
+export default publicProcedure
+  .input(RequestPasswordResetInput)
+  .mutation(async ({ ctx, input }) => {
+    const user = await getUserByEmail(input.email);
+    if (user) {
+      try {
+        const token = await createActionToken(user.id, "password_reset");
+        await getMailer().send(passwordResetEmail(user.email, token));
+      } catch (error) {
+        ctx.logger.error("Failed to send reset email", { userId: user.id, err: error });
+      }
+    }
+    return { success: true };
+  });
@@ -0,0 +1,28 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { publicProcedure } from "@/backend/trpc/create-context";
+import { markEmailVerified, updatePassword } from "./store";
+import { consumeActionToken } from "./actionTokens";
+import { revokeAllSessionsForUser } from "./sessions";
+
+const ResetPasswordInput = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6),
+});
+
+export default publicProcedure
+  .input(ResetPasswordInput)
+  .mutation(async ({ input }) => {
+    const userId = await consumeActionToken(input.token, "password_reset");
+    if (!userId) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "Reset link is invalid or has expired" });
+    }
+
+    await updatePassword(userId, input.password);
+    // The reset email reached this inbox, which proves ownership of the address
+    await markEmailVerified(userId);
+    // Anyone holding the old password may also hold a session; sign every device out
+    await revokeAllSessionsForUser(userId);
+
+    return { success: true };
+  });
@@ -0,0 +1,20 @@
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure } from "@/backend/trpc/create-context";
+import { getMailer, verificationEmail } from "@/backend/mail";
+import { getUserById } from "./store";
+import { createActionToken } from "./actionTokens";
+
+export default protectedProcedure
+  .mutation(async ({ ctx }) => {
+    const user = await getUserById(ctx.user.id);
+    if (!user) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "User not found" });
+    }
+    if (user.emailVerifiedAt) {
+      return { success: true, alreadyVerified: true };
+    }
+
+    const token = await createActionToken(user.id, "email_verification");
+    await getMailer().send(verificationEmail(user.email, token));
+    return { success: true, alreadyVerified: false };
+  });
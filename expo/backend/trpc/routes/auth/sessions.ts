@@ -0,0 +1,159 @@
+import { randomUUID } from "crypto";
+import { getDatabase } from "@/backend/db";
+import { createLogger } from "@/backend/logging";
+import type { StoredUser, UserRole } from "./store";
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  REFRESH_TOKEN_TTL_MS,
+  generateOpaqueToken,
+  hashToken,
+  signAccessToken,
+} from "./tokens";
+
+const log = createLogger({ component: "sessions" });
+
+type SessionRow = {
+  id: string;
+  user_id: string;
+  refresh_token_hash: string;
+  previous_token_hash: string | null;
+  created_at: string;
+  last_used_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+};
+
+export type AuthResult = {
+  id: string;
+  email: string;
+  name: string;
+  emailVerified: boolean;
+  role: UserRole;
+  token: string;
+  refreshToken: string;
+  accessTokenExpiresAt: string;
+};
+
+export async function createSession(user: StoredUser): Promise<AuthResult> {
+  const db = await getDatabase();
+  const sessionId = randomUUID();
+  const refreshToken = generateOpaqueToken();
+  const now = new Date();
+
+  await db.run(
+    `INSERT INTO sessions (id, user_id, refresh_token_hash, created_at, last_used_at, expires_at)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      sessionId,
+      user.id,
+      hashToken(refreshToken),
+      now.toISOString(),
+      now.toISOString(),
+      new Date(now.getTime() + REFRESH_TOKEN_TTL_MS).toISOString(),
+    ]
+  );
+
+  return buildAuthResult(user, sessionId, refreshToken);
+}
+
+// Exchanges a refresh token for a new access/refresh pair. Presenting a token that was
+// already rotated away means it leaked, so the whole session is revoked.
+export async function rotateSession(
+  refreshToken: string,
+  loadUser: (id: string) => Promise<StoredUser | undefined>
+): Promise<AuthResult | null> {
+  const db = await getDatabase();
+  const tokenHash = hashToken(refreshToken);
+
+  return db.transaction(async (tx) => {
+    const session = await tx.get<SessionRow>(
+      'SELECT * FROM sessions WHERE refresh_token_hash = ?',
+      [tokenHash]
+    );
+
+    if (!session) {
+      const reused = await tx.get<SessionRow>(
+        'SELECT * FROM sessions WHERE previous_token_hash = ? AND revoked_at IS NULL',
+        [tokenHash]
+      );
+      if (reused) {
+        log.warn("Refresh token reuse detected, revoking session", { sessionId: reused.id, userId: reused.user_id });
+        await tx.run('UPDATE sessions SET revoked_at = ? WHERE id = ?', [new Date().toISOString(), reused.id]);
+      }
+      return null;
+    }
+
+    if (session.revoked_at || new Date(session.expires_at).getTime() <= Date.now()) {
+      return null;
+    }
+
+    const user = await loadUser(session.user_id);
+    if (!user) {
+      return null;
+    }
+
+    const nextRefreshToken = generateOpaqueToken();
+    await tx.run(
+      `UPDATE sessions
+       SET refresh_token_hash = ?, previous_token_hash = ?, last_used_at = ?
+       WHERE id = ?`,
+      [hashToken(nextRefreshToken), tokenHash, new Date().toISOString(), session.id]
+    );
+
+    return buildAuthResult(user, session.id, nextRefreshToken);
+  });
+}
+
+// Looks up a live session together with the user's current role, so role changes
+// and revocations apply immediately rather than when the access token expires.
+export async function getActiveSession(sessionId: string): Promise<{ userId: string; role: UserRole } | null> {
+  const db = await getDatabase();
+  const session = await db.get<Pick<SessionRow, 'user_id' | 'revoked_at' | 'expires_at'> & { role: string }>(
+    `SELECT s.user_id, s.revoked_at, s.expires_at, u.role
+     FROM sessions s JOIN users u ON u.id = s.user_id
+     WHERE s.id = ?`,
+    [sessionId]
+  );
+  if (!session || session.revoked_at || new Date(session.expires_at).getTime() <= Date.now()) {
+    return null;
+  }
+  return { userId: session.user_id, role: session.role === "admin" ? "admin" : "user" };
+}
+
+export async function revokeSession(sessionId: string): Promise<void> {
+  const db = await getDatabase();
+  await db.run(
+    'UPDATE sessions SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL',
+    [new Date().toISOString(), sessionId]
+  );
+}
+
+export async function revokeSessionByRefreshToken(refreshToken: string): Promise<void> {
+  const db = await getDatabase();
+  await db.run(
+    'UPDATE sessions SET revoked_at = ? WHERE refresh_token_hash = ? AND revoked_at IS NULL',
+    [new Date().toISOString(), hashToken(refreshToken)]
+  );
+}
+
+export async function revokeAllSessionsForUser(userId: string): Promise<void> {
+  const db = await getDatabase();
+  await db.run(
+    'UPDATE sessions SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL',
+    [new Date().toISOString(), userId]
+  );
+}
+
+function buildAuthResult(user: StoredUser, sessionId: string, refreshToken: string): AuthResult {
+  const token = signAccessToken({ id: user.id, email: user.email, name: user.name, sid: sessionId });
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    emailVerified: !!user.emailVerifiedAt,
+    role: user.role,
+    token,
+    refreshToken,
+    accessTokenExpiresAt: new Date(Date.now() + ACCESS_TOKEN_TTL_SECONDS * 1000).toISOString(),
+  };
+}
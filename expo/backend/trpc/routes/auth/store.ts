@@ -1,5 +1,12 @@
 import bcrypt from "bcryptjs";
 import { randomUUID } from "crypto";
+import { getDatabase, isUniqueViolation } from "@/backend/db";
+import { RateLimitError } from "@/backend/rateLimit/errors";
+import { createLogger } from "@/backend/logging";
+
+const log = createLogger({ component: "auth" });
+
+export type UserRole = "user" | "admin";
 
 export interface StoredUser {
   id: string;
@@ -7,66 +14,195 @@ export interface StoredUser {
   name: string;
   passwordHash: string;
   createdAt: string;
+  emailVerifiedAt: string | null;
+  role: UserRole;
+  failedLoginCount: number;
+  lockedUntil: string | null;
 }
 
-const users: StoredUser[] = [];
+type UserRow = {
+  id: string;
+  email: string;
+  name: string;
+  password_hash: string;
+  created_at: string;
+  email_verified_at: string | null;
+  role: string;
+  failed_login_count: number;
+  locked_until: string | null;
+};
 
-// Create a test user for debugging
-(async () => {
-  try {
-    console.log('[store] Creating test user for debugging...');
-    const testUser = await createUser('test@example.com', 'password123', 'Test User');
-    console.log('[store] Test user created:', { id: testUser.id, email: testUser.email, name: testUser.name });
-  } catch (error) {
-    console.error('[store] Error creating test user:', error);
+// Lockout kicks in after LOCKOUT_THRESHOLD consecutive failures and doubles with each further failure
+const LOCKOUT_THRESHOLD = 5;
+const LOCKOUT_BASE_MS = 60 * 1000;
+const LOCKOUT_MAX_MS = 60 * 60 * 1000;
+
+export class AccountLockedError extends RateLimitError {
+  constructor(retryAfterSeconds: number) {
+    super("Too many failed login attempts. Please try again later.", retryAfterSeconds);
+    this.name = "AccountLockedError";
   }
-})();
+}
 
-export function getUserByEmail(email: string): StoredUser | undefined {
-  console.log('[store] Looking for user with email:', email);
-  console.log('[store] Available users:', users.map(u => u.email));
-  const user = users.find((u) => u.email.toLowerCase() === email.toLowerCase());
-  console.log('[store] User found:', !!user);
-  return user;
+export class EmailInUseError extends Error {
+  constructor() {
+    super("Email already in use");
+    this.name = "EmailInUseError";
+  }
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function toStoredUser(row: UserRow): StoredUser {
+  return {
+    id: row.id,
+    email: row.email,
+    name: row.name,
+    passwordHash: row.password_hash,
+    createdAt: row.created_at,
+    emailVerifiedAt: row.email_verified_at,
+    role: row.role === "admin" ? "admin" : "user",
+    failedLoginCount: Number(row.failed_login_count ?? 0),
+    lockedUntil: row.locked_until,
+  };
+}
+
+// Accounts listed in ADMIN_EMAILS become admins, at signup or at their next login
+function defaultRoleFor(email: string): UserRole {
+  const admins = (process.env.ADMIN_EMAILS ?? "")
+    .split(",")
+    .map((entry) => normalizeEmail(entry))
+    .filter(Boolean);
+  return admins.includes(email) ? "admin" : "user";
+}
+
+// Seed a known account for local debugging. Only runs when explicitly enabled.
+if (process.env.DEV_SEED_TEST_USER === "true") {
+  (async () => {
+    try {
+      if (await getUserByEmail('test@example.com')) return;
+      const testUser = await createUser('test@example.com', 'password123', 'Test User');
+      log.info("Seeded debug test user", { userId: testUser.id });
+    } catch (error) {
+      log.error("Failed to seed debug test user", { err: error });
+    }
+  })();
+}
+
+export async function getUserByEmail(email: string): Promise<StoredUser | undefined> {
+  const db = await getDatabase();
+  const row = await db.get<UserRow>('SELECT * FROM users WHERE email = ?', [normalizeEmail(email)]);
+  return row ? toStoredUser(row) : undefined;
+}
+
+export async function getUserById(id: string): Promise<StoredUser | undefined> {
+  const db = await getDatabase();
+  const row = await db.get<UserRow>('SELECT * FROM users WHERE id = ?', [id]);
+  return row ? toStoredUser(row) : undefined;
 }
 
 export async function createUser(email: string, password: string, name?: string): Promise<StoredUser> {
-  console.log('[store] Creating user with email:', email);
-  const id = randomUUID();
-  console.log('[store] Generated user ID:', id);
-  
-  console.log('[store] Hashing password...');
+  const normalized = normalizeEmail(email);
   const passwordHash = await bcrypt.hash(password, 10);
-  console.log('[store] Password hashed successfully');
-  
+
   const user: StoredUser = {
-    id,
-    email,
-    name: name ?? email.split("@")[0],
+    id: randomUUID(),
+    email: normalized,
+    name: name ?? normalized.split("@")[0],
     passwordHash,
     createdAt: new Date().toISOString(),
+    emailVerifiedAt: null,
+    role: defaultRoleFor(normalized),
+    failedLoginCount: 0,
+    lockedUntil: null,
   };
-  
-  users.push(user);
-  console.log('[store] User added to store. Total users:', users.length);
-  console.log('[store] Created user:', { id: user.id, email: user.email, name: user.name });
-  
+
+  const db = await getDatabase();
+  try {
+    await db.run(
+      'INSERT INTO users (id, email, name, password_hash, created_at, role) VALUES (?, ?, ?, ?, ?, ?)',
+      [user.id, user.email, user.name, user.passwordHash, user.createdAt, user.role]
+    );
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      throw new EmailInUseError();
+    }
+    throw error;
+  }
+
+  log.info("Created user", { userId: user.id, role: user.role });
   return user;
 }
 
+// Throws AccountLockedError while the account is locked out, even for the correct password
 export async function verifyUser(email: string, password: string): Promise<StoredUser | null> {
-  console.log('[store] Verifying user with email:', email);
-  console.log('[store] Total users in store:', users.length);
-  
-  const existing = getUserByEmail(email);
+  const existing = await getUserByEmail(email);
   if (!existing) {
-    console.log('[store] User not found:', email);
     return null;
   }
-  
-  console.log('[store] User found, verifying password...');
+
+  const lockedForMs = existing.lockedUntil ? new Date(existing.lockedUntil).getTime() - Date.now() : 0;
+  if (lockedForMs > 0) {
+    throw new AccountLockedError(lockedForMs / 1000);
+  }
+
   const ok = await bcrypt.compare(password, existing.passwordHash);
-  console.log('[store] Password verification result:', ok);
-  
-  return ok ? existing : null;
+  if (!ok) {
+    await recordFailedLogin(existing.id);
+    return null;
+  }
+
+  if (existing.failedLoginCount > 0 || existing.lockedUntil) {
+    await clearFailedLogins(existing.id);
+  }
+  // Listing an existing account promotes it at its next login. Accounts are never demoted here,
+  // so a deploy that leaves ADMIN_EMAILS unset cannot lock every admin out
+  if (existing.role !== "admin" && defaultRoleFor(existing.email) === "admin") {
+    await setUserRole(existing.id, "admin");
+    log.info("Promoted user listed in ADMIN_EMAILS", { userId: existing.id });
+    return { ...existing, role: "admin" };
+  }
+  return existing;
+}
+
+async function recordFailedLogin(userId: string): Promise<void> {
+  const db = await getDatabase();
+  await db.run('UPDATE users SET failed_login_count = failed_login_count + 1 WHERE id = ?', [userId]);
+  const row = await db.get<{ failed_login_count: number }>('SELECT failed_login_count FROM users WHERE id = ?', [userId]);
+  const failures = Number(row?.failed_login_count ?? 0);
+  if (failures < LOCKOUT_THRESHOLD) return;
+
+  const lockMs = Math.min(LOCKOUT_BASE_MS * 2 ** (failures - LOCKOUT_THRESHOLD), LOCKOUT_MAX_MS);
+  log.warn("Locking account after failed logins", { userId, failures, lockMs });
+  await db.run('UPDATE users SET locked_until = ? WHERE id = ?', [new Date(Date.now() + lockMs).toISOString(), userId]);
+}
+
+async function clearFailedLogins(userId: string): Promise<void> {
+  const db = await getDatabase();
+  await db.run('UPDATE users SET failed_login_count = 0, locked_until = NULL WHERE id = ?', [userId]);
+}
+
+export async function updatePassword(userId: string, password: string): Promise<void> {
+  const passwordHash = await bcrypt.hash(password, 10);
+  const db = await getDatabase();
+  // A successful reset also lifts any login lockout
+  await db.run(
+    'UPDATE users SET password_hash = ?, failed_login_count = 0, locked_until = NULL WHERE id = ?',
+    [passwordHash, userId]
+  );
+}
+
+export async function markEmailVerified(userId: string): Promise<void> {
+  const db = await getDatabase();
+  await db.run(
+    'UPDATE users SET email_verified_at = ? WHERE id = ? AND email_verified_at IS NULL',
+    [new Date().toISOString(), userId]
+  );
+}
+
+export async function setUserRole(userId: string, role: UserRole): Promise<void> {
+  const db = await getDatabase();
+  await db.run('UPDATE users SET role = ? WHERE id = ?', [role, userId]);
 }
@@ -0,0 +1,47 @@
+import jwt from "jsonwebtoken";
+import { createHash, randomBytes } from "crypto";
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type AccessTokenPayload = {
+  id: string;
+  email: string;
+  name: string;
+  sid: string;
+};
+
+export function getJwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("JWT_SECRET must be set in production");
+  }
+  return "dev_secret_change_me";
+}
+
+export function signAccessToken(payload: AccessTokenPayload): string {
+  return jwt.sign(payload, getJwtSecret(), { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+}
+
+// Returns null for malformed, tampered or expired tokens
+export function verifyAccessToken(token: string): AccessTokenPayload | null {
+  try {
+    const decoded = jwt.verify(token, getJwtSecret()) as Partial<AccessTokenPayload>;
+    if (!decoded?.id || !decoded?.email || !decoded?.sid) {
+      return null;
+    }
+    return { id: decoded.id, email: decoded.email, name: decoded.name ?? "", sid: decoded.sid };
+  } catch {
+    return null;
+  }
+}
+
+export function generateOpaqueToken(): string {
+  return randomBytes(48).toString("base64url");
+}
+
+// Refresh tokens are only ever stored hashed
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
@@ -0,0 +1,21 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { publicProcedure } from "@/backend/trpc/create-context";
+import { markEmailVerified } from "./store";
+import { consumeActionToken } from "./actionTokens";
+
+const VerifyEmailInput = z.object({
+  token: z.string().min(1),
+});
+
+export default publicProcedure
+  .input(VerifyEmailInput)
+  .mutation(async ({ input }) => {
+    const userId = await consumeActionToken(input.token, "email_verification");
+    if (!userId) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "Verification link is invalid or has expired" });
+    }
+
+    await markEmailVerified(userId);
+    return { success: true };
+  });
@@ -0,0 +1,9 @@
+import { z } from "zod";
+import { protectedProcedure } from "@/backend/trpc/create-context";
+import { submitBackgroundRemoval } from "@/backend/backgroundRemoval";
+
+export default protectedProcedure
+  .input(z.object({ imageBase64: z.string().min(1) }))
+  .mutation(async ({ ctx, input }) => {
+    return submitBackgroundRemoval(ctx.user.id, input.imageBase64);
+  });
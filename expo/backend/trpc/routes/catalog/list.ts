@@ -0,0 +1,18 @@
+import { publicProcedure } from "@/backend/trpc/create-context";
+import { getCatalog } from "@/backend/catalog";
+
+// What the app offers and charges; base costs and margins stay with the admin view
+export default publicProcedure.query(async () => {
+  const catalog = await getCatalog();
+  return {
+    syncedAt: catalog.syncedAt,
+    variants: catalog.variants.map((variant) => ({
+      kind: variant.kind,
+      size: variant.size,
+      productName: variant.productName,
+      sizeLabel: variant.sizeLabel,
+      price: variant.price,
+      available: variant.available,
+    })),
+  };
+});
@@ -0,0 +1,7 @@
+import { adminProcedure } from "@/backend/trpc/create-context";
+import { getCatalog } from "@/backend/catalog";
+
+// Every variant with its base cost and how its price is set, for the admin price editor
+export default adminProcedure.query(async () => {
+  return getCatalog();
+});
@@ -0,0 +1,24 @@
+import { z } from "zod";
+import { adminProcedure } from "@/backend/trpc/create-context";
+import { setCatalogPrice } from "@/backend/catalog";
+import { INDIVIDUAL_SIZES, SHEET_SIZES } from "@/backend/payments";
+
+// Prices in cents; a margin is a percentage over Printful's base cost. Leaving both out goes
+// back to the default price
+const SetPriceInput = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("sheet"), size: z.enum(SHEET_SIZES) }),
+  z.object({ kind: z.literal("individual"), size: z.enum(INDIVIDUAL_SIZES) }),
+]).and(z.object({
+  retailPrice: z.number().int().min(50).max(100_000).nullable().optional(),
+  marginPercent: z.number().int().min(0).max(1000).nullable().optional(),
+})).refine((input) => input.retailPrice == null || input.marginPercent == null, {
+  message: "Set either a retail price or a margin, not both",
+});
+
+export default adminProcedure
+  .input(SetPriceInput)
+  .mutation(async ({ ctx, input }) => {
+    const catalog = await setCatalogPrice(input);
+    ctx.logger.info("Catalog price saved", { kind: input.kind, size: input.size });
+    return catalog;
+  });
@@ -0,0 +1,17 @@
+import { TRPCError } from "@trpc/server";
+import { adminProcedure } from "@/backend/trpc/create-context";
+import { getCatalog, syncCatalog } from "@/backend/catalog";
+import { PrintfulApiError } from "@/backend/printful";
+
+// Syncs now instead of waiting for the schedule, e.g. after changing products in Printful
+export default adminProcedure.mutation(async () => {
+  try {
+    const result = await syncCatalog();
+    return { ...result, catalog: await getCatalog() };
+  } catch (error) {
+    if (error instanceof PrintfulApiError) {
+      throw new TRPCError({ code: "BAD_GATEWAY", message: "Printful's catalog is unavailable", cause: error });
+    }
+    throw error;
+  }
+});
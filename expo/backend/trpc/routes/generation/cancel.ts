@@ -0,0 +1,14 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure } from "@/backend/trpc/create-context";
+import { cancelGenerationJob } from "@/backend/generation";
+
+export default protectedProcedure
+  .input(z.object({ jobId: z.string().min(1) }))
+  .mutation(async ({ ctx, input }) => {
+    const job = await cancelGenerationJob(ctx.user.id, input.jobId);
+    if (!job) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Generation job not found" });
+    }
+    return job;
+  });
@@ -0,0 +1,17 @@
+import { adminProcedure } from "@/backend/trpc/create-context";
+import { getProviderChain, listImageProviders, providerCircuitBreaker } from "@/backend/generation";
+
+// Registry contents plus live health, for the admin fallback-chain editor
+export default adminProcedure.query(async () => {
+  const chain = (await getProviderChain()).map((provider) => provider.id);
+  return {
+    chain,
+    providers: listImageProviders().map((provider) => ({
+      id: provider.id,
+      label: provider.label,
+      capabilities: provider.capabilities,
+      configured: provider.isConfigured(),
+      circuit: providerCircuitBreaker.getStatus(provider.id),
+    })),
+  };
+});
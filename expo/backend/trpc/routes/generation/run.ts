@@ -0,0 +1,19 @@
+import { TRPCError } from "@trpc/server";
+import { GenerationQuotaError, reserveGeneration } from "@/backend/generation";
+import type { GenerationReservation } from "@/backend/generation";
+import type { AuthUser } from "../../create-context";
+
+type GenerationContext = { user: AuthUser; resHeaders: Headers };
+
+// Charges one generation to the caller, surfacing an exhausted quota as a 429 with Retry-After
+export async function reserveOrThrow(ctx: GenerationContext): Promise<GenerationReservation> {
+  try {
+    return await reserveGeneration(ctx.user);
+  } catch (error) {
+    if (error instanceof GenerationQuotaError) {
+      ctx.resHeaders.set('Retry-After', String(error.retryAfterSeconds));
+      throw new TRPCError({ code: "TOO_MANY_REQUESTS", message: error.message, cause: error });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,29 @@
+import { z } from "zod";
+import { protectedProcedure } from "@/backend/trpc/create-context";
+import { submitGenerationJob } from "@/backend/generation";
+import { reserveOrThrow } from "./run";
+
+const SubmitInput = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("edit"),
+    imageBase64: z.string().min(1),
+    prompt: z.string().min(1).max(8000),
+  }),
+  z.object({
+    kind: z.literal("create"),
+    prompt: z.string().min(1).max(8000),
+  }),
+]);
+
+export default protectedProcedure
+  .input(SubmitInput)
+  .mutation(async ({ ctx, input }) => {
+    // Charged up front so an exhausted quota is reported now rather than when the job runs
+    const reservation = await reserveOrThrow(ctx);
+    try {
+      return await submitGenerationJob(ctx.user.id, input, reservation.day);
+    } catch (error) {
+      await reservation.release();
+      throw error;
+    }
+  });
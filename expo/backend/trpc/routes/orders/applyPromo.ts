@@ -0,0 +1,58 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure } from "@/backend/trpc/create-context";
+import { catalogPriceList, getCatalog } from "@/backend/catalog";
+import { quoteOrder } from "@/backend/payments";
+import { PrintfulApiError } from "@/backend/printful";
+import { checkPromoCode, PromoCodeError } from "@/backend/promotions";
+import { AddressValidationError, resolveShippingRate, ShippingRateError } from "@/backend/shipping";
+import { orderLinesInput } from "./inputs";
+
+const ApplyPromoInput = z.object({
+  code: z.string().trim().min(1).max(40),
+  items: orderLinesInput,
+  // Optional so a code can be tried before a shipping method is chosen
+  shipping: z.object({
+    rateId: z.string().min(1).max(64),
+    destination: z.object({
+      countryCode: z.string().length(2),
+      stateCode: z.string().max(10).optional(),
+      city: z.string().max(120).optional(),
+      zip: z.string().max(20),
+      address1: z.string().max(300).optional(),
+    }),
+  }).optional(),
+});
+
+/**
+ * Checks a promo code and prices the order with it. Nothing is claimed here; the code is
+ * reserved when the payment is opened, so the quote can still be refused at that point.
+ */
+export default protectedProcedure
+  .input(ApplyPromoInput)
+  .mutation(async ({ ctx, input }) => {
+    try {
+      const promo = await checkPromoCode(ctx.user.id, input.code);
+      const shippingRate = input.shipping
+        ? await resolveShippingRate(input.shipping.destination, input.items, input.shipping.rateId)
+        : null;
+      // Without a shipping method the quote leaves shipping out, as the checkout summary does
+      const prices = catalogPriceList(await getCatalog());
+      const quote = quoteOrder(input.items, prices, shippingRate?.amount ?? 0, promo);
+      return {
+        promo: { code: promo.code, kind: promo.kind, value: promo.value, description: promo.description },
+        quote,
+      };
+    } catch (error) {
+      if (error instanceof PromoCodeError) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: error.message, cause: error });
+      }
+      if (error instanceof ShippingRateError || error instanceof AddressValidationError) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: error.message, cause: error });
+      }
+      if (error instanceof PrintfulApiError) {
+        throw new TRPCError({ code: "BAD_GATEWAY", message: "Shipping rates are unavailable", cause: error });
+      }
+      throw error;
+    }
+  });
@@ -0,0 +1,32 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { adminProcedure } from "@/backend/trpc/create-context";
+import { cancelOrder, OrderCancelError } from "@/backend/orders";
+import { FulfillmentError } from "@/backend/fulfillment";
+import { PrintfulApiError } from "@/backend/printful";
+
+// Stops an order that has not shipped, with its fulfillment provider first if it was sent there
+export default adminProcedure
+  .input(
+    z.object({
+      orderId: z.string().min(1),
+      reason: z.string().trim().min(1).max(500).default("Canceled by admin"),
+    })
+  )
+  .mutation(async ({ ctx, input }) => {
+    try {
+      return await cancelOrder(input.orderId, input.reason);
+    } catch (error) {
+      if (error instanceof OrderCancelError) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+      }
+      if (error instanceof FulfillmentError || error instanceof PrintfulApiError) {
+        ctx.logger.warn("Fulfillment provider refused to cancel order", { orderId: input.orderId, err: error });
+        throw new TRPCError({
+          code: error instanceof FulfillmentError && error.permanent ? "BAD_REQUEST" : "BAD_GATEWAY",
+          message: `The fulfillment provider could not cancel this order: ${error.message}`,
+        });
+      }
+      throw error;
+    }
+  });
@@ -0,0 +1,50 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure } from "@/backend/trpc/create-context";
+import { MAX_ORDER_LINES } from "@/backend/payments";
+import { createOrder, OrderPaymentError } from "@/backend/orders";
+import { PrintFileError } from "@/backend/printFiles";
+import { AddressValidationError } from "@/backend/shipping";
+import { orderLineInput } from "./inputs";
+
+const CreateOrderInput = z.object({
+  idempotencyKey: z.string().min(8).max(100),
+  paymentIntentId: z.string().min(1),
+  items: z.array(orderLineInput.extend({
+    stickerCount: z.number().int().min(1).max(500).optional(),
+    printFile: z.object({
+      fileId: z.string().regex(/^[a-f0-9]{64}$/).optional(),
+      url: z.string().min(1).optional(),
+      filename: z.string().max(200).optional(),
+    }).refine((file) => !!file.fileId !== !!file.url, "Send either a print file id or a URL"),
+  })).min(1).max(MAX_ORDER_LINES),
+  recipient: z.object({
+    name: z.string().min(1).max(200),
+    company: z.string().max(200).optional(),
+    email: z.string().email(),
+    phone: z.string().max(40).optional(),
+    address1: z.string().min(1).max(300),
+    address2: z.string().max(300).optional(),
+    city: z.string().min(1).max(120),
+    stateCode: z.string().max(10).optional(),
+    countryCode: z.string().length(2).default("US"),
+    zip: z.string().max(20),
+  }),
+});
+
+export default protectedProcedure
+  .input(CreateOrderInput)
+  .mutation(async ({ ctx, input }) => {
+    try {
+      return await createOrder(ctx.user.id, input);
+    } catch (error) {
+      if (
+        error instanceof OrderPaymentError ||
+        error instanceof AddressValidationError ||
+        error instanceof PrintFileError
+      ) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: error.message, cause: error });
+      }
+      throw error;
+    }
+  });
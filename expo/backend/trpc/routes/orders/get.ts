@@ -0,0 +1,23 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure } from "@/backend/trpc/create-context";
+import { getOrder, refreshOrderStatus } from "@/backend/orders";
+
+export default protectedProcedure
+  .input(z.object({ id: z.string().min(1) }))
+  .query(async ({ ctx, input }) => {
+    const order = await getOrder(ctx.user.id, input.id);
+    if (!order) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Order not found" });
+    }
+
+    // Providers without webhooks are asked for the latest status when the order is viewed
+    try {
+      if (await refreshOrderStatus(order)) {
+        return (await getOrder(ctx.user.id, input.id)) ?? order;
+      }
+    } catch (error) {
+      ctx.logger.warn("Could not refresh order status from fulfillment provider", { orderId: order.id, err: error });
+    }
+    return order;
+  });
@@ -0,0 +1,16 @@
+import { z } from "zod";
+import { INDIVIDUAL_SIZES, MAX_LINE_QUANTITY, MAX_ORDER_LINES, SHEET_SIZES } from "@/backend/payments";
+
+// Shared by every procedure that prices a cart, so they all accept the same lines
+
+export const orderProductInput = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("sheet"), size: z.enum(SHEET_SIZES) }),
+  z.object({ kind: z.literal("individual"), size: z.enum(INDIVIDUAL_SIZES) }),
+]);
+
+export const orderLineInput = z.object({
+  product: orderProductInput,
+  quantity: z.number().int().min(1).max(MAX_LINE_QUANTITY),
+});
+
+export const orderLinesInput = z.array(orderLineInput).min(1).max(MAX_ORDER_LINES);
@@ -0,0 +1,21 @@
+import { z } from "zod";
+import { protectedProcedure } from "@/backend/trpc/create-context";
+import { listOrders } from "@/backend/orders";
+
+export default protectedProcedure
+  .input(
+    z.object({
+      limit: z.number().int().min(1).max(50).default(20),
+      before: z.string().optional(),
+      // Previews are small, but most callers only need the orders themselves
+      includePreview: z.boolean().default(false),
+    }).optional()
+  )
+  .query(async ({ ctx, input }) => {
+    const limit = input?.limit ?? 20;
+    const orders = await listOrders(ctx.user.id, { limit, before: input?.before, includePreview: input?.includePreview });
+    return {
+      orders,
+      nextCursor: orders.length === limit ? orders[orders.length - 1].createdAt : null,
+    };
+  });
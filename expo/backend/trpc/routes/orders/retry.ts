@@ -0,0 +1,16 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { adminProcedure } from "@/backend/trpc/create-context";
+import { retryOrderSubmission } from "@/backend/orders";
+
+export default adminProcedure
+  .input(z.object({ orderId: z.string().min(1) }))
+  .mutation(async ({ input }) => {
+    if (!(await retryOrderSubmission(input.orderId))) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Only failed orders that never reached the fulfillment provider can be retried",
+      });
+    }
+    return { retried: true };
+  });
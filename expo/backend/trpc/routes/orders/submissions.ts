@@ -0,0 +1,15 @@
+import { z } from "zod";
+import { adminProcedure } from "@/backend/trpc/create-context";
+import { listOrderSubmissions } from "@/backend/orders";
+
+// Orders still retrying or given up on by the submission outbox
+export default adminProcedure
+  .input(
+    z.object({
+      status: z.enum(["pending", "running", "dead"]).optional(),
+      limit: z.number().int().min(1).max(100).default(50),
+    }).optional()
+  )
+  .query(async ({ input }) => {
+    return { submissions: await listOrderSubmissions({ status: input?.status, limit: input?.limit ?? 50 }) };
+  });
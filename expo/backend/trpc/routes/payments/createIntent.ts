@@ -0,0 +1,52 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure } from "@/backend/trpc/create-context";
+import { CatalogError } from "@/backend/catalog";
+import { StripeApiError, isStripeConfigured, startPayment } from "@/backend/payments";
+import { PrintfulApiError } from "@/backend/printful";
+import { PromoCodeError } from "@/backend/promotions";
+import { AddressValidationError, ShippingRateError } from "@/backend/shipping";
+import { orderLinesInput } from "@/backend/trpc/routes/orders/inputs";
+
+const CreateIntentInput = z.object({
+  items: orderLinesInput,
+  shipping: z.object({
+    rateId: z.string().min(1).max(64),
+    destination: z.object({
+      countryCode: z.string().length(2),
+      stateCode: z.string().max(10).optional(),
+      city: z.string().max(120).optional(),
+      zip: z.string().max(20),
+      address1: z.string().max(300).optional(),
+    }),
+  }),
+  receiptEmail: z.string().email().optional(),
+  promoCode: z.string().trim().min(1).max(40).optional(),
+});
+
+export default protectedProcedure
+  .input(CreateIntentInput)
+  .mutation(async ({ ctx, input }) => {
+    if (!isStripeConfigured()) {
+      throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Payments are not configured" });
+    }
+    try {
+      return await startPayment(ctx.user, input.items, input.shipping, input.receiptEmail, input.promoCode);
+    } catch (error) {
+      if (
+        error instanceof CatalogError ||
+        error instanceof ShippingRateError ||
+        error instanceof AddressValidationError ||
+        error instanceof PromoCodeError
+      ) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: error.message, cause: error });
+      }
+      if (error instanceof PrintfulApiError) {
+        throw new TRPCError({ code: "BAD_GATEWAY", message: "Shipping rates are unavailable", cause: error });
+      }
+      if (error instanceof StripeApiError) {
+        throw new TRPCError({ code: "BAD_GATEWAY", message: "Payment provider is unavailable", cause: error });
+      }
+      throw error;
+    }
+  });
@@ -0,0 +1,14 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure } from "@/backend/trpc/create-context";
+import { getPaymentStatus } from "@/backend/payments";
+
+export default protectedProcedure
+  .input(z.object({ paymentIntentId: z.string().min(1) }))
+  .query(async ({ ctx, input }) => {
+    const payment = await getPaymentStatus(ctx.user.id, input.paymentIntentId);
+    if (!payment) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Payment not found" });
+    }
+    return payment;
+  });
@@ -0,0 +1,21 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure } from "@/backend/trpc/create-context";
+import { decodeImageData, MAX_PRINT_FILE_BYTES, PrintFileError, storePrintFile } from "@/backend/printFiles";
+
+// Base64 takes four characters for every three bytes, plus room for a data URL prefix
+const MAX_IMAGE_LENGTH = Math.ceil(MAX_PRINT_FILE_BYTES / 3) * 4 + 100;
+
+// Stores a print file ahead of checkout; orders then refer to it by the returned id
+export default protectedProcedure
+  .input(z.object({ image: z.string().min(1).max(MAX_IMAGE_LENGTH) }))
+  .mutation(async ({ input }) => {
+    try {
+      return await storePrintFile(decodeImageData(input.image));
+    } catch (error) {
+      if (error instanceof PrintFileError) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: error.message, cause: error });
+      }
+      throw error;
+    }
+  });
@@ -0,0 +1,6 @@
+import { adminProcedure } from "@/backend/trpc/create-context";
+import { listPromoCodes } from "@/backend/promotions";
+
+export default adminProcedure.query(async () => {
+  return { promoCodes: await listPromoCodes() };
+});
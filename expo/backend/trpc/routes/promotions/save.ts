@@ -0,0 +1,26 @@
+import { z } from "zod";
+import { adminProcedure } from "@/backend/trpc/create-context";
+import { savePromoCode } from "@/backend/promotions";
+
+const SavePromoCodeInput = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("percent"), value: z.number().int().min(1).max(100) }),
+  // Cents off the merchandise subtotal
+  z.object({ kind: z.literal("fixed"), value: z.number().int().min(1).max(100_000) }),
+  z.object({ kind: z.literal("free_shipping"), value: z.literal(0).default(0) }),
+]).and(z.object({
+  code: z.string().trim().min(3).max(40).regex(/^[A-Za-z0-9_-]+$/, "Use letters, digits, - and _ only"),
+  description: z.string().max(200).optional(),
+  maxUses: z.number().int().min(1).nullable().optional(),
+  maxUsesPerUser: z.number().int().min(1).nullable().optional(),
+  expiresAt: z.string().datetime().nullable().optional(),
+  active: z.boolean().optional(),
+}));
+
+// Creates a code or replaces an existing one's settings; past redemptions keep the terms they were given
+export default adminProcedure
+  .input(SavePromoCodeInput)
+  .mutation(async ({ ctx, input }) => {
+    const promo = await savePromoCode(input);
+    ctx.logger.info("Promo code saved", { code: promo.code, kind: promo.kind, active: promo.active });
+    return promo;
+  });
@@ -0,0 +1,8 @@
+import { protectedProcedure } from "@/backend/trpc/create-context";
+import { getAdminSettings } from "./store";
+
+// Readable by every signed-in user: generation needs the prompts and model choice
+export default protectedProcedure
+  .query(async () => {
+    return getAdminSettings();
+  });
@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { getDatabase } from "@/backend/db";
+import { createLogger } from "@/backend/logging";
+
+export const editModelSchema = z.enum(["gpt-image-1-mini", "nano-banana", "seedream"]);
+
+export const adminSettingsSchema = z.object({
+  initialGenerationPrompt: z.string().optional(),
+  regenerationPrompt: z.string().optional(),
+  editPrompt: z.string().optional(),
+  editModel: editModelSchema.optional(),
+  // Tried in order after editModel when it is failing or cannot handle the request
+  fallbackModels: z.array(editModelSchema).max(10).optional(),
+});
+
+export type StoredAdminSettings = z.infer<typeof adminSettingsSchema>;
+
+const ADMIN_SETTINGS_KEY = "admin_settings";
+
+// Only overrides are stored; the app merges them over its built-in defaults
+export async function getAdminSettings(): Promise<StoredAdminSettings> {
+  const db = await getDatabase();
+  const row = await db.get<{ value: string }>('SELECT value FROM settings WHERE key = ?', [ADMIN_SETTINGS_KEY]);
+  if (!row) return {};
+
+  try {
+    const parsed = adminSettingsSchema.safeParse(JSON.parse(row.value));
+    return parsed.success ? parsed.data : {};
+  } catch (error) {
+    createLogger({ component: "settings" }).error("Stored admin settings are not valid JSON", { err: error });
+    return {};
+  }
+}
+
+export async function saveAdminSettings(settings: StoredAdminSettings, updatedBy: string): Promise<StoredAdminSettings> {
+  const db = await getDatabase();
+  const merged = { ...(await getAdminSettings()), ...settings };
+  await db.run(
+    `INSERT INTO settings (key, value, updated_at, updated_by) VALUES (?, ?, ?, ?)
+     ON CONFLICT (key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at, updated_by = excluded.updated_by`,
+    [ADMIN_SETTINGS_KEY, JSON.stringify(merged), new Date().toISOString(), updatedBy]
+  );
+  return merged;
+}
@@ -0,0 +1,9 @@
+import { adminProcedure } from "@/backend/trpc/create-context";
+import { adminSettingsSchema, saveAdminSettings } from "./store";
+
+export default adminProcedure
+  .input(adminSettingsSchema)
+  .mutation(async ({ ctx, input }) => {
+    ctx.logger.info("Admin settings updated");
+    return saveAdminSettings(input, ctx.user.id);
+  });
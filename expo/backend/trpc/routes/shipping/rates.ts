@@ -0,0 +1,37 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure } from "@/backend/trpc/create-context";
+import { PrintfulApiError } from "@/backend/printful";
+import { AddressValidationError, getShippingRates, ShippingRateError } from "@/backend/shipping";
+import { orderLinesInput } from "@/backend/trpc/routes/orders/inputs";
+
+const ShippingRatesInput = z.object({
+  items: orderLinesInput,
+  destination: z.object({
+    countryCode: z.string().length(2),
+    stateCode: z.string().max(10).optional(),
+    city: z.string().max(120).optional(),
+    zip: z.string().max(20),
+    address1: z.string().max(300).optional(),
+  }),
+});
+
+export default protectedProcedure
+  .input(ShippingRatesInput)
+  .query(async ({ input }) => {
+    try {
+      return { rates: await getShippingRates(input.destination, input.items) };
+    } catch (error) {
+      if (error instanceof ShippingRateError || error instanceof AddressValidationError) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: error.message, cause: error });
+      }
+      if (error instanceof PrintfulApiError) {
+        // Printful answers 400 for addresses it cannot ship to
+        if (error.status === 400) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: error.message, cause: error });
+        }
+        throw new TRPCError({ code: "BAD_GATEWAY", message: "Shipping rates are unavailable", cause: error });
+      }
+      throw error;
+    }
+  });
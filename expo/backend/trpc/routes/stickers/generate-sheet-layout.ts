@@ -1,17 +1,70 @@
 import { z } from 'zod';
-import { publicProcedure } from '../../create-context';
+import { TRPCError } from '@trpc/server';
+import {
+  CompositingError,
+  compositeSheet,
+  decodeSticker,
+  type SheetPlacement,
+  type SheetRotation,
+} from '@/backend/compositing';
+import { cutlinePathData, traceCutline } from '@/backend/cutlines';
+import { protectedProcedure } from '../../create-context';
 
 const sheetSizeSchema = z.enum(['3x3', '4x4', '5.5x5.5']);
 
+// Every sticker is decoded and resampled in memory, so how many and how big are capped
+const MAX_STICKER_IMAGE_LENGTH = 14 * 1024 * 1024;
+const MAX_TOTAL_IMAGE_LENGTH = 40 * 1024 * 1024;
+const MAX_SHEET_STICKERS = 16;
+const MAX_SHEET_PLACEMENTS = 64;
+const MAX_SHEET_INCHES = 5.5;
+
+const stickerImageSchema = z.string().min(1).max(MAX_STICKER_IMAGE_LENGTH);
+const inchesSchema = z.number().min(0).max(MAX_SHEET_INCHES);
+
+const placementInputSchema = z.object({
+  // 0 is stickerImageBase64, 1 onwards extraStickerImagesBase64
+  sticker: z.number().int().min(0).max(MAX_SHEET_STICKERS - 1).default(0),
+  // The art box, from the sheet's top-left corner; the sticker is fitted inside and centered
+  xInches: inchesSchema,
+  yInches: inchesSchema,
+  widthInches: inchesSchema.min(0.1),
+  heightInches: inchesSchema.min(0.1),
+  rotation: z.union([z.literal(0), z.literal(90), z.literal(180), z.literal(270)]).default(0),
+});
+
 const generateSheetLayoutInputSchema = z.object({
-  stickerImageBase64: z.string(),
+  stickerImageBase64: stickerImageSchema,
+  extraStickerImagesBase64: z.array(stickerImageSchema).max(MAX_SHEET_STICKERS - 1).default([]),
   sheetSize: sheetSizeSchema,
-  cellSizeInches: z.number().default(0.25),
-  outerMarginInches: z.number().default(0.125),
-  cellGapInches: z.number().default(0.25),
-  bleedInches: z.number().default(0.0),
-  whiteBorderInches: z.number().default(0.0),
-  dpi: z.number().default(300),
+  cellSizeInches: z.number().min(0.25).max(MAX_SHEET_INCHES).default(0.25),
+  outerMarginInches: z.number().min(0).max(1).default(0.125),
+  cellGapInches: z.number().min(0).max(1).default(0.25),
+  bleedInches: z.number().min(0).max(0.25).default(0.0),
+  whiteBorderInches: z.number().min(0).max(0.25).default(0.0),
+  // Stickers arranged by the customer; without placements the sheet is a grid of stickerImageBase64
+  placements: z.array(placementInputSchema).min(1).max(MAX_SHEET_PLACEMENTS).optional(),
+  // The print image is rendered at this resolution, so it is capped to keep sheets a sane size
+  dpi: z.number().int().min(72).max(600).default(300),
+}).superRefine((input, ctx) => {
+  if (2 * input.whiteBorderInches >= input.cellSizeInches) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['whiteBorderInches'], message: 'The white border leaves no room for the art' });
+  }
+  const imageLength = input.extraStickerImagesBase64.reduce((sum, image) => sum + image.length, input.stickerImageBase64.length);
+  if (imageLength > MAX_TOTAL_IMAGE_LENGTH) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['extraStickerImagesBase64'], message: 'The sticker images are too large' });
+  }
+  const shapes = new Set<string>();
+  for (const [index, placement] of (input.placements ?? []).entries()) {
+    if (placement.sticker > input.extraStickerImagesBase64.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['placements', index, 'sticker'], message: 'No such sticker image' });
+    }
+    shapes.add(`${placement.sticker}:${placement.widthInches}x${placement.heightInches}`);
+  }
+  // Each sticker and box size is traced separately
+  if (shapes.size > MAX_SHEET_STICKERS) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['placements'], message: 'Too many different sticker sizes on one sheet' });
+  }
 });
 
 type SheetConfig = {
@@ -25,14 +78,18 @@ type SheetConfig = {
 };
 
 type Placement = {
-  row: number;
-  col: number;
+  // Grid position; hand-arranged placements have none
+  row: number | null;
+  col: number | null;
   cellX: number;
   cellY: number;
   cellW: number;
   cellH: number;
   artBboxPx: [number, number, number, number];
-  cutlinePathSvg: string;
+  sticker: number;
+  rotation: SheetRotation;
+  // Index into the sheet's cutlinePathsSvg
+  cutline: number;
 };
 
 type SheetManifest = {
@@ -49,11 +106,15 @@ type SheetManifest = {
       bleedIn: number;
       whiteBorderIn: number;
     };
-    cellsPerSide: number;
+    // Grid sheets only
+    cellsPerSide: number | null;
     totalMinis: number;
-    cellPixels: number;
-    gapPixels: number;
+    cellPixels: number | null;
+    gapPixels: number | null;
     outerMarginPx: number;
+    // Cut paths relative to the top-left of an unrotated art box, shared by every placement of
+    // the same sticker and size
+    cutlinePathsSvg: string[];
     placements: Placement[];
   }[];
   sourceImageInfo: {
@@ -63,6 +124,10 @@ type SheetManifest = {
   };
 };
 
+function decodeStickerImage(value: string): Buffer {
+  return Buffer.from(value.startsWith('data:') ? value.slice(value.indexOf(',') + 1) : value, 'base64');
+}
+
 function getSheetDimensions(size: string): [number, number] {
   switch (size) {
     case '3x3':
@@ -105,6 +170,7 @@ function calculateSheetConfig(
   };
 }
 
+// Used when the sticker has no usable alpha to trace
 function generateCutlinePath(
   x: number,
   y: number,
@@ -129,11 +195,48 @@ function generateCutlinePath(
     `Q ${x1} ${y1} ${x1 + radius} ${y1} Z`;
 }
 
-export const generateSheetLayoutProcedure = publicProcedure
+function decodeStickers(images: Buffer[]): ReturnType<typeof decodeSticker>[] {
+  try {
+    return images.map(decodeSticker);
+  } catch (error) {
+    if (error instanceof CompositingError) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: error.message, cause: error });
+    }
+    throw error;
+  }
+}
+
+// Grid sheets repeat the first sticker in every cell that fits
+function gridPlacements(config: SheetConfig, artSizePixels: number, artOffsetPixels: number): Omit<Placement, 'cutline'>[] {
+  const placements: Omit<Placement, 'cutline'>[] = [];
+  for (let row = 0; row < config.cellsPerSide; row++) {
+    for (let col = 0; col < config.cellsPerSide; col++) {
+      const cellX = config.outerMarginPx + col * (config.cellPixels + config.gapPixels);
+      const cellY = config.outerMarginPx + row * (config.cellPixels + config.gapPixels);
+      const artX = cellX + artOffsetPixels;
+      const artY = cellY + artOffsetPixels;
+      placements.push({
+        row,
+        col,
+        cellX,
+        cellY,
+        cellW: config.cellPixels,
+        cellH: config.cellPixels,
+        artBboxPx: [artX, artY, artSizePixels, artSizePixels],
+        sticker: 0,
+        rotation: 0,
+      });
+    }
+  }
+  return placements;
+}
+
+export const generateSheetLayoutProcedure = protectedProcedure
   .input(generateSheetLayoutInputSchema)
   .mutation(async ({ input }) => {
     const {
       stickerImageBase64,
+      extraStickerImagesBase64,
       sheetSize,
       cellSizeInches,
       outerMarginInches,
@@ -152,40 +255,57 @@ export const generateSheetLayoutProcedure = publicProcedure
       dpi
     );
 
-    const placements: Placement[] = [];
     const artSizePixels = Math.round((cellSizeInches - 2 * whiteBorderInches) * dpi);
     const artOffsetPixels = Math.round(whiteBorderInches * dpi);
     const borderOffsetPixels = Math.round((whiteBorderInches + bleedInches) * dpi);
 
-    for (let row = 0; row < config.cellsPerSide; row++) {
-      for (let col = 0; col < config.cellsPerSide; col++) {
-        const cellX = config.outerMarginPx + col * (config.cellPixels + config.gapPixels);
-        const cellY = config.outerMarginPx + row * (config.cellPixels + config.gapPixels);
-        
-        const artX = cellX + artOffsetPixels;
-        const artY = cellY + artOffsetPixels;
-        
-        const cutlinePath = generateCutlinePath(
-          cellX,
-          cellY,
-          config.cellPixels,
-          config.cellPixels,
-          borderOffsetPixels
-        );
-
-        placements.push({
-          row,
-          col,
-          cellX,
-          cellY,
-          cellW: config.cellPixels,
-          cellH: config.cellPixels,
-          artBboxPx: [artX, artY, artSizePixels, artSizePixels],
-          cutlinePathSvg: cutlinePath,
+    const stickerImages = [stickerImageBase64, ...extraStickerImagesBase64].map(decodeStickerImage);
+    const stickers = decodeStickers(stickerImages);
+
+    const toPixels = (inches: number) => Math.round(inches * dpi);
+    const boxes: Omit<Placement, 'cutline'>[] = input.placements
+      ? input.placements.map((placement) => {
+        const box: [number, number, number, number] = [
+          toPixels(placement.xInches),
+          toPixels(placement.yInches),
+          toPixels(placement.widthInches),
+          toPixels(placement.heightInches),
+        ];
+        return {
+          row: null,
+          col: null,
+          cellX: box[0],
+          cellY: box[1],
+          cellW: box[2],
+          cellH: box[3],
+          artBboxPx: box,
+          sticker: placement.sticker,
+          rotation: placement.rotation,
+        };
+      })
+      : gridPlacements(config, artSizePixels, artOffsetPixels);
+
+    // Each sticker's outline is traced once per box size and moved into every box that repeats it
+    const cutlinePaths: string[] = [];
+    const cutlineIndex = new Map<string, number>();
+    const placements: Placement[] = boxes.map((placement) => {
+      const [, , width, height] = placement.artBboxPx;
+      const key = `${placement.sticker}:${width}x${height}`;
+      let cutline = cutlineIndex.get(key);
+      if (cutline === undefined) {
+        const contour = traceCutline(stickerImages[placement.sticker], {
+          box: { x: 0, y: 0, width, height },
+          offset: borderOffsetPixels,
         });
+        cutline = cutlinePaths.push(
+          contour ? cutlinePathData(contour) : generateCutlinePath(0, 0, width, height, borderOffsetPixels)
+        ) - 1;
+        cutlineIndex.set(key, cutline);
       }
-    }
+      return { ...placement, cutline };
+    });
 
+    const isGrid = !input.placements;
     const manifest: SheetManifest = {
       dpi,
       units: 'px',
@@ -201,39 +321,64 @@ export const generateSheetLayoutProcedure = publicProcedure
             bleedIn: bleedInches,
             whiteBorderIn: whiteBorderInches,
           },
-          cellsPerSide: config.cellsPerSide,
-          totalMinis: config.totalMinis,
-          cellPixels: config.cellPixels,
-          gapPixels: config.gapPixels,
+          cellsPerSide: isGrid ? config.cellsPerSide : null,
+          totalMinis: placements.length,
+          cellPixels: isGrid ? config.cellPixels : null,
+          gapPixels: isGrid ? config.gapPixels : null,
           outerMarginPx: config.outerMarginPx,
+          cutlinePathsSvg: cutlinePaths,
           placements,
         },
       ],
       sourceImageInfo: {
-        originalW: 0,
-        originalH: 0,
+        originalW: stickers[0].width,
+        originalH: stickers[0].height,
         backgroundRemoved: true,
       },
     };
 
-    const svgCutlines = generateSVGCutlines(config, placements);
+    const svgCutlines = generateSVGCutlines(config, cutlinePaths, placements);
+
+    // Rendered here rather than on the device, so web and mobile produce the same print file
+    const printImage = compositeSheet({
+      widthPixels: Math.round(config.sheetPixels[0]),
+      heightPixels: Math.round(config.sheetPixels[1]),
+      dpi,
+      stickers,
+      placements: placements.map((placement): SheetPlacement => ({
+        box: placement.artBboxPx,
+        sticker: placement.sticker,
+        rotation: placement.rotation,
+      })),
+    });
 
     return {
       manifest,
       svgCutlines,
-      printImageBase64: stickerImageBase64,
+      printImageBase64: printImage.toString('base64'),
     };
   });
 
-function generateSVGCutlines(config: SheetConfig, placements: Placement[]): string {
+// Each path is defined once and placed in its cells with <use>, so a sheet's size does not grow
+// with the detail of the outline; xlink:href is the form older cutter software understands
+function generateSVGCutlines(config: SheetConfig, cutlinePaths: string[], placements: Placement[]): string {
   const [width, height] = config.sheetPixels;
   
   let svg = `<?xml version="1.0" encoding="UTF-8"?>\n`;
-  svg += `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">\n`;
+  svg += `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">\n`;
+  svg += `  <defs>\n`;
+  for (const [index, path] of cutlinePaths.entries()) {
+    svg += `    <path id="cutline-${index}" d="${path}" />\n`;
+  }
+  svg += `  </defs>\n`;
   svg += `  <g id="cutlines" fill="none" stroke="#FF00FF" stroke-width="1">\n`;
   
   for (const placement of placements) {
-    svg += `    <path d="${placement.cutlinePathSvg}" />\n`;
+    const [x, y, w, h] = placement.artBboxPx;
+    const transform = placement.rotation === 0
+      ? `translate(${x} ${y})`
+      : `translate(${x} ${y}) rotate(${placement.rotation} ${w / 2} ${h / 2})`;
+    svg += `    <use xlink:href="#cutline-${placement.cutline}" transform="${transform}" />\n`;
   }
   
   svg += `  </g>\n`;
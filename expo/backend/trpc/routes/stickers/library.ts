@@ -0,0 +1,62 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure } from "../../create-context";
+import { deleteSticker, listStickerChanges, updateSticker, upsertSticker } from "./store";
+
+const isoTimestamp = z.string().datetime();
+
+const stickerSchema = z.object({
+  id: z.string().min(1).max(100),
+  title: z.string().max(500).optional(),
+  originalImage: z.string(),
+  stickerImage: z.string().min(1),
+  imageWidth: z.number().int().nonnegative().optional(),
+  imageHeight: z.number().int().nonnegative().optional(),
+  createdAt: isoTimestamp,
+  updatedAt: isoTimestamp,
+});
+
+export const listStickersProcedure = protectedProcedure
+  .input(
+    z.object({
+      // The cursor from the last page applied; 0 lists the whole library
+      after: z.number().int().nonnegative().default(0),
+      // Stickers carry their images, so pages are kept small
+      limit: z.number().int().min(1).max(50).default(20),
+    }).optional()
+  )
+  .query(async ({ ctx, input }) => {
+    return listStickerChanges(ctx.user.id, input?.after ?? 0, input?.limit ?? 20);
+  });
+
+export const saveStickerProcedure = protectedProcedure
+  .input(stickerSchema)
+  .mutation(async ({ ctx, input }) => {
+    return upsertSticker(ctx.user.id, input);
+  });
+
+export const updateStickerProcedure = protectedProcedure
+  .input(
+    z.object({
+      id: z.string().min(1),
+      title: z.string().max(500).optional(),
+      stickerImage: z.string().min(1).optional(),
+      imageWidth: z.number().int().nonnegative().optional(),
+      imageHeight: z.number().int().nonnegative().optional(),
+      updatedAt: isoTimestamp,
+    })
+  )
+  .mutation(async ({ ctx, input }) => {
+    const { id, ...changes } = input;
+    const result = await updateSticker(ctx.user.id, id, changes);
+    if (!result.sticker) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Sticker not found" });
+    }
+    return result;
+  });
+
+export const deleteStickerProcedure = protectedProcedure
+  .input(z.object({ id: z.string().min(1), deletedAt: isoTimestamp }))
+  .mutation(async ({ ctx, input }) => {
+    return deleteSticker(ctx.user.id, input.id, input.deletedAt);
+  });
@@ -0,0 +1,170 @@
+import { getDatabase } from "@/backend/db";
+
+// Timestamps are ISO-8601 UTC strings, so lexical comparison matches chronological order.
+// Every write is last-writer-wins on updatedAt; deletes leave a tombstone so other devices see them.
+// Clients set updatedAt, so their clocks only decide conflicts: what changed since a device last
+// synced is tracked by change_seq, a per-user counter the server bumps on every write.
+
+export type ServerSticker = {
+  id: string;
+  title?: string;
+  originalImage: string;
+  stickerImage: string;
+  imageWidth?: number;
+  imageHeight?: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type StickerChanges = {
+  stickers: ServerSticker[];
+  deleted: { id: string; deletedAt: string }[];
+  // Pass back as `after` to get the next page or, once hasMore is false, later changes
+  cursor: number;
+  hasMore: boolean;
+};
+
+type StickerRow = {
+  id: string;
+  title: string | null;
+  original_image: string;
+  sticker_image: string;
+  image_width: number | null;
+  image_height: number | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+  change_seq: number;
+};
+
+// Assigned inside the write, which SQLite serializes, so later writes always get larger numbers
+const NEXT_CHANGE_SEQ = '(SELECT COALESCE(MAX(change_seq), 0) + 1 FROM stickers WHERE user_id = ?)';
+
+function toServerSticker(row: StickerRow): ServerSticker {
+  return {
+    id: row.id,
+    title: row.title ?? undefined,
+    originalImage: row.original_image,
+    stickerImage: row.sticker_image,
+    imageWidth: row.image_width ?? undefined,
+    imageHeight: row.image_height ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+async function getRow(userId: string, id: string): Promise<StickerRow | undefined> {
+  const db = await getDatabase();
+  return db.get<StickerRow>('SELECT * FROM stickers WHERE user_id = ? AND id = ?', [userId, id]);
+}
+
+/**
+ * Pages through everything that changed after the cursor, tombstones included, in change
+ * order. Starting from 0 lists the whole library.
+ */
+export async function listStickerChanges(userId: string, after: number, limit: number): Promise<StickerChanges> {
+  const db = await getDatabase();
+  const rows = await db.all<StickerRow>(
+    'SELECT * FROM stickers WHERE user_id = ? AND change_seq > ? ORDER BY change_seq LIMIT ?',
+    [userId, after, limit + 1]
+  );
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit);
+
+  return {
+    stickers: page.filter((row) => !row.deleted_at).map(toServerSticker),
+    deleted: page
+      .filter((row) => row.deleted_at)
+      .map((row) => ({ id: row.id, deletedAt: row.deleted_at as string })),
+    cursor: page.length > 0 ? Number(page[page.length - 1].change_seq) : after,
+    hasMore,
+  };
+}
+
+// Returns whichever version won, so a client holding a stale copy can adopt the server's
+export async function upsertSticker(
+  userId: string,
+  sticker: ServerSticker
+): Promise<{ applied: boolean; sticker: ServerSticker | null }> {
+  const db = await getDatabase();
+  const result = await db.run(
+    `INSERT INTO stickers
+       (user_id, id, title, original_image, sticker_image, image_width, image_height, created_at, updated_at, deleted_at, change_seq)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, NULL, ${NEXT_CHANGE_SEQ})
+     ON CONFLICT (user_id, id) DO UPDATE SET
+       title = excluded.title,
+       original_image = excluded.original_image,
+       sticker_image = excluded.sticker_image,
+       image_width = excluded.image_width,
+       image_height = excluded.image_height,
+       updated_at = excluded.updated_at,
+       deleted_at = NULL,
+       change_seq = excluded.change_seq
+     WHERE excluded.updated_at > stickers.updated_at`,
+    [
+      userId,
+      sticker.id,
+      sticker.title ?? null,
+      sticker.originalImage,
+      sticker.stickerImage,
+      sticker.imageWidth ?? null,
+      sticker.imageHeight ?? null,
+      sticker.createdAt,
+      sticker.updatedAt,
+      userId,
+    ]
+  );
+
+  const row = await getRow(userId, sticker.id);
+  return {
+    applied: result.changes > 0,
+    sticker: row && !row.deleted_at ? toServerSticker(row) : null,
+  };
+}
+
+export async function updateSticker(
+  userId: string,
+  id: string,
+  changes: Partial<Pick<ServerSticker, 'title' | 'stickerImage' | 'imageWidth' | 'imageHeight'>> & { updatedAt: string }
+): Promise<{ applied: boolean; sticker: ServerSticker | null }> {
+  const db = await getDatabase();
+  const result = await db.run(
+    `UPDATE stickers SET
+       title = COALESCE(?, title),
+       sticker_image = COALESCE(?, sticker_image),
+       image_width = COALESCE(?, image_width),
+       image_height = COALESCE(?, image_height),
+       updated_at = ?,
+       change_seq = ${NEXT_CHANGE_SEQ}
+     WHERE user_id = ? AND id = ? AND deleted_at IS NULL AND updated_at < ?`,
+    [
+      changes.title ?? null,
+      changes.stickerImage ?? null,
+      changes.imageWidth ?? null,
+      changes.imageHeight ?? null,
+      changes.updatedAt,
+      userId,
+      userId,
+      id,
+      changes.updatedAt,
+    ]
+  );
+
+  const row = await getRow(userId, id);
+  return {
+    applied: result.changes > 0,
+    sticker: row && !row.deleted_at ? toServerSticker(row) : null,
+  };
+}
+
+export async function deleteSticker(userId: string, id: string, deletedAt: string): Promise<{ applied: boolean }> {
+  const db = await getDatabase();
+  // Image payloads are dropped; the tombstone only needs to carry the id and timestamp
+  const result = await db.run(
+    `UPDATE stickers SET deleted_at = ?, updated_at = ?, original_image = '', sticker_image = '',
+       change_seq = ${NEXT_CHANGE_SEQ}
+     WHERE user_id = ? AND id = ? AND deleted_at IS NULL AND updated_at <= ?`,
+    [deletedAt, deletedAt, userId, userId, id, deletedAt]
+  );
+  return { applied: result.changes > 0 };
+}
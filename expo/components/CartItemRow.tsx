@@ -0,0 +1,187 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Image } from 'react-native';
+import { Minus, Plus, Trash2 } from 'lucide-react-native';
+import { neutralColors } from '@/constants/colors';
+import { MAX_LINE_QUANTITY } from '@/constants/printful';
+import type { CartItem } from '@/contexts/CartContext';
+import { useCatalog, type CatalogVariant } from '@/contexts/CatalogContext';
+import type { PaymentProduct } from '@/services/stripe';
+
+interface CartItemRowProps {
+  item: CartItem;
+  disabled?: boolean;
+  onChangeQuantity: (quantity: number) => void;
+  onChangeProduct: (product: PaymentProduct) => void;
+  onRemove: () => void;
+}
+
+export function describeCartItem(item: Pick<CartItem, 'product' | 'stickerCount'>, variant?: CatalogVariant): string {
+  const sizeLabel = variant?.sizeLabel ?? item.product.size;
+  if (item.product.kind === 'sheet') {
+    return `Sticker Sheet ${sizeLabel}${item.stickerCount ? ` (${item.stickerCount} stickers)` : ''}`;
+  }
+  return `Memory Stickers (${sizeLabel})`;
+}
+
+/**
+ * One cart line at checkout: the design, its size and how many to print.
+ */
+export default function CartItemRow({ item, disabled, onChangeQuantity, onChangeProduct, onRemove }: CartItemRowProps) {
+  const { sizesFor, variantFor, priceOf } = useCatalog();
+  const variant = variantFor(item.product);
+  const lineTotal = priceOf(item.product) * item.quantity;
+
+  return (
+    <View style={styles.row} testID={`cart-item-${item.id}`}>
+      <Image source={{ uri: item.image }} style={styles.thumbnail} resizeMode="contain" />
+      <View style={styles.details}>
+        <Text style={styles.name} numberOfLines={2}>{describeCartItem(item, variant)}</Text>
+        {variant && !variant.available && (
+          <Text style={styles.unavailable}>Currently unavailable in this size</Text>
+        )}
+        {item.product.kind === 'individual' && (
+          <View style={styles.sizes}>
+            {sizesFor('individual').map((option) => {
+              const isSelected = item.product.size === option.size;
+              return (
+                <TouchableOpacity
+                  key={option.size}
+                  style={[styles.sizeChip, isSelected && styles.sizeChipSelected]}
+                  onPress={() => onChangeProduct({ kind: 'individual', size: option.size })}
+                  disabled={disabled || isSelected || !option.available}
+                >
+                  <Text
+                    style={[
+                      styles.sizeText,
+                      isSelected && styles.sizeTextSelected,
+                      !option.available && styles.sizeTextUnavailable,
+                    ]}
+                  >
+                    {option.sizeLabel}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+        <View style={styles.footer}>
+          <View style={styles.stepper}>
+            <TouchableOpacity
+              style={styles.stepperButton}
+              onPress={() => onChangeQuantity(item.quantity - 1)}
+              disabled={disabled || item.quantity <= 1}
+              testID={`cart-item-decrease-${item.id}`}
+            >
+              <Minus size={16} color={item.quantity <= 1 ? neutralColors.text.tertiary : neutralColors.text.primary} />
+            </TouchableOpacity>
+            <Text style={styles.quantity}>{item.quantity}</Text>
+            <TouchableOpacity
+              style={styles.stepperButton}
+              onPress={() => onChangeQuantity(item.quantity + 1)}
+              disabled={disabled || item.quantity >= MAX_LINE_QUANTITY}
+              testID={`cart-item-increase-${item.id}`}
+            >
+              <Plus
+                size={16}
+                color={item.quantity >= MAX_LINE_QUANTITY ? neutralColors.text.tertiary : neutralColors.text.primary}
+              />
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.price}>${lineTotal.toFixed(2)}</Text>
+        </View>
+      </View>
+      <TouchableOpacity style={styles.remove} onPress={onRemove} disabled={disabled} testID={`cart-item-remove-${item.id}`}>
+        <Trash2 size={18} color={neutralColors.text.secondary} />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    backgroundColor: neutralColors.white,
+    borderRadius: 16,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: neutralColors.border,
+    gap: 12,
+  },
+  thumbnail: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+    backgroundColor: neutralColors.surface,
+  },
+  details: {
+    flex: 1,
+    gap: 8,
+  },
+  name: {
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: neutralColors.text.primary,
+  },
+  sizes: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  sizeChip: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: neutralColors.border,
+  },
+  sizeChipSelected: {
+    borderColor: neutralColors.primary,
+    backgroundColor: neutralColors.surface,
+  },
+  sizeText: {
+    fontSize: 12,
+    color: neutralColors.text.secondary,
+  },
+  sizeTextSelected: {
+    color: neutralColors.primary,
+    fontWeight: '600' as const,
+  },
+  sizeTextUnavailable: {
+    color: neutralColors.text.tertiary,
+    textDecorationLine: 'line-through',
+  },
+  unavailable: {
+    fontSize: 13,
+    color: neutralColors.error,
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: neutralColors.border,
+    borderRadius: 8,
+  },
+  stepperButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  quantity: {
+    minWidth: 24,
+    textAlign: 'center',
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: neutralColors.text.primary,
+  },
+  price: {
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: neutralColors.text.primary,
+  },
+  remove: {
+    padding: 4,
+  },
+});
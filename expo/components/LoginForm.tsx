@@ -12,7 +12,9 @@ import {
   ScrollView,
   Image,
 } from 'react-native';
+import { router } from 'expo-router';
 import { memoryMadeColors } from '@/constants/colors';
+import { getRetryAfterSeconds, formatRetryAfter } from '@/utils/rateLimit';
 
 interface LoginFormProps {
   onLogin: (email: string, password: string) => Promise<void>;
@@ -48,7 +50,13 @@ export default function LoginForm({ onLogin, onSignup }: LoginFormProps) {
       await onLogin(e, p);
     } catch (error: any) {
       const message = typeof error?.message === 'string' ? error.message : 'Failed to log in. Please try again.';
-      if (message.toLowerCase().includes('invalid')) {
+      const retryAfter = getRetryAfterSeconds(error);
+      if (retryAfter !== null) {
+        Alert.alert(
+          'Too Many Attempts',
+          `For your security, logging in is paused. Please try again in ${formatRetryAfter(retryAfter)}, or reset your password.`
+        );
+      } else if (message.toLowerCase().includes('invalid')) {
         Alert.alert(
           'Invalid email or password',
           'If you are new, create an account first.',
@@ -88,7 +96,10 @@ export default function LoginForm({ onLogin, onSignup }: LoginFormProps) {
     } catch (error: any) {
       const raw = typeof error?.message === 'string' ? error.message : 'Signup failed';
       const message = raw || 'Signup failed';
-      if (message.toLowerCase().includes('email already in use')) {
+      const retryAfter = getRetryAfterSeconds(error);
+      if (retryAfter !== null) {
+        Alert.alert('Too Many Attempts', `Please try again in ${formatRetryAfter(retryAfter)}.`);
+      } else if (message.toLowerCase().includes('email already in use')) {
         Alert.alert(
           'Email Already Registered',
           'Try logging in instead.',
@@ -235,11 +246,25 @@ export default function LoginForm({ onLogin, onSignup }: LoginFormProps) {
           )}
 
           {mode === 'login' && (
-            <TouchableOpacity style={styles.forgotPassword}>
+            <TouchableOpacity
+              testID="forgot-password-link"
+              style={styles.forgotPassword}
+              onPress={() => router.push('/reset-password')}
+              disabled={isLoading}
+            >
               <Text style={styles.forgotPasswordText}>Forgot Password?</Text>
             </TouchableOpacity>
           )}
 
+          <TouchableOpacity
+            testID="verify-email-link"
+            style={styles.forgotPassword}
+            onPress={() => router.push('/verify-email')}
+            disabled={isLoading}
+          >
+            <Text style={styles.forgotPasswordText}>Have a verification code?</Text>
+          </TouchableOpacity>
+
           <View style={styles.orContainer}>
             <Text style={styles.orText}>or continue with</Text>
           </View>
@@ -0,0 +1,12 @@
+import React from 'react';
+import { StripeProvider } from '@stripe/stripe-react-native';
+
+const publishableKey = process.env.EXPO_PUBLIC_STRIPE_PUBLISHABLE_KEY ?? '';
+
+export default function PaymentProvider({ children }: { children: React.ReactElement }) {
+  return (
+    <StripeProvider publishableKey={publishableKey} urlScheme="myapp">
+      {children}
+    </StripeProvider>
+  );
+}
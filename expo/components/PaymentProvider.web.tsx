@@ -0,0 +1,6 @@
+import React from 'react';
+
+// The Stripe React Native SDK has no web implementation; web checkout is unavailable
+export default function PaymentProvider({ children }: { children: React.ReactElement }) {
+  return children;
+}
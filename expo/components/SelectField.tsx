@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  FlatList,
+  TextInput,
+  StyleProp,
+  ViewStyle,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Check, ChevronDown, X } from 'lucide-react-native';
+import { neutralColors } from '@/constants/colors';
+
+export type SelectOption = {
+  value: string;
+  label: string;
+};
+
+interface SelectFieldProps {
+  title: string;
+  placeholder: string;
+  options: SelectOption[];
+  value?: string;
+  onChange: (value: string) => void;
+  style?: StyleProp<ViewStyle>;
+  testID?: string;
+}
+
+// Long lists (countries, states) get a filter box
+const SEARCH_THRESHOLD = 12;
+
+/**
+ * Input-styled field that opens a full-screen list to pick one option.
+ */
+export default function SelectField({
+  title,
+  placeholder,
+  options,
+  value,
+  onChange,
+  style,
+  testID,
+}: SelectFieldProps) {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [query, setQuery] = useState<string>('');
+
+  const selected = options.find(option => option.value === value);
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return options;
+    return options.filter(option =>
+      option.label.toLowerCase().includes(q) || option.value.toLowerCase() === q
+    );
+  }, [options, query]);
+
+  const close = () => {
+    setIsOpen(false);
+    setQuery('');
+  };
+
+  return (
+    <>
+      <TouchableOpacity style={[styles.field, style]} onPress={() => setIsOpen(true)} testID={testID}>
+        <Text style={[styles.fieldText, !selected && styles.placeholder]} numberOfLines={1}>
+          {selected?.label ?? placeholder}
+        </Text>
+        <ChevronDown size={18} color={neutralColors.text.tertiary} />
+      </TouchableOpacity>
+
+      <Modal visible={isOpen} animationType="slide" presentationStyle="pageSheet" onRequestClose={close}>
+        <SafeAreaView style={styles.modal}>
+          <View style={styles.header}>
+            <Text style={styles.headerTitle}>{title}</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={close}>
+              <X size={22} color={neutralColors.text.primary} />
+            </TouchableOpacity>
+          </View>
+          {options.length > SEARCH_THRESHOLD && (
+            <TextInput
+              style={styles.search}
+              placeholder="Search"
+              placeholderTextColor={neutralColors.text.tertiary}
+              value={query}
+              onChangeText={setQuery}
+              autoCorrect={false}
+            />
+          )}
+          <FlatList
+            data={filtered}
+            keyExtractor={option => option.value}
+            keyboardShouldPersistTaps="handled"
+            renderItem={({ item }) => (
+              <TouchableOpacity
+                style={styles.option}
+                onPress={() => {
+                  onChange(item.value);
+                  close();
+                }}
+              >
+                <Text style={styles.optionText}>{item.label}</Text>
+                {item.value === value && <Check size={18} color={neutralColors.primary} />}
+              </TouchableOpacity>
+            )}
+          />
+        </SafeAreaView>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  field: {
+    backgroundColor: neutralColors.white,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderWidth: 1,
+    borderColor: neutralColors.border,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  fieldText: {
+    flex: 1,
+    fontSize: 16,
+    color: neutralColors.text.primary,
+  },
+  placeholder: {
+    color: neutralColors.text.tertiary,
+  },
+  modal: {
+    flex: 1,
+    backgroundColor: neutralColors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: neutralColors.border,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600' as const,
+    color: neutralColors.text.primary,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  search: {
+    margin: 16,
+    backgroundColor: neutralColors.white,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: neutralColors.text.primary,
+    borderWidth: 1,
+    borderColor: neutralColors.border,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: neutralColors.border,
+  },
+  optionText: {
+    fontSize: 16,
+    color: neutralColors.text.primary,
+  },
+});
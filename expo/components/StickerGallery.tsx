@@ -14,6 +14,7 @@ import {
 import { Trash2, ShoppingCart, Edit3, ArrowLeft, Grid3X3, Grid2X2, LayoutGrid } from 'lucide-react-native';
 import { neutralColors } from '@/constants/colors';
 import { SavedSticker } from '@/contexts/UserContext';
+import { useCart } from '@/contexts/CartContext';
 import { router } from 'expo-router';
 import ImageGalleryModal from './ImageGalleryModal';
 
@@ -40,6 +41,7 @@ interface StickerGalleryProps {
 }
 
 export default function StickerGallery({ stickers, onDeleteSticker, onSelectSticker, onBack }: StickerGalleryProps) {
+  const { addItem } = useCart();
   const [galleryVisible, setGalleryVisible] = useState<boolean>(false);
   const [selectedImageIndex, setSelectedImageIndex] = useState<number>(0);
   const [gridSize, setGridSize] = useState<GridSize>(2);
@@ -71,16 +73,14 @@ export default function StickerGallery({ stickers, onDeleteSticker, onSelectStic
       [
         {
           text: 'Single Sticker',
-          onPress: () => {
-            router.push({
-              pathname: '/checkout',
-              params: {
-                stickerId: sticker.id,
-                originalImage: sticker.originalImage,
-                finalStickers: sticker.stickerImage,
-                isReorder: 'true',
-              },
-            });
+          onPress: async () => {
+            try {
+              await addItem({ product: { kind: 'individual', size: '3x3' }, image: sticker.stickerImage });
+              router.push('/checkout');
+            } catch (error: any) {
+              console.error('Error adding sticker to cart:', error);
+              Alert.alert('Could Not Add to Cart', error?.message || 'Please try again.');
+            }
           },
         },
         {
@@ -102,7 +102,7 @@ export default function StickerGallery({ stickers, onDeleteSticker, onSelectStic
         },
       ]
     );
-  }, []);
+  }, [addItem]);
 
   const handleEditSticker = useCallback((sticker: SavedSticker) => {
     // Pass both sticker data and ID for instant navigation
@@ -0,0 +1,160 @@
+// Countries we ship to and how their addresses are written
+// Shared by the checkout form and the backend, so both validate addresses the same way
+
+export type AddressRegion = {
+  code: string;
+  name: string;
+};
+
+export type AddressCountry = {
+  code: string;
+  name: string;
+  postalCode: {
+    label: string;
+    placeholder: string;
+    required: boolean;
+    pattern?: RegExp;
+  };
+  // State, province or county. Printful needs a state_code wherever `options` is listed
+  region?: {
+    label: string;
+    required: boolean;
+    options?: AddressRegion[];
+  };
+};
+
+export type AddressFields = {
+  countryCode: string;
+  stateCode?: string;
+  zip?: string;
+};
+
+export type AddressErrors = Partial<Record<keyof AddressFields, string>>;
+
+const US_STATES: AddressRegion[] = [
+  { code: 'AL', name: 'Alabama' }, { code: 'AK', name: 'Alaska' }, { code: 'AZ', name: 'Arizona' },
+  { code: 'AR', name: 'Arkansas' }, { code: 'CA', name: 'California' }, { code: 'CO', name: 'Colorado' },
+  { code: 'CT', name: 'Connecticut' }, { code: 'DE', name: 'Delaware' }, { code: 'DC', name: 'District of Columbia' },
+  { code: 'FL', name: 'Florida' }, { code: 'GA', name: 'Georgia' }, { code: 'HI', name: 'Hawaii' },
+  { code: 'ID', name: 'Idaho' }, { code: 'IL', name: 'Illinois' }, { code: 'IN', name: 'Indiana' },
+  { code: 'IA', name: 'Iowa' }, { code: 'KS', name: 'Kansas' }, { code: 'KY', name: 'Kentucky' },
+  { code: 'LA', name: 'Louisiana' }, { code: 'ME', name: 'Maine' }, { code: 'MD', name: 'Maryland' },
+  { code: 'MA', name: 'Massachusetts' }, { code: 'MI', name: 'Michigan' }, { code: 'MN', name: 'Minnesota' },
+  { code: 'MS', name: 'Mississippi' }, { code: 'MO', name: 'Missouri' }, { code: 'MT', name: 'Montana' },
+  { code: 'NE', name: 'Nebraska' }, { code: 'NV', name: 'Nevada' }, { code: 'NH', name: 'New Hampshire' },
+  { code: 'NJ', name: 'New Jersey' }, { code: 'NM', name: 'New Mexico' }, { code: 'NY', name: 'New York' },
+  { code: 'NC', name: 'North Carolina' }, { code: 'ND', name: 'North Dakota' }, { code: 'OH', name: 'Ohio' },
+  { code: 'OK', name: 'Oklahoma' }, { code: 'OR', name: 'Oregon' }, { code: 'PA', name: 'Pennsylvania' },
+  { code: 'PR', name: 'Puerto Rico' }, { code: 'RI', name: 'Rhode Island' }, { code: 'SC', name: 'South Carolina' },
+  { code: 'SD', name: 'South Dakota' }, { code: 'TN', name: 'Tennessee' }, { code: 'TX', name: 'Texas' },
+  { code: 'UT', name: 'Utah' }, { code: 'VT', name: 'Vermont' }, { code: 'VA', name: 'Virginia' },
+  { code: 'WA', name: 'Washington' }, { code: 'WV', name: 'West Virginia' }, { code: 'WI', name: 'Wisconsin' },
+  { code: 'WY', name: 'Wyoming' },
+];
+
+const CA_PROVINCES: AddressRegion[] = [
+  { code: 'AB', name: 'Alberta' }, { code: 'BC', name: 'British Columbia' }, { code: 'MB', name: 'Manitoba' },
+  { code: 'NB', name: 'New Brunswick' }, { code: 'NL', name: 'Newfoundland and Labrador' },
+  { code: 'NS', name: 'Nova Scotia' }, { code: 'NT', name: 'Northwest Territories' }, { code: 'NU', name: 'Nunavut' },
+  { code: 'ON', name: 'Ontario' }, { code: 'PE', name: 'Prince Edward Island' }, { code: 'QC', name: 'Quebec' },
+  { code: 'SK', name: 'Saskatchewan' }, { code: 'YT', name: 'Yukon' },
+];
+
+const AU_STATES: AddressRegion[] = [
+  { code: 'ACT', name: 'Australian Capital Territory' }, { code: 'NSW', name: 'New South Wales' },
+  { code: 'NT', name: 'Northern Territory' }, { code: 'QLD', name: 'Queensland' }, { code: 'SA', name: 'South Australia' },
+  { code: 'TAS', name: 'Tasmania' }, { code: 'VIC', name: 'Victoria' }, { code: 'WA', name: 'Western Australia' },
+];
+
+const postcode = (placeholder: string, pattern: RegExp) => ({ label: 'Postal Code', placeholder, required: true, pattern });
+
+export const SHIPPING_COUNTRIES: AddressCountry[] = [
+  {
+    code: 'US',
+    name: 'United States',
+    postalCode: { label: 'ZIP Code', placeholder: '94103', required: true, pattern: /^\d{5}(-\d{4})?$/ },
+    region: { label: 'State', required: true, options: US_STATES },
+  },
+  {
+    code: 'CA',
+    name: 'Canada',
+    postalCode: postcode('K1A 0B1', /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/i),
+    region: { label: 'Province', required: true, options: CA_PROVINCES },
+  },
+  {
+    code: 'GB',
+    name: 'United Kingdom',
+    postalCode: { label: 'Postcode', placeholder: 'SW1A 1AA', required: true, pattern: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i },
+    region: { label: 'County', required: false },
+  },
+  {
+    code: 'AU',
+    name: 'Australia',
+    postalCode: { label: 'Postcode', placeholder: '2000', required: true, pattern: /^\d{4}$/ },
+    region: { label: 'State', required: true, options: AU_STATES },
+  },
+  {
+    code: 'NZ',
+    name: 'New Zealand',
+    postalCode: { label: 'Postcode', placeholder: '6011', required: true, pattern: /^\d{4}$/ },
+  },
+  {
+    code: 'IE',
+    name: 'Ireland',
+    // Eircodes are still missing from many addresses
+    postalCode: { label: 'Eircode', placeholder: 'D02 X285', required: false, pattern: /^[A-Z]\d[\dW] ?[A-Z\d]{4}$/i },
+    region: { label: 'County', required: true },
+  },
+  { code: 'DE', name: 'Germany', postalCode: postcode('10115', /^\d{5}$/) },
+  { code: 'FR', name: 'France', postalCode: postcode('75001', /^\d{5}$/) },
+  { code: 'NL', name: 'Netherlands', postalCode: postcode('1012 AB', /^\d{4} ?[A-Z]{2}$/i) },
+  { code: 'BE', name: 'Belgium', postalCode: postcode('1000', /^\d{4}$/) },
+  { code: 'ES', name: 'Spain', postalCode: postcode('28001', /^\d{5}$/), region: { label: 'Province', required: false } },
+  { code: 'IT', name: 'Italy', postalCode: postcode('00118', /^\d{5}$/), region: { label: 'Province', required: false } },
+  { code: 'SE', name: 'Sweden', postalCode: postcode('111 22', /^\d{3} ?\d{2}$/) },
+  { code: 'DK', name: 'Denmark', postalCode: postcode('1050', /^\d{4}$/) },
+  { code: 'NO', name: 'Norway', postalCode: postcode('0150', /^\d{4}$/) },
+  {
+    code: 'JP',
+    name: 'Japan',
+    postalCode: postcode('100-0001', /^\d{3}-?\d{4}$/),
+    region: { label: 'Prefecture', required: true },
+  },
+];
+
+export const DEFAULT_COUNTRY_CODE = 'US';
+
+export function getShippingCountry(code: string): AddressCountry | undefined {
+  return SHIPPING_COUNTRIES.find((country) => country.code === code.toUpperCase());
+}
+
+/**
+ * Checks the country-specific parts of an address: that we ship there, the state or province,
+ * and the postal code format. Returns a message per invalid field; empty when valid.
+ */
+export function validateAddress(address: AddressFields): AddressErrors {
+  const country = getShippingCountry(address.countryCode);
+  if (!country) {
+    return { countryCode: 'We do not ship to this country yet' };
+  }
+
+  const errors: AddressErrors = {};
+  const zip = address.zip?.trim() ?? '';
+  const { postalCode, region } = country;
+  if (!zip) {
+    if (postalCode.required) errors.zip = `${postalCode.label} is required`;
+  } else if (postalCode.pattern && !postalCode.pattern.test(zip)) {
+    errors.zip = `Enter a valid ${postalCode.label.toLowerCase()}, e.g. ${postalCode.placeholder}`;
+  }
+
+  const stateCode = address.stateCode?.trim() ?? '';
+  if (!region) {
+    return errors;
+  }
+  if (!stateCode) {
+    if (region.required) errors.stateCode = `${region.label} is required`;
+  } else if (region.options && !region.options.some((option) => option.code === stateCode.toUpperCase())) {
+    errors.stateCode = `Choose a ${region.label.toLowerCase()} from the list`;
+  }
+  return errors;
+}
@@ -1,10 +1,3 @@
-// Printful API configuration and types
-export const PRINTFUL_CONFIG = {
-  API_BASE_URL: 'https://api.printful.com',
-  // Note: In production, store API key securely on your backend
-  // This is just for demonstration - never expose API keys in client code
-};
-
 // Kiss-cut sticker sheet product configurations
 export const PRINTFUL_PRODUCTS = {
   KISS_CUT_STICKER_SHEET: {
@@ -29,7 +22,11 @@ export const PRINTFUL_PRODUCTS = {
   },
 };
 
-// Printful API types
+// Cart limits, enforced by the backend when an order is priced
+export const MAX_ORDER_LINES = 20;
+export const MAX_LINE_QUANTITY = 25;
+
+// Printful product types
 export type PrintfulVariant = {
   id: number;
   size: string;
@@ -46,98 +43,6 @@ export type PrintfulProduct = {
   category?: 'sticker-sheet' | 'individual-sticker';
 };
 
-export type PrintfulOrderItem = {
-  sync_variant_id?: number;
-  external_id?: string;
-  quantity: number;
-  name: string;
-  retail_price: string;
-  files: {
-    type: 'default' | 'preview' | 'mockup';
-    url: string;
-    filename?: string;
-    visible?: boolean;
-  }[];
-  options?: {
-    stitch_color?: string;
-    thread_colors?: string[];
-    text?: string;
-  }[];
-};
-
-export type PrintfulOrderRecipient = {
-  name: string;
-  company?: string;
-  address1: string;
-  address2?: string;
-  city: string;
-  state_code?: string;
-  state_name?: string;
-  country_code: string;
-  country_name?: string;
-  zip: string;
-  phone?: string;
-  email: string;
-};
-
-export type PrintfulOrderRequest = {
-  external_id: string;
-  shipping: string;
-  recipient: PrintfulOrderRecipient;
-  items: PrintfulOrderItem[];
-  retail_costs?: {
-    currency: string;
-    subtotal: string;
-    discount?: string;
-    shipping: string;
-    tax: string;
-  };
-};
-
-export type PrintfulOrderResponse = {
-  code: number;
-  result: {
-    id: number;
-    external_id: string;
-    status: string;
-    shipping: string;
-    created: number;
-    updated: number;
-    recipient: PrintfulOrderRecipient;
-    items: any[];
-    costs: {
-      currency: string;
-      subtotal: string;
-      discount: string;
-      shipping: string;
-      digitization: string;
-      additional_fee: string;
-      fulfillment_fee: string;
-      tax: string;
-      vat: string;
-      total: string;
-    };
-    retail_costs: {
-      currency: string;
-      subtotal: string;
-      discount: string;
-      shipping: string;
-      tax: string;
-      total: string;
-    };
-  };
-  extra: any[];
-};
-
-// Helper functions
-export const formatPrintfulPrice = (price: number): string => {
-  return price.toFixed(2);
-};
-
-export const generateOrderId = (): string => {
-  return `sticker-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-};
-
 // Image requirements for Printful kiss-cut sticker sheets
 export const PRINTFUL_IMAGE_REQUIREMENTS = {
   MIN_DPI: 300,
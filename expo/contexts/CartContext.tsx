@@ -0,0 +1,180 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import createContextHook from '@nkzw/create-context-hook';
+import { safeJsonParse } from '@/utils/json';
+import { useUser } from '@/contexts/UserContext';
+import { MAX_LINE_QUANTITY, MAX_ORDER_LINES } from '@/constants/printful';
+import type { PaymentProduct } from '@/services/stripe';
+import {
+  imageDirectory,
+  saveImageToFile,
+  readImageFromFile,
+  deleteImageFile,
+  extractBase64FromDataUri,
+} from '@/utils/imageFiles';
+
+export interface CartItem {
+  id: string;
+  product: PaymentProduct;
+  quantity: number;
+  // Print file as a data URI; for sheets this is the composed sheet
+  image: string;
+  // Stickers on a sheet, shown in the preview and recorded with the order
+  stickerCount?: number;
+  addedAt: string;
+}
+
+export type NewCartItem = Pick<CartItem, 'product' | 'image' | 'stickerCount'> & { quantity?: number };
+
+interface CartItemMetadata {
+  id: string;
+  product: PaymentProduct;
+  quantity: number;
+  imagePath: string;
+  stickerCount?: number;
+  addedAt: string;
+}
+
+type StoredCartItem = CartItem & { imagePath: string };
+
+export interface CartContextType {
+  items: CartItem[];
+  // Total quantity across all lines
+  itemCount: number;
+  isLoading: boolean;
+  addItem: (item: NewCartItem) => Promise<void>;
+  updateQuantity: (itemId: string, quantity: number) => void;
+  updateProduct: (itemId: string, product: PaymentProduct) => void;
+  removeItem: (itemId: string) => Promise<void>;
+  clearCart: () => Promise<void>;
+}
+
+const CART_STORAGE_KEY = '@cart_items';
+const CART_DIR = imageDirectory('cart');
+
+const clampQuantity = (quantity: number): number =>
+  Math.min(Math.max(Math.round(quantity), 1), MAX_LINE_QUANTITY);
+
+const isSameProduct = (a: PaymentProduct, b: PaymentProduct): boolean =>
+  a.kind === b.kind && a.size === b.size;
+
+const toMetadata = ({ image: _image, ...item }: StoredCartItem): CartItemMetadata => item;
+
+export const [CartProvider, useCart] = createContextHook<CartContextType>(() => {
+  const { user } = useUser();
+  const [items, setItems] = useState<StoredCartItem[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const previousUserIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const loadCart = async () => {
+      try {
+        const stored = await AsyncStorage.getItem(CART_STORAGE_KEY);
+        if (!stored) return;
+        const result = safeJsonParse<CartItemMetadata[]>(stored);
+        if (!result.success || !Array.isArray(result.data)) {
+          console.warn('[cart] Invalid cart data, clearing storage:', result.error);
+          await AsyncStorage.removeItem(CART_STORAGE_KEY);
+          return;
+        }
+        const loaded = await Promise.all(
+          result.data.map(async (metadata) => {
+            try {
+              return { ...metadata, image: await readImageFromFile(metadata.imagePath) };
+            } catch (error) {
+              console.error(`[cart] Dropping item ${metadata.id} with a missing image:`, error);
+              return null;
+            }
+          })
+        );
+        setItems(loaded.filter((item): item is StoredCartItem => item !== null));
+      } catch (error) {
+        console.error('[cart] Error loading cart:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadCart();
+  }, []);
+
+  // Images are written when an item is added; the metadata follows every change
+  useEffect(() => {
+    if (isLoading) return;
+    AsyncStorage.setItem(CART_STORAGE_KEY, JSON.stringify(items.map(toMetadata))).catch((error) => {
+      console.error('[cart] Error saving cart:', error);
+    });
+  }, [items, isLoading]);
+
+  const clearCart = useCallback(async () => {
+    setItems([]);
+    await Promise.all(items.map(item => deleteImageFile(item.imagePath)));
+  }, [items]);
+
+  // The cart belongs to whoever is signed in, so it goes with them on sign-out
+  useEffect(() => {
+    if (previousUserIdRef.current && !user) {
+      clearCart();
+    }
+    previousUserIdRef.current = user?.id ?? null;
+  }, [user, clearCart]);
+
+  const addItem = useCallback(async (item: NewCartItem) => {
+    const quantity = clampQuantity(item.quantity ?? 1);
+    // Adding the same design again just bumps the quantity
+    const existing = items.find(
+      current => isSameProduct(current.product, item.product) && current.image === item.image
+    );
+    if (existing) {
+      setItems(prev => prev.map(current =>
+        current.id === existing.id ? { ...current, quantity: clampQuantity(current.quantity + quantity) } : current
+      ));
+      return;
+    }
+    if (items.length >= MAX_ORDER_LINES) {
+      throw new Error(`Your cart can hold up to ${MAX_ORDER_LINES} designs. Check out or remove one first.`);
+    }
+
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const imagePath = await saveImageToFile(extractBase64FromDataUri(item.image), `cart_${id}.png`, CART_DIR);
+    const stored: StoredCartItem = {
+      id,
+      product: item.product,
+      quantity,
+      image: item.image,
+      imagePath,
+      stickerCount: item.stickerCount,
+      addedAt: new Date().toISOString(),
+    };
+    console.log('[cart] Added item:', item.product.kind, item.product.size);
+    setItems(prev => [...prev, stored]);
+  }, [items]);
+
+  const updateQuantity = useCallback((itemId: string, quantity: number) => {
+    setItems(prev => prev.map(item => (item.id === itemId ? { ...item, quantity: clampQuantity(quantity) } : item)));
+  }, []);
+
+  const updateProduct = useCallback((itemId: string, product: PaymentProduct) => {
+    setItems(prev => prev.map(item => (item.id === itemId ? { ...item, product } : item)));
+  }, []);
+
+  const removeItem = useCallback(async (itemId: string) => {
+    const item = items.find(current => current.id === itemId);
+    setItems(prev => prev.filter(current => current.id !== itemId));
+    if (item) {
+      await deleteImageFile(item.imagePath);
+    }
+  }, [items]);
+
+  const itemCount = useMemo(() => items.reduce((sum, item) => sum + item.quantity, 0), [items]);
+
+  return useMemo(() => ({
+    items,
+    itemCount,
+    isLoading,
+    addItem,
+    updateQuantity,
+    updateProduct,
+    removeItem,
+    clearCart,
+  }), [items, itemCount, isLoading, addItem, updateQuantity, updateProduct, removeItem, clearCart]);
+});
@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import createContextHook from '@nkzw/create-context-hook';
+import { safeJsonParse } from '@/utils/json';
+import { trpcClient } from '@/lib/trpc';
+import { PRINTFUL_PRODUCTS } from '@/constants/printful';
+import type { PaymentProduct } from '@/services/stripe';
+
+// Prices in cents, as the backend quotes them
+export type CatalogVariant = Awaited<ReturnType<typeof trpcClient.catalog.list.query>>['variants'][number];
+
+interface StoredCatalog {
+  variants: CatalogVariant[];
+  syncedAt?: string;
+}
+
+export interface CatalogContextType {
+  variants: CatalogVariant[];
+  isLoading: boolean;
+  // Variants of one product, in size order
+  sizesFor: (kind: PaymentProduct['kind']) => CatalogVariant[];
+  variantFor: (product: PaymentProduct) => CatalogVariant | undefined;
+  // Unit price in dollars
+  priceOf: (product: PaymentProduct) => number;
+  refresh: () => Promise<void>;
+}
+
+const CATALOG_STORAGE_KEY = '@catalog';
+
+// What the app shipped with, shown until the backend's catalog arrives
+const BUILT_IN_VARIANTS: CatalogVariant[] = [
+  ...Object.entries(PRINTFUL_PRODUCTS.KISS_CUT_STICKER_SHEET.variants).map(([size, variant]) => ({
+    kind: 'sheet' as const,
+    size: size as CatalogVariant['size'],
+    productName: PRINTFUL_PRODUCTS.KISS_CUT_STICKER_SHEET.name,
+    sizeLabel: variant.size,
+    price: Math.round(variant.price * 100),
+    available: true,
+  })),
+  ...Object.entries(PRINTFUL_PRODUCTS.INDIVIDUAL_KISS_CUT_STICKERS.variants).map(([size, variant]) => ({
+    kind: 'individual' as const,
+    size: size as CatalogVariant['size'],
+    productName: PRINTFUL_PRODUCTS.INDIVIDUAL_KISS_CUT_STICKERS.name,
+    sizeLabel: variant.size,
+    price: Math.round(variant.price * 100),
+    available: true,
+  })),
+];
+
+export const [CatalogProvider, useCatalog] = createContextHook<CatalogContextType>(() => {
+  const [variants, setVariants] = useState<CatalogVariant[]>(BUILT_IN_VARIANTS);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const catalog = await trpcClient.catalog.list.query();
+      setVariants(catalog.variants);
+      const stored: StoredCatalog = { variants: catalog.variants, syncedAt: catalog.syncedAt };
+      await AsyncStorage.setItem(CATALOG_STORAGE_KEY, JSON.stringify(stored));
+    } catch (error) {
+      console.error('[catalog] Error loading catalog:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    const loadCatalog = async () => {
+      try {
+        // The last catalog seen shows right away; the backend's current one replaces it
+        const result = safeJsonParse<StoredCatalog>(await AsyncStorage.getItem(CATALOG_STORAGE_KEY));
+        if (result.success && Array.isArray(result.data?.variants)) {
+          setVariants(result.data.variants);
+        }
+        await refresh();
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadCatalog();
+  }, [refresh]);
+
+  const variantFor = useCallback((product: PaymentProduct) => (
+    variants.find(variant => variant.kind === product.kind && variant.size === product.size)
+  ), [variants]);
+
+  const sizesFor = useCallback((kind: PaymentProduct['kind']) => (
+    variants.filter(variant => variant.kind === kind)
+  ), [variants]);
+
+  const priceOf = useCallback((product: PaymentProduct) => (variantFor(product)?.price ?? 0) / 100, [variantFor]);
+
+  return useMemo(() => ({
+    variants,
+    isLoading,
+    sizesFor,
+    variantFor,
+    priceOf,
+    refresh,
+  }), [variants, isLoading, sizesFor, variantFor, priceOf, refresh]);
+});
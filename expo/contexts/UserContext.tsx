@@ -1,17 +1,43 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Platform } from 'react-native';
-import { setAuthToken, clearAuthToken } from '@/lib/authToken';
+import {
+  setAuthTokens,
+  clearAuthToken,
+  getRefreshToken,
+  waitForAuthToken,
+  setAuthExpiredHandler,
+} from '@/lib/authToken';
+import { trpcClient } from '@/lib/trpc';
+import {
+  enqueueStickerOp,
+  flushStickerQueue,
+  pullStickerChanges,
+  markStickersSynced,
+  clearStickerSyncState,
+  getPendingStickerIds,
+  getStickerTimestamp,
+  type SyncedSticker,
+} from '@/lib/stickerSync';
+import { getRetryAfterSeconds } from '@/utils/rateLimit';
+import { clearActiveGenerationJob } from '@/utils/generationJobs';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import createContextHook from '@nkzw/create-context-hook';
 import { safeJsonParse } from '@/utils/json';
-import * as FileSystem from 'expo-file-system';
-import { saveImageToIndexedDB, getImageFromIndexedDB, deleteImageFromIndexedDB, clearAllImagesFromIndexedDB } from '@/utils/webImageStorage';
+import { clearAllImagesFromIndexedDB } from '@/utils/webImageStorage';
+import {
+  imageDirectory,
+  saveImageToFile as saveImageToDirectory,
+  readImageFromFile,
+  deleteImageFile,
+  extractBase64FromDataUri,
+} from '@/utils/imageFiles';
 
 export interface SavedSticker {
   id: string;
   originalImage: string;
   stickerImage: string;
   createdAt: string;
+  updatedAt?: string;
   title?: string;
   imageWidth?: number;
   imageHeight?: number;
@@ -22,6 +48,7 @@ interface StickerMetadata {
   originalImagePath: string;
   stickerImagePath: string;
   createdAt: string;
+  updatedAt?: string;
   title?: string;
   imageWidth?: number;
   imageHeight?: number;
@@ -31,7 +58,8 @@ export interface User {
   id: string;
   email: string;
   name: string;
-  token?: string;
+  emailVerified?: boolean;
+  role?: 'user' | 'admin';
 }
 
 export interface UserContextType {
@@ -41,6 +69,10 @@ export interface UserContextType {
   login: (email: string, password: string) => Promise<void>;
   signup: (email: string, password: string, name?: string) => Promise<void>;
   logout: () => Promise<void>;
+  requestPasswordReset: (email: string) => Promise<void>;
+  resetPassword: (token: string, password: string) => Promise<void>;
+  sendVerificationEmail: () => Promise<void>;
+  verifyEmail: (token: string) => Promise<void>;
   saveSticker: (originalImage: string, stickerImage: string, title?: string) => Promise<void>;
   deleteSticker: (stickerId: string) => Promise<void>;
   refreshStickers: () => Promise<void>;
@@ -50,69 +82,10 @@ export interface UserContextType {
 
 const USER_STORAGE_KEY = '@user_data';
 const STICKERS_STORAGE_KEY = '@saved_stickers';
-const STICKERS_DIR = FileSystem.documentDirectory ? `${FileSystem.documentDirectory}stickers/` : '';
+const STICKERS_DIR = imageDirectory('stickers');
 
-const ensureStickersDirectory = async () => {
-  if (Platform.OS === 'web') return;
-  const dirInfo = await FileSystem.getInfoAsync(STICKERS_DIR);
-  if (!dirInfo.exists) {
-    await FileSystem.makeDirectoryAsync(STICKERS_DIR, { intermediates: true });
-  }
-};
-
-const saveImageToFile = async (base64Data: string, filename: string): Promise<string> => {
-  if (Platform.OS === 'web') {
-    await saveImageToIndexedDB(filename, base64Data);
-    return filename;
-  }
-  await ensureStickersDirectory();
-  const filePath = `${STICKERS_DIR}${filename}`;
-  await FileSystem.writeAsStringAsync(filePath, base64Data, {
-    encoding: FileSystem.EncodingType.Base64,
-  });
-  return filePath;
-};
-
-const readImageFromFile = async (filePath: string): Promise<string> => {
-  try {
-    if (Platform.OS === 'web') {
-      const base64 = await getImageFromIndexedDB(filePath);
-      if (!base64) {
-        throw new Error(`Image not found: ${filePath}`);
-      }
-      return `data:image/png;base64,${base64}`;
-    }
-    const base64 = await FileSystem.readAsStringAsync(filePath, {
-      encoding: FileSystem.EncodingType.Base64,
-    });
-    return `data:image/png;base64,${base64}`;
-  } catch (error) {
-    console.error('Error reading image from file:', error);
-    throw error;
-  }
-};
-
-const deleteImageFile = async (filePath: string): Promise<void> => {
-  try {
-    if (Platform.OS === 'web') {
-      await deleteImageFromIndexedDB(filePath);
-      return;
-    }
-    const fileInfo = await FileSystem.getInfoAsync(filePath);
-    if (fileInfo.exists) {
-      await FileSystem.deleteAsync(filePath);
-    }
-  } catch (error) {
-    console.error('Error deleting image file:', error);
-  }
-};
-
-const extractBase64FromDataUri = (dataUri: string): string => {
-  if (dataUri.startsWith('data:')) {
-    return dataUri.split(',')[1] || dataUri;
-  }
-  return dataUri;
-};
+const saveImageToFile = (base64Data: string, filename: string): Promise<string> =>
+  saveImageToDirectory(base64Data, filename, STICKERS_DIR);
 
 const getImageSizeFromDataUri = async (dataUri: string): Promise<{ width: number; height: number }> => {
   return new Promise((resolve) => {
@@ -135,6 +108,125 @@ const getImageSizeFromDataUri = async (dataUri: string): Promise<{ width: number
   });
 };
 
+const readStickerMetadata = async (): Promise<StickerMetadata[]> => {
+  const stored = await AsyncStorage.getItem(STICKERS_STORAGE_KEY);
+  if (!stored) return [];
+  const result = safeJsonParse<StickerMetadata[]>(stored);
+  return result.success && Array.isArray(result.data) ? result.data : [];
+};
+
+const loadStickerFromMetadata = async (metadata: StickerMetadata): Promise<SavedSticker> => {
+  const [originalImage, stickerImage] = await Promise.all([
+    readImageFromFile(metadata.originalImagePath),
+    readImageFromFile(metadata.stickerImagePath),
+  ]);
+  return {
+    id: metadata.id,
+    originalImage,
+    stickerImage,
+    createdAt: metadata.createdAt,
+    updatedAt: metadata.updatedAt,
+    title: metadata.title,
+    imageWidth: metadata.imageWidth,
+    imageHeight: metadata.imageHeight,
+  };
+};
+
+const loadStickerForSync = async (stickerId: string): Promise<SyncedSticker | null> => {
+  const metadata = (await readStickerMetadata()).find(m => m.id === stickerId);
+  if (!metadata) return null;
+  const sticker = await loadStickerFromMetadata(metadata);
+  return { ...sticker, updatedAt: getStickerTimestamp(sticker) };
+};
+
+const sortByNewest = <T extends { createdAt: string }>(items: T[]): T[] =>
+  [...items].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+// Writes server changes to local storage, last writer wins. Stickers with queued local
+// changes are skipped; our pending write reaches the server first and settles the conflict.
+const applyRemoteStickerChanges = async (
+  stickers: SyncedSticker[],
+  deleted: { id: string; deletedAt: string }[]
+): Promise<{ upserted: SavedSticker[]; deletedIds: string[] }> => {
+  const pending = await getPendingStickerIds();
+  let metadata = await readStickerMetadata();
+  const upserted: SavedSticker[] = [];
+  const deletedIds: string[] = [];
+
+  for (const remote of stickers) {
+    if (pending.has(remote.id)) continue;
+    const local = metadata.find(m => m.id === remote.id);
+    if (local && getStickerTimestamp(local) >= remote.updatedAt) continue;
+
+    const [originalImagePath, stickerImagePath] = await Promise.all([
+      saveImageToFile(extractBase64FromDataUri(remote.originalImage), `${remote.id}_original.png`),
+      saveImageToFile(extractBase64FromDataUri(remote.stickerImage), `${remote.id}_sticker.png`),
+    ]);
+    const entry: StickerMetadata = {
+      id: remote.id,
+      originalImagePath,
+      stickerImagePath,
+      createdAt: remote.createdAt,
+      updatedAt: remote.updatedAt,
+      title: remote.title,
+      imageWidth: remote.imageWidth,
+      imageHeight: remote.imageHeight,
+    };
+    metadata = [entry, ...metadata.filter(m => m.id !== remote.id)];
+    upserted.push({ ...remote });
+  }
+
+  for (const tombstone of deleted) {
+    if (pending.has(tombstone.id)) continue;
+    const local = metadata.find(m => m.id === tombstone.id);
+    if (!local || getStickerTimestamp(local) > tombstone.deletedAt) continue;
+
+    await Promise.all([
+      deleteImageFile(local.originalImagePath),
+      deleteImageFile(local.stickerImagePath),
+    ]);
+    metadata = metadata.filter(m => m.id !== tombstone.id);
+    deletedIds.push(tombstone.id);
+  }
+
+  if (upserted.length > 0 || deletedIds.length > 0) {
+    await AsyncStorage.setItem(STICKERS_STORAGE_KEY, JSON.stringify(sortByNewest(metadata)));
+  }
+  return { upserted, deletedIds };
+};
+
+const mergeStickerChanges = (
+  current: SavedSticker[],
+  applied: { upserted: SavedSticker[]; deletedIds: string[] }
+): SavedSticker[] => {
+  if (applied.upserted.length === 0 && applied.deletedIds.length === 0) return current;
+  const replaced = new Map(applied.upserted.map(s => [s.id, s]));
+  const removed = new Set(applied.deletedIds);
+  return sortByNewest([
+    ...current.filter(s => !replaced.has(s.id) && !removed.has(s.id)),
+    ...replaced.values(),
+  ]);
+};
+
+// Removes everything the signed-in account left on the device, so the next account starts clean
+const clearLocalAccountData = async (): Promise<void> => {
+  if (Platform.OS === 'web') {
+    await clearAllImagesFromIndexedDB();
+  } else {
+    const metadata = await readStickerMetadata();
+    await Promise.all(
+      metadata.flatMap(m => [
+        deleteImageFile(m.originalImagePath),
+        deleteImageFile(m.stickerImagePath),
+      ])
+    );
+  }
+
+  await AsyncStorage.multiRemove([USER_STORAGE_KEY, STICKERS_STORAGE_KEY]);
+  await clearStickerSyncState();
+  await clearActiveGenerationJob();
+};
+
 export const [UserProvider, useUser] = createContextHook<UserContextType>(() => {
   const [user, setUser] = useState<User | null>(null);
   const [savedStickers, setSavedStickers] = useState<SavedSticker[]>([]);
@@ -142,6 +234,7 @@ export const [UserProvider, useUser] = createContextHook<UserContextType>(() =>
   
   // Performance optimization: Debounce storage operations
   const storageTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const syncPromiseRef = useRef<Promise<void> | null>(null);
 
   const loadUserData = useCallback(async () => {
     try {
@@ -153,9 +246,10 @@ export const [UserProvider, useUser] = createContextHook<UserContextType>(() =>
 
       if (userData) {
         const userResult = safeJsonParse<User>(userData);
-        if (userResult.success && userResult.data && userResult.data.id) {
-          setUser(userResult.data);
-          await setAuthToken(userResult.data.token);
+        await waitForAuthToken();
+        if (userResult.success && userResult.data && userResult.data.id && getRefreshToken()) {
+          const { id, email, name, emailVerified, role } = userResult.data;
+          setUser({ id, email, name, emailVerified, role });
         } else {
           console.warn('Invalid user data format, clearing storage:', userResult.error);
           await AsyncStorage.removeItem(USER_STORAGE_KEY);
@@ -168,20 +262,7 @@ export const [UserProvider, useUser] = createContextHook<UserContextType>(() =>
           const loadedStickers = await Promise.all(
             stickersResult.data.map(async (metadata) => {
               try {
-                const [originalImage, stickerImage] = await Promise.all([
-                  readImageFromFile(metadata.originalImagePath),
-                  readImageFromFile(metadata.stickerImagePath),
-                ]);
-                const sticker: SavedSticker = {
-                  id: metadata.id,
-                  originalImage,
-                  stickerImage,
-                  createdAt: metadata.createdAt,
-                  title: metadata.title,
-                  imageWidth: metadata.imageWidth,
-                  imageHeight: metadata.imageHeight,
-                };
-                return sticker;
+                return await loadStickerFromMetadata(metadata);
               } catch (error) {
                 console.error(`Error loading sticker ${metadata.id}:`, error);
                 return null;
@@ -206,38 +287,97 @@ export const [UserProvider, useUser] = createContextHook<UserContextType>(() =>
     loadUserData();
   }, [loadUserData]);
 
+  // Single-flight: push queued local changes, then pull whatever changed on other devices
+  const syncStickers = useCallback((): Promise<void> => {
+    if (!syncPromiseRef.current) {
+      syncPromiseRef.current = (async () => {
+        try {
+          if (!getRefreshToken()) return;
+
+          const flushed = await flushStickerQueue(loadStickerForSync);
+          if (!flushed.ok) {
+            if (flushed.adopted.length > 0) {
+              const applied = await applyRemoteStickerChanges(flushed.adopted, []);
+              setSavedStickers(prev => mergeStickerChanges(prev, applied));
+            }
+            return;
+          }
+
+          const remote = await pullStickerChanges();
+          const applied = await applyRemoteStickerChanges(
+            [...flushed.adopted, ...remote.stickers],
+            remote.deleted
+          );
+          setSavedStickers(prev => mergeStickerChanges(prev, applied));
+          await markStickersSynced(remote.cursor);
+
+          // Stickers made before this device ever synced only exist locally; upload them once
+          if (remote.initial) {
+            const remoteIds = new Set(remote.stickers.map(s => s.id));
+            const localOnly = (await readStickerMetadata()).filter(m => !remoteIds.has(m.id));
+            for (const metadata of localOnly) {
+              await enqueueStickerOp({ type: 'save', stickerId: metadata.id, queuedAt: new Date().toISOString() });
+            }
+            if (localOnly.length > 0) {
+              await flushStickerQueue(loadStickerForSync);
+            }
+          }
+        } catch (error) {
+          console.error('[stickers] Sync failed:', error);
+        } finally {
+          syncPromiseRef.current = null;
+        }
+      })();
+    }
+    return syncPromiseRef.current;
+  }, []);
+
+  useEffect(() => {
+    if (user?.id) {
+      syncStickers();
+    }
+  }, [user?.id, syncStickers]);
+
+  // The server rejected our refresh token (expired, revoked or logged out elsewhere)
+  useEffect(() => {
+    setAuthExpiredHandler(() => {
+      console.log('[auth] Session expired, signing out');
+      setUser(null);
+      setSavedStickers([]);
+      clearLocalAccountData().catch((error) => {
+        console.error('[auth] Error clearing local account data:', error);
+      });
+    });
+    return () => setAuthExpiredHandler(undefined);
+  }, []);
+
   const login = useCallback(async (email: string, password: string) => {
     try {
-      console.log('[auth] Mock login for:', email);
-      
-      const mockUsersKey = '@mock_users';
-      const storedUsers = await AsyncStorage.getItem(mockUsersKey);
-      const users = storedUsers ? JSON.parse(storedUsers) : {};
+      console.log('[auth] Logging in:', email);
       
-      const userRecord = users[email.toLowerCase()];
-      
-      if (!userRecord || userRecord.password !== password) {
-        throw new Error('Invalid credentials');
-      }
-      
-      const authed: User = { 
-        id: userRecord.id, 
-        email: userRecord.email, 
-        name: userRecord.name, 
-        token: `mock_token_${Date.now()}` 
+      const result = await trpcClient.auth.login.mutate({ email, password });
+      const authed: User = {
+        id: result.id,
+        email: result.email,
+        name: result.name,
+        emailVerified: result.emailVerified,
+        role: result.role,
       };
       
+      console.log('[auth] Saving session tokens...');
+      await setAuthTokens(result);
       console.log('[auth] Saving user data to AsyncStorage...');
       await AsyncStorage.setItem(USER_STORAGE_KEY, JSON.stringify(authed));
       console.log('[auth] Setting user state...');
       setUser(authed);
-      console.log('[auth] Setting auth token...');
-      await setAuthToken(authed.token);
       console.log('[auth] Login process completed successfully');
     } catch (error: any) {
       console.error('[auth] Error logging in:', error);
       
-      if (error?.message?.includes('Invalid')) {
+      // Keep rate-limit details intact so the form can show how long to wait
+      if (getRetryAfterSeconds(error) !== null) {
+        throw error;
+      } else if (error?.message?.includes('Invalid')) {
         throw new Error('Invalid credentials');
       } else {
         throw new Error(error?.message || 'Login failed. Please try again.');
@@ -247,46 +387,30 @@ export const [UserProvider, useUser] = createContextHook<UserContextType>(() =>
 
   const signup = useCallback(async (email: string, password: string, name?: string) => {
     try {
-      console.log('[auth] Mock signup for:', email);
-      
-      const mockUsersKey = '@mock_users';
-      const storedUsers = await AsyncStorage.getItem(mockUsersKey);
-      const users = storedUsers ? JSON.parse(storedUsers) : {};
-      
-      const emailLower = email.toLowerCase();
-      
-      if (users[emailLower]) {
-        throw new Error('Email already in use');
-      }
+      console.log('[auth] Signing up:', email);
       
-      const newUser = {
-        id: `user_${Date.now()}`,
-        email: email,
-        name: name || email.split('@')[0],
-        password: password
-      };
-      
-      users[emailLower] = newUser;
-      await AsyncStorage.setItem(mockUsersKey, JSON.stringify(users));
-      
-      const authed: User = { 
-        id: newUser.id, 
-        email: newUser.email, 
-        name: newUser.name, 
-        token: `mock_token_${Date.now()}` 
+      const result = await trpcClient.auth.signup.mutate({ email, password, name });
+      const authed: User = {
+        id: result.id,
+        email: result.email,
+        name: result.name,
+        emailVerified: result.emailVerified,
+        role: result.role,
       };
       
+      console.log('[auth] Saving session tokens...');
+      await setAuthTokens(result);
       console.log('[auth] Saving user data to AsyncStorage...');
       await AsyncStorage.setItem(USER_STORAGE_KEY, JSON.stringify(authed));
       console.log('[auth] Setting user state...');
       setUser(authed);
-      console.log('[auth] Setting auth token...');
-      await setAuthToken(authed.token);
       console.log('[auth] Signup process completed successfully');
     } catch (error: any) {
       console.error('[auth] Error signing up:', error);
       
-      if (error?.message?.includes('already in use')) {
+      if (getRetryAfterSeconds(error) !== null) {
+        throw error;
+      } else if (error?.message?.includes('already in use')) {
         throw new Error('Email already in use');
       } else {
         throw new Error(error?.message || 'Signup failed. Please try again.');
@@ -296,22 +420,17 @@ export const [UserProvider, useUser] = createContextHook<UserContextType>(() =>
 
   const logout = useCallback(async () => {
     try {
-      const metadataStr = await AsyncStorage.getItem(STICKERS_STORAGE_KEY);
-      if (metadataStr) {
-        const metadata: StickerMetadata[] = JSON.parse(metadataStr);
-        if (Platform.OS === 'web') {
-          await clearAllImagesFromIndexedDB();
-        } else {
-          await Promise.all(
-            metadata.flatMap(m => [
-              deleteImageFile(m.originalImagePath),
-              deleteImageFile(m.stickerImagePath),
-            ])
-          );
-        }
+      // Give queued sticker changes one last chance to reach the server before we drop them
+      await syncStickers();
+
+      // Revoke the session server-side first; local sign-out proceeds even if offline
+      try {
+        await trpcClient.auth.logout.mutate({ refreshToken: getRefreshToken() });
+      } catch (error) {
+        console.error('[auth] Error revoking session:', error);
       }
-      
-      await AsyncStorage.multiRemove([USER_STORAGE_KEY, STICKERS_STORAGE_KEY]);
+
+      await clearLocalAccountData();
       setUser(null);
       await clearAuthToken();
       setSavedStickers([]);
@@ -319,8 +438,29 @@ export const [UserProvider, useUser] = createContextHook<UserContextType>(() =>
       console.error('Error logging out:', error);
       throw error;
     }
+  }, [syncStickers]);
+
+  const requestPasswordReset = useCallback(async (email: string) => {
+    await trpcClient.auth.requestPasswordReset.mutate({ email });
   }, []);
 
+  const resetPassword = useCallback(async (token: string, password: string) => {
+    await trpcClient.auth.resetPassword.mutate({ token, password });
+  }, []);
+
+  const sendVerificationEmail = useCallback(async () => {
+    await trpcClient.auth.sendVerification.mutate();
+  }, []);
+
+  const verifyEmail = useCallback(async (token: string) => {
+    await trpcClient.auth.verifyEmail.mutate({ token });
+    if (user) {
+      const verified: User = { ...user, emailVerified: true };
+      setUser(verified);
+      await AsyncStorage.setItem(USER_STORAGE_KEY, JSON.stringify(verified));
+    }
+  }, [user]);
+
   const saveSticker = useCallback(async (originalImage: string, stickerImage: string, title?: string) => {
     if (!user) return;
 
@@ -330,11 +470,13 @@ export const [UserProvider, useUser] = createContextHook<UserContextType>(() =>
       const processedStickerDataUri = stickerImage;
       const size = await getImageSizeFromDataUri(processedStickerDataUri);
       
+      const createdAt = new Date().toISOString();
       const newSticker: SavedSticker = {
         id: stickerId,
         originalImage,
         stickerImage: processedStickerDataUri,
-        createdAt: new Date().toISOString(),
+        createdAt,
+        updatedAt: createdAt,
         title,
         imageWidth: size.width,
         imageHeight: size.height,
@@ -362,6 +504,7 @@ export const [UserProvider, useUser] = createContextHook<UserContextType>(() =>
             originalImagePath,
             stickerImagePath,
             createdAt: newSticker.createdAt,
+            updatedAt: newSticker.updatedAt,
             title,
             imageWidth: newSticker.imageWidth,
             imageHeight: newSticker.imageHeight,
@@ -374,6 +517,9 @@ export const [UserProvider, useUser] = createContextHook<UserContextType>(() =>
           
           metadataArray.unshift(metadata);
           await AsyncStorage.setItem(STICKERS_STORAGE_KEY, JSON.stringify(metadataArray));
+
+          await enqueueStickerOp({ type: 'save', stickerId, queuedAt: createdAt });
+          syncStickers();
         } catch (error) {
           console.error('Error persisting sticker:', error);
           setSavedStickers(prev => prev.filter(s => s.id !== stickerId));
@@ -384,7 +530,7 @@ export const [UserProvider, useUser] = createContextHook<UserContextType>(() =>
       console.error('Error saving sticker:', error);
       throw error;
     }
-  }, [user, savedStickers]);
+  }, [user, savedStickers, syncStickers]);
 
   const deleteSticker = useCallback(async (stickerId: string) => {
     try {
@@ -406,15 +552,20 @@ export const [UserProvider, useUser] = createContextHook<UserContextType>(() =>
       
       const updatedStickers = savedStickers.filter(sticker => sticker.id !== stickerId);
       setSavedStickers(updatedStickers);
+
+      const deletedAt = new Date().toISOString();
+      await enqueueStickerOp({ type: 'delete', stickerId, queuedAt: deletedAt, deletedAt });
+      syncStickers();
     } catch (error) {
       console.error('Error deleting sticker:', error);
       throw error;
     }
-  }, [savedStickers]);
+  }, [savedStickers, syncStickers]);
 
   const refreshStickers = useCallback(async () => {
     await loadUserData();
-  }, [loadUserData]);
+    await syncStickers();
+  }, [loadUserData, syncStickers]);
   
   const getStickerById = useCallback(async (stickerId: string): Promise<SavedSticker | null> => {
     try {
@@ -423,25 +574,9 @@ export const [UserProvider, useUser] = createContextHook<UserContextType>(() =>
         return sticker;
       }
       
-      const stored = await AsyncStorage.getItem(STICKERS_STORAGE_KEY);
-      if (stored) {
-        const metadataResult = safeJsonParse<StickerMetadata[]>(stored);
-        if (metadataResult.success && Array.isArray(metadataResult.data)) {
-          const metadata = metadataResult.data.find(m => m.id === stickerId);
-          if (metadata) {
-            const [originalImage, stickerImage] = await Promise.all([
-              readImageFromFile(metadata.originalImagePath),
-              readImageFromFile(metadata.stickerImagePath),
-            ]);
-            return {
-              id: metadata.id,
-              originalImage,
-              stickerImage,
-              createdAt: metadata.createdAt,
-              title: metadata.title,
-            };
-          }
-        }
+      const metadata = (await readStickerMetadata()).find(m => m.id === stickerId);
+      if (metadata) {
+        return await loadStickerFromMetadata(metadata);
       }
       
       return null;
@@ -453,9 +588,10 @@ export const [UserProvider, useUser] = createContextHook<UserContextType>(() =>
 
   const updateSticker = useCallback(async (stickerId: string, newStickerImage: string) => {
     try {
+      const updatedAt = new Date().toISOString();
       const updatedStickers = savedStickers.map(sticker => 
         sticker.id === stickerId 
-          ? { ...sticker, stickerImage: newStickerImage }
+          ? { ...sticker, stickerImage: newStickerImage, updatedAt }
           : sticker
       );
       
@@ -480,7 +616,11 @@ export const [UserProvider, useUser] = createContextHook<UserContextType>(() =>
           stickerMetadata.stickerImagePath = newStickerImagePath;
           stickerMetadata.imageWidth = newSize.width;
           stickerMetadata.imageHeight = newSize.height;
+          stickerMetadata.updatedAt = updatedAt;
           await AsyncStorage.setItem(STICKERS_STORAGE_KEY, JSON.stringify(metadata));
+
+          await enqueueStickerOp({ type: 'update', stickerId, queuedAt: updatedAt });
+          syncStickers();
         }
       }
     } catch (error) {
@@ -488,7 +628,7 @@ export const [UserProvider, useUser] = createContextHook<UserContextType>(() =>
       await loadUserData();
       throw error;
     }
-  }, [savedStickers, loadUserData]);
+  }, [savedStickers, loadUserData, syncStickers]);
 
   const contextValue = useMemo(() => ({
     user,
@@ -497,12 +637,16 @@ export const [UserProvider, useUser] = createContextHook<UserContextType>(() =>
     login,
     signup,
     logout,
+    requestPasswordReset,
+    resetPassword,
+    sendVerificationEmail,
+    verifyEmail,
     saveSticker,
     deleteSticker,
     refreshStickers,
     getStickerById,
     updateSticker
-  }), [user, savedStickers, isLoading, login, signup, logout, saveSticker, deleteSticker, refreshStickers, getStickerById, updateSticker]);
+  }), [user, savedStickers, isLoading, login, signup, logout, requestPasswordReset, resetPassword, sendVerificationEmail, verifyEmail, saveSticker, deleteSticker, refreshStickers, getStickerById, updateSticker]);
 
   return contextValue;
 });
\ No newline at end of file
@@ -1,7 +1,10 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 const AUTH_TOKEN_KEY = '@auth_token';
+const REFRESH_TOKEN_KEY = '@refresh_token';
 let authToken: string | undefined;
+let refreshToken: string | undefined;
+let authExpiredHandler: (() => void) | undefined;
 
 // Initialize token from storage on app start
 let isInitialized = false;
@@ -9,11 +12,17 @@ let isInitialized = false;
 const initializeToken = async () => {
   if (isInitialized) return;
   try {
-    const storedToken = await AsyncStorage.getItem(AUTH_TOKEN_KEY);
+    const [storedToken, storedRefreshToken] = await Promise.all([
+      AsyncStorage.getItem(AUTH_TOKEN_KEY),
+      AsyncStorage.getItem(REFRESH_TOKEN_KEY),
+    ]);
     if (storedToken) {
       authToken = storedToken;
       console.log('[authToken] Token loaded from storage');
     }
+    if (storedRefreshToken) {
+      refreshToken = storedRefreshToken;
+    }
   } catch (error) {
     console.error('[authToken] Error loading token from storage:', error);
   }
@@ -21,7 +30,11 @@ const initializeToken = async () => {
 };
 
 // Initialize immediately
-initializeToken();
+const initialization = initializeToken();
+
+export function waitForAuthToken(): Promise<void> {
+  return initialization;
+}
 
 export async function setAuthToken(token: string | undefined) {
   console.log('[authToken] setAuthToken called with token:', !!token);
@@ -40,17 +53,44 @@ export async function setAuthToken(token: string | undefined) {
   }
 }
 
+export async function setAuthTokens(tokens: { token: string; refreshToken: string }) {
+  authToken = tokens.token;
+  refreshToken = tokens.refreshToken;
+  try {
+    await AsyncStorage.multiSet([
+      [AUTH_TOKEN_KEY, tokens.token],
+      [REFRESH_TOKEN_KEY, tokens.refreshToken],
+    ]);
+  } catch (error) {
+    console.error('[authToken] Error saving tokens to storage:', error);
+  }
+}
+
 export function getAuthToken(): string | undefined {
   return authToken;
 }
 
+export function getRefreshToken(): string | undefined {
+  return refreshToken;
+}
+
 export async function clearAuthToken() {
   console.log('[authToken] clearAuthToken called');
   authToken = undefined;
+  refreshToken = undefined;
   try {
-    await AsyncStorage.removeItem(AUTH_TOKEN_KEY);
+    await AsyncStorage.multiRemove([AUTH_TOKEN_KEY, REFRESH_TOKEN_KEY]);
     console.log('[authToken] Token cleared from storage');
   } catch (error) {
     console.error('[authToken] Error clearing token from storage:', error);
   }
 }
+
+// Called when the refresh token is rejected and the user has to sign in again
+export function setAuthExpiredHandler(handler: (() => void) | undefined) {
+  authExpiredHandler = handler;
+}
+
+export function notifyAuthExpired() {
+  authExpiredHandler?.();
+}
@@ -0,0 +1,183 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { TRPCClientError } from '@trpc/client';
+import { trpcClient } from '@/lib/trpc';
+import { safeJsonParse } from '@/utils/json';
+
+/**
+ * Offline-first sync between the on-device sticker library and the server.
+ *
+ * Local changes are recorded in a persisted queue and pushed in order whenever we can reach
+ * the backend; remote changes are pulled incrementally since the last successful sync.
+ * Conflicts resolve last-writer-wins on updatedAt (createdAt for stickers that predate it).
+ */
+
+const SYNC_QUEUE_KEY = '@sticker_sync_queue';
+// The server's change cursor; replaces the timestamp stored under '@sticker_last_sync'
+const SYNC_CURSOR_KEY = '@sticker_sync_cursor';
+
+export interface SyncedSticker {
+  id: string;
+  originalImage: string;
+  stickerImage: string;
+  createdAt: string;
+  updatedAt: string;
+  title?: string;
+  imageWidth?: number;
+  imageHeight?: number;
+}
+
+export type StickerSyncOp =
+  | { type: 'save' | 'update'; stickerId: string; queuedAt: string }
+  | { type: 'delete'; stickerId: string; queuedAt: string; deletedAt: string };
+
+export interface RemoteStickerChanges {
+  stickers: SyncedSticker[];
+  deleted: { id: string; deletedAt: string }[];
+  // True when this was a full listing rather than a delta
+  initial: boolean;
+  cursor: number;
+}
+
+// Serializes queue read-modify-write cycles so enqueue and flush never clobber each other
+let queueLock: Promise<unknown> = Promise.resolve();
+
+function withQueueLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = queueLock.then(fn, fn);
+  queueLock = run.catch(() => {});
+  return run;
+}
+
+async function readQueue(): Promise<StickerSyncOp[]> {
+  const stored = await AsyncStorage.getItem(SYNC_QUEUE_KEY);
+  if (!stored) return [];
+  const result = safeJsonParse<StickerSyncOp[]>(stored);
+  return result.success && Array.isArray(result.data) ? result.data : [];
+}
+
+async function writeQueue(queue: StickerSyncOp[]): Promise<void> {
+  await AsyncStorage.setItem(SYNC_QUEUE_KEY, JSON.stringify(queue));
+}
+
+export function getStickerTimestamp(sticker: { createdAt: string; updatedAt?: string }): string {
+  return sticker.updatedAt ?? sticker.createdAt;
+}
+
+export function enqueueStickerOp(op: StickerSyncOp): Promise<void> {
+  return withQueueLock(async () => {
+    const queue = await readQueue();
+    const existing = queue.find(item => item.stickerId === op.stickerId);
+    // An unsent save already carries the latest images, so a follow-up edit adds nothing
+    if (existing?.type === 'save' && op.type === 'update') return;
+    await writeQueue([...queue.filter(item => item.stickerId !== op.stickerId), op]);
+  });
+}
+
+export async function getPendingStickerIds(): Promise<Set<string>> {
+  const queue = await readQueue();
+  return new Set(queue.map(op => op.stickerId));
+}
+
+function getErrorCode(error: unknown): string | undefined {
+  return error instanceof TRPCClientError ? error.data?.code : undefined;
+}
+
+async function pushOp(
+  op: StickerSyncOp,
+  loadSticker: (stickerId: string) => Promise<SyncedSticker | null>
+): Promise<SyncedSticker | null> {
+  if (op.type === 'delete') {
+    await trpcClient.stickers.delete.mutate({ id: op.stickerId, deletedAt: op.deletedAt });
+    return null;
+  }
+
+  const sticker = await loadSticker(op.stickerId);
+  if (!sticker) {
+    // Deleted locally since it was queued; the delete op supersedes this one
+    return null;
+  }
+
+  if (op.type === 'update') {
+    try {
+      const result = await trpcClient.stickers.update.mutate({
+        id: sticker.id,
+        title: sticker.title,
+        stickerImage: sticker.stickerImage,
+        imageWidth: sticker.imageWidth,
+        imageHeight: sticker.imageHeight,
+        updatedAt: sticker.updatedAt,
+      });
+      return result.applied ? null : result.sticker;
+    } catch (error) {
+      // The server never saw the original save; fall through and send the whole sticker
+      if (getErrorCode(error) !== 'NOT_FOUND') throw error;
+    }
+  }
+
+  const result = await trpcClient.stickers.save.mutate(sticker);
+  return result.applied ? null : result.sticker;
+}
+
+/**
+ * Pushes queued local changes in order. Stops at the first failure so nothing is reordered;
+ * returns ok: false when the queue could not be drained (typically offline).
+ * `adopted` holds server versions that won a conflict against our queued write.
+ */
+export function flushStickerQueue(
+  loadSticker: (stickerId: string) => Promise<SyncedSticker | null>
+): Promise<{ ok: boolean; adopted: SyncedSticker[] }> {
+  return withQueueLock(async () => {
+    const queue = await readQueue();
+    const adopted: SyncedSticker[] = [];
+    let sent = 0;
+
+    for (const op of queue) {
+      try {
+        const winner = await pushOp(op, loadSticker);
+        if (winner) adopted.push(winner);
+        sent++;
+      } catch (error) {
+        const code = getErrorCode(error);
+        if (code === 'BAD_REQUEST') {
+          // Retrying a payload the server rejects would block the queue forever
+          console.error('[stickerSync] Dropping rejected change for sticker', op.stickerId, error);
+          sent++;
+          continue;
+        }
+        console.log('[stickerSync] Sync paused, will retry later:', error instanceof Error ? error.message : error);
+        await writeQueue(queue.slice(sent));
+        return { ok: false, adopted };
+      }
+    }
+
+    await writeQueue([]);
+    return { ok: true, adopted };
+  });
+}
+
+/**
+ * Fetches remote changes since the last successful sync, or the full library on first sync,
+ * a page at a time. Call markStickersSynced with the returned cursor once the changes are
+ * applied locally.
+ */
+export async function pullStickerChanges(): Promise<RemoteStickerChanges> {
+  const saved = await AsyncStorage.getItem(SYNC_CURSOR_KEY);
+  const changes: RemoteStickerChanges = { stickers: [], deleted: [], initial: saved === null, cursor: Number(saved ?? 0) };
+
+  let hasMore = true;
+  while (hasMore) {
+    const page = await trpcClient.stickers.list.query({ after: changes.cursor });
+    changes.stickers.push(...page.stickers);
+    changes.deleted.push(...page.deleted);
+    changes.cursor = page.cursor;
+    hasMore = page.hasMore;
+  }
+  return changes;
+}
+
+export async function markStickersSynced(cursor: number): Promise<void> {
+  await AsyncStorage.setItem(SYNC_CURSOR_KEY, String(cursor));
+}
+
+export async function clearStickerSyncState(): Promise<void> {
+  await withQueueLock(() => AsyncStorage.multiRemove([SYNC_QUEUE_KEY, SYNC_CURSOR_KEY]));
+}
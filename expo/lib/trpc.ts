@@ -1,8 +1,14 @@
 import { createTRPCReact } from "@trpc/react-query";
-import { createTRPCClient, httpLink } from "@trpc/client";
+import { createTRPCClient, httpLink, TRPCClientError } from "@trpc/client";
 import type { AppRouter } from "@/backend/trpc/app-router";
 import superjson from "superjson";
-import { getAuthToken } from "@/lib/authToken";
+import {
+  getAuthToken,
+  getRefreshToken,
+  setAuthTokens,
+  clearAuthToken,
+  notifyAuthExpired,
+} from "@/lib/authToken";
 
 export const trpc = createTRPCReact<AppRouter>();
 
@@ -26,6 +32,58 @@ const baseUrl = getBaseUrl();
 const trpcUrl = `${baseUrl}/api/trpc`;
 console.log('[trpc] Creating tRPC client with URL:', trpcUrl);
 
+// Bare client used only to exchange refresh tokens, so a failing refresh can never recurse
+const refreshClient = createTRPCClient<AppRouter>({
+  links: [
+    httpLink({
+      url: trpcUrl,
+      transformer: superjson,
+    }),
+  ],
+});
+
+let refreshPromise: Promise<string | null> | null = null;
+
+// Single-flight: concurrent 401s share one refresh round-trip
+export function refreshAccessToken(): Promise<string | null> {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const refreshToken = getRefreshToken();
+      if (!refreshToken) return null;
+      try {
+        console.log('[trpc] Access token rejected, refreshing session...');
+        const result = await refreshClient.auth.refresh.mutate({ refreshToken });
+        await setAuthTokens(result);
+        return result.token;
+      } catch (error) {
+        console.error('[trpc] Token refresh failed:', error);
+        // Network failures keep the session; only a rejected refresh token signs the user out
+        if (error instanceof TRPCClientError && error.data?.code === 'UNAUTHORIZED') {
+          await clearAuthToken();
+          notifyAuthExpired();
+        }
+        return null;
+      } finally {
+        refreshPromise = null;
+      }
+    })();
+  }
+  return refreshPromise;
+}
+
+async function retryWithRefreshedToken(
+  response: Response,
+  send: (headers: Record<string, string>) => Promise<Response>,
+  headers: unknown
+): Promise<Response> {
+  if (response.status !== 401) return response;
+
+  const token = await refreshAccessToken();
+  if (!token) return response;
+
+  return send({ ...(headers as Record<string, string> | undefined), authorization: `Bearer ${token}` });
+}
+
 export const trpcClient = createTRPCClient<AppRouter>({
   links: [
     httpLink({
@@ -48,12 +106,11 @@ export const trpcClient = createTRPCClient<AppRouter>({
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
         
-        const fetchOptions = {
-          ...options,
-          signal: controller.signal,
-        };
+        const send = (headers = options?.headers as Record<string, string> | undefined) =>
+          fetch(url, { ...options, headers, signal: controller.signal });
         
-        return fetch(url, fetchOptions)
+        return send()
+          .then(response => retryWithRefreshedToken(response, send, options?.headers))
           .then(response => {
             clearTimeout(timeoutId);
             console.log('[trpc] Response status:', response.status);
@@ -91,12 +148,11 @@ export const trpcReactClient = trpc.createClient({
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
         
-        const fetchOptions = {
-          ...options,
-          signal: controller.signal,
-        };
+        const send = (headers = options?.headers as Record<string, string> | undefined) =>
+          fetch(url, { ...options, headers, signal: controller.signal });
         
-        return fetch(url, fetchOptions)
+        return send()
+          .then(response => retryWithRefreshedToken(response, send, options?.headers))
           .then(response => {
             clearTimeout(timeoutId);
             return response;
@@ -0,0 +1,40 @@
+import { trpcClient } from '@/lib/trpc';
+import type { PaymentLine } from '@/services/stripe';
+
+type ShippingDestination = {
+  countryCode: string;
+  stateCode?: string;
+  city?: string;
+  zip: string;
+  address1?: string;
+};
+
+type ShippingRate = {
+  id: string;
+  name: string;
+  // Cents
+  amount: number;
+  currency: string;
+  minDeliveryDays?: number;
+  maxDeliveryDays?: number;
+};
+
+class ShippingService {
+  // Rates are quoted by the backend, which holds the Printful token and charges the same figure
+  async getRates(destination: ShippingDestination, items: PaymentLine[]): Promise<ShippingRate[]> {
+    console.log('[shipping] Fetching rates for:', destination.countryCode, items.length, 'cart lines');
+    const result = await trpcClient.shipping.rates.query({ destination, items });
+    return result.rates;
+  }
+
+  formatDeliveryEstimate(rate: ShippingRate): string | null {
+    const { minDeliveryDays: min, maxDeliveryDays: max } = rate;
+    if (!min && !max) return null;
+    if (min && max && min !== max) return `${min}–${max} business days`;
+    const days = max ?? min;
+    return `${days} business day${days === 1 ? '' : 's'}`;
+  }
+}
+
+export const shippingService = new ShippingService();
+export type { ShippingDestination, ShippingRate };
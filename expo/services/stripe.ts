@@ -1,67 +1,73 @@
+import { trpcClient } from '@/lib/trpc';
+import type { ShippingDestination, ShippingRate } from '@/services/shipping';
 
+type PaymentProduct =
+  | { kind: 'sheet'; size: '3x3' | '4x4' | '5.5x5.5' }
+  | { kind: 'individual'; size: '3x3' | '4x4' | '5.5x5.5' };
+
+type PaymentLine = {
+  product: PaymentProduct;
+  quantity: number;
+};
 
 type CreatePaymentIntentRequest = {
-  amount: number; // in cents
-  currency: string;
-  customerInfo: {
-    name: string;
-    email: string;
-    phone?: string;
-    address: string;
-    city: string;
-    zipCode: string;
+  items: PaymentLine[];
+  // A rate id from shippingService.getRates for the same destination and items
+  shipping: {
+    rateId: string;
+    destination: ShippingDestination;
   };
-  metadata?: Record<string, string>;
+  receiptEmail?: string;
+  // Checked with orders.applyPromo; the server claims it when the intent is created
+  promoCode?: string;
 };
 
 type CreatePaymentIntentResponse = {
   clientSecret: string;
   paymentIntentId: string;
+  // Server-computed amounts in cents; this is what the customer is charged
+  quote: {
+    currency: string;
+    subtotal: number;
+    discount: number;
+    shipping: number;
+    tax: number;
+    total: number;
+  };
+  shippingRate: ShippingRate;
+  promoCode?: string;
 };
 
-class StripeService {
-  private baseUrl = 'https://api.stripe.com/v1';
-  
-  // You'll need to set up a backend endpoint for this
-  // For now, using a mock endpoint - replace with your actual backend
-  private backendUrl = 'https://your-backend.com/api';
+type PaymentStatus = 'succeeded' | 'processing' | 'failed' | 'canceled';
+
+const STATUS_POLL_INTERVAL_MS = 1500;
+const STATUS_POLL_TIMEOUT_MS = 30000;
 
+class StripeService {
+  // The backend prices the order and creates the PaymentIntent with the server-held secret key
   async createPaymentIntent(request: CreatePaymentIntentRequest): Promise<CreatePaymentIntentResponse> {
-    try {
-      console.log('Creating payment intent for amount:', request.amount);
-      
-      // In production, this should call your backend endpoint
-      // Your backend will create the payment intent with Stripe
-      const response = await fetch(`${this.backendUrl}/create-payment-intent`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(request),
-      });
+    console.log('[stripe] Creating payment intent for', request.items.length, 'cart lines');
+    return trpcClient.payments.createIntent.mutate(request);
+  }
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+  /**
+   * Waits for the server to see the confirmed payment (via webhook or by asking Stripe).
+   * Card payments settle within seconds; anything still pending afterwards reports 'processing'.
+   */
+  async waitForPayment(paymentIntentId: string): Promise<PaymentStatus> {
+    const deadline = Date.now() + STATUS_POLL_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      const payment = await trpcClient.payments.status.query({ paymentIntentId });
+      if (payment.status === 'succeeded' || payment.status === 'canceled') {
+        return payment.status;
       }
-
-      const data = await response.json();
-      return data;
-    } catch (error) {
-      console.error('Error creating payment intent:', error);
-      throw error;
+      // Confirmation failed and Stripe is asking for a different payment method
+      if (payment.status === 'requires_payment_method') {
+        return 'failed';
+      }
+      await new Promise(resolve => setTimeout(resolve, STATUS_POLL_INTERVAL_MS));
     }
-  }
-
-  // Mock function for demo - replace with actual backend call
-  async createMockPaymentIntent(request: CreatePaymentIntentRequest): Promise<CreatePaymentIntentResponse> {
-    // This is a mock response for demo purposes
-    // In production, your backend would create a real payment intent
-    console.log('Creating mock payment intent...');
-    // Instant response - no delay for better UX
-    return {
-      clientSecret: `pi_mock_${Date.now()}_secret_mock`,
-      paymentIntentId: `pi_mock_${Date.now()}`,
-    };
+    return 'processing';
   }
 
   formatAmountForStripe(amount: number): number {
@@ -71,4 +77,4 @@ class StripeService {
 }
 
 export const stripeService = new StripeService();
-export type { CreatePaymentIntentRequest, CreatePaymentIntentResponse };
\ No newline at end of file
+export type { CreatePaymentIntentRequest, CreatePaymentIntentResponse, PaymentLine, PaymentProduct, PaymentStatus };
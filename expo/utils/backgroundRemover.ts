@@ -1,37 +1,46 @@
 import { Platform } from 'react-native';
+import { trpcClient } from '@/lib/trpc';
+import { RateLimitedError, getRetryAfterSeconds } from '@/utils/rateLimit';
+
+const REMOVAL_TIMEOUT_MS = 20000;
+const REMOVAL_POLL_INTERVAL_MS = 1000;
+
+// Submits to the backend removal queue; cached images come back in the submit response
+async function removeBackgroundOnServer(base64Image: string): Promise<string | null> {
+  let job = await trpcClient.backgroundRemoval.submit.mutate({ imageBase64: base64Image });
+  const started = Date.now();
+
+  while (job.status === 'queued' || job.status === 'running') {
+    if (Date.now() - started > REMOVAL_TIMEOUT_MS) {
+      console.log('Background removal job still running, giving up on', job.id);
+      return null;
+    }
+    await new Promise(resolve => setTimeout(resolve, REMOVAL_POLL_INTERVAL_MS));
+    job = await trpcClient.backgroundRemoval.job.query({ jobId: job.id });
+  }
+
+  if (job.status === 'succeeded' && job.resultBase64) {
+    console.log(job.cached ? 'Background removal served from cache' : 'Background removal complete');
+    return job.resultBase64;
+  }
+  console.log('Background removal job failed:', job.error);
+  return null;
+}
 
 export async function removeBackground(base64Image: string, aggressive: boolean = true): Promise<string> {
   console.log('Starting optimized background removal...');
 
   try {
-    const baseUrl = (process.env.EXPO_PUBLIC_RORK_API_BASE_URL && typeof process.env.EXPO_PUBLIC_RORK_API_BASE_URL === 'string')
-      ? process.env.EXPO_PUBLIC_RORK_API_BASE_URL
-      : (typeof window !== 'undefined' && window.location?.origin ? window.location.origin : '');
-
-    if (baseUrl) {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 20000);
-      const res = await fetch(`${baseUrl}/api/rmbg`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ imageBase64: base64Image }),
-        signal: controller.signal,
-      });
-      clearTimeout(timeoutId);
-      if (res.ok) {
-        const json = await res.json() as { base64?: string };
-        if (json?.base64 && typeof json.base64 === 'string') {
-          console.log('Replicate background removal complete');
-          return json.base64;
-        }
-      } else {
-        console.log('Replicate proxy responded with', res.status);
-      }
-    } else {
-      console.log('No base URL for backend; skipping Replicate proxy');
+    const result = await removeBackgroundOnServer(base64Image);
+    if (result) {
+      return result;
     }
   } catch (e) {
-    console.log('Replicate proxy failed, falling back:', e);
+    const retryAfter = getRetryAfterSeconds(e);
+    if (retryAfter !== null) {
+      throw new RateLimitedError(retryAfter);
+    }
+    console.log('Server background removal failed, falling back:', e);
   }
 
   if (Platform.OS === 'web') {
@@ -907,6 +916,10 @@ export async function processStickerImage(
     console.log('Processing complete - returning image');
     return processedImage;
   } catch (error) {
+    // Rate limits are surfaced to the user instead of silently skipping background removal
+    if (error instanceof RateLimitedError) {
+      throw error;
+    }
     console.log('Processing error, returning original:', error);
     return base64Image;
   }
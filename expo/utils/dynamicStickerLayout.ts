@@ -1,4 +1,5 @@
 import { Platform, Image } from 'react-native';
+import { gridPlacements, type PrintSheetPlacement } from '@/utils/printSheets';
 
 export type SheetSize = '3x3' | '4x4' | '5.5x5.5';
 
@@ -199,80 +200,18 @@ export function calculateDynamicLayouts(
   };
 }
 
-export async function generateDynamicStickerSheet(
-  stickerImageUri: string,
+export function dynamicSheetPlacements(
+  stickerImage: string,
   sheetSize: SheetSize,
   layout: DynamicLayoutOption
-): Promise<string> {
-  if (Platform.OS !== 'web') {
-    return stickerImageUri;
-  }
-  
-  const sheetSizeInches = SHEET_SIZES[sheetSize];
-  const sheetSizePixels = sheetSizeInches * DPI;
-  
-  return new Promise((resolve, reject) => {
-    const canvas = document.createElement('canvas');
-    canvas.width = sheetSizePixels;
-    canvas.height = sheetSizePixels;
-    const ctx = canvas.getContext('2d');
-    
-    if (!ctx) {
-      reject(new Error('Could not get canvas context'));
-      return;
-    }
-    
-    ctx.fillStyle = '#f8f9fa';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-    
-    const marginPixels = Math.round(OUTER_MARGIN_INCHES * DPI);
-    ctx.fillStyle = '#ffffff';
-    ctx.fillRect(
-      marginPixels,
-      marginPixels,
-      sheetSizePixels - 2 * marginPixels,
-      sheetSizePixels - 2 * marginPixels
-    );
-    
-    const img = new (window as any).Image();
-    img.crossOrigin = 'anonymous';
-    
-    img.onload = () => {
-      const [cols, rows] = layout.grid;
-      const gutterPixels = Math.round(GUTTER_INCHES * DPI);
-      
-      const totalGridWidth = cols * layout.stickerWidthPixels + (cols - 1) * gutterPixels;
-      const totalGridHeight = rows * layout.stickerHeightPixels + (rows - 1) * gutterPixels;
-      const usableWidth = sheetSizePixels - 2 * marginPixels;
-      const usableHeight = sheetSizePixels - 2 * marginPixels;
-      
-      const startX = marginPixels + Math.max(0, (usableWidth - totalGridWidth) / 2);
-      const startY = marginPixels + Math.max(0, (usableHeight - totalGridHeight) / 2);
-      
-      let drawn = 0;
-      for (let row = 0; row < rows && drawn < layout.count; row++) {
-        for (let col = 0; col < cols && drawn < layout.count; col++) {
-          const x = startX + col * (layout.stickerWidthPixels + gutterPixels);
-          const y = startY + row * (layout.stickerHeightPixels + gutterPixels);
-          
-          ctx.drawImage(
-            img,
-            x,
-            y,
-            layout.stickerWidthPixels,
-            layout.stickerHeightPixels
-          );
-          drawn++;
-        }
-      }
-      
-      resolve(canvas.toDataURL('image/png'));
-    };
-    
-    img.onerror = () => {
-      reject(new Error('Failed to load sticker image'));
-    };
-    
-    img.src = stickerImageUri;
+): PrintSheetPlacement[] {
+  return gridPlacements(stickerImage, {
+    sheetInches: SHEET_SIZES[sheetSize],
+    grid: layout.grid,
+    count: layout.count,
+    widthInches: layout.stickerWidthInches,
+    heightInches: layout.stickerHeightInches,
+    gutterInches: GUTTER_INCHES,
+    marginInches: OUTER_MARGIN_INCHES,
   });
 }
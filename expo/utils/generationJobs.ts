@@ -0,0 +1,122 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { trpcClient } from '@/lib/trpc';
+import { safeJsonParse } from '@/utils/json';
+import type { ImageEditResponse } from '@/utils/imageEditApi';
+
+/**
+ * Client side of the backend generation queue: submit, poll for progress, cancel,
+ * and remember the job the review screen is waiting on so it can reattach later.
+ */
+
+export type GenerationJob = Awaited<ReturnType<typeof trpcClient.generation.job.query>>;
+
+export type GenerationJobRequest =
+  | { kind: 'edit'; imageBase64: string; prompt: string }
+  | { kind: 'create'; prompt: string };
+
+// What the review screen needs to rebuild itself around a job after a restart
+export type ActiveGenerationJob = {
+  jobId: string;
+  originalImage: string;
+  isCustomGenerated?: boolean;
+  customPrompt?: string;
+};
+
+const ACTIVE_JOB_KEY = '@active_generation_job';
+const POLL_INTERVAL_MS = 1500;
+// Tolerate a few dropped polls (flaky network, app backgrounded) before giving up
+const MAX_CONSECUTIVE_POLL_FAILURES = 3;
+
+export class GenerationCancelledError extends Error {
+  constructor() {
+    super('Generation was cancelled');
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+export function isJobFinished(job: GenerationJob): boolean {
+  return job.status === 'succeeded' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+export async function submitGenerationJob(request: GenerationJobRequest): Promise<GenerationJob> {
+  return trpcClient.generation.submit.mutate(request);
+}
+
+export async function cancelGenerationJob(jobId: string): Promise<GenerationJob> {
+  return trpcClient.generation.cancel.mutate({ jobId });
+}
+
+/**
+ * Polls until the job finishes. Resolves with the generated image, rejects with the job's
+ * error or GenerationCancelledError. Aborting the signal only stops watching; the job keeps
+ * running on the server.
+ */
+export async function waitForGenerationJob(
+  jobId: string,
+  options: { onProgress?: (job: GenerationJob) => void; signal?: AbortSignal } = {}
+): Promise<ImageEditResponse> {
+  const { onProgress, signal } = options;
+  let failures = 0;
+
+  while (true) {
+    if (signal?.aborted) {
+      throw new Error('Stopped waiting for generation');
+    }
+
+    let job: GenerationJob;
+    try {
+      job = await trpcClient.generation.job.query({ jobId });
+      failures = 0;
+    } catch (error: any) {
+      failures++;
+      if (error?.data?.code === 'NOT_FOUND' || failures >= MAX_CONSECUTIVE_POLL_FAILURES) {
+        throw error;
+      }
+      console.warn('[generationJobs] Status poll failed, retrying:', error?.message);
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+      continue;
+    }
+    onProgress?.(job);
+
+    if (job.status === 'succeeded' && job.result) {
+      return job.result;
+    }
+    if (job.status === 'failed') {
+      throw new Error(job.error || 'Image generation failed');
+    }
+    if (job.status === 'cancelled') {
+      throw new GenerationCancelledError();
+    }
+
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+export async function runGenerationJob(
+  request: GenerationJobRequest,
+  onProgress?: (job: GenerationJob) => void
+): Promise<ImageEditResponse> {
+  const job = await submitGenerationJob(request);
+  onProgress?.(job);
+  return waitForGenerationJob(job.id, { onProgress });
+}
+
+export async function setActiveGenerationJob(job: ActiveGenerationJob): Promise<void> {
+  await AsyncStorage.setItem(ACTIVE_JOB_KEY, JSON.stringify(job));
+}
+
+export async function getActiveGenerationJob(): Promise<ActiveGenerationJob | null> {
+  const stored = await AsyncStorage.getItem(ACTIVE_JOB_KEY);
+  if (!stored) return null;
+  const result = safeJsonParse<ActiveGenerationJob>(stored);
+  return result.success && result.data?.jobId ? result.data : null;
+}
+
+export async function clearActiveGenerationJob(jobId?: string): Promise<void> {
+  if (jobId) {
+    const active = await getActiveGenerationJob();
+    // Another generation may have replaced this one in the meantime
+    if (active && active.jobId !== jobId) return;
+  }
+  await AsyncStorage.removeItem(ACTIVE_JOB_KEY);
+}
@@ -0,0 +1,71 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { saveImageToIndexedDB, getImageFromIndexedDB, deleteImageFromIndexedDB } from '@/utils/webImageStorage';
+
+// Images are kept out of AsyncStorage: files on native, IndexedDB on web. Callers store the
+// returned path and read the image back as a data URI.
+
+export const imageDirectory = (name: string): string =>
+  FileSystem.documentDirectory ? `${FileSystem.documentDirectory}${name}/` : '';
+
+const ensureDirectory = async (directory: string) => {
+  if (Platform.OS === 'web') return;
+  const dirInfo = await FileSystem.getInfoAsync(directory);
+  if (!dirInfo.exists) {
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+  }
+};
+
+export const saveImageToFile = async (base64Data: string, filename: string, directory: string): Promise<string> => {
+  if (Platform.OS === 'web') {
+    await saveImageToIndexedDB(filename, base64Data);
+    return filename;
+  }
+  await ensureDirectory(directory);
+  const filePath = `${directory}${filename}`;
+  await FileSystem.writeAsStringAsync(filePath, base64Data, {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  return filePath;
+};
+
+export const readImageFromFile = async (filePath: string): Promise<string> => {
+  try {
+    if (Platform.OS === 'web') {
+      const base64 = await getImageFromIndexedDB(filePath);
+      if (!base64) {
+        throw new Error(`Image not found: ${filePath}`);
+      }
+      return `data:image/png;base64,${base64}`;
+    }
+    const base64 = await FileSystem.readAsStringAsync(filePath, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+    return `data:image/png;base64,${base64}`;
+  } catch (error) {
+    console.error('Error reading image from file:', error);
+    throw error;
+  }
+};
+
+export const deleteImageFile = async (filePath: string): Promise<void> => {
+  try {
+    if (Platform.OS === 'web') {
+      await deleteImageFromIndexedDB(filePath);
+      return;
+    }
+    const fileInfo = await FileSystem.getInfoAsync(filePath);
+    if (fileInfo.exists) {
+      await FileSystem.deleteAsync(filePath);
+    }
+  } catch (error) {
+    console.error('Error deleting image file:', error);
+  }
+};
+
+export const extractBase64FromDataUri = (dataUri: string): string => {
+  if (dataUri.startsWith('data:')) {
+    return dataUri.split(',')[1] || dataUri;
+  }
+  return dataUri;
+};
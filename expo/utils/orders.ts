@@ -0,0 +1,79 @@
+import { memoryMadeColors } from '@/constants/colors';
+import { trpcClient } from '@/lib/trpc';
+
+export type OrderSummary = Awaited<ReturnType<typeof trpcClient.orders.list.query>>['orders'][number];
+export type OrderDetail = Awaited<ReturnType<typeof trpcClient.orders.get.query>>;
+export type CreateOrderRequest = Parameters<typeof trpcClient.orders.create.mutate>[0];
+export type PlacedOrder = Awaited<ReturnType<typeof trpcClient.orders.create.mutate>>;
+
+// Each request is tried this many times when it gets no answer
+const REQUEST_ATTEMPTS = 3;
+
+// Identifies one checkout attempt to the server; not a secret, only needs to be unique per user
+export function createIdempotencyKey(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}${Math.random().toString(36).slice(2, 10)}`;
+}
+
+async function withRetries<T>(what: string, request: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error: any) {
+      // Rejections such as an invalid address come back the same on every retry
+      const code: string | undefined = error?.data?.code;
+      if ((code && code !== 'INTERNAL_SERVER_ERROR') || attempt >= REQUEST_ATTEMPTS) {
+        throw error;
+      }
+      console.warn(`[orders] ${what} failed, retrying:`, error?.message);
+      await new Promise(resolve => setTimeout(resolve, attempt * 1000));
+    }
+  }
+}
+
+/**
+ * Uploads the print files for a checkout and returns their ids, in the order given. The server
+ * stores files by content, so identical images are sent once and a retried upload is harmless.
+ */
+export async function uploadPrintFiles(images: string[]): Promise<string[]> {
+  const uploaded = new Map<string, string>();
+  for (const image of images) {
+    if (uploaded.has(image)) continue;
+    const file = await withRetries('Uploading print file', () => trpcClient.printFiles.upload.mutate({ image }));
+    uploaded.set(image, file.id);
+  }
+  return images.map(image => uploaded.get(image) as string);
+}
+
+/**
+ * Creates the order for a checkout, retrying requests that got no answer. The idempotency key
+ * makes a retry return the order that a lost response had already created.
+ */
+export async function placeOrder(request: CreateOrderRequest): Promise<PlacedOrder> {
+  return withRetries('Creating order', () => trpcClient.orders.create.mutate(request));
+}
+
+export function formatMoney(cents: number, currency: string): string {
+  return `${currency.toUpperCase() === 'USD' ? '$' : `${currency.toUpperCase()} `}${(cents / 100).toFixed(2)}`;
+}
+
+// Printful method ids such as STANDARD or PRIORITY_EXPRESS, as "Standard" / "Priority express"
+export function formatShippingMethod(method: string): string {
+  const words = method.toLowerCase().replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+// Payment and fulfilment collapse into the one label customers care about
+export function describeOrderStatus(
+  order: Pick<OrderSummary, 'status' | 'paymentStatus'>
+): { label: string; color: string } {
+  if (order.status === 'failed') return { label: 'Failed', color: memoryMadeColors.error };
+  if (order.status === 'canceled' || order.paymentStatus === 'canceled') {
+    return { label: 'Canceled', color: memoryMadeColors.text.tertiary };
+  }
+  if (order.status === 'returned') return { label: 'Returned', color: memoryMadeColors.error };
+  if (order.status === 'fulfilled') return { label: 'Shipped', color: memoryMadeColors.success };
+  if (order.paymentStatus !== 'succeeded') return { label: 'Awaiting payment', color: memoryMadeColors.warning };
+  if (order.status === 'on_hold') return { label: 'On hold', color: memoryMadeColors.warning };
+  if (order.status === 'submitted') return { label: 'In production', color: memoryMadeColors.success };
+  return { label: 'Paid', color: memoryMadeColors.success };
+}
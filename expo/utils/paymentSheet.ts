@@ -0,0 +1,38 @@
+import { useCallback } from 'react';
+import { PaymentSheetError, useStripe } from '@stripe/stripe-react-native';
+
+export type PaymentSheetResult =
+  | { status: 'confirmed' }
+  | { status: 'canceled' }
+  | { status: 'failed'; message: string };
+
+type BillingDetails = { name?: string; email?: string; phone?: string };
+
+/**
+ * Presents Stripe's PaymentSheet for a PaymentIntent created by the backend. Card details go
+ * straight to Stripe; the app only ever sees the intent's client secret.
+ */
+export function usePaymentSheet() {
+  const { initPaymentSheet, presentPaymentSheet } = useStripe();
+
+  return useCallback(async (clientSecret: string, billingDetails?: BillingDetails): Promise<PaymentSheetResult> => {
+    const init = await initPaymentSheet({
+      merchantDisplayName: 'Memory Made',
+      paymentIntentClientSecret: clientSecret,
+      defaultBillingDetails: billingDetails,
+      returnURL: 'myapp://stripe-redirect',
+    });
+    if (init.error) {
+      return { status: 'failed', message: init.error.message };
+    }
+
+    const { error } = await presentPaymentSheet();
+    if (!error) {
+      return { status: 'confirmed' };
+    }
+    if (error.code === PaymentSheetError.Canceled) {
+      return { status: 'canceled' };
+    }
+    return { status: 'failed', message: error.message };
+  }, [initPaymentSheet, presentPaymentSheet]);
+}
@@ -0,0 +1,15 @@
+import { useCallback } from 'react';
+
+export type PaymentSheetResult =
+  | { status: 'confirmed' }
+  | { status: 'canceled' }
+  | { status: 'failed'; message: string };
+
+type BillingDetails = { name?: string; email?: string; phone?: string };
+
+// Stripe's PaymentSheet is native-only; on web we report that checkout needs the app
+export function usePaymentSheet() {
+  return useCallback(async (_clientSecret: string, _billingDetails?: BillingDetails): Promise<PaymentSheetResult> => {
+    return { status: 'failed', message: 'Payments are available in the iOS and Android app.' };
+  }, []);
+}
@@ -0,0 +1,80 @@
+import { SHEET_CONSTANTS, SheetSize } from '@/constants/stickerSheetLayouts';
+import { trpcClient } from '@/lib/trpc';
+
+// Where one sticker goes, in inches from the sheet's top-left; the sticker is fitted inside the box
+export type PrintSheetPlacement = {
+  // Data URI or base64 of the sticker PNG
+  image: string;
+  xInches: number;
+  yInches: number;
+  widthInches: number;
+  heightInches: number;
+  // Clockwise, about the centre of the box
+  rotation?: 0 | 90 | 180 | 270;
+};
+
+export type GridSpec = {
+  sheetInches: number;
+  grid: [number, number]; // [cols, rows]
+  count: number;
+  widthInches: number;
+  heightInches: number;
+  gutterInches: number;
+  marginInches: number;
+};
+
+/**
+ * Boxes for `count` copies of one sticker in a grid centred on the sheet, filled row by row.
+ */
+export function gridPlacements(image: string, spec: GridSpec): PrintSheetPlacement[] {
+  const [cols, rows] = spec.grid;
+  const usable = spec.sheetInches - 2 * spec.marginInches;
+  const gridWidth = cols * spec.widthInches + (cols - 1) * spec.gutterInches;
+  const gridHeight = rows * spec.heightInches + (rows - 1) * spec.gutterInches;
+  const startX = spec.marginInches + Math.max(0, (usable - gridWidth) / 2);
+  const startY = spec.marginInches + Math.max(0, (usable - gridHeight) / 2);
+
+  const placements: PrintSheetPlacement[] = [];
+  for (let index = 0; index < Math.min(spec.count, cols * rows); index++) {
+    const row = Math.floor(index / cols);
+    const col = index % cols;
+    placements.push({
+      image,
+      xInches: startX + col * (spec.widthInches + spec.gutterInches),
+      yInches: startY + row * (spec.heightInches + spec.gutterInches),
+      widthInches: spec.widthInches,
+      heightInches: spec.heightInches,
+    });
+  }
+  return placements;
+}
+
+/**
+ * Has the server render a sheet's print file, so web and mobile send the printer the same
+ * image. Each distinct sticker image is uploaded once. Returns the PNG as a data URI.
+ */
+export async function renderPrintSheet(sheetSize: SheetSize, placements: PrintSheetPlacement[]): Promise<string> {
+  const images: string[] = [];
+  const imageIndex = new Map<string, number>();
+  const boxes = placements.map(({ image, rotation, ...box }) => {
+    let sticker = imageIndex.get(image);
+    if (sticker === undefined) {
+      sticker = images.push(image) - 1;
+      imageIndex.set(image, sticker);
+    }
+    return { ...box, sticker, rotation: rotation ?? 0 };
+  });
+  if (images.length === 0) {
+    throw new Error('The sheet has no stickers');
+  }
+
+  const [stickerImageBase64, ...extraStickerImagesBase64] = images;
+  const result = await trpcClient.stickers.generateSheetLayout.mutate({
+    stickerImageBase64,
+    extraStickerImagesBase64,
+    sheetSize,
+    placements: boxes,
+    dpi: SHEET_CONSTANTS.DPI,
+  });
+  return `data:image/png;base64,${result.printImageBase64}`;
+}
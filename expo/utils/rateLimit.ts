@@ -0,0 +1,50 @@
+/**
+ * Helpers for surfacing backend 429 responses (rate limits and login lockouts)
+ */
+
+export class RateLimitedError extends Error {
+  retryAfterSeconds: number;
+
+  constructor(retryAfterSeconds: number, message: string = 'Too many requests') {
+    super(message);
+    this.name = 'RateLimitedError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * Returns the server's Retry-After hint for rate-limited errors, or null for any other error.
+ * Understands both plain-fetch RateLimitedErrors and tRPC TOO_MANY_REQUESTS errors.
+ */
+export function getRetryAfterSeconds(error: unknown): number | null {
+  if (error instanceof RateLimitedError) {
+    return error.retryAfterSeconds;
+  }
+  const data = (error as { data?: { code?: string; retryAfterSeconds?: number } } | null)?.data;
+  if (data?.code === 'TOO_MANY_REQUESTS') {
+    return typeof data.retryAfterSeconds === 'number' ? data.retryAfterSeconds : 60;
+  }
+  return null;
+}
+
+/**
+ * Parses a Retry-After header (seconds or HTTP date)
+ */
+export function parseRetryAfterHeader(value: string | null, fallbackSeconds: number = 60): number {
+  if (!value) return fallbackSeconds;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(1, Math.ceil(seconds));
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? fallbackSeconds : Math.max(1, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Human-friendly wait time, e.g. "45 seconds" or "3 minutes"
+ */
+export function formatRetryAfter(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}